@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import {
+  mergePartialAnalyses,
+  normalizeFindingText,
+  renderMarkdownReport,
+  withSummary,
+} from '../analysis-report.js';
+import type { PartialAnalysis } from '../schemas.js';
+
+const partial = (
+  chunkId: number,
+  overrides: Partial<PartialAnalysis> = {}
+): PartialAnalysis => ({
+  chunkId,
+  messageCount: 10,
+  commonQuestions: [],
+  effectPatterns: [],
+  painPoints: [],
+  bestPractices: [],
+  codeExamples: [],
+  ...overrides,
+});
+
+const first = partial(0, {
+  commonQuestions: [
+    { text: 'How do I provide a Layer?', messageIds: ['1', '2'] },
+    { text: 'When should I use Effect.gen?', messageIds: ['3'] },
+  ],
+  effectPatterns: [
+    {
+      pattern: 'Layer',
+      description: 'Providing services to programs',
+      exampleMessageIds: ['1'],
+    },
+  ],
+  codeExamples: [
+    {
+      pattern: 'Service',
+      code: 'const a = Effect.succeed(1)',
+      context: 'A minimal effect',
+      messageIds: ['4'],
+    },
+  ],
+});
+
+const second = partial(1, {
+  messageCount: 5,
+  commonQuestions: [
+    { text: 'how do I provide a  layer', messageIds: ['2', '11'] },
+  ],
+  effectPatterns: [
+    {
+      pattern: 'layer',
+      description: 'Providing services to programs.',
+      exampleMessageIds: ['12'],
+    },
+    {
+      pattern: 'Schema',
+      description: 'Decoding API responses',
+      exampleMessageIds: ['13'],
+    },
+  ],
+  painPoints: [{ text: 'Type inference with Schema.Type', messageIds: [] }],
+  codeExamples: [
+    {
+      pattern: 'Service',
+      code: 'const a =\n  Effect.succeed(1)',
+      context: 'Same code, reformatted',
+      messageIds: ['14'],
+    },
+  ],
+});
+
+describe('normalizeFindingText', () => {
+  it('ignores case, whitespace and trailing punctuation', () => {
+    expect(normalizeFindingText('  How do I   provide a Layer?! ')).toBe(
+      'how do i provide a layer'
+    );
+  });
+});
+
+describe('mergePartialAnalyses', () => {
+  it('counts duplicate questions and keeps their message ids', () => {
+    const merged = mergePartialAnalyses([first, second]);
+
+    expect(merged.commonQuestions).toEqual([
+      {
+        text: 'How do I provide a Layer?',
+        count: 2,
+        messageIds: ['1', '2', '11'],
+      },
+      { text: 'When should I use Effect.gen?', count: 1, messageIds: ['3'] },
+    ]);
+  });
+
+  it('counts pattern mentions and dedupes descriptions', () => {
+    const merged = mergePartialAnalyses([first, second]);
+
+    expect(merged.effectPatterns).toEqual([
+      {
+        pattern: 'Layer',
+        mentions: 2,
+        descriptions: ['Providing services to programs'],
+        exampleMessageIds: ['1', '12'],
+      },
+      {
+        pattern: 'Schema',
+        mentions: 1,
+        descriptions: ['Decoding API responses'],
+        exampleMessageIds: ['13'],
+      },
+    ]);
+  });
+
+  it('dedupes code examples ignoring whitespace', () => {
+    const merged = mergePartialAnalyses([first, second]);
+
+    expect(merged.codeExamples).toHaveLength(1);
+    expect(merged.codeExamples[0]?.messageIds).toEqual(['4', '14']);
+  });
+
+  it('does not depend on the order chunks finished in', () => {
+    expect(mergePartialAnalyses([second, first])).toEqual(
+      mergePartialAnalyses([first, second])
+    );
+  });
+
+  it('totals chunks and messages', () => {
+    const merged = mergePartialAnalyses([first, second]);
+
+    expect(merged.totalChunks).toBe(2);
+    expect(merged.totalMessages).toBe(15);
+    expect(merged.partialAnalyses.map((p) => p.chunkId)).toEqual([0, 1]);
+  });
+});
+
+describe('renderMarkdownReport', () => {
+  const analysis = withSummary(mergePartialAnalyses([first, second]), {
+    executiveSummary: 'Layers cause the most questions.',
+    recommendations: ['Document Layer composition'],
+  });
+  const markdown = renderMarkdownReport(analysis);
+
+  it('renders every section', () => {
+    for (const heading of [
+      '## Executive Summary',
+      '## Common Questions',
+      '## Effect-TS Patterns',
+      '## Pain Points',
+      '## Best Practices',
+      '## Code Examples',
+      '## Recommendations',
+    ]) {
+      expect(markdown).toContain(heading);
+    }
+  });
+
+  it('shows counts and message ids as evidence', () => {
+    expect(markdown).toContain(
+      '1. How do I provide a Layer? (×2) _(messages: 1, 2, 11)_'
+    );
+    expect(markdown).toContain('Mentioned 2 time(s). _(messages: 1, 12)_');
+  });
+
+  it('marks empty sections', () => {
+    expect(markdown).toContain('## Best Practices\n\n_None found._');
+  });
+
+  it('renders code examples as fenced TypeScript', () => {
+    expect(markdown).toContain(
+      '```typescript\nconst a = Effect.succeed(1)\n```'
+    );
+  });
+});
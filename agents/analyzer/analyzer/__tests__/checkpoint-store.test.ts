@@ -0,0 +1,111 @@
+import { FileSystem } from '@effect/platform/FileSystem';
+import { Path } from '@effect/platform/Path';
+import { NodeContext } from '@effect/platform-node';
+import { Effect, Option } from 'effect';
+import { describe, expect, it } from 'vitest';
+import {
+  chunkCheckpointKey,
+  readCheckpoint,
+  writeCheckpoint,
+} from '../checkpoint-store.js';
+import type { ChunkAnalysis, Message } from '../schemas.js';
+
+const chunk: Message[] = [
+  {
+    seqId: 1,
+    id: '1001',
+    content: 'How do I provide a Layer?',
+    author: { id: 'u1', name: 'alice' },
+    timestamp: '2025-01-01T00:00:00Z',
+  },
+];
+
+const analysis: ChunkAnalysis = {
+  commonQuestions: [
+    { text: 'How do I provide a Layer?', messageIds: ['1001'] },
+  ],
+  effectPatterns: [],
+  painPoints: [],
+  bestPractices: [],
+  codeExamples: [],
+};
+
+const runWithTempDir = <A, E>(
+  f: (directory: string) => Effect.Effect<A, E, FileSystem | Path>
+) =>
+  Effect.runPromise(
+    Effect.scoped(
+      Effect.gen(function* () {
+        const fs = yield* FileSystem;
+        const directory = yield* fs.makeTempDirectoryScoped();
+        return yield* f(directory);
+      })
+    ).pipe(Effect.provide(NodeContext.layer))
+  );
+
+describe('chunkCheckpointKey', () => {
+  it('is stable for the same chunk and prompt version', () => {
+    expect(chunkCheckpointKey(chunk, 'v1')).toBe(
+      chunkCheckpointKey([...chunk], 'v1')
+    );
+  });
+
+  it('changes with the prompt version or the messages', () => {
+    const key = chunkCheckpointKey(chunk, 'v1');
+
+    expect(chunkCheckpointKey(chunk, 'v2')).not.toBe(key);
+    expect(
+      chunkCheckpointKey([{ ...chunk[0], content: 'Edited' } as Message], 'v1')
+    ).not.toBe(key);
+  });
+});
+
+describe('checkpoints', () => {
+  it('reads back a written checkpoint', async () => {
+    const key = chunkCheckpointKey(chunk, 'v1');
+    const restored = await runWithTempDir((directory) =>
+      writeCheckpoint(directory, { key, promptVersion: 'v1', analysis }).pipe(
+        Effect.zipRight(readCheckpoint(directory, key))
+      )
+    );
+
+    expect(restored).toEqual(Option.some(analysis));
+  });
+
+  it('returns None when there is no checkpoint', async () => {
+    const restored = await runWithTempDir((directory) =>
+      readCheckpoint(directory, 'missing')
+    );
+
+    expect(Option.isNone(restored)).toBe(true);
+  });
+
+  it('ignores a corrupted checkpoint', async () => {
+    const restored = await runWithTempDir((directory) =>
+      Effect.gen(function* () {
+        const fs = yield* FileSystem;
+        const path = yield* Path;
+        yield* fs.writeFileString(path.join(directory, 'broken.json'), '{');
+        return yield* readCheckpoint(directory, 'broken');
+      })
+    );
+
+    expect(Option.isNone(restored)).toBe(true);
+  });
+
+  it('does not leave temporary files behind', async () => {
+    const files = await runWithTempDir((directory) =>
+      Effect.gen(function* () {
+        const fs = yield* FileSystem;
+        yield* writeCheckpoint(directory, {
+          key: 'abc',
+          promptVersion: 'v1',
+          analysis,
+        });
+        return yield* fs.readDirectory(directory);
+      })
+    );
+
+    expect(files).toEqual(['abc.json']);
+  });
+});
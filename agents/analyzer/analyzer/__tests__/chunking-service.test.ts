@@ -0,0 +1,147 @@
+import { readFileSync } from 'node:fs';
+import { Effect, Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import {
+  type ChunkingConfig,
+  chunkMessages,
+  chunkMessagesDefault,
+} from '../chunking-service.js';
+import { type Message, MessageCollectionSchema } from '../schemas.js';
+
+const readFixture = (name: string): unknown =>
+  JSON.parse(
+    readFileSync(new URL(`../test-data/${name}`, import.meta.url), 'utf-8')
+  );
+
+// Interleaved reply trees, threads and orphans
+const threaded = Schema.decodeUnknownSync(MessageCollectionSchema)(
+  readFixture('threaded-export.json')
+).messages;
+
+// The mock export has no seqIds and no reply or thread references
+const plain = (
+  readFixture('mock-export.json') as { messages: Message[] }
+).messages.map((message, index) => ({ ...message, seqId: index + 1 }));
+
+const CONFIG: ChunkingConfig = {
+  targetSize: 6,
+  useSmartChunking: true,
+  minRelationshipScore: 75,
+  maxChunkOverflow: 1.5,
+};
+const MAX_CHUNK_SIZE = CONFIG.targetSize * CONFIG.maxChunkOverflow;
+
+const chunk = (messages: readonly Message[], config: ChunkingConfig) =>
+  Effect.runSync(chunkMessages([...messages], config));
+
+/**
+ * Chunk index of every message, by message ID
+ */
+const chunkIndex = (chunks: readonly Message[][]) =>
+  new Map(
+    chunks.flatMap((messages, index) =>
+      messages.map((message) => [message.id, index] as const)
+    )
+  );
+
+/**
+ * Replies in a different chunk than the message they reply to, and
+ * threads spread over several chunks
+ */
+const splitConversations = (chunks: readonly Message[][]) => {
+  const index = chunkIndex(chunks);
+  const threadChunks = new Map<string, Set<number>>();
+  for (const message of threaded) {
+    if (message.threadId) {
+      const spread = threadChunks.get(message.threadId) ?? new Set();
+      threadChunks.set(
+        message.threadId,
+        spread.add(index.get(message.id) ?? -1)
+      );
+    }
+  }
+
+  return {
+    replies: threaded.filter(
+      (message) =>
+        message.replyTo !== undefined &&
+        index.get(message.replyTo) !== index.get(message.id)
+    ).length,
+    threads: [...threadChunks.values()].filter((spread) => spread.size > 1)
+      .length,
+  };
+};
+
+const ids = (chunks: readonly Message[][]) =>
+  chunks.flat().map((message) => message.id);
+
+describe('reply- and thread-aware chunking', () => {
+  const threadedResult = chunk(threaded, { ...CONFIG, useReplyThreads: true });
+  const smartResult = chunk(threaded, CONFIG);
+  const simpleResult = chunk(threaded, { ...CONFIG, useSmartChunking: false });
+
+  it('chunks every message exactly once', () => {
+    const all = threaded.map((message) => message.id).sort();
+    for (const result of [threadedResult, smartResult, simpleResult]) {
+      expect(ids(result.chunks).sort()).toEqual(all);
+    }
+    expect(threadedResult.strategy).toBe('threaded');
+  });
+
+  it('keeps reply trees and threads together within the size limit', () => {
+    expect(splitConversations(threadedResult.chunks)).toEqual({
+      replies: 0,
+      threads: 0,
+    });
+    expect(
+      Math.max(...threadedResult.chunks.map((c) => c.length))
+    ).toBeLessThanOrEqual(MAX_CHUNK_SIZE);
+  });
+
+  it('does better than the heuristic and fixed-size strategies', () => {
+    // Fixed-size chunks cut conversations apart
+    const simpleSplits = splitConversations(simpleResult.chunks);
+    expect(simpleSplits.replies + simpleSplits.threads).toBeGreaterThan(0);
+
+    // Consecutive messages always look related to the heuristic, so it
+    // keeps conversations together only by ignoring the size limit
+    expect(
+      Math.max(...smartResult.chunks.map((c) => c.length))
+    ).toBeGreaterThan(MAX_CHUNK_SIZE);
+  });
+
+  it('groups orphans with the heuristic', () => {
+    const order = ids(threadedResult.chunks);
+    const position = (text: string) =>
+      order.indexOf(
+        threaded.find((message) => message.content.startsWith(text))?.id ?? ''
+      );
+
+    // An answer posted without replying still joins its question's
+    // conversation, ahead of the messages posted in between
+    expect(position('Yes, see you there')).toBe(
+      position('Anyone going to Effect Days') + 1
+    );
+  });
+
+  it('falls back to the smart strategy without references', () => {
+    const fallback = chunk(plain, {
+      ...CONFIG,
+      targetSize: 3,
+      useReplyThreads: true,
+    });
+    const smart = chunk(plain, { ...CONFIG, targetSize: 3 });
+
+    expect(fallback.strategy).toBe('smart');
+    expect(fallback.chunks).toEqual(smart.chunks);
+  });
+
+  it('uses references by default', () => {
+    expect(Effect.runSync(chunkMessagesDefault([...threaded])).strategy).toBe(
+      'threaded'
+    );
+    expect(Effect.runSync(chunkMessagesDefault([...plain])).strategy).toBe(
+      'smart'
+    );
+  });
+});
@@ -0,0 +1,194 @@
+import { FileSystem } from '@effect/platform/FileSystem';
+import { Path } from '@effect/platform/Path';
+import { NodeContext } from '@effect/platform-node';
+import { Effect } from 'effect';
+import { describe, expect, it } from 'vitest';
+import type { Pattern } from '../../../../packages/toolkit/src/schemas/pattern.js';
+import {
+  buildCoverageReport,
+  draftPatternId,
+  renderCoverageMarkdown,
+  renderPatternDraft,
+  writePatternDrafts,
+} from '../coverage-gaps.js';
+
+const pattern = (id: string, title: string, tags: string[]): Pattern => ({
+  id,
+  title,
+  description: title,
+  category: 'core-concepts',
+  difficulty: 'intermediate',
+  tags,
+  examples: [],
+  useCases: ['Core Concepts'],
+});
+
+const PATTERNS = [
+  pattern('retry-with-backoff', 'Retry failed operations with backoff', [
+    'retry',
+    'schedule',
+    'backoff',
+  ]),
+  pattern('provide-layers', 'Provide services with Layer', [
+    'layer',
+    'service',
+    'dependency',
+  ]),
+];
+
+const ANALYSIS = {
+  commonQuestions: [
+    {
+      text: 'How do I integrate Prisma transactions?',
+      count: 1,
+      messageIds: ['1'],
+    },
+    {
+      text: 'How do I retry with exponential backoff?',
+      count: 4,
+      messageIds: ['2', '3'],
+    },
+    {
+      text: 'How do I write a custom Stream operator?',
+      count: 3,
+      messageIds: ['4', '5', '6'],
+    },
+  ],
+  effectPatterns: [
+    {
+      pattern: 'Layer',
+      mentions: 2,
+      descriptions: ['Providing services'],
+      exampleMessageIds: ['7'],
+    },
+  ],
+};
+
+describe('buildCoverageReport', () => {
+  const report = buildCoverageReport(ANALYSIS, PATTERNS, { minScore: 1 });
+
+  it('splits topics into covered and gaps', () => {
+    expect(report.covered.map((topic) => topic.topic)).toEqual([
+      'How do I retry with exponential backoff?',
+      'Layer',
+    ]);
+    expect(report.covered[0]?.matches[0]?.id).toBe('retry-with-backoff');
+    expect(report.covered[1]?.kind).toBe('pattern');
+  });
+
+  it('ranks gaps by frequency with their evidence', () => {
+    expect(
+      report.gaps.map(({ topic, frequency, messageIds }) => ({
+        topic,
+        frequency,
+        messageIds,
+      }))
+    ).toEqual([
+      {
+        topic: 'How do I write a custom Stream operator?',
+        frequency: 3,
+        messageIds: ['4', '5', '6'],
+      },
+      {
+        topic: 'How do I integrate Prisma transactions?',
+        frequency: 1,
+        messageIds: ['1'],
+      },
+    ]);
+  });
+
+  it('counts a question and pattern with the same text once', () => {
+    const merged = buildCoverageReport(
+      {
+        commonQuestions: [{ text: 'Layer', count: 1, messageIds: ['1'] }],
+        effectPatterns: ANALYSIS.effectPatterns,
+      },
+      PATTERNS
+    );
+    const topics = [...merged.covered, ...merged.gaps];
+
+    expect(topics).toHaveLength(1);
+    expect(topics[0]?.frequency).toBe(3);
+    expect(topics[0]?.messageIds).toEqual(['1', '7']);
+  });
+
+  it('renders unanswered topics before covered ones', () => {
+    const markdown = renderCoverageMarkdown(report);
+
+    expect(markdown).toContain('2 of 4 topic(s)');
+    expect(markdown.indexOf('## Unanswered Topics')).toBeLessThan(
+      markdown.indexOf('## Covered Topics')
+    );
+    expect(markdown).toContain(
+      '1. How do I write a custom Stream operator? [question] (×3) _(messages: 4, 5, 6)_'
+    );
+  });
+});
+
+const DRAFT_FRONTMATTER =
+  /^---\ntitle: "How do I write a custom Stream operator\?"\nid: "how-do-i-write-a-custom-stream-operator"\n/;
+
+describe('pattern drafts', () => {
+  const [gap, nextGap] = buildCoverageReport(ANALYSIS, PATTERNS, {
+    minScore: 1,
+  }).gaps;
+
+  it('derives a kebab-case ID cut at a word boundary', () => {
+    expect(draftPatternId('How do I write a custom Stream operator?')).toBe(
+      'how-do-i-write-a-custom-stream-operator'
+    );
+    expect(draftPatternId('word '.repeat(20)).length).toBeLessThanOrEqual(60);
+    expect(draftPatternId('???')).toBe('untitled-pattern');
+  });
+
+  it('has the frontmatter and sections the ingest pipeline requires', () => {
+    if (!gap) {
+      throw new Error('expected a gap');
+    }
+    const draft = renderPatternDraft(gap);
+
+    expect(draft).toMatch(DRAFT_FRONTMATTER);
+    for (const field of ['skillLevel', 'useCase', 'summary']) {
+      expect(draft).toContain(`\n${field}: `);
+    }
+    expect(draft).toContain('## Good Example\n\n```typescript\n');
+    expect(draft).toContain('## Anti-Pattern');
+    expect(draft).toContain('_(messages: 4, 5, 6)_');
+  });
+
+  it('writes the top gaps and keeps existing files', async () => {
+    const gaps = [gap, nextGap].flatMap((topic) => (topic ? [topic] : []));
+
+    const result = await Effect.runPromise(
+      Effect.scoped(
+        Effect.gen(function* () {
+          const fs = yield* FileSystem;
+          const path = yield* Path;
+          const directory = path.join(
+            yield* fs.makeTempDirectoryScoped(),
+            'raw'
+          );
+          const existing = path.join(
+            directory,
+            `${draftPatternId(nextGap?.topic ?? '')}.mdx`
+          );
+
+          const first = yield* writePatternDrafts(directory, gaps, 1);
+          yield* fs.writeFileString(existing, 'edited');
+          const second = yield* writePatternDrafts(
+            directory,
+            gaps,
+            gaps.length
+          );
+          const kept = yield* fs.readFileString(existing);
+          return { first, second, kept };
+        })
+      ).pipe(Effect.provide(NodeContext.layer))
+    );
+
+    expect(result.first.written).toHaveLength(1);
+    expect(result.second.written).toHaveLength(0);
+    expect(result.second.skipped).toHaveLength(gaps.length);
+    expect(result.kept).toBe('edited');
+  });
+});
@@ -1,40 +1,68 @@
+import { fileURLToPath } from 'node:url';
 import { FileSystem } from '@effect/platform/FileSystem';
 import { Path } from '@effect/platform/Path';
 import { Effect } from 'effect';
-import { describe, expect, it } from 'vitest';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
 import { app, type GraphState } from '../graph.js';
 import { withLiveRuntime } from './runtime.js';
 
-const describeLive = process.env.OPENAI_API_KEY ? describe : describe.skip;
+// Replay recorded LLM responses, so the suite runs offline; a missing
+// recording fails the test. Re-record with LLM_CASSETTE_MODE=record and
+// an API key.
+const CASSETTE_PATH = fileURLToPath(
+  new URL('./cassettes/graph.json', import.meta.url)
+);
+const MOCK_EXPORT_PATH = fileURLToPath(
+  new URL('../test-data/mock-export.json', import.meta.url)
+);
+const cassetteMode =
+  process.env.LLM_CASSETTE_MODE === 'record' ? 'record' : 'replay';
 
 const EXPECTED_TOTAL_MESSAGES = 50;
 const REPORT_PREVIEW_LENGTH = 500;
 
-describeLive('Analyzer graph (live)', () => {
+describe('Analyzer graph', () => {
+  const savedEnv = {
+    LLM_CASSETTE: process.env.LLM_CASSETTE,
+    LLM_CASSETTE_MODE: process.env.LLM_CASSETTE_MODE,
+  };
+
+  beforeAll(() => {
+    process.env.LLM_CASSETTE = CASSETTE_PATH;
+    process.env.LLM_CASSETTE_MODE = cassetteMode;
+  });
+
+  afterAll(() => {
+    for (const [name, value] of Object.entries(savedEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
   it('processes the mock export end to end', async () => {
-    const { finalState, reportText } = await withLiveRuntime(
+    const { finalState, reportText, report } = await withLiveRuntime(
       Effect.gen(function* () {
         const fs = yield* FileSystem;
         const path = yield* Path;
-        const fixturePath = path.resolve(
-          process.cwd(),
-          'scripts',
-          'analyzer',
-          'test-data',
-          'mock-export.json'
-        );
         const tempDir = yield* fs.makeTempDirectoryScoped();
         const outputPath = path.join(tempDir, 'report.txt');
         const graphState = (yield* Effect.promise(() =>
           app.invoke({
-            inputFile: fixturePath,
+            inputFile: MOCK_EXPORT_PATH,
             outputFile: outputPath,
           })
         )) as GraphState;
         const reportContent = yield* fs.readFileString(outputPath);
+        const reportJson = yield* fs.readFileString(
+          path.join(tempDir, 'report.json')
+        );
         return {
           finalState: graphState,
           reportText: reportContent,
+          report: JSON.parse(reportJson),
         };
       })
     );
@@ -43,6 +71,10 @@ describeLive('Analyzer graph (live)', () => {
     expect(finalState.partialAnalyses?.length ?? 0).toBeGreaterThan(0);
     expect(finalState.finalReport?.trim().length ?? 0).toBeGreaterThan(0);
     expect(reportText.trim().length).toBeGreaterThan(0);
+    expect(report.totalChunks).toBe(finalState.chunkCount);
+    expect(report.partialAnalyses).toHaveLength(
+      finalState.partialAnalyses?.length ?? 0
+    );
   });
 
   it('processes real Discord Q&A data (discord-qna.json)', async () => {
@@ -0,0 +1,118 @@
+import { FileSystem } from '@effect/platform/FileSystem';
+import { Path } from '@effect/platform/Path';
+import { NodeContext } from '@effect/platform-node';
+import { Effect, Either } from 'effect';
+import { describe, expect, it } from 'vitest';
+import {
+  promptKey,
+  readCassette,
+  recordChatModel,
+  replayChatModel,
+} from '../llm-cassette.js';
+import type { ChatModelShape } from '../llm-providers.js';
+
+const MODEL = { provider: 'openai', modelName: 'gpt-4o' } as const;
+
+/**
+ * A ChatModel that answers every prompt with its upper-cased text and
+ * counts its calls
+ */
+const echoModel = () => {
+  const calls: string[] = [];
+  const model: ChatModelShape = {
+    provider: MODEL.provider,
+    model: MODEL.modelName,
+    invoke: (prompt) =>
+      Effect.sync(() => {
+        calls.push(prompt);
+        return prompt.toUpperCase();
+      }),
+  };
+  return { calls, model };
+};
+
+const runWithCassette = <A, E>(
+  f: (cassettePath: string) => Effect.Effect<A, E, FileSystem | Path>
+) =>
+  Effect.runPromise(
+    Effect.scoped(
+      Effect.gen(function* () {
+        const fs = yield* FileSystem;
+        const path = yield* Path;
+        const directory = yield* fs.makeTempDirectoryScoped();
+        return yield* f(path.join(directory, 'cassettes', 'llm.json'));
+      })
+    ).pipe(Effect.provide(NodeContext.layer))
+  );
+
+describe('LLM cassettes', () => {
+  it('replays recorded responses without calling the provider', async () => {
+    const { calls, model } = echoModel();
+
+    const replayed = await runWithCassette((cassettePath) =>
+      Effect.gen(function* () {
+        const recorder = yield* recordChatModel(model, cassettePath);
+        yield* recorder.invoke('first prompt');
+        yield* recorder.invoke('second prompt');
+
+        const player = yield* replayChatModel(cassettePath, MODEL);
+        return yield* Effect.all([
+          player.invoke('second prompt'),
+          player.invoke('first prompt'),
+        ]);
+      })
+    );
+
+    expect(replayed).toEqual(['SECOND PROMPT', 'FIRST PROMPT']);
+    expect(calls).toEqual(['first prompt', 'second prompt']);
+  });
+
+  it('keeps earlier recordings when recording again', async () => {
+    const { model } = echoModel();
+
+    const cassette = await runWithCassette((cassettePath) =>
+      Effect.gen(function* () {
+        yield* (yield* recordChatModel(model, cassettePath)).invoke('a');
+        yield* (yield* recordChatModel(model, cassettePath)).invoke('b');
+        return yield* readCassette(cassettePath);
+      })
+    );
+
+    expect(cassette.interactions.map((i) => i.key)).toEqual([
+      promptKey('a'),
+      promptKey('b'),
+    ]);
+  });
+
+  it('records concurrent responses', async () => {
+    const { model } = echoModel();
+    const prompts = ['a', 'b', 'c', 'd'];
+
+    const cassette = await runWithCassette((cassettePath) =>
+      Effect.gen(function* () {
+        const recorder = yield* recordChatModel(model, cassettePath);
+        yield* Effect.forEach(prompts, recorder.invoke, {
+          concurrency: 'unbounded',
+        });
+        return yield* readCassette(cassettePath);
+      })
+    );
+
+    expect(cassette.interactions).toHaveLength(prompts.length);
+  });
+
+  it('fails for a prompt that was not recorded', async () => {
+    const result = await runWithCassette((cassettePath) =>
+      Effect.gen(function* () {
+        const player = yield* replayChatModel(cassettePath, MODEL);
+        return yield* Effect.either(player.invoke('unknown prompt'));
+      })
+    );
+
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left._tag).toBe('LLMError');
+      expect(result.left.message).toContain('LLM_CASSETTE_MODE=record');
+    }
+  });
+});
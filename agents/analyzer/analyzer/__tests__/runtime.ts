@@ -1,12 +1,18 @@
 import { NodeContext, NodeFileSystem, NodePath } from '@effect/platform-node';
 import { Effect, Layer } from 'effect';
+import { AnalyzerConfigService } from '../config-service.js';
+import { ChatModelLive } from '../llm-providers.js';
 import { LLMServiceLive } from '../services.js';
 
 export const LiveLayer = Layer.mergeAll(
   NodeContext.layer,
   NodeFileSystem.layer,
   NodePath.layer,
-  LLMServiceLive
+  LLMServiceLive.pipe(
+    Layer.provide(ChatModelLive),
+    Layer.provide(AnalyzerConfigService.Live),
+    Layer.provide(NodeContext.layer)
+  )
 );
 
 export const withLiveRuntime = <A, E, R>(effect: Effect.Effect<A, E, R>) =>
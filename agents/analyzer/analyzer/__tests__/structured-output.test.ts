@@ -0,0 +1,138 @@
+import { Effect, Either, Schema } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { LLMInvalidResponseError } from '../errors.js';
+import { AnalysisSummarySchema } from '../schemas.js';
+import { decodeLLMResponse, invokeStructured } from '../structured-output.js';
+
+const summary = {
+  executiveSummary: 'Layers cause the most questions.',
+  recommendations: ['Document Layer composition'],
+};
+
+const decodeSummary = decodeLLMResponse(
+  AnalysisSummarySchema,
+  'AnalysisSummary JSON'
+);
+
+/**
+ * An `invoke` that returns the given responses in order and records
+ * the prompts it was called with
+ */
+const scripted = (responses: readonly string[]) => {
+  const prompts: string[] = [];
+  const invoke = (prompt: string) =>
+    Effect.sync(() => {
+      prompts.push(prompt);
+      return responses[prompts.length - 1] ?? '';
+    });
+  return { prompts, invoke };
+};
+
+describe('decodeLLMResponse', () => {
+  it('decodes JSON matching the schema', async () => {
+    const result = await Effect.runPromise(
+      decodeSummary(JSON.stringify(summary))
+    );
+    expect(result).toEqual(summary);
+  });
+
+  it('accepts JSON wrapped in a code fence', async () => {
+    const result = await Effect.runPromise(
+      decodeSummary(`\`\`\`json\n${JSON.stringify(summary)}\n\`\`\``)
+    );
+    expect(result).toEqual(summary);
+  });
+
+  it('fails with LLMInvalidResponseError on invalid JSON', async () => {
+    const result = await Effect.runPromise(
+      Effect.either(decodeSummary('Here is the summary: ...'))
+    );
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left).toBeInstanceOf(LLMInvalidResponseError);
+      expect(result.left.reason).toContain('not valid JSON');
+    }
+  });
+
+  it('reports schema mismatches', async () => {
+    const result = await Effect.runPromise(
+      Effect.either(decodeSummary(JSON.stringify({ recommendations: [] })))
+    );
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left.expectedFormat).toBe('AnalysisSummary JSON');
+      expect(result.left.reason).toContain('executiveSummary');
+    }
+  });
+});
+
+describe('invokeStructured', () => {
+  it('includes the JSON Schema in the prompt', async () => {
+    const { prompts, invoke } = scripted([JSON.stringify(summary)]);
+    await Effect.runPromise(
+      invokeStructured({
+        prompt: 'Summarize.',
+        schema: AnalysisSummarySchema,
+        expectedFormat: 'AnalysisSummary JSON',
+        invoke,
+      })
+    );
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain('"executiveSummary"');
+  });
+
+  it('re-prompts with the decode error until the response is valid', async () => {
+    const { prompts, invoke } = scripted(['not json', JSON.stringify(summary)]);
+    const result = await Effect.runPromise(
+      invokeStructured({
+        prompt: 'Summarize.',
+        schema: AnalysisSummarySchema,
+        expectedFormat: 'AnalysisSummary JSON',
+        invoke,
+      })
+    );
+    expect(result).toEqual(summary);
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain('not valid JSON');
+    expect(prompts[1]).toContain('not json');
+  });
+
+  it('fails after maxRepairs re-prompts', async () => {
+    const { prompts, invoke } = scripted(['{}', '{}', '{}']);
+    const result = await Effect.runPromise(
+      Effect.either(
+        invokeStructured({
+          prompt: 'Summarize.',
+          schema: AnalysisSummarySchema,
+          expectedFormat: 'AnalysisSummary JSON',
+          invoke,
+          maxRepairs: 1,
+        })
+      )
+    );
+    expect(prompts).toHaveLength(2);
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left._tag).toBe('LLMInvalidResponseError');
+    }
+  });
+
+  it('passes invoke errors through without re-prompting', async () => {
+    let calls = 0;
+    const result = await Effect.runPromise(
+      Effect.either(
+        invokeStructured({
+          prompt: 'Summarize.',
+          schema: Schema.Struct({ ok: Schema.Boolean }),
+          expectedFormat: 'JSON',
+          invoke: () => {
+            calls++;
+            return Effect.fail('network down' as const);
+          },
+        })
+      )
+    );
+    expect(calls).toBe(1);
+    expect(result).toEqual(Either.left('network down'));
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Analysis Report
+ *
+ * Merges per-chunk analyses into the final analysis and renders it as
+ * Markdown. Merging is deterministic: findings are deduplicated by their
+ * normalized text, counted, ranked by count (ties keep chunk order), and
+ * keep the message IDs of every chunk that reported them.
+ */
+
+import type {
+  AnalysisSummary,
+  CodeExample,
+  FinalAnalysis,
+  Finding,
+  PartialAnalysis,
+  PatternMention,
+  RankedFinding,
+} from './schemas.js';
+
+// Message IDs shown per item in Markdown; report.json keeps all of them
+const MAX_EVIDENCE_IDS = 5;
+
+const WHITESPACE_REGEX = /\s+/g;
+const TRAILING_PUNCTUATION_REGEX = /[\s?.!:;,]+$/;
+
+/**
+ * The final analysis before the LLM summary is added
+ */
+export type MergedAnalysis = Omit<FinalAnalysis, 'summary'>;
+
+// ============================================================================
+// Merging
+// ============================================================================
+
+/**
+ * Key under which findings are considered the same: case, whitespace
+ * and trailing punctuation are ignored
+ */
+export const normalizeFindingText = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(WHITESPACE_REGEX, ' ')
+    .replace(TRAILING_PUNCTUATION_REGEX, '')
+    .trim();
+
+/**
+ * Append IDs not yet in the list, keeping first-seen order
+ */
+const addIds = (ids: string[], more: readonly string[]) => {
+  for (const id of more) {
+    if (!ids.includes(id)) {
+      ids.push(id);
+    }
+  }
+};
+
+/**
+ * Sort by count, highest first; the sort is stable, so ties keep the
+ * order in which they were first reported
+ */
+const rankBy = <T>(items: T[], count: (item: T) => number): T[] =>
+  items.sort((a, b) => count(b) - count(a));
+
+const mergeFindings = (findings: readonly Finding[]): RankedFinding[] => {
+  const merged = new Map<
+    string,
+    { text: string; count: number; messageIds: string[] }
+  >();
+
+  for (const finding of findings) {
+    const key = normalizeFindingText(finding.text);
+    const entry = merged.get(key);
+    if (entry) {
+      entry.count++;
+      addIds(entry.messageIds, finding.messageIds);
+    } else {
+      const messageIds: string[] = [];
+      addIds(messageIds, finding.messageIds);
+      merged.set(key, { text: finding.text.trim(), count: 1, messageIds });
+    }
+  }
+
+  return rankBy([...merged.values()], (finding) => finding.count);
+};
+
+const mergePatterns = (
+  partials: readonly PartialAnalysis[]
+): PatternMention[] => {
+  const merged = new Map<
+    string,
+    {
+      pattern: string;
+      mentions: number;
+      descriptions: string[];
+      descriptionKeys: Set<string>;
+      exampleMessageIds: string[];
+    }
+  >();
+
+  for (const pattern of partials.flatMap((partial) => partial.effectPatterns)) {
+    const key = normalizeFindingText(pattern.pattern);
+    let entry = merged.get(key);
+    if (!entry) {
+      entry = {
+        pattern: pattern.pattern.trim(),
+        mentions: 0,
+        descriptions: [],
+        descriptionKeys: new Set(),
+        exampleMessageIds: [],
+      };
+      merged.set(key, entry);
+    }
+
+    entry.mentions++;
+    const descriptionKey = normalizeFindingText(pattern.description);
+    if (!entry.descriptionKeys.has(descriptionKey)) {
+      entry.descriptionKeys.add(descriptionKey);
+      entry.descriptions.push(pattern.description.trim());
+    }
+    addIds(entry.exampleMessageIds, pattern.exampleMessageIds);
+  }
+
+  return rankBy(
+    [...merged.values()].map(
+      ({ pattern, mentions, descriptions, exampleMessageIds }) => ({
+        pattern,
+        mentions,
+        descriptions,
+        exampleMessageIds,
+      })
+    ),
+    (pattern) => pattern.mentions
+  );
+};
+
+/**
+ * Code examples deduplicated by their code, ignoring whitespace
+ */
+const mergeCodeExamples = (examples: readonly CodeExample[]): CodeExample[] => {
+  const merged = new Map<string, CodeExample & { messageIds: string[] }>();
+
+  for (const example of examples) {
+    const key = example.code.replace(WHITESPACE_REGEX, ' ').trim();
+    const entry = merged.get(key);
+    if (entry) {
+      addIds(entry.messageIds, example.messageIds);
+    } else {
+      const messageIds: string[] = [];
+      addIds(messageIds, example.messageIds);
+      merged.set(key, { ...example, messageIds });
+    }
+  }
+
+  return [...merged.values()];
+};
+
+/**
+ * Merge partial analyses in chunk order
+ *
+ * The result does not depend on the order in which chunks finished.
+ */
+export const mergePartialAnalyses = (
+  partials: readonly PartialAnalysis[]
+): MergedAnalysis => {
+  const ordered = [...partials].sort((a, b) => a.chunkId - b.chunkId);
+
+  return {
+    totalChunks: ordered.length,
+    totalMessages: ordered.reduce(
+      (sum, partial) => sum + partial.messageCount,
+      0
+    ),
+    commonQuestions: mergeFindings(
+      ordered.flatMap((partial) => partial.commonQuestions)
+    ),
+    effectPatterns: mergePatterns(ordered),
+    painPoints: mergeFindings(ordered.flatMap((partial) => partial.painPoints)),
+    bestPractices: mergeFindings(
+      ordered.flatMap((partial) => partial.bestPractices)
+    ),
+    codeExamples: mergeCodeExamples(
+      ordered.flatMap((partial) => partial.codeExamples)
+    ),
+    partialAnalyses: ordered,
+  };
+};
+
+/**
+ * Add the LLM-written summary to a merged analysis
+ */
+export const withSummary = (
+  merged: MergedAnalysis,
+  summary: AnalysisSummary
+): FinalAnalysis => ({ ...merged, summary });
+
+// ============================================================================
+// Markdown Rendering
+// ============================================================================
+
+/**
+ * ` _(messages: a, b, +3 more)_`, or nothing without message IDs
+ */
+export const formatEvidence = (messageIds: readonly string[]): string => {
+  if (messageIds.length === 0) {
+    return '';
+  }
+  const shown = messageIds.slice(0, MAX_EVIDENCE_IDS).join(', ');
+  const more = messageIds.length - MAX_EVIDENCE_IDS;
+  return ` _(messages: ${shown}${more > 0 ? `, +${more} more` : ''})_`;
+};
+
+const renderFindings = (findings: readonly RankedFinding[]): string[] =>
+  findings.length === 0
+    ? ['_None found._']
+    : findings.map(
+        (finding, index) =>
+          `${index + 1}. ${finding.text} (×${finding.count})${formatEvidence(finding.messageIds)}`
+      );
+
+const renderPatterns = (patterns: readonly PatternMention[]): string[] =>
+  patterns.length === 0
+    ? ['_None found._', '']
+    : patterns.flatMap((pattern) => [
+        `### ${pattern.pattern}`,
+        '',
+        `Mentioned ${pattern.mentions} time(s).${formatEvidence(pattern.exampleMessageIds)}`,
+        '',
+        ...pattern.descriptions.map((description) => `- ${description}`),
+        '',
+      ]);
+
+const renderCodeExamples = (examples: readonly CodeExample[]): string[] =>
+  examples.length === 0
+    ? ['_None found._', '']
+    : examples.flatMap((example) => [
+        `### ${example.pattern}`,
+        '',
+        `${example.context}${formatEvidence(example.messageIds)}`,
+        '',
+        '```typescript',
+        example.code.trim(),
+        '```',
+        '',
+      ]);
+
+/**
+ * Render the final analysis as a Markdown report
+ */
+export const renderMarkdownReport = (analysis: FinalAnalysis): string => {
+  const lines = [
+    '# Effect-TS Discord Q&A Analysis',
+    '',
+    `Analyzed ${analysis.totalMessages} messages in ${analysis.totalChunks} chunk(s).`,
+    '',
+    '## Executive Summary',
+    '',
+    analysis.summary.executiveSummary.trim(),
+    '',
+    '## Common Questions',
+    '',
+    ...renderFindings(analysis.commonQuestions),
+    '',
+    '## Effect-TS Patterns',
+    '',
+    ...renderPatterns(analysis.effectPatterns),
+    '## Pain Points',
+    '',
+    ...renderFindings(analysis.painPoints),
+    '',
+    '## Best Practices',
+    '',
+    ...renderFindings(analysis.bestPractices),
+    '',
+    '## Code Examples',
+    '',
+    ...renderCodeExamples(analysis.codeExamples),
+    '## Recommendations',
+    '',
+    ...(analysis.summary.recommendations.length === 0
+      ? ['_None._']
+      : analysis.summary.recommendations.map(
+          (recommendation) => `- ${recommendation}`
+        )),
+    '',
+  ];
+
+  return lines.join('\n');
+};
@@ -0,0 +1,104 @@
+/**
+ * Chunk Checkpoint Store
+ *
+ * Saves each chunk analysis to disk as soon as it completes, so a rerun
+ * can skip chunks that were already analyzed. Checkpoints are
+ * content-addressed: the file name is a hash of the chunk's messages and
+ * the prompt version, so changed data or a changed prompt never reuses a
+ * stale analysis.
+ */
+
+import { createHash } from 'node:crypto';
+import { FileSystem } from '@effect/platform/FileSystem';
+import { Path } from '@effect/platform/Path';
+import { Effect, Option, Schema } from 'effect';
+import { FileWriteError } from './errors.js';
+import {
+  type ChunkAnalysis,
+  type ChunkCheckpoint,
+  ChunkCheckpointSchema,
+  type Message,
+} from './schemas.js';
+
+const CHECKPOINT_EXTENSION = '.json';
+
+/**
+ * Key of a chunk's checkpoint: a SHA-256 of the prompt version and the
+ * chunk's messages
+ */
+export const chunkCheckpointKey = (
+  chunk: readonly Message[],
+  promptVersion: string
+): string =>
+  createHash('sha256')
+    .update(promptVersion)
+    .update('\n')
+    .update(JSON.stringify(chunk))
+    .digest('hex');
+
+/**
+ * Read a checkpoint
+ *
+ * A missing checkpoint is `None`; so is one that cannot be read or no
+ * longer matches its schema, which is logged and then re-analyzed.
+ */
+export const readCheckpoint = (directory: string, key: string) =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem;
+    const path = yield* Path;
+    const file = path.join(directory, `${key}${CHECKPOINT_EXTENSION}`);
+
+    const exists = yield* fs
+      .exists(file)
+      .pipe(Effect.orElseSucceed(() => false));
+    if (!exists) {
+      return Option.none<ChunkAnalysis>();
+    }
+
+    return yield* fs.readFileString(file).pipe(
+      Effect.flatMap((content) =>
+        Effect.try(() => JSON.parse(content) as unknown)
+      ),
+      Effect.flatMap(Schema.decodeUnknown(ChunkCheckpointSchema)),
+      Effect.map((checkpoint) =>
+        checkpoint.key === key
+          ? Option.some(checkpoint.analysis)
+          : Option.none<ChunkAnalysis>()
+      ),
+      Effect.catchAll((error) =>
+        Effect.logWarning(
+          `Ignoring unreadable checkpoint ${file}: ${error.message}`
+        ).pipe(Effect.as(Option.none<ChunkAnalysis>()))
+      )
+    );
+  });
+
+/**
+ * Save a checkpoint
+ *
+ * The file is written under a temporary name and then renamed, so a
+ * crash mid-write never leaves a truncated checkpoint behind.
+ */
+export const writeCheckpoint = (
+  directory: string,
+  checkpoint: ChunkCheckpoint
+) =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem;
+    const path = yield* Path;
+    const file = path.join(
+      directory,
+      `${checkpoint.key}${CHECKPOINT_EXTENSION}`
+    );
+    const temporaryFile = `${file}.tmp`;
+
+    const encoded = yield* Schema.encode(ChunkCheckpointSchema)(checkpoint);
+    yield* fs.makeDirectory(directory, { recursive: true });
+    yield* fs.writeFileString(
+      temporaryFile,
+      `${JSON.stringify(encoded, null, 2)}\n`
+    );
+    yield* fs.rename(temporaryFile, file);
+  }).pipe(
+    Effect.mapError((cause) => new FileWriteError({ path: directory, cause }))
+  );
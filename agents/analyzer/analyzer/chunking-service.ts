@@ -3,6 +3,8 @@
  *
  * Implements smart chunking that respects Q&A pairs and conversation threads.
  * Uses a multi-signal heuristic to identify related messages and keep them together.
+ * When messages carry reply and thread references, conversations are rebuilt
+ * from those instead, and the heuristic is only used for orphan messages.
  */
 
 import { Effect } from 'effect';
@@ -22,6 +24,8 @@ type Message = {
     name: string;
   };
   timestamp: string;
+  replyTo?: string;
+  threadId?: string;
 };
 
 /**
@@ -42,8 +46,18 @@ export type ChunkingConfig = {
   readonly useSmartChunking: boolean;
   readonly minRelationshipScore: number;
   readonly maxChunkOverflow: number; // How much over target size is acceptable
+  readonly useReplyThreads?: boolean; // Rebuild conversations from reply/thread references
 };
 
+/**
+ * How messages were chunked
+ *
+ * - threaded: conversations rebuilt from reply and thread references
+ * - smart: relationship heuristic over consecutive messages
+ * - simple: fixed-size chunks
+ */
+export type ChunkingStrategy = 'threaded' | 'smart' | 'simple';
+
 /**
  * Chunking result with metadata
  */
@@ -52,7 +66,7 @@ export type ChunkingResult = {
   readonly totalMessages: number;
   readonly chunkCount: number;
   readonly averageChunkSize: number;
-  readonly strategy: 'smart' | 'simple';
+  readonly strategy: ChunkingStrategy;
 };
 
 const QUESTION_REGEX =
@@ -203,6 +217,134 @@ const smartChunk = (
   return chunks;
 };
 
+/**
+ * Whether any message carries a reply or thread reference
+ */
+const hasReferences = (messages: Message[]): boolean =>
+  messages.some(
+    (msg) => msg.replyTo !== undefined || msg.threadId !== undefined
+  );
+
+/**
+ * Conversation of a message's thread, or of the message it replies to
+ */
+const referencedConversation = (
+  msg: Message,
+  byThread: ReadonlyMap<string, Message[]>,
+  byMessage: ReadonlyMap<string, Message[]>
+): Message[] | undefined => {
+  if (msg.threadId !== undefined && byThread.has(msg.threadId)) {
+    return byThread.get(msg.threadId);
+  }
+  return msg.replyTo === undefined ? undefined : byMessage.get(msg.replyTo);
+};
+
+/**
+ * Group messages into conversations
+ *
+ * Messages of a thread form one conversation, and a reply joins the
+ * conversation of the message it replies to. Orphans (outside threads, and
+ * not replying to an exported message) fall back to the heuristic: they join
+ * the previous orphan's conversation when their relationship score reaches
+ * `minRelationshipScore`, and start a new conversation otherwise.
+ * Conversations are ordered by their first message.
+ */
+const buildConversations = (
+  messages: Message[],
+  config: ChunkingConfig
+): Message[][] => {
+  const conversations: Message[][] = [];
+  const byMessage = new Map<string, Message[]>();
+  const byThread = new Map<string, Message[]>();
+  let previousOrphan: MessageWithMetadata | undefined;
+
+  for (const msg of messages) {
+    let conversation = referencedConversation(msg, byThread, byMessage);
+
+    if (!conversation && msg.threadId === undefined) {
+      const analyzed = analyzeMessage(msg);
+      if (
+        previousOrphan &&
+        calculateRelationshipScore(analyzed, previousOrphan) >=
+          config.minRelationshipScore
+      ) {
+        conversation = byMessage.get(previousOrphan.message.id);
+      }
+      previousOrphan = analyzed;
+    }
+
+    if (!conversation) {
+      conversation = [];
+      conversations.push(conversation);
+    }
+    conversation.push(msg);
+    byMessage.set(msg.id, conversation);
+    if (msg.threadId !== undefined && !byThread.has(msg.threadId)) {
+      byThread.set(msg.threadId, conversation);
+    }
+  }
+
+  return conversations;
+};
+
+/**
+ * Reply- and thread-aware chunking
+ *
+ * Whole conversations are packed into chunks of about `targetSize`
+ * messages; a chunk may grow to `targetSize * maxChunkOverflow` to keep a
+ * conversation in one piece. Only conversations larger than that are split,
+ * with the smart heuristic.
+ */
+const threadedChunk = (
+  messages: Message[],
+  config: ChunkingConfig
+): Message[][] => {
+  const maxSize = Math.max(
+    config.targetSize,
+    Math.floor(config.targetSize * config.maxChunkOverflow)
+  );
+  const chunks: Message[][] = [];
+  let currentChunk: Message[] = [];
+
+  for (const conversation of buildConversations(messages, config)) {
+    const full =
+      currentChunk.length >= config.targetSize ||
+      currentChunk.length + conversation.length > maxSize;
+    if (currentChunk.length > 0 && full) {
+      chunks.push(currentChunk);
+      currentChunk = [];
+    }
+
+    if (conversation.length > maxSize) {
+      chunks.push(...smartChunk(conversation, config));
+    } else {
+      currentChunk.push(...conversation);
+    }
+  }
+
+  if (currentChunk.length > 0) {
+    chunks.push(currentChunk);
+  }
+
+  return chunks;
+};
+
+/**
+ * Strategy for a set of messages: reply/thread-aware chunking needs
+ * messages that carry references
+ */
+const selectStrategy = (
+  messages: Message[],
+  config: ChunkingConfig
+): ChunkingStrategy => {
+  if (!config.useSmartChunking) {
+    return 'simple';
+  }
+  return config.useReplyThreads && hasReferences(messages)
+    ? 'threaded'
+    : 'smart';
+};
+
 /**
  * Simple fixed-size chunking (fallback)
  */
@@ -251,9 +393,18 @@ export const chunkMessages = (
     }
 
     // Perform chunking
-    const chunks = config.useSmartChunking
-      ? smartChunk(messages, config)
-      : simpleChunk(messages, config.targetSize);
+    const strategy = selectStrategy(messages, config);
+    let chunks: Message[][];
+    switch (strategy) {
+      case 'threaded':
+        chunks = threadedChunk(messages, config);
+        break;
+      case 'smart':
+        chunks = smartChunk(messages, config);
+        break;
+      default:
+        chunks = simpleChunk(messages, config.targetSize);
+    }
 
     // Calculate statistics
     const result: ChunkingResult = {
@@ -261,7 +412,7 @@ export const chunkMessages = (
       totalMessages: messages.length,
       chunkCount: chunks.length,
       averageChunkSize: Math.round(messages.length / chunks.length),
-      strategy: config.useSmartChunking ? 'smart' : 'simple',
+      strategy,
     };
 
     // Log chunking results
@@ -279,6 +430,9 @@ export const chunkMessages = (
 
 /**
  * Convenience function: chunk messages with default configuration
+ *
+ * Messages with reply or thread references are chunked by conversation;
+ * others with the smart heuristic.
  */
 export const chunkMessagesDefault = (
   messages: Message[]
@@ -288,6 +442,7 @@ export const chunkMessagesDefault = (
     useSmartChunking: true,
     minRelationshipScore: 75,
     maxChunkOverflow: 1.5,
+    useReplyThreads: true,
   });
 
 /**
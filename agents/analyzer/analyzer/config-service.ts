@@ -12,7 +12,42 @@ const DEFAULT_CHUNK_SIZE = 50;
 const MIN_CHUNK_SIZE = 1;
 const MAX_CHUNK_SIZE = 500;
 
-const DEFAULT_MODEL_NAME = 'gpt-4o';
+/**
+ * LLM providers the analyzer can use
+ *
+ * `local` is any OpenAI-compatible endpoint, such as Ollama or vLLM.
+ */
+export const LLM_PROVIDERS = ['openai', 'anthropic', 'local'] as const;
+
+export type LLMProvider = (typeof LLM_PROVIDERS)[number];
+
+/**
+ * Record/replay modes for LLM responses
+ *
+ * `record` saves every response to the cassette; `replay` answers from
+ * the cassette without calling the provider.
+ */
+export const CASSETTE_MODES = ['off', 'record', 'replay'] as const;
+
+export type CassetteMode = (typeof CASSETTE_MODES)[number];
+
+const DEFAULT_PROVIDER: LLMProvider = 'openai';
+
+const DEFAULT_MODEL_NAMES: Record<LLMProvider, string> = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-sonnet-4-5',
+  local: 'llama3.1',
+};
+
+// Environment variable holding each provider's API key
+const API_KEY_VARIABLES: Record<LLMProvider, string> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  local: 'LLM_API_KEY',
+};
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL_NAME = DEFAULT_MODEL_NAMES[DEFAULT_PROVIDER];
 
 const MIN_TEMPERATURE = 0;
 const MAX_TEMPERATURE = 2;
@@ -25,6 +60,10 @@ const DEFAULT_MAX_RETRIES = 3;
 const MIN_MAX_RETRIES = 0;
 const MAX_MAX_RETRIES = 10;
 
+const DEFAULT_CHUNK_CONCURRENCY = 4;
+const MIN_CHUNK_CONCURRENCY = 1;
+const MAX_CHUNK_CONCURRENCY = 16;
+
 const DEFAULT_MIN_RELATIONSHIP_SCORE = 75;
 const MIN_RELATIONSHIP_SCORE = 0;
 const MAX_RELATIONSHIP_SCORE = 100;
@@ -37,8 +76,14 @@ const MAX_RELATIONSHIP_SCORE = 100;
  * Analyzer configuration settings
  */
 export type AnalyzerConfig = {
-  /** OpenAI API key for LLM requests */
-  readonly openaiApiKey: string;
+  /** LLM provider to send requests to */
+  readonly provider: LLMProvider;
+
+  /** API key of the provider (may be empty for local endpoints) */
+  readonly apiKey: string;
+
+  /** Base URL of the OpenAI-compatible endpoint used by `local` */
+  readonly baseUrl: string;
 
   /** Target chunk size for message grouping */
   readonly chunkSize: number;
@@ -55,6 +100,9 @@ export type AnalyzerConfig = {
   /** Maximum retry attempts for failed requests */
   readonly maxRetries: number;
 
+  /** Number of chunks analyzed at the same time */
+  readonly chunkConcurrency: number;
+
   /** Enable smart chunking (keeps Q&A pairs together) */
   readonly smartChunking: boolean;
 
@@ -63,8 +111,90 @@ export type AnalyzerConfig = {
 
   /** Enable verbose logging */
   readonly verboseLogging: boolean;
+
+  /** Record or replay LLM responses */
+  readonly cassetteMode: CassetteMode;
+
+  /** Cassette file used when `cassetteMode` is not `off` */
+  readonly cassettePath: string;
 };
 
+const isOneOf = <T extends string>(
+  values: readonly T[],
+  value: string
+): value is T => (values as readonly string[]).includes(value);
+
+/**
+ * Load the provider settings: which provider, its API key and endpoint,
+ * and the record/replay cassette
+ */
+const loadProviderConfig = Effect.gen(function* () {
+  const provider = yield* Config.string('LLM_PROVIDER').pipe(
+    Config.withDefault(DEFAULT_PROVIDER)
+  );
+  if (!isOneOf(LLM_PROVIDERS, provider)) {
+    return yield* Effect.fail(
+      new InvalidConfigurationError({
+        key: 'LLM_PROVIDER',
+        value: provider,
+        reason: `Provider must be one of: ${LLM_PROVIDERS.join(', ')}`,
+      })
+    );
+  }
+
+  const cassetteMode = yield* Config.string('LLM_CASSETTE_MODE').pipe(
+    Config.withDefault('off')
+  );
+  if (!isOneOf(CASSETTE_MODES, cassetteMode)) {
+    return yield* Effect.fail(
+      new InvalidConfigurationError({
+        key: 'LLM_CASSETTE_MODE',
+        value: cassetteMode,
+        reason: `Cassette mode must be one of: ${CASSETTE_MODES.join(', ')}`,
+      })
+    );
+  }
+
+  const cassettePath = yield* Config.string('LLM_CASSETTE').pipe(
+    Config.withDefault('')
+  );
+  if (cassetteMode !== 'off' && cassettePath.trim().length === 0) {
+    return yield* Effect.fail(
+      new InvalidConfigurationError({
+        key: 'LLM_CASSETTE',
+        value: cassettePath,
+        reason: `A cassette file is required when LLM_CASSETTE_MODE is ${cassetteMode}.`,
+      })
+    );
+  }
+
+  // Replaying never calls the provider, and local endpoints usually
+  // do not check keys
+  const apiKeyVariable = API_KEY_VARIABLES[provider];
+  const apiKey = yield* Config.string(apiKeyVariable).pipe(
+    Config.withDefault('')
+  );
+  if (
+    apiKey.trim().length === 0 &&
+    provider !== 'local' &&
+    cassetteMode !== 'replay'
+  ) {
+    return yield* Effect.fail(
+      new InvalidConfigurationError({
+        key: apiKeyVariable,
+        value: apiKey,
+        reason: `An API key is required for the ${provider} provider. Set the ${apiKeyVariable} environment variable.`,
+      })
+    );
+  }
+
+  const baseUrl = yield* Config.string('LLM_BASE_URL').pipe(
+    Config.withDefault(DEFAULT_BASE_URL)
+  );
+
+  return { provider, apiKey, baseUrl, cassetteMode, cassettePath };
+});
+
 // ============================================================================
 // Service Definition
 // ============================================================================
@@ -78,8 +208,11 @@ export class AnalyzerConfigService extends Context.Tag('AnalyzerConfigService')<
     /** Get the complete configuration */
     readonly getConfig: () => Effect.Effect<AnalyzerConfig, never>;
 
-    /** Get OpenAI API key */
-    readonly getOpenAIKey: () => Effect.Effect<string, never>;
+    /** Get LLM provider */
+    readonly getProvider: () => Effect.Effect<LLMProvider, never>;
+
+    /** Get the provider's API key */
+    readonly getApiKey: () => Effect.Effect<string, never>;
 
     /** Get chunk size */
     readonly getChunkSize: () => Effect.Effect<number, never>;
@@ -96,6 +229,9 @@ export class AnalyzerConfigService extends Context.Tag('AnalyzerConfigService')<
     /** Get max retries */
     readonly getMaxRetries: () => Effect.Effect<number, never>;
 
+    /** Get chunk concurrency */
+    readonly getChunkConcurrency: () => Effect.Effect<number, never>;
+
     /** Check if smart chunking is enabled */
     readonly getSmartChunking: () => Effect.Effect<boolean, never>;
 
@@ -113,20 +249,8 @@ export class AnalyzerConfigService extends Context.Tag('AnalyzerConfigService')<
     AnalyzerConfigService,
     Effect.gen(function* () {
       // Load configuration from environment with defaults
-      const openaiApiKey = yield* Config.string('OPENAI_API_KEY').pipe(
-        Effect.flatMap((key) =>
-          key.trim().length > 0
-            ? Effect.succeed(key)
-            : Effect.fail(
-                new InvalidConfigurationError({
-                  key: 'OPENAI_API_KEY',
-                  value: key,
-                  reason:
-                    'OpenAI API key is required. Set the OPENAI_API_KEY environment variable.',
-                })
-              )
-        )
-      );
+      const { provider, apiKey, baseUrl, cassetteMode, cassettePath } =
+        yield* loadProviderConfig;
 
       const chunkSize = yield* Config.number('CHUNK_SIZE').pipe(
         Config.withDefault(DEFAULT_CHUNK_SIZE)
@@ -142,7 +266,7 @@ export class AnalyzerConfigService extends Context.Tag('AnalyzerConfigService')<
       }
 
       const modelName = yield* Config.string('MODEL_NAME').pipe(
-        Config.withDefault(DEFAULT_MODEL_NAME)
+        Config.withDefault(DEFAULT_MODEL_NAMES[provider])
       );
 
       const temperature = yield* Config.number('TEMPERATURE').pipe(
@@ -187,6 +311,22 @@ export class AnalyzerConfigService extends Context.Tag('AnalyzerConfigService')<
         );
       }
 
+      const chunkConcurrency = yield* Config.integer('CHUNK_CONCURRENCY').pipe(
+        Config.withDefault(DEFAULT_CHUNK_CONCURRENCY)
+      );
+      if (
+        chunkConcurrency < MIN_CHUNK_CONCURRENCY ||
+        chunkConcurrency > MAX_CHUNK_CONCURRENCY
+      ) {
+        return yield* Effect.fail(
+          new InvalidConfigurationError({
+            key: 'CHUNK_CONCURRENCY',
+            value: chunkConcurrency,
+            reason: `Chunk concurrency must be between ${MIN_CHUNK_CONCURRENCY} and ${MAX_CHUNK_CONCURRENCY}`,
+          })
+        );
+      }
+
       const smartChunking = yield* Config.boolean('SMART_CHUNKING').pipe(
         Config.withDefault(true)
       );
@@ -213,36 +353,50 @@ export class AnalyzerConfigService extends Context.Tag('AnalyzerConfigService')<
 
       // Create the configuration object
       const config: AnalyzerConfig = {
-        openaiApiKey,
+        provider,
+        apiKey,
+        baseUrl,
         chunkSize,
         modelName,
         temperature,
         requestTimeout,
         maxRetries,
+        chunkConcurrency,
         smartChunking,
         minRelationshipScore,
         verboseLogging,
+        cassetteMode,
+        cassettePath,
       };
 
       // Log configuration (excluding sensitive data)
       yield* Effect.logInfo('Analyzer configuration loaded:');
+      yield* Effect.logInfo(`  Provider: ${config.provider}`);
       yield* Effect.logInfo(`  Model: ${config.modelName}`);
       yield* Effect.logInfo(`  Temperature: ${config.temperature}`);
       yield* Effect.logInfo(`  Chunk Size: ${config.chunkSize}`);
       yield* Effect.logInfo(`  Smart Chunking: ${config.smartChunking}`);
       yield* Effect.logInfo(`  Request Timeout: ${config.requestTimeout}ms`);
       yield* Effect.logInfo(`  Max Retries: ${config.maxRetries}`);
+      yield* Effect.logInfo(`  Chunk Concurrency: ${config.chunkConcurrency}`);
       yield* Effect.logInfo(`  Verbose Logging: ${config.verboseLogging}`);
+      if (config.cassetteMode !== 'off') {
+        yield* Effect.logInfo(
+          `  Cassette: ${config.cassettePath} (${config.cassetteMode})`
+        );
+      }
 
       // Return service implementation
       return AnalyzerConfigService.of({
         getConfig: () => Effect.succeed(config),
-        getOpenAIKey: () => Effect.succeed(config.openaiApiKey),
+        getProvider: () => Effect.succeed(config.provider),
+        getApiKey: () => Effect.succeed(config.apiKey),
         getChunkSize: () => Effect.succeed(config.chunkSize),
         getModelName: () => Effect.succeed(config.modelName),
         getTemperature: () => Effect.succeed(config.temperature),
         getRequestTimeout: () => Effect.succeed(config.requestTimeout),
         getMaxRetries: () => Effect.succeed(config.maxRetries),
+        getChunkConcurrency: () => Effect.succeed(config.chunkConcurrency),
         getSmartChunking: () => Effect.succeed(config.smartChunking),
         getMinRelationshipScore: () =>
           Effect.succeed(config.minRelationshipScore),
@@ -261,19 +415,25 @@ export class AnalyzerConfigService extends Context.Tag('AnalyzerConfigService')<
       AnalyzerConfigService.of({
         getConfig: () =>
           Effect.succeed({
-            openaiApiKey: 'test-key',
+            provider: DEFAULT_PROVIDER,
+            apiKey: 'test-key',
+            baseUrl: DEFAULT_BASE_URL,
             chunkSize: DEFAULT_CHUNK_SIZE,
             modelName: DEFAULT_MODEL_NAME,
             temperature: MIN_TEMPERATURE,
             requestTimeout: DEFAULT_REQUEST_TIMEOUT,
             maxRetries: DEFAULT_MAX_RETRIES,
+            chunkConcurrency: DEFAULT_CHUNK_CONCURRENCY,
             smartChunking: true,
             minRelationshipScore: DEFAULT_MIN_RELATIONSHIP_SCORE,
             verboseLogging: false,
+            cassetteMode: 'off',
+            cassettePath: '',
             ...overrides,
           }),
-        getOpenAIKey: () =>
-          Effect.succeed(overrides.openaiApiKey ?? 'test-key'),
+        getProvider: () =>
+          Effect.succeed(overrides.provider ?? DEFAULT_PROVIDER),
+        getApiKey: () => Effect.succeed(overrides.apiKey ?? 'test-key'),
         getChunkSize: () =>
           Effect.succeed(overrides.chunkSize ?? DEFAULT_CHUNK_SIZE),
         getModelName: () =>
@@ -284,6 +444,10 @@ export class AnalyzerConfigService extends Context.Tag('AnalyzerConfigService')<
           Effect.succeed(overrides.requestTimeout ?? DEFAULT_REQUEST_TIMEOUT),
         getMaxRetries: () =>
           Effect.succeed(overrides.maxRetries ?? DEFAULT_MAX_RETRIES),
+        getChunkConcurrency: () =>
+          Effect.succeed(
+            overrides.chunkConcurrency ?? DEFAULT_CHUNK_CONCURRENCY
+          ),
         getSmartChunking: () => Effect.succeed(overrides.smartChunking ?? true),
         getMinRelationshipScore: () =>
           Effect.succeed(
@@ -0,0 +1,320 @@
+/**
+ * Pattern Coverage Gaps
+ *
+ * Post-processes a final analysis against the pattern library: every
+ * common question and pattern mention is searched for in the published
+ * patterns with the toolkit's BM25 search. Topics whose best match
+ * scores too low are coverage gaps, ranked by how often they came up on
+ * Discord; the top gaps can be drafted as skeleton pattern MDX files for
+ * the `content/new/raw` ingest pipeline.
+ */
+
+import { FileSystem } from '@effect/platform/FileSystem';
+import { Path } from '@effect/platform/Path';
+import { Effect } from 'effect';
+import type { Pattern } from '../../../packages/toolkit/src/schemas/pattern.js';
+import {
+  buildSearchIndex,
+  querySearchIndex,
+} from '../../../packages/toolkit/src/searchIndex.js';
+import { formatEvidence, normalizeFindingText } from './analysis-report.js';
+import { FileWriteError } from './errors.js';
+import type {
+  CoverageReport,
+  FinalAnalysis,
+  TopicCoverage,
+} from './schemas.js';
+
+// Minimum BM25 score of a published pattern that answers a topic.
+// Calibrated on the published library: on-topic patterns score well
+// above it, unrelated ones matching a word or two of the topic below it.
+export const DEFAULT_MIN_SCORE = 8;
+
+const DEFAULT_MATCHES_PER_TOPIC = 3;
+const MAX_DRAFT_ID_LENGTH = 60;
+const DRAFT_EXTENSION = '.mdx';
+const UNTITLED_DRAFT_ID = 'untitled-pattern';
+
+const NON_ALPHANUMERIC_REGEX = /[^a-z0-9]+/g;
+const EDGE_HYPHENS_REGEX = /^-+|-+$/g;
+
+/**
+ * Options for matching an analysis against the published patterns
+ */
+export type CoverageOptions = {
+  /** Minimum score of a match that covers a topic (default: 8) */
+  readonly minScore?: number;
+  /** Closest patterns kept per topic (default: 3) */
+  readonly matchesPerTopic?: number;
+};
+
+/**
+ * Draft files written for the top gaps; drafts whose file already
+ * exists are skipped, never overwritten
+ */
+export type PatternDrafts = {
+  readonly written: readonly string[];
+  readonly skipped: readonly string[];
+};
+
+type Topic = {
+  topic: string;
+  kind: TopicCoverage['kind'];
+  frequency: number;
+  messageIds: string[];
+};
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Questions and pattern mentions of an analysis; a question and a
+ * pattern with the same normalized text are one topic
+ */
+const collectTopics = (
+  analysis: Pick<FinalAnalysis, 'commonQuestions' | 'effectPatterns'>
+): Topic[] => {
+  const topics = new Map<string, Topic>();
+
+  const add = (
+    text: string,
+    kind: Topic['kind'],
+    frequency: number,
+    messageIds: readonly string[]
+  ) => {
+    const key = normalizeFindingText(text);
+    const topic = topics.get(key);
+    if (topic) {
+      topic.frequency += frequency;
+      topic.messageIds.push(
+        ...messageIds.filter((id) => !topic.messageIds.includes(id))
+      );
+    } else {
+      topics.set(key, {
+        topic: text,
+        kind,
+        frequency,
+        messageIds: [...new Set(messageIds)],
+      });
+    }
+  };
+
+  for (const question of analysis.commonQuestions) {
+    add(question.text, 'question', question.count, question.messageIds);
+  }
+  for (const mention of analysis.effectPatterns) {
+    add(
+      mention.pattern,
+      'pattern',
+      mention.mentions,
+      mention.exampleMessageIds
+    );
+  }
+
+  return [...topics.values()];
+};
+
+/**
+ * Sort by frequency, then by amount of evidence; the sort is stable, so
+ * ties keep analysis order
+ */
+const rankTopics = (topics: TopicCoverage[]): TopicCoverage[] =>
+  topics.sort(
+    (a, b) =>
+      b.frequency - a.frequency || b.messageIds.length - a.messageIds.length
+  );
+
+/**
+ * Match every question and pattern mention of an analysis to the
+ * published patterns
+ *
+ * A topic is covered when its best match scores at least `minScore`;
+ * the other topics are the gaps.
+ */
+export const buildCoverageReport = (
+  analysis: Pick<FinalAnalysis, 'commonQuestions' | 'effectPatterns'>,
+  patterns: readonly Pattern[],
+  options: CoverageOptions = {}
+): CoverageReport => {
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+  const limit = options.matchesPerTopic ?? DEFAULT_MATCHES_PER_TOPIC;
+  const index = buildSearchIndex(patterns);
+  const titles = new Map(
+    patterns.map((pattern) => [pattern.id, pattern.title])
+  );
+
+  const topics = collectTopics(analysis).map((topic): TopicCoverage => {
+    const matches = querySearchIndex(index, { query: topic.topic, limit }).map(
+      (hit) => ({
+        id: hit.id,
+        title: titles.get(hit.id) ?? hit.id,
+        score: hit.score,
+      })
+    );
+    return {
+      ...topic,
+      matches,
+      covered: (matches[0]?.score ?? 0) >= minScore,
+    };
+  });
+
+  return {
+    patternCount: patterns.length,
+    minScore,
+    gaps: rankTopics(topics.filter((topic) => !topic.covered)),
+    covered: rankTopics(topics.filter((topic) => topic.covered)),
+  };
+};
+
+// ============================================================================
+// Markdown Rendering
+// ============================================================================
+
+const formatMatches = (topic: TopicCoverage): string =>
+  topic.matches.length === 0
+    ? 'no related patterns'
+    : topic.matches
+        .map((match) => `\`${match.id}\` (${match.score.toFixed(1)})`)
+        .join(', ');
+
+const renderTopics = (
+  topics: readonly TopicCoverage[],
+  label: string
+): string[] =>
+  topics.length === 0
+    ? ['_None found._']
+    : topics.map(
+        (topic, index) =>
+          `${index + 1}. ${topic.topic} [${topic.kind}] (×${topic.frequency})${formatEvidence(topic.messageIds)}\n   - ${label}: ${formatMatches(topic)}`
+      );
+
+/**
+ * Render a coverage report as Markdown
+ */
+export const renderCoverageMarkdown = (report: CoverageReport): string => {
+  const total = report.gaps.length + report.covered.length;
+  const lines = [
+    '# Pattern Coverage Gaps',
+    '',
+    `${report.covered.length} of ${total} topic(s) from the Discord analysis are answered by the ${report.patternCount} published patterns (minimum match score ${report.minScore}).`,
+    '',
+    '## Unanswered Topics',
+    '',
+    ...renderTopics(report.gaps, 'Closest'),
+    '',
+    '## Covered Topics',
+    '',
+    ...renderTopics(report.covered, 'Answered by'),
+    '',
+  ];
+
+  return lines.join('\n');
+};
+
+// ============================================================================
+// Pattern Drafts
+// ============================================================================
+
+/**
+ * Kebab-case pattern ID for a topic, cut at a word boundary
+ */
+export const draftPatternId = (topic: string): string => {
+  const slug = topic
+    .toLowerCase()
+    .replace(NON_ALPHANUMERIC_REGEX, '-')
+    .replace(EDGE_HYPHENS_REGEX, '');
+  if (slug.length === 0) {
+    return UNTITLED_DRAFT_ID;
+  }
+  if (slug.length <= MAX_DRAFT_ID_LENGTH) {
+    return slug;
+  }
+  const cut = slug.slice(0, MAX_DRAFT_ID_LENGTH + 1);
+  const boundary = cut.lastIndexOf('-');
+  return boundary > 0 ? cut.slice(0, boundary) : cut.slice(0, -1);
+};
+
+/**
+ * Skeleton pattern MDX for a gap: the frontmatter the ingest pipeline
+ * requires and the pattern's sections, with TODOs for the author
+ *
+ * The closest published patterns become `related`, and the Discord
+ * evidence is kept in the rationale.
+ */
+export const renderPatternDraft = (gap: TopicCoverage): string => {
+  const quote = (value: string) => JSON.stringify(value);
+  const related = gap.matches.map((match) => quote(match.id));
+
+  return [
+    '---',
+    `title: ${quote(gap.topic)}`,
+    `id: ${quote(draftPatternId(gap.topic))}`,
+    'skillLevel: "intermediate"',
+    'useCase: ["core-concepts"]',
+    `summary: ${quote(`TODO: one-line summary of "${gap.topic}"`)}`,
+    'tags: []',
+    `related: [${related.join(', ')}]`,
+    '---',
+    '',
+    `# ${gap.topic}`,
+    '',
+    '## Guideline',
+    '',
+    'TODO: state the rule in one or two sentences.',
+    '',
+    '## Rationale',
+    '',
+    `TODO: explain why. Raised ${gap.frequency} time(s) on the Effect Discord${formatEvidence(gap.messageIds)}.`,
+    '',
+    '## Good Example',
+    '',
+    '```typescript',
+    'import { Effect } from "effect";',
+    '',
+    '// TODO: the idiomatic solution',
+    '```',
+    '',
+    '## Anti-Pattern',
+    '',
+    'TODO: the common mistake, and why it goes wrong.',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Write skeleton pattern MDX files for the top gaps
+ *
+ * Files are named after the draft pattern ID. An existing file (an
+ * earlier draft, or one already being edited) is left untouched.
+ */
+export const writePatternDrafts = (
+  directory: string,
+  gaps: readonly TopicCoverage[],
+  count: number
+) =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem;
+    const path = yield* Path;
+    const written: string[] = [];
+    const skipped: string[] = [];
+
+    yield* fs.makeDirectory(directory, { recursive: true });
+
+    for (const gap of gaps.slice(0, count)) {
+      const file = path.join(
+        directory,
+        `${draftPatternId(gap.topic)}${DRAFT_EXTENSION}`
+      );
+      if (yield* fs.exists(file)) {
+        skipped.push(file);
+        continue;
+      }
+      yield* fs.writeFileString(file, renderPatternDraft(gap));
+      written.push(file);
+    }
+
+    return { written, skipped } satisfies PatternDrafts;
+  }).pipe(
+    Effect.mapError((cause) => new FileWriteError({ path: directory, cause }))
+  );
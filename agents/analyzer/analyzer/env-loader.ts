@@ -100,17 +100,38 @@ export const validateEnvironment = (required: string[]) =>
     yield* Console.log('✅ All required environment variables are set');
   });
 
+/**
+ * Environment variables required by the configured LLM provider
+ *
+ * Replaying a cassette needs no API key; local endpoints usually do not
+ * check one.
+ */
+export const requiredProviderVariables = (): string[] => {
+  if (process.env.LLM_CASSETTE_MODE === 'replay') {
+    return ['LLM_CASSETTE'];
+  }
+  switch (process.env.LLM_PROVIDER ?? 'openai') {
+    case 'anthropic':
+      return ['ANTHROPIC_API_KEY'];
+    case 'local':
+      return [];
+    default:
+      return ['OPENAI_API_KEY'];
+  }
+};
+
 /**
  * Combined loader: load .env file and validate required variables
  *
  * @param required - Array of required environment variable names
+ *   (default: those of the configured LLM provider, read after loading)
  * @returns Effect that loads and validates the environment
  */
-export const setupEnvironment = (required: string[] = ['OPENAI_API_KEY']) =>
+export const setupEnvironment = (required?: string[]) =>
   Effect.gen(function* () {
     yield* loadEnvironment.pipe(
       Effect.catchAll((error) => Console.log(`⚠️  ${error.message}`))
     );
 
-    return yield* validateEnvironment(required);
+    return yield* validateEnvironment(required ?? requiredProviderVariables());
   });
@@ -120,6 +120,8 @@ export class LLMInvalidResponseError extends Data.TaggedError(
 )<{
   readonly response: unknown;
   readonly expectedFormat: string;
+  /** Why the response was rejected, e.g. a schema decode error */
+  readonly reason?: string;
 }> {}
 
 /**
@@ -333,7 +335,7 @@ export const formatError = (error: AnalyzerError): string => {
       );
 
     case 'LLMInvalidResponseError':
-      return `LLM returned invalid response. Expected: ${error.expectedFormat}`;
+      return `LLM returned invalid response. Expected: ${error.expectedFormat}${error.reason ? `\n${error.reason}` : ''}`;
 
     case 'LLMAuthenticationError':
       return `LLM authentication failed: ${error.message}`;
@@ -0,0 +1,135 @@
+#!/usr/bin/env bun
+
+/**
+ * Example: Finding Pattern Coverage Gaps
+ *
+ * Matches the questions and patterns of a Discord analysis (report.json,
+ * written by run-discord-analysis.ts) against the published patterns and
+ * reports the topics no pattern answers yet. No LLM calls are made.
+ *
+ * Usage:
+ *   bun run examples/run-coverage-gaps.ts [--draft <count>] [--min-score <score>]
+ *
+ * Options:
+ *   --draft <count>      Draft skeleton MDX files for the top gaps into
+ *                        content/new/raw (existing files are kept)
+ *   --min-score <score>  Minimum match score of a covering pattern
+ *                        (default: 8)
+ *
+ * Prerequisites:
+ *   - report.json from run-discord-analysis.ts in scripts/analyzer/output
+ */
+
+import { FileSystem } from '@effect/platform/FileSystem';
+import { Path } from '@effect/platform/Path';
+import { NodeContext } from '@effect/platform-node';
+import { Console, Effect } from 'effect';
+import {
+  buildCoverageReport,
+  DEFAULT_MIN_SCORE,
+  renderCoverageMarkdown,
+  writePatternDrafts,
+} from '../coverage-gaps.js';
+import { loadPublishedPatterns } from '../published-patterns.js';
+import { decodeFinalAnalysis, encodeCoverageReport } from '../schemas.js';
+
+const PREVIEW_GAPS = 10;
+
+/**
+ * Numeric value of a `--flag <value>` argument
+ */
+const numericArg = (flag: string, fallback: number): number => {
+  const index = process.argv.indexOf(flag);
+  const value = index === -1 ? Number.NaN : Number(process.argv[index + 1]);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const draftCount = numericArg('--draft', 0);
+const minScore = numericArg('--min-score', DEFAULT_MIN_SCORE);
+
+const program = Effect.gen(function* () {
+  yield* Console.log('🧭 Finding pattern coverage gaps\n');
+
+  const fs = yield* FileSystem;
+  const path = yield* Path;
+
+  // Same layout as run-discord-analysis.ts
+  const projectRoot = path.resolve(process.cwd(), '../..');
+  const outputDir = path.resolve(projectRoot, 'scripts', 'analyzer', 'output');
+  const reportPath = path.join(outputDir, 'report.json');
+  const publishedDir = path.resolve(projectRoot, 'content', 'published');
+  const draftDir = path.resolve(projectRoot, 'content', 'new', 'raw');
+
+  // ============================================================
+  // Step 1: Load the analysis and the pattern library
+  // ============================================================
+  yield* Console.log(`📥 Analysis: ${reportPath}`);
+  const content = yield* fs.readFileString(reportPath);
+  const analysis = yield* Effect.try(() => JSON.parse(content)).pipe(
+    Effect.flatMap(decodeFinalAnalysis)
+  );
+
+  yield* Console.log(`📚 Patterns: ${publishedDir}`);
+  const patterns = yield* loadPublishedPatterns(publishedDir);
+  yield* Console.log(`   ✅ ${patterns.length} published patterns\n`);
+
+  // ============================================================
+  // Step 2: Match topics to patterns
+  // ============================================================
+  const report = buildCoverageReport(analysis, patterns, { minScore });
+
+  const markdownPath = path.join(outputDir, 'coverage-gaps.md');
+  const jsonPath = path.join(outputDir, 'coverage-gaps.json');
+  yield* fs.writeFileString(markdownPath, renderCoverageMarkdown(report));
+  yield* fs.writeFileString(
+    jsonPath,
+    `${JSON.stringify(yield* encodeCoverageReport(report), null, 2)}\n`
+  );
+
+  yield* Console.log('📊 Coverage:');
+  yield* Console.log(`   • Covered topics: ${report.covered.length}`);
+  yield* Console.log(`   • Unanswered topics: ${report.gaps.length}\n`);
+
+  if (report.gaps.length > 0) {
+    yield* Console.log('🕳️  Top unanswered topics:');
+    for (const gap of report.gaps.slice(0, PREVIEW_GAPS)) {
+      yield* Console.log(`   • ${gap.topic} (×${gap.frequency})`);
+    }
+    yield* Console.log('');
+  }
+
+  yield* Console.log(`💾 Markdown report saved to: ${markdownPath}`);
+  yield* Console.log(`💾 JSON report saved to: ${jsonPath}`);
+
+  // ============================================================
+  // Step 3: Draft patterns for the top gaps
+  // ============================================================
+  if (draftCount > 0) {
+    const drafts = yield* writePatternDrafts(draftDir, report.gaps, draftCount);
+    yield* Console.log(`\n📝 Drafted ${drafts.written.length} pattern(s):`);
+    for (const file of drafts.written) {
+      yield* Console.log(`   • ${path.relative(projectRoot, file)}`);
+    }
+    for (const file of drafts.skipped) {
+      yield* Console.log(
+        `   • ${path.relative(projectRoot, file)} (exists, skipped)`
+      );
+    }
+  }
+
+  return report;
+});
+
+program
+  .pipe(
+    Effect.catchAll((error) =>
+      Console.log(`\n❌ Coverage analysis failed: ${String(error)}\n`).pipe(
+        Effect.flatMap(() => Effect.fail(error))
+      )
+    ),
+    Effect.provide(NodeContext.layer),
+    Effect.runPromiseExit
+  )
+  .then((exit) => {
+    process.exit(exit._tag === 'Success' ? 0 : 1);
+  });
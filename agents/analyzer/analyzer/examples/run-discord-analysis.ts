@@ -7,10 +7,14 @@
  * to process real Discord conversation data and generate insights.
  *
  * Usage:
- *   bun run examples/run-discord-analysis.ts
+ *   bun run examples/run-discord-analysis.ts [--resume]
+ *
+ * Options:
+ *   --resume  Reuse chunk analyses checkpointed by an earlier run
  *
  * Prerequisites:
- *   - .env file with OPENAI_API_KEY (copy from .env.example)
+ *   - .env file with the API key of LLM_PROVIDER, e.g. OPENAI_API_KEY
+ *     (copy from .env.example)
  *   - Discord Q&A data available at ../../packages/data/discord-qna.json
  */
 
@@ -21,6 +25,8 @@ import { Console, Effect } from 'effect';
 import { setupEnvironment } from '../env-loader.js';
 import { app, type GraphState } from '../graph.js';
 
+const resume = process.argv.includes('--resume');
+
 /**
  * Main program that runs the analyzer with proper error handling
  * and progress reporting.
@@ -32,7 +38,7 @@ const program = Effect.gen(function* () {
   // Step 1: Load and Validate Environment
   // ============================================================
   yield* Console.log('📋 Step 1: Loading environment...');
-  yield* setupEnvironment(['OPENAI_API_KEY']);
+  yield* setupEnvironment();
   yield* Console.log('');
 
   // ============================================================
@@ -57,13 +63,18 @@ const program = Effect.gen(function* () {
 
   const outputPath = path.join(outputDir, 'discord-analysis.md');
 
+  const checkpointDir = path.join(outputDir, '.checkpoints');
+
   // Create output directory if it doesn't exist
   yield* fs.makeDirectory(outputDir, { recursive: true }).pipe(
     Effect.catchAll(() => Effect.void) // Ignore if already exists
   );
 
   yield* Console.log(`   📥 Input:  ${inputPath}`);
-  yield* Console.log(`   📤 Output: ${outputPath}\n`);
+  yield* Console.log(`   📤 Output: ${outputPath}`);
+  yield* Console.log(
+    `   ♻️  Checkpoints: ${checkpointDir}${resume ? ' (resuming)' : ''}\n`
+  );
 
   // ============================================================
   // Step 3: Verify Input File
@@ -86,7 +97,9 @@ const program = Effect.gen(function* () {
   // Step 4: Run Analysis
   // ============================================================
   yield* Console.log('🤖 Step 4: Running analysis (this may take a minute)...');
-  yield* Console.log('   ⏳ Processing messages with GPT-4o...\n');
+  yield* Console.log(
+    `   ⏳ Processing messages with ${process.env.LLM_PROVIDER ?? 'openai'}...\n`
+  );
 
   const startTime = Date.now();
 
@@ -94,6 +107,8 @@ const program = Effect.gen(function* () {
     app.invoke({
       inputFile: inputPath,
       outputFile: outputPath,
+      checkpointDir,
+      resume,
     })
   )) as GraphState;
 
@@ -112,6 +127,9 @@ const program = Effect.gen(function* () {
   yield* Console.log(
     `   • Analyses Generated: ${result.partialAnalyses?.length ?? 0}`
   );
+  yield* Console.log(
+    `   • Restored from Checkpoints: ${result.resumedChunks ?? 0}`
+  );
   yield* Console.log(`   • Processing Time: ${duration}s\n`);
 
   // ============================================================
@@ -132,6 +150,9 @@ const program = Effect.gen(function* () {
   }
 
   yield* Console.log(`\n💾 Full report saved to: ${outputPath}`);
+  if (result.reportJsonFile) {
+    yield* Console.log(`💾 JSON report saved to: ${result.reportJsonFile}`);
+  }
 
   // ============================================================
   // Step 7: Quality Checks
@@ -199,7 +220,7 @@ const handleError = (error: unknown): Effect.Effect<void> => {
       yield* Console.log(`Error: ${error.message}\n`);
 
       // Provide helpful hints based on error type
-      if (error.message.includes('OPENAI_API_KEY')) {
+      if (error.message.includes('API_KEY')) {
         yield* Console.log('💡 Tip: Create a .env file:');
         yield* Console.log('   cp .env.example .env');
         yield* Console.log('   # Then edit .env and add your API key\n');
@@ -1,15 +1,39 @@
 import { FileSystem } from '@effect/platform/FileSystem';
+import { Path } from '@effect/platform/Path';
 import { NodeContext } from '@effect/platform-node';
-import { Effect, Layer } from 'effect';
+import { Effect, Layer, ManagedRuntime, Option, Ref } from 'effect';
 import { z } from 'zod';
+import {
+  mergePartialAnalyses,
+  renderMarkdownReport,
+  withSummary,
+} from './analysis-report.js';
+import {
+  chunkCheckpointKey,
+  readCheckpoint,
+  writeCheckpoint,
+} from './checkpoint-store.js';
 import { chunkMessagesDefault } from './chunking-service.js';
+import { AnalyzerConfigService, getConfigValue } from './config-service.js';
 import {
+  AggregationError,
   type AnalyzerError,
   FileReadError,
+  FileWriteError,
   InvalidJSONError,
 } from './errors.js';
-import type { Message } from './schemas.js';
-import { LLMService, LLMServiceLive } from './services.js';
+import { ChatModelLive } from './llm-providers.js';
+import {
+  encodeFinalAnalysis,
+  type FinalAnalysis,
+  type Message,
+  type PartialAnalysis,
+} from './schemas.js';
+import {
+  CHUNK_PROMPT_VERSION,
+  LLMService,
+  LLMServiceLive,
+} from './services.js';
 import {
   DataValidationService,
   validateMessageCollection,
@@ -19,24 +43,50 @@ import {
 const GraphStateSchema = z.object({
   inputFile: z.string(),
   outputFile: z.string(),
+  // Machine-readable report; defaults to report.json next to outputFile
+  reportJsonFile: z.string().optional(),
+  // Chunk checkpoints; defaults to .checkpoints next to outputFile
+  checkpointDir: z.string().optional(),
+  // Reuse checkpoints of chunks analyzed by an earlier run
+  resume: z.boolean().optional(),
   messages: z.array(z.any()).optional(), // Will be validated Message[]
   chunks: z.array(z.array(z.any())).optional(), // Will be Message[][]
-  partialAnalyses: z.array(z.string()).optional(),
-  finalReport: z.string().optional(),
+  partialAnalyses: z.array(z.custom<PartialAnalysis>()).optional(),
+  analysis: z.custom<FinalAnalysis>().optional(),
+  finalReport: z.string().optional(), // Rendered Markdown report
   // Metadata for tracking
   chunkingStrategy: z.string().optional(),
   totalMessages: z.number().optional(),
   chunkCount: z.number().optional(),
+  resumedChunks: z.number().optional(),
 });
 export type GraphState = z.infer<typeof GraphStateSchema>;
 
-// Create the main analysis layer with all dependencies
-const AnalysisLayer = Layer.mergeAll(
-  LLMServiceLive,
-  DataValidationService.Live,
-  NodeContext.layer
+/**
+ * Reported after each chunk completes
+ */
+export type ChunkProgress = {
+  readonly chunkId: number;
+  /** Chunks completed so far, including this one */
+  readonly completed: number;
+  readonly total: number;
+  /** Whether the analysis came from a checkpoint */
+  readonly resumed: boolean;
+};
+
+// Create the main analysis layer with all dependencies: the LLM service
+// on the ChatModel selected by AnalyzerConfig
+const AnalysisLayer = LLMServiceLive.pipe(
+  Layer.provideMerge(ChatModelLive),
+  Layer.provideMerge(AnalyzerConfigService.Live),
+  Layer.provideMerge(NodeContext.layer),
+  Layer.merge(DataValidationService.Live)
 );
 
+// Built once and shared by every node, so configuration is loaded once
+// and concurrent chunks record to the same cassette
+const AnalysisRuntime = ManagedRuntime.make(AnalysisLayer);
+
 const nodes = {
   /**
    * Step 1: Load file, validate data, and create smart chunks
@@ -113,57 +163,134 @@ const nodes = {
       )
     );
 
-    return await Effect.runPromise(Effect.provide(program, AnalysisLayer));
+    return await AnalysisRuntime.runPromise(program);
   },
 
   /**
-   * Step 2: Analyze a single chunk using LLM
+   * Step 2: Analyze a single chunk using LLM, or restore it from its
+   * checkpoint when resuming
    */
   analyzeSingleChunk: async (
-    _state: GraphState,
+    state: GraphState,
     _config: { recursionLimit?: number },
-    chunk: unknown[]
-  ) => {
+    chunk: unknown[],
+    chunkId: number
+  ): Promise<{
+    partialAnalyses: PartialAnalysis[];
+    resumedChunks: number;
+  }> => {
     const program = Effect.gen(function* () {
       const llm = yield* LLMService;
-      yield* Effect.log(`🔍 Analyzing chunk with ${chunk.length} messages`);
+      const messages = chunk as Message[];
+      const key = chunkCheckpointKey(messages, CHUNK_PROMPT_VERSION);
+
+      if (state.resume && state.checkpointDir) {
+        const saved = yield* readCheckpoint(state.checkpointDir, key);
+        if (Option.isSome(saved)) {
+          yield* Effect.log(`♻️  Chunk ${chunkId} restored from checkpoint`);
+          return {
+            partialAnalyses: [
+              { chunkId, messageCount: messages.length, ...saved.value },
+            ],
+            resumedChunks: 1,
+          } satisfies Partial<GraphState>;
+        }
+      }
 
-      const partialAnalysis = yield* llm.analyzeChunk(chunk as Message[]);
+      yield* Effect.log(
+        `🔍 Analyzing chunk ${chunkId} with ${messages.length} messages`
+      );
 
-      yield* Effect.log('✅ Chunk analysis complete');
+      const partialAnalysis = yield* llm.analyzeChunk(messages, chunkId);
+
+      if (state.checkpointDir) {
+        const {
+          chunkId: _chunkId,
+          messageCount: _count,
+          ...analysis
+        } = partialAnalysis;
+        yield* writeCheckpoint(state.checkpointDir, {
+          key,
+          promptVersion: CHUNK_PROMPT_VERSION,
+          analysis,
+        });
+      }
+
+      yield* Effect.log(`✅ Chunk ${chunkId} analysis complete`);
       return {
         partialAnalyses: [partialAnalysis],
+        resumedChunks: 0,
       } satisfies Partial<GraphState>;
     });
 
-    return await Effect.runPromise(Effect.provide(program, AnalysisLayer));
+    return await AnalysisRuntime.runPromise(program);
   },
 
   /**
-   * Step 3: Aggregate all partial analyses into final report
+   * Step 3: Merge partial analyses, summarize them, and write the
+   * Markdown and JSON reports
    */
   aggregateResults: async (state: GraphState) => {
     const program = Effect.gen(function* () {
       const llm = yield* LLMService;
       const fs = yield* FileSystem;
+      const path = yield* Path;
+      const partialAnalyses = state.partialAnalyses ?? [];
 
       yield* Effect.log('📝 Aggregating partial analyses...');
       yield* Effect.log(
-        `   Processing ${state.partialAnalyses?.length ?? 0} partial analyses`
+        `   Processing ${partialAnalyses.length} partial analyses`
       );
 
-      const finalReport = yield* llm.aggregateAnalyses(
-        state.partialAnalyses ?? []
+      const merged = mergePartialAnalyses(partialAnalyses);
+      const summary = yield* llm.aggregateAnalyses(merged);
+      const analysis = withSummary(merged, summary);
+
+      const encoded = yield* encodeFinalAnalysis(analysis).pipe(
+        Effect.mapError(
+          (cause) =>
+            new AggregationError({
+              analysisCount: partialAnalyses.length,
+              message: `Final analysis does not match its schema: ${cause.message}`,
+              cause,
+            })
+        )
       );
+      const finalReport = renderMarkdownReport(analysis);
+      const reportJsonFile =
+        state.reportJsonFile ??
+        path.join(path.dirname(state.outputFile), 'report.json');
 
       yield* Effect.log(`💾 Saving report to: ${state.outputFile}`);
-      yield* fs.writeFileString(state.outputFile, finalReport);
+      yield* fs
+        .writeFileString(state.outputFile, finalReport)
+        .pipe(
+          Effect.mapError(
+            (cause) => new FileWriteError({ path: state.outputFile, cause })
+          )
+        );
+
+      yield* Effect.log(`💾 Saving JSON report to: ${reportJsonFile}`);
+      yield* fs
+        .writeFileString(
+          reportJsonFile,
+          `${JSON.stringify(encoded, null, 2)}\n`
+        )
+        .pipe(
+          Effect.mapError(
+            (cause) => new FileWriteError({ path: reportJsonFile, cause })
+          )
+        );
 
       yield* Effect.log('✅ Final report saved successfully');
-      return { finalReport } satisfies Partial<GraphState>;
+      return {
+        analysis,
+        finalReport,
+        reportJsonFile,
+      } satisfies Partial<GraphState>;
     });
 
-    return await Effect.runPromise(Effect.provide(program, AnalysisLayer));
+    return await AnalysisRuntime.runPromise(program);
   },
 };
 
@@ -175,27 +302,68 @@ export const app = {
   invoke: async (input: {
     inputFile: string;
     outputFile: string;
+    reportJsonFile?: string;
+    checkpointDir?: string;
+    resume?: boolean;
+    onProgress?: (progress: ChunkProgress) => void;
   }): Promise<GraphState> => {
+    const { onProgress, ...options } = input;
+
     const program = Effect.gen(function* () {
+      const path = yield* Path;
+      const concurrency = yield* getConfigValue('chunkConcurrency');
+
       // Step 1: Load and chunk data
       const step1Result = yield* Effect.promise(() =>
-        nodes.loadAndChunkData({ ...input })
+        nodes.loadAndChunkData({ ...options })
       );
 
-      const state1: GraphState = { ...input, ...step1Result };
-
-      // Step 2: Analyze each chunk
-      const chunks = state1.chunks ?? [];
-      const partialAnalyses: string[] = [];
+      const state1: GraphState = {
+        ...options,
+        checkpointDir:
+          options.checkpointDir ??
+          path.join(path.dirname(options.outputFile), '.checkpoints'),
+        ...step1Result,
+      };
+
+      // Step 2: Analyze chunks, a bounded number at a time; results keep
+      // chunk order
+      const chunks: unknown[][] = state1.chunks ?? [];
+      const completed = yield* Ref.make(0);
+
+      const step2Results = yield* Effect.forEach(
+        chunks,
+        (chunk, chunkId) =>
+          Effect.gen(function* () {
+            const result = yield* Effect.promise(() =>
+              nodes.analyzeSingleChunk(state1, {}, chunk, chunkId)
+            );
+            const done = yield* Ref.updateAndGet(completed, (n) => n + 1);
+            const resumed = result.resumedChunks > 0;
+
+            yield* Effect.log(
+              `📈 ${done}/${chunks.length} chunks analyzed${resumed ? ' (from checkpoint)' : ''}`
+            );
+            onProgress?.({
+              chunkId,
+              completed: done,
+              total: chunks.length,
+              resumed,
+            });
+            return result;
+          }),
+        { concurrency }
+      );
 
-      for (const chunk of chunks) {
-        const step2Result = yield* Effect.promise(() =>
-          nodes.analyzeSingleChunk(state1, {}, chunk)
-        );
-        partialAnalyses.push(...(step2Result.partialAnalyses ?? []));
-      }
+      const partialAnalyses: PartialAnalysis[] = step2Results.flatMap(
+        (result) => result.partialAnalyses
+      );
+      const resumedChunks = step2Results.reduce(
+        (sum, result) => sum + result.resumedChunks,
+        0
+      );
 
-      const state2: GraphState = { ...state1, partialAnalyses };
+      const state2: GraphState = { ...state1, partialAnalyses, resumedChunks };
 
       // Step 3: Aggregate results
       const step3Result = yield* Effect.promise(() =>
@@ -207,6 +375,6 @@ export const app = {
       return finalState;
     });
 
-    return await Effect.runPromise(Effect.provide(program, AnalysisLayer));
+    return await AnalysisRuntime.runPromise(program);
   },
 };
@@ -0,0 +1,186 @@
+/**
+ * LLM Cassettes
+ *
+ * Record/replay for ChatModel. Recording saves the response to every
+ * prompt in a cassette file; replaying answers prompts from the file, so
+ * integration tests run offline and deterministically. Responses are
+ * keyed by a hash of the prompt, so a changed prompt (or changed input
+ * data) has to be re-recorded.
+ */
+
+import { createHash } from 'node:crypto';
+import { FileSystem } from '@effect/platform/FileSystem';
+import { Path } from '@effect/platform/Path';
+import { Effect, Schema } from 'effect';
+import type { AnalyzerConfig } from './config-service.js';
+import {
+  FileReadError,
+  FileWriteError,
+  InvalidJSONError,
+  LLMError,
+  SchemaValidationError,
+} from './errors.js';
+import type { ChatModelShape } from './llm-providers.js';
+import {
+  type Cassette,
+  type CassetteInteraction,
+  CassetteSchema,
+} from './schemas.js';
+
+const CASSETTE_VERSION = 1;
+const KEY_PREVIEW_LENGTH = 12;
+
+/**
+ * Key of a prompt's recorded response
+ */
+export const promptKey = (prompt: string): string =>
+  createHash('sha256').update(prompt).digest('hex');
+
+/**
+ * Read a cassette; a missing file is an empty cassette
+ */
+export const readCassette = (cassettePath: string) =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem;
+
+    const exists = yield* fs
+      .exists(cassettePath)
+      .pipe(Effect.orElseSucceed(() => false));
+    if (!exists) {
+      const empty: Cassette = { version: CASSETTE_VERSION, interactions: [] };
+      return empty;
+    }
+
+    const content = yield* fs
+      .readFileString(cassettePath)
+      .pipe(
+        Effect.mapError(
+          (cause) => new FileReadError({ path: cassettePath, cause })
+        )
+      );
+    const parsed = yield* Effect.try({
+      try: () => JSON.parse(content) as unknown,
+      catch: (cause) => new InvalidJSONError({ path: cassettePath, cause }),
+    });
+    return yield* Schema.decodeUnknown(CassetteSchema)(parsed).pipe(
+      Effect.mapError(
+        (error) =>
+          new SchemaValidationError({
+            errors: [error.message],
+            path: cassettePath,
+          })
+      )
+    );
+  });
+
+/**
+ * Write a cassette, creating its directory if needed
+ */
+const writeCassette = (
+  cassettePath: string,
+  interactions: readonly CassetteInteraction[]
+) =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem;
+    const path = yield* Path;
+    const cassette: Cassette = { version: CASSETTE_VERSION, interactions };
+
+    yield* fs.makeDirectory(path.dirname(cassettePath), { recursive: true });
+    yield* fs.writeFileString(
+      cassettePath,
+      `${JSON.stringify(cassette, null, 2)}\n`
+    );
+  }).pipe(
+    Effect.mapError(
+      (cause) => new FileWriteError({ path: cassettePath, cause })
+    )
+  );
+
+/**
+ * Save every response of a chat model to a cassette
+ *
+ * Interactions already in the cassette are kept, and the file is
+ * rewritten after each response, so a crashed run keeps what it
+ * recorded. Writes are serialized for concurrent chunk analysis.
+ */
+export const recordChatModel = (model: ChatModelShape, cassettePath: string) =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem;
+    const path = yield* Path;
+    const cassette = yield* readCassette(cassettePath);
+    const interactions = new Map(
+      cassette.interactions.map((interaction) => [interaction.key, interaction])
+    );
+    const writeLock = yield* Effect.makeSemaphore(1);
+
+    yield* Effect.logInfo(`🎞️  Recording LLM responses to ${cassettePath}`);
+
+    return {
+      ...model,
+      invoke: (prompt: string) =>
+        model.invoke(prompt).pipe(
+          Effect.tap((response) =>
+            writeLock.withPermits(1)(
+              Effect.suspend(() => {
+                const key = promptKey(prompt);
+                interactions.set(key, { key, prompt, response });
+                return writeCassette(cassettePath, [
+                  ...interactions.values(),
+                ]).pipe(
+                  Effect.provideService(FileSystem, fs),
+                  Effect.provideService(Path, path)
+                );
+              })
+            )
+          ),
+          Effect.catchTag('FileWriteError', (error) =>
+            Effect.fail(
+              new LLMError({
+                message: `Failed to record LLM response to ${error.path}`,
+                cause: error,
+              })
+            )
+          )
+        ),
+    } satisfies ChatModelShape;
+  });
+
+/**
+ * Answer prompts from a cassette without calling a provider
+ *
+ * A prompt without a recording fails with LLMError; re-record the
+ * cassette after changing prompts or test data.
+ */
+export const replayChatModel = (
+  cassettePath: string,
+  config: Pick<AnalyzerConfig, 'provider' | 'modelName'>
+) =>
+  Effect.gen(function* () {
+    const cassette = yield* readCassette(cassettePath);
+    const responses = new Map(
+      cassette.interactions.map((interaction) => [
+        interaction.key,
+        interaction.response,
+      ])
+    );
+
+    yield* Effect.logInfo(
+      `🎞️  Replaying ${responses.size} LLM responses from ${cassettePath}`
+    );
+
+    return {
+      provider: config.provider,
+      model: config.modelName,
+      invoke: (prompt: string) => {
+        const key = promptKey(prompt);
+        const response = responses.get(key);
+        return response === undefined
+          ? Effect.fail(
+              new LLMError({
+                message: `No recorded response for prompt ${key.slice(0, KEY_PREVIEW_LENGTH)} in ${cassettePath}. Re-record it with LLM_CASSETTE_MODE=record.`,
+              })
+            )
+          : Effect.succeed(response);
+      },
+    } satisfies ChatModelShape;
+  });
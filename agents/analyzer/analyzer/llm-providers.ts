@@ -0,0 +1,294 @@
+/**
+ * LLM Providers
+ *
+ * The ChatModel service sends a prompt to the configured provider and
+ * returns the text of its reply. Implementations exist for OpenAI,
+ * Anthropic and local OpenAI-compatible endpoints; all of them honour
+ * the model, temperature, timeout and retry settings of AnalyzerConfig.
+ * When a cassette is configured, ChatModelLive records or replays
+ * responses instead (see llm-cassette.ts).
+ */
+
+import { ChatOpenAI } from '@langchain/openai';
+import { Context, Duration, Effect, Layer, Schedule } from 'effect';
+import {
+  type AnalyzerConfig,
+  AnalyzerConfigService,
+  type LLMProvider,
+} from './config-service.js';
+import {
+  AnalysisError,
+  LLMAuthenticationError,
+  LLMError,
+  LLMRateLimitError,
+  type LLMServiceError,
+  LLMTimeoutError,
+} from './errors.js';
+import { recordChatModel, replayChatModel } from './llm-cassette.js';
+
+const RETRY_AFTER_REGEX = /retry after (\d+)/i;
+
+// Key accepted by local endpoints that do not check one
+const LOCAL_API_KEY_PLACEHOLDER = 'not-needed';
+
+// ============================================================================
+// Service Definition
+// ============================================================================
+
+/**
+ * Sends prompts to an LLM
+ */
+export class ChatModel extends Context.Tag('ChatModel')<
+  ChatModel,
+  {
+    /** Provider the prompts are sent to */
+    readonly provider: LLMProvider;
+
+    /** Model name */
+    readonly model: string;
+
+    /**
+     * Send a prompt and return the text of the reply
+     *
+     * The analyzer's prompts all ask for JSON; providers with a JSON
+     * mode are asked to use it.
+     */
+    readonly invoke: (
+      prompt: string
+    ) => Effect.Effect<string, LLMServiceError | AnalysisError>;
+  }
+>() {}
+
+export type ChatModelShape = Context.Tag.Service<typeof ChatModel>;
+
+// ============================================================================
+// Shared Helpers
+// ============================================================================
+
+/**
+ * Map a provider SDK error to our tagged errors
+ */
+const mapLLMError =
+  (config: AnalyzerConfig) =>
+  (error: unknown): LLMServiceError | AnalysisError => {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+
+    if (errorMsg.includes('timeout') || errorMsg.includes('ETIMEDOUT')) {
+      return new LLMTimeoutError({
+        duration: config.requestTimeout,
+        operation: `${config.provider} API call`,
+      });
+    }
+
+    if (
+      errorMsg.includes('rate limit') ||
+      errorMsg.includes('429') ||
+      errorMsg.includes('quota') ||
+      errorMsg.includes('overloaded')
+    ) {
+      // Try to extract retry-after from error message
+      const retryMatch = errorMsg.match(RETRY_AFTER_REGEX);
+      const retryAfter = retryMatch
+        ? Number.parseInt(retryMatch[1], 10)
+        : undefined;
+
+      return new LLMRateLimitError({
+        retryAfter,
+        message: `${config.provider} rate limit exceeded`,
+      });
+    }
+
+    if (
+      errorMsg.includes('auth') ||
+      errorMsg.includes('401') ||
+      errorMsg.includes('API key')
+    ) {
+      return new LLMAuthenticationError({
+        message: `${config.provider} authentication failed - check API key`,
+      });
+    }
+
+    return new AnalysisError({
+      stage: 'llm_invocation',
+      message: `LLM invocation failed: ${errorMsg}`,
+      cause: error,
+    });
+  };
+
+/**
+ * Text of a LangChain message: either a string or a list of content
+ * blocks, of which the text blocks are kept
+ */
+const messageText = (content: unknown): string => {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((part) => {
+        if (typeof part === 'string') {
+          return part;
+        }
+        return part?.type === 'text' && typeof part.text === 'string'
+          ? part.text
+          : '';
+      })
+      .join('');
+  }
+  return String(content);
+};
+
+/**
+ * Wrap a provider call with the configured timeout and retries
+ *
+ * Timeouts and rate limits are retried with exponential backoff, up to
+ * `maxRetries` times; other errors fail immediately.
+ */
+const makeChatModel = (
+  config: AnalyzerConfig,
+  call: (prompt: string) => Promise<unknown>
+): ChatModelShape => {
+  const retryPolicy = Schedule.exponential('1 second').pipe(
+    Schedule.intersect(Schedule.recurs(config.maxRetries)),
+    Schedule.whileInput(
+      (error: LLMServiceError | AnalysisError) =>
+        error._tag === 'LLMTimeoutError' || error._tag === 'LLMRateLimitError'
+    )
+  );
+
+  return ChatModel.of({
+    provider: config.provider,
+    model: config.modelName,
+    invoke: (prompt) =>
+      Effect.tryPromise({
+        try: () => call(prompt).then(messageText),
+        catch: mapLLMError(config),
+      }).pipe(
+        Effect.timeoutFail({
+          duration: Duration.millis(config.requestTimeout),
+          onTimeout: () =>
+            new LLMTimeoutError({
+              duration: config.requestTimeout,
+              operation: `${config.provider} API call`,
+            }),
+        }),
+        Effect.retry(retryPolicy)
+      ),
+  });
+};
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * OpenAI, or any OpenAI-compatible endpoint when `baseUrl` is given
+ */
+const makeOpenAIChatModel = (config: AnalyzerConfig, baseUrl?: string) =>
+  Effect.try({
+    try: () =>
+      new ChatOpenAI({
+        model: config.modelName,
+        temperature: config.temperature,
+        apiKey: config.apiKey || LOCAL_API_KEY_PLACEHOLDER,
+        // Retries and timeouts are handled by makeChatModel
+        maxRetries: 0,
+        ...(baseUrl ? { configuration: { baseURL: baseUrl } } : {}),
+      }),
+    catch: (cause) =>
+      new LLMAuthenticationError({
+        message: `Failed to initialize ${config.provider} client: ${cause}`,
+      }),
+  }).pipe(
+    Effect.map((llm) =>
+      makeChatModel(config, (prompt) =>
+        llm
+          .invoke(prompt, { response_format: { type: 'json_object' } })
+          .then((res) => res.content)
+      )
+    )
+  );
+
+/**
+ * Anthropic, loaded on demand so the package is only needed when used
+ *
+ * Anthropic has no JSON mode; the prompts ask for JSON and invalid
+ * replies are re-prompted by invokeStructured.
+ */
+const makeAnthropicChatModel = (config: AnalyzerConfig) =>
+  Effect.tryPromise({
+    try: () => import('@langchain/anthropic'),
+    catch: (cause) =>
+      new LLMError({
+        message:
+          'Failed to load @langchain/anthropic. Install it with: bun add @langchain/anthropic',
+        cause,
+      }),
+  }).pipe(
+    Effect.flatMap(({ ChatAnthropic }) =>
+      Effect.try({
+        try: () =>
+          new ChatAnthropic({
+            model: config.modelName,
+            temperature: config.temperature,
+            apiKey: config.apiKey,
+            maxRetries: 0,
+          }),
+        catch: (cause) =>
+          new LLMAuthenticationError({
+            message: `Failed to initialize anthropic client: ${cause}`,
+          }),
+      })
+    ),
+    Effect.map((llm) =>
+      makeChatModel(config, (prompt) =>
+        llm.invoke(prompt).then((res) => res.content)
+      )
+    )
+  );
+
+/**
+ * Chat model of the configured provider
+ */
+export const makeProviderChatModel = (
+  config: AnalyzerConfig
+): Effect.Effect<ChatModelShape, LLMError | LLMAuthenticationError> => {
+  switch (config.provider) {
+    case 'openai':
+      return makeOpenAIChatModel(config);
+    case 'anthropic':
+      return makeAnthropicChatModel(config);
+    case 'local':
+      return makeOpenAIChatModel(config, config.baseUrl);
+    default:
+      return Effect.fail(
+        new LLMError({ message: `Unknown LLM provider: ${config.provider}` })
+      );
+  }
+};
+
+/**
+ * ChatModel selected by AnalyzerConfig
+ *
+ * In `replay` mode responses come from the cassette and the provider is
+ * never created, so no API key is needed; in `record` mode the
+ * provider's responses are saved to the cassette.
+ */
+export const ChatModelLive = Layer.effect(
+  ChatModel,
+  Effect.gen(function* () {
+    const config = yield* (yield* AnalyzerConfigService).getConfig();
+
+    switch (config.cassetteMode) {
+      case 'replay':
+        return yield* replayChatModel(config.cassettePath, config);
+      case 'record':
+        return yield* recordChatModel(
+          yield* makeProviderChatModel(config),
+          config.cassettePath
+        );
+      default:
+        return yield* makeProviderChatModel(config);
+    }
+  })
+);
@@ -0,0 +1,60 @@
+/**
+ * Published Patterns
+ *
+ * Loads the pattern library (`content/published/*.mdx`) as toolkit
+ * `Pattern`s, mapped the same way `ep admin index build` maps them, so
+ * the coverage-gap stage searches exactly what the MCP servers serve.
+ */
+
+import { FileSystem } from '@effect/platform/FileSystem';
+import { Path } from '@effect/platform/Path';
+import { Effect, Either } from 'effect';
+import matter from 'gray-matter';
+import {
+  buildPatternsIndex,
+  type PublishedPatternSource,
+} from '../../../packages/toolkit/src/publishedPatterns.js';
+import { FileReadError, SchemaValidationError } from './errors.js';
+
+const MDX_EXTENSION = '.mdx';
+
+/**
+ * Load every published pattern in a directory
+ *
+ * Fails with SchemaValidationError listing every pattern that cannot be
+ * mapped, like the index build.
+ */
+export const loadPublishedPatterns = (directory: string) =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem;
+    const path = yield* Path;
+
+    const files = (yield* fs.readDirectory(directory))
+      .filter((file) => file.endsWith(MDX_EXTENSION))
+      .sort();
+
+    const sources: PublishedPatternSource[] = [];
+    for (const file of files) {
+      const filePath = path.join(directory, file);
+      const { data, content } = matter(yield* fs.readFileString(filePath));
+      sources.push({ path: filePath, frontmatter: data, body: content });
+    }
+
+    const result = buildPatternsIndex(sources);
+    if (Either.isLeft(result)) {
+      return yield* Effect.fail(
+        new SchemaValidationError({
+          errors: result.left.failures.map(
+            (failure) => `${failure.path}: ${failure.message}`
+          ),
+          path: directory,
+        })
+      );
+    }
+
+    return result.right.index.patterns;
+  }).pipe(
+    Effect.catchTag('SystemError', (cause) =>
+      Effect.fail(new FileReadError({ path: directory, cause }))
+    )
+  );
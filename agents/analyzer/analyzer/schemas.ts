@@ -25,8 +25,22 @@ export const AuthorSchema = Schema.Struct({
 
 export type Author = Schema.Schema.Type<typeof AuthorSchema>;
 
+/**
+ * Reaction on a Discord message
+ */
+export const ReactionSchema = Schema.Struct({
+  /** Emoji name (unicode emoji or custom emoji name) */
+  emoji: Schema.String.pipe(Schema.nonEmptyString()),
+  count: Schema.Number.pipe(Schema.int(), Schema.positive()),
+});
+
+export type Reaction = Schema.Schema.Type<typeof ReactionSchema>;
+
 /**
  * Individual Discord message with metadata
+ *
+ * Reply, thread, mention and reaction fields come from exports that carry
+ * them (see effect-discord's `fromExporterJson`); older exports omit them.
  */
 export const MessageSchema = Schema.Struct({
   /** Sequential message ID for ordering */
@@ -38,6 +52,15 @@ export const MessageSchema = Schema.Struct({
   author: AuthorSchema,
   /** ISO 8601 timestamp */
   timestamp: Schema.String,
+  /** Discord ID of the message this one replies to */
+  replyTo: Schema.optional(Schema.String),
+  /** Discord ID of the thread the message was posted in */
+  threadId: Schema.optional(Schema.String),
+  /** Users mentioned in the message */
+  mentions: Schema.optional(Schema.Array(AuthorSchema)),
+  reactions: Schema.optional(Schema.Array(ReactionSchema)),
+  /** Whether the content contains a fenced code block */
+  hasCodeBlock: Schema.optional(Schema.Boolean),
 });
 
 export type Message = Schema.Schema.Type<typeof MessageSchema>;
@@ -82,51 +105,218 @@ export const CodeExampleSchema = Schema.Struct({
   code: Schema.String.pipe(Schema.nonEmptyString()),
   /** Explanation or context for the code */
   context: Schema.String.pipe(Schema.nonEmptyString()),
+  /** Message IDs the code was taken from */
+  messageIds: Schema.Array(Schema.String),
 });
 
 export type CodeExample = Schema.Schema.Type<typeof CodeExampleSchema>;
 
 /**
- * Partial analysis result from a single chunk
+ * A question, pain point or best practice, with the messages it was
+ * found in
+ */
+export const FindingSchema = Schema.Struct({
+  text: Schema.String.pipe(Schema.nonEmptyString()),
+  /** Message IDs that show this finding */
+  messageIds: Schema.Array(Schema.String),
+});
+
+export type Finding = Schema.Schema.Type<typeof FindingSchema>;
+
+/**
+ * What the LLM returns for one chunk of messages
  *
  * This schema defines the structured output we expect from the LLM
- * when analyzing a chunk of messages. It ensures type-safe aggregation.
+ * when analyzing a chunk; responses that do not match are re-prompted.
  */
-export const PartialAnalysisSchema = Schema.Struct({
-  /** ID of the chunk being analyzed */
-  chunkId: Schema.Number.pipe(Schema.int(), Schema.nonNegative()),
-  /** Number of messages in this chunk */
-  messageCount: Schema.Number.pipe(Schema.int(), Schema.positive()),
+export const ChunkAnalysisSchema = Schema.Struct({
   /** Questions being asked by developers */
-  commonQuestions: Schema.Array(Schema.String),
+  commonQuestions: Schema.Array(FindingSchema),
   /** Effect-TS patterns discussed in this chunk */
   effectPatterns: Schema.Array(EffectPatternSchema),
   /** Concepts or issues causing confusion */
-  painPoints: Schema.Array(Schema.String),
+  painPoints: Schema.Array(FindingSchema),
   /** Recommended solutions and best practices */
-  bestPractices: Schema.Array(Schema.String),
+  bestPractices: Schema.Array(FindingSchema),
   /** Code examples demonstrating patterns */
   codeExamples: Schema.Array(CodeExampleSchema),
 });
 
+export type ChunkAnalysis = Schema.Schema.Type<typeof ChunkAnalysisSchema>;
+
+/**
+ * Partial analysis result from a single chunk
+ *
+ * The LLM's `ChunkAnalysis` plus the chunk it describes, so partial
+ * analyses can be merged in chunk order.
+ */
+export const PartialAnalysisSchema = Schema.Struct({
+  /** ID of the chunk being analyzed */
+  chunkId: Schema.Number.pipe(Schema.int(), Schema.nonNegative()),
+  /** Number of messages in this chunk */
+  messageCount: Schema.Number.pipe(Schema.int(), Schema.positive()),
+  ...ChunkAnalysisSchema.fields,
+});
+
 export type PartialAnalysis = Schema.Schema.Type<typeof PartialAnalysisSchema>;
 
 /**
- * Complete analysis aggregated from all chunks
+ * A finding merged across chunks
+ */
+export const RankedFindingSchema = Schema.Struct({
+  text: Schema.String.pipe(Schema.nonEmptyString()),
+  /** Number of times the finding was reported */
+  count: Schema.Number.pipe(Schema.int(), Schema.positive()),
+  messageIds: Schema.Array(Schema.String),
+});
+
+export type RankedFinding = Schema.Schema.Type<typeof RankedFindingSchema>;
+
+/**
+ * An Effect pattern merged across chunks
+ */
+export const PatternMentionSchema = Schema.Struct({
+  pattern: Schema.String.pipe(Schema.nonEmptyString()),
+  /** Number of times the pattern was reported */
+  mentions: Schema.Number.pipe(Schema.int(), Schema.positive()),
+  /** Distinct descriptions of how the pattern is used */
+  descriptions: Schema.Array(Schema.String),
+  exampleMessageIds: Schema.Array(Schema.String),
+});
+
+export type PatternMention = Schema.Schema.Type<typeof PatternMentionSchema>;
+
+/**
+ * What the LLM returns when summarizing the merged analysis
+ */
+export const AnalysisSummarySchema = Schema.Struct({
+  /** A few paragraphs on the key findings */
+  executiveSummary: Schema.String.pipe(Schema.nonEmptyString()),
+  /** Suggestions for documentation and learning resources */
+  recommendations: Schema.Array(Schema.String),
+});
+
+export type AnalysisSummary = Schema.Schema.Type<typeof AnalysisSummarySchema>;
+
+/**
+ * Complete analysis aggregated from all chunks (`report.json`)
+ *
+ * Findings are merged deterministically, ranked by how often they were
+ * reported; only `summary` is written by the LLM.
  */
 export const FinalAnalysisSchema = Schema.Struct({
   /** Total number of chunks analyzed */
   totalChunks: Schema.Number.pipe(Schema.int(), Schema.positive()),
   /** Total number of messages analyzed */
   totalMessages: Schema.Number.pipe(Schema.int(), Schema.positive()),
+  summary: AnalysisSummarySchema,
+  commonQuestions: Schema.Array(RankedFindingSchema),
+  effectPatterns: Schema.Array(PatternMentionSchema),
+  painPoints: Schema.Array(RankedFindingSchema),
+  bestPractices: Schema.Array(RankedFindingSchema),
+  codeExamples: Schema.Array(CodeExampleSchema),
   /** Individual chunk analyses */
   partialAnalyses: Schema.Array(PartialAnalysisSchema),
-  /** Aggregated markdown report */
-  finalReport: Schema.String.pipe(Schema.nonEmptyString()),
 });
 
 export type FinalAnalysis = Schema.Schema.Type<typeof FinalAnalysisSchema>;
 
+// ============================================================================
+// Coverage Schemas
+// ============================================================================
+
+/**
+ * A published pattern found by searching for a topic
+ */
+export const PatternMatchSchema = Schema.Struct({
+  /** ID of the pattern in content/published */
+  id: Schema.String.pipe(Schema.nonEmptyString()),
+  title: Schema.String,
+  /** Search relevance score */
+  score: Schema.Number,
+});
+
+export type PatternMatch = Schema.Schema.Type<typeof PatternMatchSchema>;
+
+/**
+ * A question or pattern from the analysis, with the published patterns
+ * that come closest to answering it
+ */
+export const TopicCoverageSchema = Schema.Struct({
+  topic: Schema.String.pipe(Schema.nonEmptyString()),
+  /** Where the topic came from: a common question or a pattern mention */
+  kind: Schema.Literal('question', 'pattern'),
+  /** Number of times the topic was reported */
+  frequency: Schema.Number.pipe(Schema.int(), Schema.positive()),
+  messageIds: Schema.Array(Schema.String),
+  /** Closest published patterns, best first */
+  matches: Schema.Array(PatternMatchSchema),
+  /** Whether the best match scores high enough to answer the topic */
+  covered: Schema.Boolean,
+});
+
+export type TopicCoverage = Schema.Schema.Type<typeof TopicCoverageSchema>;
+
+/**
+ * How well the published patterns cover an analysis (`coverage-gaps.json`)
+ */
+export const CoverageReportSchema = Schema.Struct({
+  /** Number of published patterns searched */
+  patternCount: Schema.Number.pipe(Schema.int(), Schema.nonNegative()),
+  /** Minimum score of a match that covers a topic */
+  minScore: Schema.Number,
+  /** Unanswered topics, most frequent first */
+  gaps: Schema.Array(TopicCoverageSchema),
+  /** Topics answered by a published pattern, most frequent first */
+  covered: Schema.Array(TopicCoverageSchema),
+});
+
+export type CoverageReport = Schema.Schema.Type<typeof CoverageReportSchema>;
+
+// ============================================================================
+// Checkpoint and Cassette Schemas
+// ============================================================================
+
+/**
+ * A chunk analysis saved to disk, so reruns can skip the chunk
+ *
+ * The analysis is stored without its chunk ID: rechunking can move the
+ * same messages to a different position.
+ */
+export const ChunkCheckpointSchema = Schema.Struct({
+  /** Hash of the chunk's messages and the prompt version */
+  key: Schema.String.pipe(Schema.nonEmptyString()),
+  /** Version of the chunk analysis prompt that produced the analysis */
+  promptVersion: Schema.String,
+  analysis: ChunkAnalysisSchema,
+});
+
+export type ChunkCheckpoint = Schema.Schema.Type<typeof ChunkCheckpointSchema>;
+
+/**
+ * An LLM response recorded for a prompt
+ */
+export const CassetteInteractionSchema = Schema.Struct({
+  /** SHA-256 of the prompt */
+  key: Schema.String.pipe(Schema.nonEmptyString()),
+  prompt: Schema.String,
+  response: Schema.String,
+});
+
+export type CassetteInteraction = Schema.Schema.Type<
+  typeof CassetteInteractionSchema
+>;
+
+/**
+ * Recorded LLM responses, replayed by tests instead of calling a provider
+ */
+export const CassetteSchema = Schema.Struct({
+  version: Schema.Literal(1),
+  interactions: Schema.Array(CassetteInteractionSchema),
+});
+
+export type Cassette = Schema.Schema.Type<typeof CassetteSchema>;
+
 // ============================================================================
 // Helper Schemas for Validation
 // ============================================================================
@@ -164,3 +354,18 @@ export const decodePartialAnalysis = Schema.decode(PartialAnalysisSchema);
  * Encode a PartialAnalysis to JSON-compatible format
  */
 export const encodePartialAnalysis = Schema.encode(PartialAnalysisSchema);
+
+/**
+ * Decode and validate a FinalAnalysis (`report.json`) from unknown data
+ */
+export const decodeFinalAnalysis = Schema.decodeUnknown(FinalAnalysisSchema);
+
+/**
+ * Encode a FinalAnalysis to JSON-compatible format
+ */
+export const encodeFinalAnalysis = Schema.encode(FinalAnalysisSchema);
+
+/**
+ * Encode a CoverageReport to JSON-compatible format
+ */
+export const encodeCoverageReport = Schema.encode(CoverageReportSchema);
@@ -0,0 +1,127 @@
+/**
+ * Structured LLM Output
+ *
+ * Requests JSON from the LLM and decodes it through an Effect.Schema.
+ * A response that is not valid JSON or does not match the schema is sent
+ * back to the LLM together with the decode error, a bounded number of
+ * times, before the call fails with LLMInvalidResponseError.
+ */
+
+import { Effect, JSONSchema, Schema } from 'effect';
+import { LLMInvalidResponseError } from './errors.js';
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+// Models sometimes wrap JSON in a Markdown code fence despite instructions
+const JSON_FENCE_REGEX = /^```(?:json)?\s*([\s\S]*?)\s*```$/;
+
+/**
+ * Options for invokeStructured
+ */
+export type StructuredInvocation<A, I, E> = {
+  /** Prompt asking for JSON; the expected JSON Schema is appended */
+  readonly prompt: string;
+  readonly schema: Schema.Schema<A, I>;
+  /** Name of the expected format, for error messages */
+  readonly expectedFormat: string;
+  /** Send a prompt to the LLM and return its raw text response */
+  readonly invoke: (prompt: string) => Effect.Effect<string, E>;
+  /** Re-prompts after an invalid response (default: 2) */
+  readonly maxRepairs?: number;
+};
+
+/**
+ * JSON Schema of the output a schema decodes, for prompts
+ */
+export const describeJsonFormat = <A, I>(schema: Schema.Schema<A, I>) =>
+  JSON.stringify(JSONSchema.make(schema), null, 2);
+
+/**
+ * Decode a raw LLM response through a schema
+ */
+export const decodeLLMResponse =
+  <A, I>(schema: Schema.Schema<A, I>, expectedFormat: string) =>
+  (response: string): Effect.Effect<A, LLMInvalidResponseError> => {
+    const trimmed = response.trim();
+    const json = JSON_FENCE_REGEX.exec(trimmed)?.[1] ?? trimmed;
+
+    return Effect.try({
+      try: () => JSON.parse(json) as unknown,
+      catch: (cause) =>
+        new LLMInvalidResponseError({
+          response,
+          expectedFormat,
+          reason: `Response is not valid JSON: ${
+            cause instanceof Error ? cause.message : String(cause)
+          }`,
+        }),
+    }).pipe(
+      Effect.flatMap((parsed) =>
+        Schema.decodeUnknown(schema)(parsed).pipe(
+          Effect.mapError(
+            (parseError) =>
+              new LLMInvalidResponseError({
+                response,
+                expectedFormat,
+                reason: parseError.message,
+              })
+          )
+        )
+      )
+    );
+  };
+
+/**
+ * Prompt asking the LLM to correct an invalid response
+ */
+const repairPrompt = (prompt: string, error: LLMInvalidResponseError) =>
+  `${prompt}
+
+Your previous response could not be used:
+${error.reason ?? 'It did not match the expected format.'}
+
+Previous response:
+${String(error.response)}
+
+Reply with only the corrected JSON.`;
+
+/**
+ * Invoke the LLM and decode its JSON response, re-prompting with the
+ * decode error when the response is invalid
+ */
+export const invokeStructured = <A, I, E>(
+  options: StructuredInvocation<A, I, E>
+): Effect.Effect<A, E | LLMInvalidResponseError> => {
+  const decode = decodeLLMResponse(options.schema, options.expectedFormat);
+  const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+  const prompt = `${options.prompt}
+
+Respond with a single JSON object matching this JSON Schema, and nothing else:
+${describeJsonFormat(options.schema)}`;
+
+  const attempt = (
+    currentPrompt: string,
+    repairs: number
+  ): Effect.Effect<A, E | LLMInvalidResponseError> =>
+    options
+      .invoke(currentPrompt)
+      .pipe(
+        Effect.flatMap((response) =>
+          decode(response).pipe(
+            Effect.catchAll((error) =>
+              repairs >= maxRepairs
+                ? Effect.fail(error)
+                : Effect.logWarning(
+                    `Invalid ${options.expectedFormat} response, re-prompting (${repairs + 1}/${maxRepairs})`
+                  ).pipe(
+                    Effect.zipRight(
+                      attempt(repairPrompt(prompt, error), repairs + 1)
+                    )
+                  )
+            )
+          )
+        )
+      );
+
+  return attempt(prompt, 0);
+};
@@ -4,6 +4,7 @@
  * Using Drizzle ORM with Postgres
  */
 
+import { SkillLevel as SkillLevelSchema } from '@effect-patterns/toolkit';
 import {
   index,
   integer,
@@ -15,9 +16,9 @@ import {
 } from 'drizzle-orm/pg-core';
 
 /**
- * Skill level enum
+ * Skill level enum (the toolkit's `SkillLevel`)
  */
-export const skillLevels = ['beginner', 'intermediate', 'advanced'] as const;
+export const skillLevels = SkillLevelSchema.literals;
 export type SkillLevel = (typeof skillLevels)[number];
 
 /**
@@ -3,12 +3,9 @@
  */
 
 import * as S from '@effect/schema/Schema';
+import { SkillLevel as SkillLevelSchema } from '@effect-patterns/toolkit';
 
-export const SkillLevelSchema = S.Union(
-  S.Literal('beginner'),
-  S.Literal('intermediate'),
-  S.Literal('advanced')
-);
+export { SkillLevelSchema };
 
 export const PatternFilterSchema = S.Struct({
   query: S.optional(S.String),
@@ -2,12 +2,16 @@
  * Domain types for Pattern repository
  */
 
-export type SkillLevel = 'beginner' | 'intermediate' | 'advanced';
+import type { SkillLevel } from '@effect-patterns/toolkit';
+
+export type { SkillLevel } from '@effect-patterns/toolkit';
 
 export type PatternID = string;
 
 /**
- * Pattern metadata - the canonical domain type
+ * Pattern metadata as stored by the repository
+ *
+ * The frontmatter fields follow the toolkit's `PatternFrontmatter`.
  */
 export interface PatternMeta {
   id: PatternID;
@@ -37,7 +41,7 @@ export interface DbPatternRow {
   id: string;
   title: string;
   summary: string;
-  skill_level: 'beginner' | 'intermediate' | 'advanced';
+  skill_level: SkillLevel;
   tags: string[];
   related: string[] | null;
   author: string | null;
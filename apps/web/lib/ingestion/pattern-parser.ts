@@ -6,35 +6,11 @@
 
 import { FileSystem, Path } from '@effect/platform';
 import { Schema } from '@effect/schema';
+import { PatternFrontmatter } from '@effect-patterns/toolkit';
 import { Effect } from 'effect';
 import { MdxService, type MdxServiceSchema } from 'effect-mdx';
 import type { NewPattern } from '../db/schema.js';
 
-/**
- * Pattern frontmatter schema
- *
- * Based on analysis of /content/published/ files
- */
-export class PatternFrontmatterSchema extends Schema.Class<PatternFrontmatterSchema>(
-  'PatternFrontmatter'
-)({
-  id: Schema.String,
-  title: Schema.String,
-  summary: Schema.String,
-  skillLevel: Schema.Literal('beginner', 'intermediate', 'advanced'),
-  tags: Schema.Array(Schema.String),
-  useCase: Schema.optional(Schema.Array(Schema.String)),
-  related: Schema.optional(Schema.Array(Schema.String)),
-  author: Schema.optional(Schema.String),
-  rule: Schema.optional(
-    Schema.Struct({
-      description: Schema.String,
-    })
-  ),
-}) {}
-
-export type PatternFrontmatter = typeof PatternFrontmatterSchema.Type;
-
 /**
  * Parse a single pattern MDX file
  */
@@ -53,10 +29,9 @@ export const parsePatternFile = (
     const { frontmatter: rawFrontmatter } =
       yield* mdx.readMdxAndFrontmatter(filePath);
 
-    // Validate frontmatter with schema
-    const frontmatter = yield* Schema.decodeUnknown(PatternFrontmatterSchema)(
-      rawFrontmatter
-    );
+    // Validate frontmatter with the toolkit schema
+    const frontmatter =
+      yield* Schema.decodeUnknown(PatternFrontmatter)(rawFrontmatter);
 
     // Extract filename for slug
     const filename = path.basename(filePath);
@@ -69,7 +44,10 @@ export const parsePatternFile = (
       summary: frontmatter.summary,
       skillLevel: frontmatter.skillLevel,
       tags: [...frontmatter.tags],
-      useCase: frontmatter.useCase ? [...frontmatter.useCase] : undefined,
+      useCase:
+        typeof frontmatter.useCase === 'string'
+          ? [frontmatter.useCase]
+          : [...frontmatter.useCase],
       related: frontmatter.related ? [...frontmatter.related] : undefined,
       author: frontmatter.author,
       mdxSlug,
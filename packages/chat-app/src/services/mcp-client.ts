@@ -117,7 +117,7 @@ export const McpClientLive = Layer.effect(
 
       explainPattern: (patternId: string, context?: string) =>
         Effect.gen(function* () {
-          const url = `${config.baseUrl}/api/patterns/explain`;
+          const url = `${config.baseUrl}/api/explain`;
           const response = yield* fetchWithAuth(url, {
             method: 'POST',
             body: JSON.stringify({ patternId, context }),
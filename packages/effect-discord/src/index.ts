@@ -17,7 +17,19 @@ export class DiscordExportError extends Data.TaggedError('DiscordExportError')<{
 }> {}
 
 // 3. Define the data model for a single Discord message.
-// This should match the structure of the JSON output from DiscordChatExporter.
+// It is mapped from the JSON output of DiscordChatExporter by `fromExporterJson`.
+// Reply and thread references let consumers rebuild conversations instead of
+// guessing them from message order.
+export type DiscordMention = {
+  readonly id: string;
+  readonly name: string;
+};
+
+export type DiscordReaction = {
+  readonly emoji: string;
+  readonly count: number;
+};
+
 export type DiscordMessage = {
   readonly id: string;
   readonly content: string;
@@ -25,7 +37,15 @@ export type DiscordMessage = {
     readonly id: string;
     readonly name: string;
   };
-  // ... add other relevant fields as needed
+  readonly timestamp?: string;
+  // ID of the message this one replies to.
+  readonly replyTo?: string;
+  // ID of the thread the message was posted in.
+  readonly threadId?: string;
+  readonly mentions?: readonly DiscordMention[];
+  readonly reactions?: readonly DiscordReaction[];
+  // Whether the content contains a fenced code block.
+  readonly hasCodeBlock?: boolean;
 };
 export const DiscordMessage = Data.case<DiscordMessage>();
 
@@ -45,3 +65,60 @@ export class Discord extends Context.Tag('Discord')<
     ) => Effect.Effect<ChannelExport, DiscordExportError, never>;
   }
 >() {}
+
+// 6. Map the JSON output of DiscordChatExporter onto the export model.
+// Only the fields the model carries are read; a message's thread is the
+// exported channel when that channel is a thread.
+type ExporterJson = {
+  readonly channel?: { readonly id: string; readonly type?: string };
+  readonly messages: readonly {
+    readonly id: string;
+    readonly content: string;
+    readonly timestamp?: string;
+    readonly author: { readonly id: string; readonly name: string };
+    readonly reference?: { readonly messageId?: string | null } | null;
+    readonly mentions?: readonly {
+      readonly id: string;
+      readonly name: string;
+    }[];
+    readonly reactions?: readonly {
+      readonly emoji: { readonly name: string };
+      readonly count: number;
+    }[];
+  }[];
+};
+
+const THREAD_CHANNEL_TYPE = /Thread$/;
+const CODE_BLOCK = '```';
+
+export const fromExporterJson = (json: unknown): ChannelExport => {
+  if (!Array.isArray((json as { messages?: unknown } | null)?.messages)) {
+    throw new Error('Expected a DiscordChatExporter JSON export with messages');
+  }
+  const data = json as ExporterJson;
+
+  const threadId =
+    data.channel && THREAD_CHANNEL_TYPE.test(data.channel.type ?? '')
+      ? data.channel.id
+      : undefined;
+
+  return ChannelExport({
+    messages: data.messages.map((message) =>
+      DiscordMessage({
+        id: message.id,
+        content: message.content,
+        author: { id: message.author.id, name: message.author.name },
+        timestamp: message.timestamp,
+        replyTo: message.reference?.messageId ?? undefined,
+        threadId,
+        mentions: message.mentions?.map(({ id, name }) => ({ id, name })) ?? [],
+        reactions:
+          message.reactions?.map(({ emoji, count }) => ({
+            emoji: emoji.name,
+            count,
+          })) ?? [],
+        hasCodeBlock: message.content.includes(CODE_BLOCK),
+      })
+    ),
+  });
+};
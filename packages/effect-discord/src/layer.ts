@@ -7,6 +7,7 @@ import {
   Discord,
   DiscordConfig,
   DiscordExportError,
+  fromExporterJson,
 } from './index.js';
 
 // The live implementation of the Discord service.
@@ -70,9 +71,9 @@ export const DiscordLive = Layer.effect(
               )
             );
 
-            // 3c. Parse the JSON. Map errors.
+            // 3c. Parse the JSON into the export model. Map errors.
             return yield* Effect.try({
-              try: () => JSON.parse(content) as ChannelExport,
+              try: () => fromExporterJson(JSON.parse(content)),
               catch: (cause) =>
                 new DiscordExportError({ reason: 'JsonParseError', cause }),
             });
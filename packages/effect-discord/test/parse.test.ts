@@ -3,7 +3,7 @@ import { FileSystem } from '@effect/platform/FileSystem';
 import { Path } from '@effect/platform/Path';
 import { NodeContext, NodeFileSystem, NodePath } from '@effect/platform-node';
 import { Effect, Layer } from 'effect';
-import type { ChannelExport } from '../src/index.js';
+import { type ChannelExport, fromExporterJson } from '../src/index.js';
 
 const EXPECTED_MESSAGE_COUNT = 8;
 
@@ -77,3 +77,57 @@ describe('Discord export fixture', () => {
     }
   });
 });
+
+describe('fromExporterJson', () => {
+  const exporterJson = {
+    channel: { id: 'thread_1', type: 'GuildPublicThread' },
+    messages: [
+      {
+        id: '1',
+        type: 'Default',
+        content: 'How do I provide a layer?',
+        timestamp: '2025-10-10T09:00:00.000Z',
+        author: { id: 'user_1', name: 'alex', isBot: false },
+        reference: null,
+        mentions: [],
+        reactions: [{ emoji: { id: '', name: '👀' }, count: 2, users: [] }],
+      },
+      {
+        id: '2',
+        type: 'Reply',
+        content: '```ts\nLayer.provide(ConfigLive)\n```',
+        timestamp: '2025-10-10T09:01:00.000Z',
+        author: { id: 'user_2', name: 'mike', isBot: false },
+        reference: { messageId: '1', channelId: 'thread_1', guildId: 'g' },
+        mentions: [{ id: 'user_1', name: 'alex', nickname: 'Alex' }],
+        reactions: [],
+      },
+    ],
+  };
+
+  it('should carry replies, threads, mentions, reactions and code blocks', () => {
+    const [question, answer] = fromExporterJson(exporterJson).messages;
+
+    expect(question.replyTo).toBeUndefined();
+    expect(question.threadId).toBe('thread_1');
+    expect(question.reactions).toEqual([{ emoji: '👀', count: 2 }]);
+    expect(question.hasCodeBlock).toBeFalse();
+
+    expect(answer.replyTo).toBe('1');
+    expect(answer.mentions).toEqual([{ id: 'user_1', name: 'alex' }]);
+    expect(answer.hasCodeBlock).toBeTrue();
+  });
+
+  it('should leave threadId unset outside threads', () => {
+    const [message] = fromExporterJson({
+      ...exporterJson,
+      channel: { id: 'channel_1', type: 'GuildTextChat' },
+    }).messages;
+
+    expect(message.threadId).toBeUndefined();
+  });
+
+  it('should reject JSON without messages', () => {
+    expect(() => fromExporterJson({ channel: {} })).toThrow();
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Rule Bundles
+ *
+ * Renders rules into the files each AI tool reads, for
+ * `/api/v1/bundles/{tool}`. Most tools take one markdown file where the
+ * rules live in a managed block between the EffectPatterns markers;
+ * the `-mdc` tools take one `.mdc` file per rule, as generated into
+ * `rules/cursor` and `rules/windsurf` by `rules-improved.ts`. Adding a
+ * tool means adding it to `RuleTool` and `RULE_TOOLS`.
+ */
+
+import { createHash } from 'node:crypto';
+import { Schema as S } from '@effect/schema';
+import {
+  type Rule,
+  type RuleBundle,
+  type RuleBundleFile,
+  type RuleDigest,
+  RuleTool,
+} from './schemas/api.js';
+
+/**
+ * Rule files a bundle is rendered from: `cursor` rules (also served by
+ * `/api/v1/rules`) or `windsurf` rules, which add anti-patterns
+ */
+export type RuleSet = 'cursor' | 'windsurf';
+
+/**
+ * How a tool's rules are laid out
+ */
+export interface RuleToolInfo {
+  readonly description: string;
+  /** File holding the managed block, or directory of `.mdc` files */
+  readonly target: string;
+  readonly layout: 'managed-block' | 'mdc-files';
+  readonly ruleSet: RuleSet;
+}
+
+/**
+ * Every supported tool
+ */
+export const RULE_TOOLS: { readonly [Tool in RuleTool]: RuleToolInfo } = {
+  cursor: {
+    description: 'Cursor IDE',
+    target: '.cursor/rules.md',
+    layout: 'managed-block',
+    ruleSet: 'cursor',
+  },
+  'cursor-mdc': {
+    description: 'Cursor IDE (project rules)',
+    target: '.cursor/rules',
+    layout: 'mdc-files',
+    ruleSet: 'cursor',
+  },
+  agents: {
+    description: 'AGENTS.md standard',
+    target: 'AGENTS.md',
+    layout: 'managed-block',
+    ruleSet: 'cursor',
+  },
+  windsurf: {
+    description: 'Windsurf IDE',
+    target: '.windsurf/rules.md',
+    layout: 'managed-block',
+    ruleSet: 'cursor',
+  },
+  'windsurf-mdc': {
+    description: 'Windsurf IDE (workspace rules)',
+    target: '.windsurf/rules',
+    layout: 'mdc-files',
+    ruleSet: 'windsurf',
+  },
+  gemini: {
+    description: 'Gemini AI',
+    target: 'GEMINI.md',
+    layout: 'managed-block',
+    ruleSet: 'cursor',
+  },
+  claude: {
+    description: 'Claude AI',
+    target: 'CLAUDE.md',
+    layout: 'managed-block',
+    ruleSet: 'cursor',
+  },
+  vscode: {
+    description: 'VS Code / Continue.dev',
+    target: '.vscode/rules.md',
+    layout: 'managed-block',
+    ruleSet: 'cursor',
+  },
+  kilo: {
+    description: 'Kilo IDE',
+    target: '.kilo/rules.md',
+    layout: 'managed-block',
+    ruleSet: 'cursor',
+  },
+  kira: {
+    description: 'Kira IDE',
+    target: '.kira/rules.md',
+    layout: 'managed-block',
+    ruleSet: 'cursor',
+  },
+  trae: {
+    description: 'Trae IDE',
+    target: '.trae/rules.md',
+    layout: 'managed-block',
+    ruleSet: 'cursor',
+  },
+  goose: {
+    description: 'Goose AI',
+    target: '.goosehints',
+    layout: 'managed-block',
+    ruleSet: 'cursor',
+  },
+};
+
+export const MANAGED_BLOCK_START = '# --- BEGIN EFFECTPATTERNS RULES ---';
+export const MANAGED_BLOCK_END = '# --- END EFFECTPATTERNS RULES ---';
+
+const LEADING_NEWLINES = /^\n+/;
+const TRAILING_NEWLINES = /\n+$/;
+
+/**
+ * Whether a tool name is supported
+ */
+export const isRuleTool: (tool: unknown) => tool is RuleTool = S.is(RuleTool);
+
+/**
+ * Short SHA-256 of some content, as used for rule digests, bundle
+ * versions and lockfile file hashes
+ */
+export function contentHash(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 12);
+}
+
+/**
+ * Each rule's ID and content hash, in the order given
+ */
+export function ruleDigests(rules: readonly Rule[]): RuleDigest[] {
+  return rules.map((rule) => ({
+    id: rule.id,
+    hash: contentHash(rule.content),
+  }));
+}
+
+/**
+ * Version of a set of rules: the `RuleBundle.version` of a bundle
+ * rendered from all of them
+ */
+export function ruleSetVersion(rules: readonly Rule[]): string {
+  return contentHash(JSON.stringify(ruleDigests(rules)));
+}
+
+/**
+ * Format a single rule as a managed block section
+ */
+export function formatRuleSection(rule: Rule): string {
+  const useCase = rule.useCase?.join(', ') || 'N/A';
+  const skillLevel = rule.skillLevel || 'N/A';
+
+  return [
+    `### ${rule.title}`,
+    `**ID:** ${rule.id}`,
+    `**Use Case:** ${useCase} | **Skill Level:** ${skillLevel}`,
+    '',
+    rule.content,
+    '',
+  ].join('\n');
+}
+
+/**
+ * Render a tool's files from rules of its `ruleSet`
+ *
+ * Rules are rendered in the order given. No rules render no files.
+ */
+export function renderRuleBundle(
+  tool: RuleTool,
+  rules: readonly Rule[]
+): RuleBundle {
+  const info = RULE_TOOLS[tool];
+  const digests = ruleDigests(rules);
+  return {
+    tool,
+    version: ruleSetVersion(rules),
+    ruleCount: rules.length,
+    rules: digests,
+    files: rules.length === 0 ? [] : renderFiles(info, rules),
+  };
+}
+
+/**
+ * Put a managed block into a file's content, replacing the existing
+ * block if there is one and appending it otherwise
+ */
+export function applyManagedBlock(
+  existing: string | undefined,
+  block: string
+): string {
+  const content = existing ?? '';
+  const startIndex = content.indexOf(MANAGED_BLOCK_START);
+  const endIndex = content.indexOf(MANAGED_BLOCK_END);
+
+  if (startIndex !== -1 && endIndex !== -1) {
+    return (
+      content.substring(0, startIndex) +
+      block +
+      content.substring(endIndex + MANAGED_BLOCK_END.length)
+    );
+  }
+  return content ? `${content}\n\n${block}\n` : `${block}\n`;
+}
+
+/**
+ * The managed block of a file's content, markers included, if it has
+ * one
+ */
+export function extractManagedBlock(content: string): string | undefined {
+  const startIndex = content.indexOf(MANAGED_BLOCK_START);
+  const endIndex = content.indexOf(MANAGED_BLOCK_END);
+
+  if (startIndex === -1 || endIndex === -1) {
+    return;
+  }
+  return content.substring(startIndex, endIndex + MANAGED_BLOCK_END.length);
+}
+
+/**
+ * Take the managed block out of a file's content, along with the blank
+ * lines `applyManagedBlock` put around it
+ *
+ * Returns an empty string when nothing else is left in the file.
+ */
+export function removeManagedBlock(content: string): string {
+  const block = extractManagedBlock(content);
+  if (block === undefined) {
+    return content;
+  }
+
+  const startIndex = content.indexOf(block);
+  const before = content
+    .substring(0, startIndex)
+    .replace(TRAILING_NEWLINES, '');
+  const after = content
+    .substring(startIndex + block.length)
+    .replace(LEADING_NEWLINES, '');
+
+  if (before && after) {
+    return `${before}\n\n${after}`;
+  }
+  return before ? `${before}\n` : after;
+}
+
+const renderFiles = (
+  info: RuleToolInfo,
+  rules: readonly Rule[]
+): RuleBundleFile[] => {
+  if (info.layout === 'mdc-files') {
+    return rules.map((rule) => ({
+      path: `${info.target}/${rule.id}.mdc`,
+      content: rule.content,
+      mode: 'replace',
+    }));
+  }
+
+  const sections = rules.map(formatRuleSection).join('\n---\n\n');
+  return [
+    {
+      path: info.target,
+      content: `${MANAGED_BLOCK_START}\n\n${sections}\n${MANAGED_BLOCK_END}`,
+      mode: 'managed-block',
+    },
+  ];
+};
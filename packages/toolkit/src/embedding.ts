@@ -0,0 +1,133 @@
+/**
+ * Text Embedding
+ *
+ * The `Embedder` service turns text into fixed-size vectors for
+ * semantic search. A deterministic, offline hashed n-gram embedder is
+ * provided as the default Layer so search works (and tests run)
+ * without network access; a real embedding model can be plugged in by
+ * providing a different `Embedder` Layer.
+ */
+
+import { Context, Data, Effect, Layer } from 'effect';
+import { tokenize } from './tokenize.js';
+
+/**
+ * Error raised when text cannot be embedded
+ */
+export class EmbeddingError extends Data.TaggedError('EmbeddingError')<{
+  readonly message: string;
+  readonly cause?: unknown;
+}> {}
+
+/**
+ * Embedder service tag
+ *
+ * Implementations must return one vector of length `dimensions` per
+ * input text, in input order.
+ */
+export class Embedder extends Context.Tag('Embedder')<
+  Embedder,
+  {
+    /** Identifies the model; stored with persisted embeddings */
+    readonly model: string;
+    readonly dimensions: number;
+    readonly embed: (
+      texts: readonly string[]
+    ) => Effect.Effect<ReadonlyArray<readonly number[]>, EmbeddingError>;
+  }
+>() {}
+
+/**
+ * Options for the hashed n-gram embedder
+ */
+export interface HashedEmbedderOptions {
+  /** Vector size (default: 256) */
+  dimensions?: number;
+}
+
+const DEFAULT_DIMENSIONS = 256;
+
+/** Feature weights: whole terms dominate, n-grams add fuzziness */
+const TERM_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Scale a vector to unit length (zero vectors are returned unchanged)
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return norm === 0 ? vector : vector.map((x) => x / norm);
+}
+
+/**
+ * Embed a single text with the feature-hashing trick
+ *
+ * Features are stemmed terms, adjacent term pairs and character
+ * trigrams of each term. Each feature is hashed to a dimension and a
+ * sign, so unrelated features cancel out rather than accumulate.
+ *
+ * @param text - Text to embed
+ * @param dimensions - Vector size
+ * @returns Unit-length vector
+ */
+export function hashedEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimensions] =
+      (vector[hash % dimensions] ?? 0) + sign * weight;
+  };
+
+  const terms = tokenize(text).map((token) => token.term);
+
+  terms.forEach((term, i) => {
+    add(`t:${term}`, TERM_WEIGHT);
+
+    const next = terms[i + 1];
+    if (next) add(`b:${term} ${next}`, BIGRAM_WEIGHT);
+
+    const padded = `#${term}#`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+    }
+  });
+
+  return normalize(vector);
+}
+
+/**
+ * Create a deterministic, offline embedder based on hashed n-grams
+ *
+ * @param options - Embedder options
+ * @returns Embedder service implementation
+ */
+export const makeHashedEmbedder = (
+  options: HashedEmbedderOptions = {}
+): Context.Tag.Service<Embedder> => {
+  const dimensions = options.dimensions ?? DEFAULT_DIMENSIONS;
+  return {
+    model: `hashed-ngram-${dimensions}`,
+    dimensions,
+    embed: (texts) =>
+      Effect.sync(() => texts.map((text) => hashedEmbedding(text, dimensions))),
+  };
+};
+
+/**
+ * Default Embedder Layer - hashed n-gram vectors, no network required
+ */
+export const HashedEmbedderLive = Layer.succeed(Embedder, makeHashedEmbedder());
@@ -0,0 +1,304 @@
+/**
+ * Embedding Search Index
+ *
+ * The `EmbeddingIndex` service keeps one embedding vector per pattern
+ * and answers semantic (cosine top-k) and hybrid (lexical + vector)
+ * queries. Vectors come from the `Embedder` service, so the same index
+ * works with the offline hashed embedder or a real embedding model.
+ */
+
+import { createHash } from 'node:crypto';
+import { Context, Effect, Layer } from 'effect';
+import { Embedder, type EmbeddingError } from './embedding.js';
+import type { PatternEmbeddings } from './schemas/embedding.js';
+import type { Pattern } from './schemas/pattern.js';
+import type { SearchIndex } from './schemas/search.js';
+import {
+  buildSearchIndex,
+  querySearchIndex,
+  type SearchHit,
+} from './searchIndex.js';
+
+/** Default share of the hybrid score taken from BM25 */
+const DEFAULT_LEXICAL_WEIGHT = 0.5;
+/** Default number of results for semantic and hybrid queries */
+const DEFAULT_TOP_K = 10;
+/** Hex digits of the content hash stored with each vector */
+const CONTENT_HASH_LENGTH = 16;
+
+/**
+ * Parameters for a semantic query
+ */
+export interface SemanticSearchParams {
+  /** Free-text query describing the intent */
+  query: string;
+  /** Filter by category (optional, case-insensitive) */
+  category?: string;
+  /** Filter by difficulty level (optional, case-insensitive) */
+  difficulty?: string;
+  /** Number of results to return (default: 10) */
+  limit?: number;
+  /** Drop results scoring at or below this value (default: 0) */
+  minScore?: number;
+}
+
+/**
+ * Parameters for a hybrid query
+ */
+export interface HybridSearchParams extends SemanticSearchParams {
+  /** Weight of the normalized BM25 score, 0-1 (default: 0.5) */
+  lexicalWeight?: number;
+}
+
+/**
+ * Options for building an embedding index
+ */
+export interface MakeEmbeddingIndexOptions {
+  /** Lexical index used for hybrid ranking (built if omitted) */
+  lexicalIndex?: SearchIndex;
+  /**
+   * Previously computed vectors (e.g. loaded from embeddings.json).
+   * Used only if they were produced by the current embedder, and only
+   * for patterns whose content is unchanged; other patterns are
+   * embedded on demand.
+   */
+  precomputed?: PatternEmbeddings;
+}
+
+/**
+ * EmbeddingIndex service tag
+ */
+export class EmbeddingIndex extends Context.Tag('EmbeddingIndex')<
+  EmbeddingIndex,
+  {
+    /** Per-pattern vectors, serializable as `PatternEmbeddings` */
+    readonly embeddings: PatternEmbeddings;
+    readonly semanticSearch: (
+      params: SemanticSearchParams
+    ) => Effect.Effect<SearchHit[], EmbeddingError>;
+    readonly hybridSearch: (
+      params: HybridSearchParams
+    ) => Effect.Effect<SearchHit[], EmbeddingError>;
+  }
+>() {}
+
+/**
+ * Cosine similarity of two vectors (0 if either is a zero vector)
+ */
+export function cosineSimilarity(
+  a: readonly number[],
+  b: readonly number[]
+): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const length = Math.min(a.length, b.length);
+
+  for (let i = 0; i < length; i++) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Text embedded for a pattern: everything a user might describe in
+ * words, without example code
+ */
+function embeddingText(pattern: Pattern): string {
+  return [
+    pattern.title,
+    pattern.description,
+    pattern.category,
+    ...pattern.tags,
+    ...pattern.useCases,
+    ...pattern.examples.flatMap((example) =>
+      example.description ? [example.description] : []
+    ),
+  ].join('\n');
+}
+
+/**
+ * Hash of a pattern's embedding text, stored with its vector
+ */
+function hashPatternContent(pattern: Pattern): string {
+  return createHash('sha256')
+    .update(embeddingText(pattern))
+    .digest('hex')
+    .slice(0, CONTENT_HASH_LENGTH);
+}
+
+/**
+ * Check a pattern against category/difficulty filters
+ */
+function matchesFilters(
+  pattern: Pattern,
+  params: { category?: string; difficulty?: string }
+): boolean {
+  if (
+    params.category &&
+    pattern.category.toLowerCase() !== params.category.toLowerCase()
+  ) {
+    return false;
+  }
+  if (
+    params.difficulty &&
+    pattern.difficulty.toLowerCase() !== params.difficulty.toLowerCase()
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Build an EmbeddingIndex service for a set of patterns
+ *
+ * @param patterns - Patterns to index
+ * @param options - Lexical index and precomputed vectors to reuse
+ * @returns Effect yielding the service, requiring an `Embedder`
+ * @example
+ * ```typescript
+ * const index = yield* makeEmbeddingIndex(patterns).pipe(
+ *   Effect.provide(HashedEmbedderLive)
+ * )
+ * const hits = yield* index.hybridSearch({ query: "cancel on abort" })
+ * ```
+ */
+export const makeEmbeddingIndex = (
+  patterns: readonly Pattern[],
+  options: MakeEmbeddingIndexOptions = {}
+): Effect.Effect<
+  Context.Tag.Service<EmbeddingIndex>,
+  EmbeddingError,
+  Embedder
+> =>
+  Effect.gen(function* () {
+    const embedder = yield* Embedder;
+    const lexicalIndex = options.lexicalIndex ?? buildSearchIndex(patterns);
+
+    const hashes = new Map(
+      patterns.map((pattern) => [pattern.id, hashPatternContent(pattern)])
+    );
+
+    const reusable = new Map<string, readonly number[]>();
+    if (
+      options.precomputed &&
+      options.precomputed.model === embedder.model &&
+      options.precomputed.dimensions === embedder.dimensions
+    ) {
+      for (const { id, contentHash, vector } of options.precomputed
+        .embeddings) {
+        if (hashes.get(id) === contentHash) {
+          reusable.set(id, vector);
+        }
+      }
+    }
+
+    const missing = patterns.filter((p) => !reusable.has(p.id));
+    const computed =
+      missing.length > 0
+        ? yield* embedder.embed(missing.map(embeddingText))
+        : [];
+    missing.forEach((pattern, i) => {
+      reusable.set(pattern.id, computed[i] ?? []);
+    });
+
+    const entries = patterns.map((pattern) => ({
+      pattern,
+      contentHash: hashes.get(pattern.id) ?? hashPatternContent(pattern),
+      vector: reusable.get(pattern.id) ?? [],
+    }));
+
+    const semanticSearch = (params: SemanticSearchParams) =>
+      Effect.gen(function* () {
+        const [queryVector = []] = yield* embedder.embed([params.query]);
+        const minScore = params.minScore ?? 0;
+
+        return entries
+          .filter(({ pattern }) => matchesFilters(pattern, params))
+          .map(({ pattern, vector }) => ({
+            id: pattern.id,
+            score: cosineSimilarity(queryVector, vector),
+            highlights: [],
+          }))
+          .filter((hit) => hit.score > minScore)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, params.limit ?? DEFAULT_TOP_K);
+      });
+
+    const hybridSearch = (params: HybridSearchParams) =>
+      Effect.gen(function* () {
+        const lexicalWeight = Math.min(
+          1,
+          Math.max(0, params.lexicalWeight ?? DEFAULT_LEXICAL_WEIGHT)
+        );
+
+        const lexicalHits = querySearchIndex(lexicalIndex, {
+          query: params.query,
+          category: params.category,
+          difficulty: params.difficulty,
+        });
+        const semanticHits = yield* semanticSearch({
+          ...params,
+          limit: patterns.length,
+          minScore: 0,
+        });
+
+        // BM25 scores are unbounded, so scale them into 0-1 first
+        const maxLexical = Math.max(0, ...lexicalHits.map((h) => h.score));
+        const combined = new Map<string, SearchHit>();
+
+        for (const hit of lexicalHits) {
+          combined.set(hit.id, {
+            id: hit.id,
+            score:
+              maxLexical > 0 ? (lexicalWeight * hit.score) / maxLexical : 0,
+            highlights: hit.highlights,
+          });
+        }
+        for (const hit of semanticHits) {
+          const existing = combined.get(hit.id);
+          combined.set(hit.id, {
+            id: hit.id,
+            score: (existing?.score ?? 0) + (1 - lexicalWeight) * hit.score,
+            highlights: existing?.highlights ?? [],
+          });
+        }
+
+        const minScore = params.minScore ?? 0;
+        return [...combined.values()]
+          .filter((hit) => hit.score > minScore)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, params.limit ?? DEFAULT_TOP_K);
+      });
+
+    return {
+      embeddings: {
+        model: embedder.model,
+        dimensions: embedder.dimensions,
+        embeddings: entries.map(({ pattern, contentHash, vector }) => ({
+          id: pattern.id,
+          contentHash,
+          vector,
+        })),
+      },
+      semanticSearch,
+      hybridSearch,
+    };
+  });
+
+/**
+ * EmbeddingIndex Layer for a fixed set of patterns
+ *
+ * @param patterns - Patterns to index
+ * @param options - Lexical index and precomputed vectors to reuse
+ */
+export const EmbeddingIndexLive = (
+  patterns: readonly Pattern[],
+  options: MakeEmbeddingIndexOptions = {}
+): Layer.Layer<EmbeddingIndex, EmbeddingError, Embedder> =>
+  Layer.effect(EmbeddingIndex, makeEmbeddingIndex(patterns, options));
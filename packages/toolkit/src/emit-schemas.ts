@@ -2,14 +2,20 @@
  * JSON Schema Emitter
  *
  * Build-time script to emit JSON Schema representations of Effect
- * schemas for LLM tool-call function parameter specifications.
+ * schemas for LLM tool-call function parameter specifications, the
+ * OpenAPI document for the pattern HTTP APIs, and the JSON Schema of
+ * `ep.json` (`ep.schema.json`, committed at the package root so
+ * `$schema` can point at it).
  */
 
 import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
-import { join, dirname } from 'node:path';
-import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
 import { stderr, stdout } from 'node:process';
+import { fileURLToPath } from 'node:url';
 import { JSONSchema, type Schema as S } from '@effect/schema';
+import { formatJson } from './formatJson.js';
+import { buildOpenApiDocument } from './openapi.js';
+import { EpConfig } from './schemas/config.js';
 import {
   ExplainPatternRequest,
   GenerateRequest,
@@ -59,6 +65,20 @@ function main(): void {
   emitSchema(SearchPatternsRequest, 'search-patterns-request', outputDir);
   emitSchema(ExplainPatternRequest, 'explain-pattern-request', outputDir);
 
+  writeFileSync(
+    join(outputDir, 'openapi.json'),
+    JSON.stringify(buildOpenApiDocument(), null, 2),
+    'utf-8'
+  );
+  stdout.write('✓ Emitted openapi.json\n');
+
+  writeFileSync(
+    join(__dirname, '../ep.schema.json'),
+    `${formatJson(JSONSchema.make(EpConfig))}\n`,
+    'utf-8'
+  );
+  stdout.write('✓ Emitted ep.schema.json\n');
+
   stdout.write('\nAll schemas emitted successfully!\n');
 }
 
@@ -0,0 +1,162 @@
+/**
+ * Project Configuration
+ *
+ * Reads `ep.json` and resolves its linter settings for a file: whether
+ * the file is excluded, and which rule severities apply once the
+ * `overrides` matching it are merged over `rules`.
+ */
+
+import { Schema as S } from '@effect/schema';
+import { Data, Either } from 'effect';
+import { EpConfig, type LinterConfig } from './schemas/config.js';
+import type { LintRuleSettings } from './schemas/lint.js';
+
+/**
+ * Configuration file name, relative to the project root
+ */
+export const EP_CONFIG_NAME = 'ep.json';
+
+/**
+ * Where the JSON Schema of `ep.json` is published
+ */
+export const EP_CONFIG_SCHEMA_URL =
+  'https://raw.githubusercontent.com/PaulJPhilp/Effect-Patterns/main/packages/toolkit/ep.schema.json';
+
+/**
+ * `ep.json` is not valid JSON or does not match `EpConfig`
+ */
+export class EpConfigError extends Data.TaggedError('EpConfigError')<{
+  readonly message: string;
+}> {}
+
+/**
+ * Configuration written by `ep init`
+ */
+export const defaultEpConfig: EpConfig = {
+  $schema: EP_CONFIG_SCHEMA_URL,
+  linter: {
+    enabled: true,
+    files: {
+      include: ['src/**/*.ts'],
+    },
+  },
+};
+
+/**
+ * Parse the contents of `ep.json`
+ *
+ * Unknown keys are rejected, so a misspelled rule name is reported
+ * instead of being ignored.
+ */
+export function parseEpConfig(
+  json: string
+): Either.Either<EpConfig, EpConfigError> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    return Either.left(
+      new EpConfigError({
+        message: `Invalid JSON in ${EP_CONFIG_NAME}: ${error}`,
+      })
+    );
+  }
+
+  return S.decodeUnknownEither(EpConfig, { onExcessProperty: 'error' })(
+    parsed
+  ).pipe(
+    Either.mapLeft(
+      (error) =>
+        new EpConfigError({
+          message: `Invalid ${EP_CONFIG_NAME}: ${error.message}`,
+        })
+    )
+  );
+}
+
+/**
+ * Serialize a configuration
+ */
+export const formatEpConfig = (config: EpConfig): string =>
+  `${JSON.stringify(config, null, 2)}\n`;
+
+const REGEXP_SPECIAL = /[.+^$()|[\]\\{}]/;
+const LEADING_DOT_SLASH = /^\.\//;
+const TRAILING_SLASHES = /\/+$/;
+
+/**
+ * Compile a glob: `**` matches any number of directories, `*` and `?`
+ * match within one path segment, and `{a,b}` matches either
+ */
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let alternatives = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i] as string;
+    if (char === '*' && glob[i + 1] === '*') {
+      const directories = glob[i + 2] === '/';
+      source += directories ? '(?:.*/)?' : '.*';
+      i += directories ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      alternatives++;
+    } else if (char === '}' && alternatives > 0) {
+      source += ')';
+      alternatives--;
+    } else if (char === ',' && alternatives > 0) {
+      source += '|';
+    } else {
+      source += REGEXP_SPECIAL.test(char) ? `\\${char}` : char;
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a glob matches a file or one of its directories
+ *
+ * @param file - Path relative to the project root, with `/` separators
+ */
+export function matchesGlob(file: string, glob: string): boolean {
+  const pattern = globToRegExp(
+    glob.replace(LEADING_DOT_SLASH, '').replace(TRAILING_SLASHES, '')
+  );
+  const segments = file.split('/');
+  return segments.some((_, index) =>
+    pattern.test(segments.slice(0, index + 1).join('/'))
+  );
+}
+
+/**
+ * Whether `linter.files.exclude` matches a file
+ *
+ * @param file - Path relative to the project root, with `/` separators
+ */
+export const isLintExcluded = (
+  linter: LinterConfig | undefined,
+  file: string
+): boolean =>
+  (linter?.files?.exclude ?? []).some((glob) => matchesGlob(file, glob));
+
+/**
+ * Rule severities for a file: `linter.rules`, then each override whose
+ * `files` match it, in order
+ *
+ * @param file - Path relative to the project root, with `/` separators
+ */
+export function lintRulesFor(
+  linter: LinterConfig | undefined,
+  file: string
+): LintRuleSettings {
+  const rules: LintRuleSettings = { ...linter?.rules };
+  for (const override of linter?.overrides ?? []) {
+    if (override.files.some((glob) => matchesGlob(file, glob))) {
+      Object.assign(rules, override.rules);
+    }
+  }
+  return rules;
+}
@@ -0,0 +1,359 @@
+/**
+ * Pattern Explanation Builder
+ *
+ * Deterministic explanation generation: assembles guideline,
+ * rationale, use cases, related-pattern summaries and annotated example
+ * code from a Pattern, optionally tailored to a caller-supplied
+ * context. No model calls - the same input always yields the same
+ * explanation.
+ */
+
+import type {
+  AnnotatedExample,
+  PatternExplanation,
+  RelatedPatternSummary,
+} from './schemas/generate.js';
+import type { Pattern, PatternCategory } from './schemas/pattern.js';
+import { tokenize } from './tokenize.js';
+
+/**
+ * Why each category of pattern exists, used as the rationale lead-in
+ */
+const CATEGORY_RATIONALE: Readonly<Record<PatternCategory, string>> = {
+  'error-handling':
+    'Effect tracks failures in the type signature, so errors can be ' +
+    'recovered from, retried or transformed explicitly instead of ' +
+    'escaping as thrown exceptions.',
+  concurrency:
+    'Fibers are lightweight and interruptible, so concurrent work can be ' +
+    'bounded, raced and cancelled without leaking resources.',
+  'data-transformation':
+    'Keeping transformations inside Effect preserves typed errors and ' +
+    'composition while data moves between shapes.',
+  testing:
+    'Because effects are descriptions rather than running code, ' +
+    'dependencies can be swapped for test implementations and time can ' +
+    'be controlled deterministically.',
+  services:
+    'Declaring dependencies as services and providing them with Layers ' +
+    'keeps business logic decoupled from concrete implementations.',
+  streams:
+    'Streams process data incrementally with back-pressure, so large or ' +
+    'unbounded inputs never need to fit in memory at once.',
+  caching:
+    'Caching effect results avoids repeating expensive work while keeping ' +
+    'the cached computation typed and composable.',
+  observability:
+    'Spans, logs and metrics attached to effects make behaviour visible ' +
+    'without threading instrumentation code through business logic.',
+  scheduling:
+    'Schedules describe repetition and delays as values, so retry and ' +
+    'polling policies can be composed and reused.',
+  'resource-management':
+    'Scopes guarantee that acquired resources are released, even when ' +
+    'the effect using them fails or is interrupted.',
+  'core-concepts':
+    'An Effect is a lazy description of a program, so it can be ' +
+    'composed, transformed and run only once everything it needs is known.',
+  'domain-modeling':
+    'Modeling domain values with precise types and schemas turns invalid ' +
+    'states into compile-time or decode-time errors.',
+  http:
+    'Treating requests and handlers as effects gives HTTP code typed ' +
+    'errors, injectable clients and cancellation for free.',
+  'project-setup':
+    'A runtime built once from Layers is where effects meet the outside ' +
+    'world, so how a program is set up and run shapes everything else.',
+  tooling:
+    'Editor and agent tooling that understands Effect types catches ' +
+    'mistakes before the code ever runs.',
+};
+
+/**
+ * What each difficulty level assumes of the reader
+ */
+const DIFFICULTY_NOTE: Readonly<Record<Pattern['difficulty'], string>> = {
+  beginner: 'It is a good starting point if you are new to Effect.',
+  intermediate:
+    'It assumes familiarity with Effect.gen, pipe and basic error handling.',
+  advanced:
+    'It builds on fibers, Layers and Scopes; make sure those are ' +
+    'comfortable before applying it.',
+};
+
+/**
+ * Short notes for common Effect APIs, used to annotate example code
+ */
+const API_NOTES: ReadonlyArray<readonly [string, string]> = [
+  ['Effect.gen', 'sequential, generator-based composition of effects'],
+  [
+    'Effect.tryPromise',
+    'wraps a Promise, turning rejections into typed failures',
+  ],
+  ['Effect.try', 'wraps synchronous code that may throw'],
+  ['Effect.retry', 're-runs the effect on failure according to a Schedule'],
+  [
+    'Effect.catchTag',
+    'recovers from one tagged error, leaving others untouched',
+  ],
+  ['Effect.catchAll', 'recovers from every failure in the error channel'],
+  [
+    'Effect.forEach',
+    'runs an effect per element; `concurrency` bounds parallelism',
+  ],
+  ['Effect.all', 'combines effects; sequential unless `concurrency` is set'],
+  ['Effect.timeout', 'fails or interrupts the effect if it takes too long'],
+  ['Effect.acquireRelease', 'pairs acquisition with a guaranteed release'],
+  ['Effect.scoped', 'closes the Scope, releasing resources, when done'],
+  ['Effect.provide', 'supplies the services (Layers) the effect requires'],
+  ['Effect.fork', 'starts the effect on a new fiber'],
+  ['Effect.sleep', 'suspends the fiber without blocking the thread'],
+  ['Effect.withSpan', 'records the effect as a tracing span'],
+  ['Schedule.exponential', 'delays grow exponentially between attempts'],
+  ['Schedule.recurs', 'limits the number of repetitions'],
+  ['Schedule.spaced', 'waits a fixed delay between repetitions'],
+  ['Layer.', 'builds services for dependency injection'],
+  ['Context.Tag', 'declares a service interface'],
+  ['Stream.', 'incremental, back-pressured processing'],
+  ['Schema.', 'runtime validation with static types'],
+];
+
+const WORD_CHAR = /\w/;
+const TRAILING_DOT = /\.$/;
+
+/**
+ * Parameters for building an explanation
+ */
+export interface BuildExplanationParams {
+  /** Pattern to explain */
+  pattern: Pattern;
+  /** All known patterns, used to summarize related patterns */
+  patterns?: readonly Pattern[];
+  /** Caller's situation, used to tailor the explanation (optional) */
+  context?: string;
+}
+
+/**
+ * Add a comment above each line that uses a known Effect API
+ *
+ * Only the first use of each API is annotated, so repeated calls do not
+ * drown the example in comments.
+ *
+ * @param code - Example source code
+ * @returns Code with explanatory comments inserted
+ */
+export function annotateCode(code: string): string {
+  const seen = new Set<string>();
+
+  return code
+    .split('\n')
+    .flatMap((line) => {
+      const trimmed = line.trimStart();
+      if (trimmed.startsWith('//') || trimmed.startsWith('import ')) {
+        return [line];
+      }
+
+      const indent = line.slice(0, line.length - trimmed.length);
+      const notes = API_NOTES.filter(([api]) => {
+        if (seen.has(api) || !line.includes(api)) {
+          return false;
+        }
+        // "Effect.try" must not match inside "Effect.tryPromise"
+        const next = line[line.indexOf(api) + api.length];
+        return api.endsWith('.') || !(next && WORD_CHAR.test(next));
+      });
+
+      for (const [api] of notes) {
+        seen.add(api);
+      }
+      return [
+        ...notes.map(
+          ([api, note]) =>
+            `${indent}// ${api.replace(TRAILING_DOT, '')}: ${note}`
+        ),
+        line,
+      ];
+    })
+    .join('\n');
+}
+
+/**
+ * Summarize related patterns, keeping unknown IDs as bare references
+ */
+function summarizeRelated(
+  pattern: Pattern,
+  patterns: readonly Pattern[]
+): RelatedPatternSummary[] {
+  return (pattern.relatedPatterns ?? []).map((id) => {
+    const related = patterns.find((p) => p.id === id);
+    return related
+      ? { id, title: related.title, description: related.description }
+      : { id };
+  });
+}
+
+/**
+ * Use cases and tags sharing at least one term with the context,
+ * most overlapping first
+ */
+function matchContext(pattern: Pattern, context: string) {
+  const contextTerms = new Set(tokenize(context).map((t) => t.term));
+  const overlap = (text: string) =>
+    new Set(
+      tokenize(text)
+        .map((t) => t.term)
+        .filter((term) => contextTerms.has(term))
+    ).size;
+
+  const rank = (items: readonly string[]) =>
+    items
+      .map((item, index) => ({ item, index, score: overlap(item) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(({ item }) => item);
+
+  return {
+    useCases: rank(pattern.useCases),
+    tags: rank(pattern.tags),
+  };
+}
+
+/**
+ * Render a structured explanation as Markdown
+ */
+function renderExplanation(
+  pattern: Pattern,
+  explanation: Omit<PatternExplanation, 'markdown'>
+): string {
+  const lines = [
+    `# ${pattern.title}`,
+    '',
+    `**Guideline:** ${explanation.guideline}`,
+    '',
+  ];
+
+  if (explanation.context) {
+    lines.push('## For Your Context', '', explanation.context.summary, '');
+  }
+
+  lines.push('## Rationale', '', explanation.rationale, '');
+
+  if (explanation.useCases.length > 0) {
+    lines.push(
+      '## Use Cases',
+      '',
+      ...explanation.useCases.map((useCase) => `- ${useCase}`),
+      ''
+    );
+  }
+
+  for (const [i, example] of explanation.examples.entries()) {
+    lines.push(
+      explanation.examples.length > 1 ? `## Example ${i + 1}` : '## Example',
+      ''
+    );
+    if (example.description) {
+      lines.push(example.description, '');
+    }
+    lines.push(`\`\`\`${example.language}`, example.code, '```', '');
+  }
+
+  if (explanation.relatedPatterns.length > 0) {
+    lines.push(
+      '## Related Patterns',
+      '',
+      ...explanation.relatedPatterns.map((related) =>
+        related.title
+          ? `- **${related.title}** (\`${related.id}\`): ${related.description ?? ''}`.trimEnd()
+          : `- \`${related.id}\``
+      ),
+      ''
+    );
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+/**
+ * Build a deterministic explanation of a pattern
+ *
+ * @param params - Pattern, related-pattern lookup and optional context
+ * @returns Structured explanation plus a Markdown rendering
+ * @example
+ * ```typescript
+ * const explanation = buildExplanation({
+ *   pattern,
+ *   patterns: allPatterns,
+ *   context: "retrying HTTP requests in an API gateway"
+ * })
+ * console.log(explanation.markdown)
+ * ```
+ */
+export function buildExplanation(
+  params: BuildExplanationParams
+): PatternExplanation {
+  const { pattern, patterns = [], context } = params;
+
+  const rationale = [
+    CATEGORY_RATIONALE[pattern.category],
+    `This is a ${pattern.difficulty} ${pattern.category} pattern.`,
+    DIFFICULTY_NOTE[pattern.difficulty],
+  ].join(' ');
+
+  const examples: AnnotatedExample[] = pattern.examples.map((example) => ({
+    language: example.language,
+    description: example.description,
+    code: annotateCode(example.code),
+  }));
+
+  const trimmedContext = context?.trim();
+  let tailored: PatternExplanation['context'];
+  let useCases: readonly string[] = pattern.useCases;
+
+  if (trimmedContext) {
+    const matched = matchContext(pattern, trimmedContext);
+    // Use cases matching the caller's situation come first
+    useCases = [
+      ...matched.useCases,
+      ...pattern.useCases.filter((u) => !matched.useCases.includes(u)),
+    ];
+
+    const summary =
+      matched.useCases.length > 0 || matched.tags.length > 0
+        ? [
+            `You described: "${trimmedContext}".`,
+            matched.useCases.length > 0
+              ? `This pattern applies most directly to: ${matched.useCases.join('; ')}.`
+              : '',
+            matched.tags.length > 0
+              ? `Relevant concepts: ${matched.tags.join(', ')}.`
+              : '',
+          ]
+            .filter(Boolean)
+            .join(' ')
+        : `You described: "${trimmedContext}". None of this pattern's ` +
+          'documented use cases mention it directly, so check the ' +
+          'guideline and rationale against your situation.';
+
+    tailored = {
+      text: trimmedContext,
+      summary,
+      matchedUseCases: matched.useCases,
+      matchedTags: matched.tags,
+    };
+  }
+
+  const explanation = {
+    guideline: pattern.description,
+    rationale,
+    useCases,
+    relatedPatterns: summarizeRelated(pattern, patterns),
+    examples,
+    context: tailored,
+  };
+
+  return {
+    ...explanation,
+    markdown: renderExplanation(pattern, explanation),
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Format JSON - Serialize JSON in the repo formatter's layout
+ *
+ * Generated files that are committed (JSON Schemas, the patterns index,
+ * embeddings) are written with `formatJson` so they pass `biome check`
+ * without a separate formatting step.
+ */
+
+/** Line width of the repo's formatter (biome.json) */
+const LINE_WIDTH = 80;
+const INDENT = '  ';
+
+/**
+ * Serialize JSON in the formatter's layout: objects expanded, arrays of
+ * primitives on one line when they fit, and arrays of numbers that don't
+ * fit filled line by line
+ *
+ * @param value - JSON value
+ * @param indent - Indentation of the value's line
+ * @param used - Characters already taken on the line by the key and the
+ *   trailing comma
+ */
+export function formatJson(value: unknown, indent = '', used = 0): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  const inner = indent + INDENT;
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return '[]';
+    }
+    if (value.every((item) => item === null || typeof item !== 'object')) {
+      const inline = `[${value.map((item) => JSON.stringify(item)).join(', ')}]`;
+      if (indent.length + used + inline.length <= LINE_WIDTH) {
+        return inline;
+      }
+      if (value.every((item) => typeof item === 'number')) {
+        return `[\n${fillLines(value, inner).join('\n')}\n${indent}]`;
+      }
+    }
+    const items = value.map(
+      (item, i) =>
+        `${inner}${formatJson(item, inner, i < value.length - 1 ? 1 : 0)}`
+    );
+    return `[\n${items.join(',\n')}\n${indent}]`;
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length === 0) {
+    return '{}';
+  }
+  const members = entries.map(([key, member], i) => {
+    const name = `${JSON.stringify(key)}: `;
+    const comma = i < entries.length - 1 ? 1 : 0;
+    return `${inner}${name}${formatJson(member, inner, name.length + comma)}`;
+  });
+  return `{\n${members.join(',\n')}\n${indent}}`;
+}
+
+/**
+ * Pack numbers onto as few lines as fit, each with its trailing comma
+ */
+function fillLines(numbers: readonly number[], indent: string): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const [i, number] of numbers.entries()) {
+    const item = `${JSON.stringify(number)}${i < numbers.length - 1 ? ',' : ''}`;
+    if (line && line.length + 1 + item.length <= LINE_WIDTH) {
+      line += ` ${item}`;
+    } else {
+      if (line) {
+        lines.push(line);
+      }
+      line = `${indent}${item}`;
+    }
+  }
+  lines.push(line);
+
+  return lines;
+}
@@ -6,32 +6,274 @@
  * primitives.
  */
 
+export {
+  applyManagedBlock,
+  contentHash,
+  extractManagedBlock,
+  formatRuleSection,
+  isRuleTool,
+  MANAGED_BLOCK_END,
+  MANAGED_BLOCK_START,
+  RULE_TOOLS,
+  type RuleSet,
+  type RuleToolInfo,
+  removeManagedBlock,
+  renderRuleBundle,
+  ruleDigests,
+  ruleSetVersion,
+} from './bundles.js';
+export {
+  Embedder,
+  EmbeddingError,
+  HashedEmbedderLive,
+  type HashedEmbedderOptions,
+  hashedEmbedding,
+  makeHashedEmbedder,
+} from './embedding.js';
+export {
+  cosineSimilarity,
+  EmbeddingIndex,
+  EmbeddingIndexLive,
+  type HybridSearchParams,
+  type MakeEmbeddingIndexOptions,
+  makeEmbeddingIndex,
+  type SemanticSearchParams,
+} from './embeddingIndex.js';
+export {
+  defaultEpConfig,
+  EP_CONFIG_NAME,
+  EP_CONFIG_SCHEMA_URL,
+  EpConfigError,
+  formatEpConfig,
+  isLintExcluded,
+  lintRulesFor,
+  matchesGlob,
+  parseEpConfig,
+} from './epConfig.js';
+export {
+  annotateCode,
+  type BuildExplanationParams,
+  buildExplanation,
+} from './explain.js';
 // Export pure functions
-export { loadPatternsFromJson, loadPatternsFromJsonRunnable } from './io.js';
+export {
+  loadEmbeddingsFromJson,
+  loadEmbeddingsFromJsonRunnable,
+  loadPatternsFromJson,
+  loadPatternsFromJsonRunnable,
+} from './io.js';
+export {
+  applyLintFixes,
+  LINT_RULES,
+  type LintEdit,
+  type LintIssue,
+  type LintOptions,
+  type LintRule,
+  type LintSeverity,
+  lintSource,
+} from './lint.js';
+export {
+  applyLintBaseline,
+  createLintBaseline,
+  formatLintBaseline,
+  LINT_BASELINE_NAME,
+  LintBaselineError,
+  parseLintBaseline,
+} from './lintBaseline.js';
+export {
+  formatLintGithub,
+  formatLintJson,
+  formatLintJunit,
+  formatLintReport,
+  formatLintSarif,
+  LINT_REPORT_FORMATS,
+  type LintFileResult,
+  type LintReportFormat,
+  type LintReportOptions,
+  type LintSummary,
+  summarizeLintResults,
+} from './lintReport.js';
+export {
+  diffRuleDigests,
+  emptyRulesLockfile,
+  findLocalEdits,
+  findStaleFiles,
+  formatRulesLockfile,
+  hasRuleChanges,
+  type LockRuleBundleOptions,
+  lockRuleBundle,
+  parseRulesLockfile,
+  RULES_LOCKFILE_NAME,
+  type RuleChanges,
+  RulesLockfileError,
+} from './lockfile.js';
+export {
+  API_OPERATIONS,
+  API_SCHEMAS,
+  type ApiOperation,
+  type ApiResponse,
+  type ApiSchemaName,
+  type ApiScope,
+  buildOpenApiDocument,
+  checkResponseContract,
+  findApiOperation,
+  type JsonObject,
+  type OpenApiDocumentOptions,
+  RULES_SERVER_URL,
+} from './openapi.js';
+export {
+  type BuildPatternsIndexOptions,
+  buildPatternsIndex,
+  extractExamples,
+  mapPublishedPattern,
+  PatternMappingError,
+  type PatternsIndexBuild,
+  PatternsIndexBuildError,
+  type PublishedPatternSource,
+} from './publishedPatterns.js';
+export {
+  type ConditionalRequest,
+  decodeRulesCursor,
+  decodeRulesQuery,
+  encodeRulesCursor,
+  entityTag,
+  filterRules,
+  InvalidRulesQueryError,
+  isNotModified,
+  queryRules,
+  type RulesPage,
+} from './rules.js';
+export {
+  GetPatternResponse,
+  HealthResponse,
+  MAX_RULES_PAGE_SIZE,
+  PatternsStatus,
+  ProblemDetails,
+  ReloadPatternsResponse,
+  Rule,
+  RuleBundle,
+  RuleBundleFile,
+  RuleBundleQuery,
+  RuleDigest,
+  RulesErrorResponse,
+  RulesQuery,
+  RuleTool,
+  TraceWiringResponse,
+  ValidationIssue,
+} from './schemas/api.js';
+export {
+  EpConfig,
+  LinterConfig,
+  LintOverride,
+} from './schemas/config.js';
+export {
+  PatternEmbedding,
+  PatternEmbeddings,
+  SearchMode,
+} from './schemas/embedding.js';
+export {
+  PatternFromFrontmatter,
+  PatternFrontmatter,
+  PatternMetadata,
+  USE_CASE_CATEGORIES,
+  useCaseLabel,
+} from './schemas/frontmatter.js';
 // Export schemas
 export {
+  AnnotatedExample,
   ExplainPatternRequest,
+  ExplainPatternResponse,
+  ExplanationContext,
   GenerateRequest,
   GenerateResponse,
   ModuleType,
+  PatternExplanation,
+  RelatedPatternSummary,
   SearchPatternsRequest,
   SearchPatternsResponse,
+  SnippetDiagnostic,
+  SnippetFile,
+  SnippetTypecheck,
 } from './schemas/generate.js';
 export {
+  LINT_BASELINE_VERSION,
+  LintBaseline,
+  LintBaselineEntry,
+  LintRuleName,
+  LintRuleSetting,
+  LintRuleSettings,
+} from './schemas/lint.js';
+export {
+  LockedFile,
+  RULES_LOCKFILE_VERSION,
+  RulesLockfile,
+  ToolLock,
+} from './schemas/lockfile.js';
+export {
+  CodeExample,
+  DifficultyLevel,
+  PATTERNS_INDEX_SCHEMA_VERSION,
   Pattern,
+  PatternCategory,
+  PatternRule,
   PatternSummary,
   PatternsIndex,
+  PatternsIndexFromJson,
+  SkillLevel,
 } from './schemas/pattern.js';
+export {
+  SearchField,
+  SearchHighlight,
+  SearchIndex,
+  SearchIndexDocument,
+  SearchIndexTerm,
+} from './schemas/search.js';
 export {
   getPatternById,
+  type SearchPatternsParams,
   searchPatterns,
   toPatternSummary,
-  type SearchPatternsParams,
 } from './search.js';
+export {
+  type BuildSearchIndexOptions,
+  buildSearchIndex,
+  DEFAULT_FIELD_WEIGHTS,
+  type QuerySearchIndexParams,
+  querySearchIndex,
+  SEARCH_FIELDS,
+  SEARCH_INDEX_VERSION,
+  type SearchHit,
+} from './searchIndex.js';
+export {
+  type MainBinding,
+  type TransformedSource,
+  type TransformSourceParams,
+  transformSource,
+} from './snippetSource.js';
 export { splitSections } from './splitSections.js';
 export {
+  type BuildSnippetParams,
   buildSnippet,
+  buildSnippetFiles,
+  ExampleNotFoundError,
   generateUsageExample,
   sanitizeInput,
-  type BuildSnippetParams,
+  selectExample,
 } from './template.js';
+export {
+  STOP_WORDS,
+  splitWords,
+  stem,
+  type Token,
+  tokenize,
+} from './tokenize.js';
+export {
+  bundledEffectTypes,
+  type CheckSnippetOptions,
+  type MakeSnippetCheckerOptions,
+  makeSnippetChecker,
+  resolveEffectVersion,
+  SnippetChecker,
+  SnippetCheckerLive,
+  SnippetCompileError,
+} from './typecheck.js';
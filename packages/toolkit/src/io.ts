@@ -9,28 +9,35 @@ import type { FileSystem as FileSystemService } from '@effect/platform/FileSyste
 import { layer as NodeFileSystemLayer } from '@effect/platform-node/NodeFileSystem';
 import { Schema as S } from '@effect/schema';
 import { Effect } from 'effect';
-import { PatternsIndex } from './schemas/pattern.js';
+import { PatternEmbeddings } from './schemas/embedding.js';
+import { PatternsIndexFromJson } from './schemas/pattern.js';
 
 /**
  * Load and parse patterns from a JSON file
  *
+ * Indexes written with an older schema version are migrated to the
+ * current `PatternsIndex`; newer ones fail.
+ *
  * @param filePath - Absolute path to patterns.json
  * @returns Effect that yields validated PatternsIndex
  */
 export const loadPatternsFromJson = (
   filePath: string
-): Effect.Effect<typeof PatternsIndex.Type, Error, FileSystemService> =>
+): Effect.Effect<typeof PatternsIndexFromJson.Type, Error, FileSystemService> =>
   Effect.gen(function* () {
     const fs = yield* FileSystem;
 
     // Read file as UTF-8 string
     const content = yield* fs.readFileString(filePath);
 
-    // Parse JSON
-    const json = JSON.parse(content);
+    // Parse JSON (a half-written file must fail, not throw a defect)
+    const json = yield* Effect.try({
+      try: () => JSON.parse(content),
+      catch: (error) => new Error(`Invalid JSON in ${filePath}: ${error}`),
+    });
 
-    // Validate and decode using Effect schema
-    const decoded = yield* S.decode(PatternsIndex)(json);
+    // Migrate, validate and decode using Effect schema
+    const decoded = yield* S.decodeUnknown(PatternsIndexFromJson)(json);
 
     return decoded;
   }).pipe(Effect.catchAll((error) => Effect.fail(new Error(String(error)))));
@@ -40,3 +47,30 @@ export const loadPatternsFromJson = (
  */
 export const loadPatternsFromJsonRunnable = (filePath: string) =>
   loadPatternsFromJson(filePath).pipe(Effect.provide(NodeFileSystemLayer));
+
+/**
+ * Load and parse pattern embeddings from a JSON file
+ *
+ * @param filePath - Absolute path to embeddings.json
+ * @returns Effect that yields validated PatternEmbeddings
+ */
+export const loadEmbeddingsFromJson = (
+  filePath: string
+): Effect.Effect<typeof PatternEmbeddings.Type, Error, FileSystemService> =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem;
+
+    const content = yield* fs.readFileString(filePath);
+    const json = yield* Effect.try({
+      try: () => JSON.parse(content),
+      catch: (error) => new Error(`Invalid JSON in ${filePath}: ${error}`),
+    });
+
+    return yield* S.decode(PatternEmbeddings)(json);
+  }).pipe(Effect.catchAll((error) => Effect.fail(new Error(String(error)))));
+
+/**
+ * Runnable version with Node FileSystem layer
+ */
+export const loadEmbeddingsFromJsonRunnable = (filePath: string) =>
+  loadEmbeddingsFromJson(filePath).pipe(Effect.provide(NodeFileSystemLayer));
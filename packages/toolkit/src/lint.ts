@@ -0,0 +1,978 @@
+/**
+ * Effect Linter
+ *
+ * Lint rules for Effect-TS idioms, run by `ep lint`. Rules walk the
+ * TypeScript AST, so a call is recognised however it is formatted, and
+ * names are resolved through the file's `effect` imports, so
+ * `import { Effect as E } from "effect"` or
+ * `import * as Effect from "effect/Effect"` are checked like
+ * `Effect.*`. Fixes are text edits computed from the same nodes. Code
+ * is parsed, never evaluated or type-checked.
+ *
+ * A `// ep-lint-disable-next-line <rule>...` comment suppresses the
+ * listed rules (or all rules, if none are listed) on the next line.
+ */
+
+import * as path from 'node:path';
+import ts from 'typescript';
+import type { LintRuleName, LintRuleSettings } from './schemas/lint.js';
+
+/**
+ * Severity of a reported issue
+ */
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A rule in the registry
+ */
+export interface LintRule {
+  readonly name: LintRuleName;
+  readonly description: string;
+  readonly defaultSeverity: LintSeverity | 'off';
+  /** Whether `ep lint --apply` can fix (some of) its issues */
+  readonly canFix: boolean;
+}
+
+/**
+ * Replace `start`..`end` of the linted source with `text`
+ */
+export interface LintEdit {
+  readonly start: number;
+  readonly end: number;
+  readonly text: string;
+}
+
+/**
+ * An issue found in a file
+ */
+export interface LintIssue {
+  readonly rule: string;
+  readonly severity: LintSeverity;
+  readonly message: string;
+  /** 1-based line */
+  readonly line: number;
+  /** 1-based column */
+  readonly column: number;
+  readonly suggestion?: string;
+  /** Edits that fix the issue, when it can be fixed automatically */
+  readonly fix?: readonly LintEdit[];
+}
+
+/**
+ * Options for `lintSource`
+ */
+export interface LintOptions {
+  /**
+   * Severities replacing the ones rules report, e.g. from `ep.json`;
+   * rules set to `off` are skipped
+   */
+  readonly rules?: LintRuleSettings;
+}
+
+/**
+ * Rule registry - single source of truth for all linting rules
+ */
+export const LINT_RULES: readonly LintRule[] = [
+  {
+    name: 'effect-use-taperror',
+    description:
+      'Use Effect.tapError for side-effect logging instead of Effect.catchAll + Effect.gen',
+    defaultSeverity: 'warning',
+    canFix: false,
+  },
+  {
+    name: 'effect-explicit-concurrency',
+    description:
+      'Effect.all should explicitly specify concurrency option (runs sequentially by default)',
+    defaultSeverity: 'warning',
+    canFix: true,
+  },
+  {
+    name: 'effect-deprecated-api',
+    description:
+      'Catches usage of deprecated Effect APIs (Effect.fromOption, Option.zip, etc.)',
+    defaultSeverity: 'error',
+    canFix: true,
+  },
+  {
+    name: 'effect-prefer-pipe',
+    description:
+      'Consider using pipe() for better readability with long method chains',
+    defaultSeverity: 'info',
+    canFix: false,
+  },
+  {
+    name: 'effect-stream-memory',
+    description:
+      'Detects non-streaming operations in stream patterns that load entire content into memory',
+    defaultSeverity: 'error',
+    canFix: false,
+  },
+  {
+    name: 'effect-error-model',
+    description:
+      'Consider using typed errors (Data.TaggedError) instead of generic Error',
+    defaultSeverity: 'info',
+    canFix: false,
+  },
+];
+
+/**
+ * What local names refer to in the `effect` package
+ */
+interface EffectImports {
+  /** Local name -> module, e.g. `E` -> `Effect` */
+  readonly modules: ReadonlyMap<string, string>;
+  /** Local names of `import * as X from "effect"` */
+  readonly namespaces: ReadonlySet<string>;
+  /** Local name -> member, e.g. `all` -> `Effect.all` */
+  readonly members: ReadonlyMap<string, string>;
+  /** Local names imported from other packages */
+  readonly foreign: ReadonlySet<string>;
+}
+
+interface LintContext {
+  readonly sourceFile: ts.SourceFile;
+  /** File name without directory or extension */
+  readonly baseName: string;
+  readonly imports: EffectImports;
+  /** Quote character used for string literals in the file */
+  readonly quote: string;
+  readonly report: (
+    node: ts.Node,
+    issue: Omit<LintIssue, 'rule' | 'line' | 'column'>
+  ) => void;
+}
+
+interface RuleCheck {
+  /** Whether the rule runs on this file at all (default: always) */
+  readonly appliesTo?: (context: LintContext) => boolean;
+  readonly visit: (node: ts.Node, context: LintContext) => void;
+}
+
+const EFFECT_PACKAGE = 'effect';
+const EFFECT_SUBPATH_PREFIX = 'effect/';
+const MAX_METHOD_CHAIN = 3;
+
+const LOG_FUNCTIONS: ReadonlySet<string> = new Set([
+  'Effect.log',
+  'Effect.logTrace',
+  'Effect.logDebug',
+  'Effect.logInfo',
+  'Effect.logWarning',
+  'Effect.logError',
+  'Effect.logFatal',
+]);
+
+/** Calls that make a `catchAll` handler recover or fail rather than swallow */
+const RESULT_FUNCTIONS: ReadonlySet<string> = new Set([
+  'Effect.succeed',
+  'Effect.fail',
+  'Effect.failCause',
+  'Effect.die',
+]);
+
+// --- NAME RESOLUTION ---
+
+function collectEffectImports(sourceFile: ts.SourceFile): EffectImports {
+  const modules = new Map<string, string>();
+  const namespaces = new Set<string>();
+  const members = new Map<string, string>();
+  const foreign = new Set<string>();
+
+  for (const statement of sourceFile.statements) {
+    if (
+      !(
+        ts.isImportDeclaration(statement) &&
+        ts.isStringLiteral(statement.moduleSpecifier) &&
+        statement.importClause
+      )
+    ) {
+      continue;
+    }
+    const specifier = statement.moduleSpecifier.text;
+    const { name, namedBindings } = statement.importClause;
+    const subpath = specifier.startsWith(EFFECT_SUBPATH_PREFIX)
+      ? specifier.slice(EFFECT_SUBPATH_PREFIX.length)
+      : undefined;
+
+    if (specifier !== EFFECT_PACKAGE && subpath === undefined) {
+      if (name) {
+        foreign.add(name.text);
+      }
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        foreign.add(namedBindings.name.text);
+      } else if (namedBindings) {
+        for (const element of namedBindings.elements) {
+          foreign.add(element.name.text);
+        }
+      }
+      continue;
+    }
+
+    if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+      if (subpath === undefined) {
+        namespaces.add(namedBindings.name.text);
+      } else {
+        modules.set(namedBindings.name.text, subpath);
+      }
+    } else if (namedBindings) {
+      for (const element of namedBindings.elements) {
+        const imported = (element.propertyName ?? element.name).text;
+        if (subpath === undefined) {
+          modules.set(element.name.text, imported);
+        } else {
+          members.set(element.name.text, `${subpath}.${imported}`);
+        }
+      }
+    }
+  }
+
+  return { modules, namespaces, members, foreign };
+}
+
+/**
+ * The `effect` name an expression refers to, e.g. `Effect.all` for
+ * `E.all` after `import { Effect as E } from "effect"`
+ *
+ * Names that are not imported at all resolve to themselves, so code
+ * that relies on ambient `Effect`, `Option`, ... (as pattern examples
+ * often do) is still checked.
+ *
+ * @returns The qualified name, or undefined for names imported from
+ * other packages and expressions that are not (dotted) names
+ */
+function resolveName(
+  node: ts.Node,
+  imports: EffectImports
+): string | undefined {
+  if (ts.isIdentifier(node)) {
+    const name = node.text;
+    const resolved = imports.members.get(name) ?? imports.modules.get(name);
+    if (resolved !== undefined) {
+      return resolved;
+    }
+    return imports.foreign.has(name) || imports.namespaces.has(name)
+      ? undefined
+      : name;
+  }
+  if (ts.isPropertyAccessExpression(node) || ts.isQualifiedName(node)) {
+    const left = ts.isPropertyAccessExpression(node)
+      ? node.expression
+      : node.left;
+    const right = ts.isPropertyAccessExpression(node) ? node.name : node.right;
+    if (ts.isIdentifier(left) && imports.namespaces.has(left.text)) {
+      return right.text;
+    }
+    const base = resolveName(left, imports);
+    return base === undefined ? undefined : `${base}.${right.text}`;
+  }
+  return;
+}
+
+const resolveCallee = (
+  node: ts.Node,
+  context: LintContext
+): string | undefined =>
+  ts.isCallExpression(node)
+    ? resolveName(node.expression, context.imports)
+    : undefined;
+
+/**
+ * Name of the function or method a call invokes, ignoring its receiver
+ */
+function calleeName(call: ts.CallExpression): string | undefined {
+  if (ts.isIdentifier(call.expression)) {
+    return call.expression.text;
+  }
+  if (ts.isPropertyAccessExpression(call.expression)) {
+    return call.expression.name.text;
+  }
+  return;
+}
+
+// --- AST HELPERS ---
+
+function someDescendant(
+  node: ts.Node,
+  predicate: (descendant: ts.Node) => boolean,
+  options: { readonly enterFunctions: boolean }
+): boolean {
+  const visit = (child: ts.Node): boolean => {
+    if (predicate(child)) {
+      return true;
+    }
+    if (!options.enterFunctions && ts.isFunctionLike(child)) {
+      return false;
+    }
+    return ts.forEachChild(child, visit) ?? false;
+  };
+  return ts.forEachChild(node, visit) ?? false;
+}
+
+/**
+ * Comments directly above the statement that contains a node
+ */
+function leadingComments(node: ts.Node, sourceFile: ts.SourceFile): string {
+  let statement = node;
+  while (
+    statement.parent &&
+    !(
+      ts.isBlock(statement.parent) ||
+      ts.isSourceFile(statement.parent) ||
+      ts.isModuleBlock(statement.parent) ||
+      ts.isCaseClause(statement.parent)
+    )
+  ) {
+    statement = statement.parent;
+  }
+  const text = sourceFile.text;
+  return (ts.getLeadingCommentRanges(text, statement.pos) ?? [])
+    .map((range) => text.slice(range.pos, range.end))
+    .join('\n');
+}
+
+function hasProperty(object: ts.ObjectLiteralExpression, name: string) {
+  return object.properties.some(
+    (property) =>
+      // A spread may carry the property
+      ts.isSpreadAssignment(property) ||
+      (property.name !== undefined &&
+        (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) &&
+        property.name.text === name)
+  );
+}
+
+function isFunction(
+  node: ts.Node | undefined
+): node is ts.ArrowFunction | ts.FunctionExpression {
+  return (
+    node !== undefined &&
+    (ts.isArrowFunction(node) || ts.isFunctionExpression(node))
+  );
+}
+
+// --- RULES ---
+
+/**
+ * Whether a call logs: `Effect.log*`, `Console.*` or `console.*`
+ */
+function isLogCall(node: ts.Node, context: LintContext): boolean {
+  const name = resolveCallee(node, context);
+  return (
+    name !== undefined &&
+    (LOG_FUNCTIONS.has(name) ||
+      name.startsWith('Console.') ||
+      name.startsWith('console.'))
+  );
+}
+
+/**
+ * Whether a `catchAll` handler body only logs the error and swallows
+ * it: it logs, and neither returns a value nor succeeds, fails or dies
+ */
+function onlyLogs(body: ts.ConciseBody, context: LintContext): boolean {
+  if (ts.isBlock(body)) {
+    const [statement] = body.statements;
+    return (
+      body.statements.length === 1 &&
+      statement !== undefined &&
+      ts.isReturnStatement(statement) &&
+      statement.expression !== undefined &&
+      onlyLogs(statement.expression, context)
+    );
+  }
+
+  if (isLogCall(body, context)) {
+    return true;
+  }
+
+  const generator =
+    ts.isCallExpression(body) && resolveCallee(body, context) === 'Effect.gen'
+      ? body.arguments[0]
+      : undefined;
+  if (!(isFunction(generator) && ts.isBlock(generator.body))) {
+    return false;
+  }
+  const logs = someDescendant(
+    generator.body,
+    (node) => isLogCall(node, context),
+    { enterFunctions: true }
+  );
+  const returns = someDescendant(
+    generator.body,
+    (node) => ts.isReturnStatement(node) && node.expression !== undefined,
+    { enterFunctions: false }
+  );
+  const recovers = someDescendant(
+    generator.body,
+    (node) => {
+      const name = resolveCallee(node, context);
+      return name !== undefined && RESULT_FUNCTIONS.has(name);
+    },
+    { enterFunctions: true }
+  );
+  return logs && !returns && !recovers;
+}
+
+const useTapError: RuleCheck = {
+  visit: (node, context) => {
+    if (
+      !ts.isCallExpression(node) ||
+      resolveCallee(node, context) !== 'Effect.catchAll'
+    ) {
+      return;
+    }
+    // Data-last `Effect.catchAll(f)` or data-first `Effect.catchAll(self, f)`
+    const handler = node.arguments[node.arguments.length - 1];
+    if (isFunction(handler) && onlyLogs(handler.body, context)) {
+      context.report(node, {
+        severity: 'warning',
+        message:
+          'Use Effect.tapError for side-effect logging instead of Effect.catchAll + Effect.gen',
+        suggestion:
+          'Replace with: .pipe(Effect.tapError((error) => Effect.log(...)), Effect.catchAll(...))',
+      });
+    }
+  },
+};
+
+const isParallelPattern = (context: LintContext) =>
+  context.baseName.includes('parallel') ||
+  context.baseName.includes('concurrent') ||
+  context.sourceFile.text.includes('// parallel') ||
+  context.sourceFile.text.includes('// concurrently');
+
+/**
+ * Edits that add `concurrency: "unbounded"` to an `Effect.all` call
+ */
+function addConcurrencyOption(
+  call: ts.CallExpression,
+  options: ts.ObjectLiteralExpression | undefined,
+  context: LintContext
+): LintEdit[] {
+  const { quote, sourceFile } = context;
+  const property = `concurrency: ${quote}unbounded${quote}`;
+  const [first] = options?.properties ?? [];
+
+  if (options === undefined) {
+    const last = call.arguments[call.arguments.length - 1];
+    return last === undefined
+      ? []
+      : [{ start: last.end, end: last.end, text: `, { ${property} }` }];
+  }
+  if (first === undefined) {
+    return [
+      {
+        start: options.getStart(sourceFile),
+        end: options.end,
+        text: `{ ${property} }`,
+      },
+    ];
+  }
+  const start = first.getStart(sourceFile);
+  return [{ start, end: start, text: `${property}, ` }];
+}
+
+const explicitConcurrency: RuleCheck = {
+  appliesTo: (context) =>
+    !(
+      context.baseName.includes('sequential') ||
+      context.baseName.includes('sequence') ||
+      context.sourceFile.text.includes('// sequential by design')
+    ),
+  visit: (node, context) => {
+    if (
+      !ts.isCallExpression(node) ||
+      resolveCallee(node, context) !== 'Effect.all' ||
+      node.arguments.length === 0
+    ) {
+      return;
+    }
+    const options = node.arguments[1];
+    // Options built elsewhere may well set concurrency
+    if (options !== undefined && !ts.isObjectLiteralExpression(options)) {
+      return;
+    }
+    if (options !== undefined && hasProperty(options, 'concurrency')) {
+      return;
+    }
+
+    const parallel = isParallelPattern(context);
+    context.report(node, {
+      severity: parallel ? 'error' : 'warning',
+      message: parallel
+        ? "Effect.all runs sequentially by default. Add { concurrency: 'unbounded' } for parallel execution"
+        : 'Effect.all should explicitly specify concurrency option (default is sequential)',
+      suggestion: parallel
+        ? "Add: { concurrency: 'unbounded' }"
+        : "Add: { concurrency: 'unbounded' } or { concurrency: N }",
+      fix: addConcurrencyOption(node, options, context),
+    });
+  },
+};
+
+interface DeprecatedApi {
+  readonly replacement: string;
+  readonly reason: string;
+  /** Fix for `node`, the property access naming the API */
+  readonly fix?: (
+    node: ts.PropertyAccessExpression,
+    context: LintContext
+  ) => LintEdit[] | undefined;
+}
+
+const renameMember =
+  (name: string) =>
+  (node: ts.PropertyAccessExpression, context: LintContext): LintEdit[] => [
+    {
+      start: node.name.getStart(context.sourceFile),
+      end: node.name.end,
+      text: name,
+    },
+  ];
+
+/**
+ * `X.zip(a, b)` -> `X.all([a, b])`. Data-last `X.zip(b)` has no
+ * one-to-one replacement and is left alone.
+ */
+const zipToAll = (
+  node: ts.PropertyAccessExpression,
+  context: LintContext
+): LintEdit[] | undefined => {
+  const call = node.parent;
+  if (!(ts.isCallExpression(call) && call.expression === node)) {
+    return;
+  }
+  const [left, right] = call.arguments;
+  if (
+    call.arguments.length !== 2 ||
+    left === undefined ||
+    right === undefined
+  ) {
+    return;
+  }
+  const { sourceFile } = context;
+  return [
+    ...renameMember('all')(node, context),
+    {
+      start: left.getStart(sourceFile),
+      end: right.end,
+      text: `[${left.getText(sourceFile)}, ${right.getText(sourceFile)}]`,
+    },
+  ];
+};
+
+const DEPRECATED_APIS: Readonly<Record<string, DeprecatedApi>> = {
+  'Effect.fromOption': {
+    replacement: 'Option.match with Effect.succeed/Effect.fail',
+    reason: 'Effect.fromOption is deprecated',
+  },
+  'Effect.fromEither': {
+    replacement: 'Either.match with Effect.succeed/Effect.fail',
+    reason: 'Effect.fromEither is deprecated',
+  },
+  'Option.zip': {
+    replacement: 'Option.all',
+    reason: 'Option.zip is deprecated, use Option.all',
+    fix: zipToAll,
+  },
+  'Either.zip': {
+    replacement: 'Either.all',
+    reason: 'Either.zip is deprecated, use Either.all',
+    fix: zipToAll,
+  },
+  'Option.cond': {
+    replacement: 'ternary expression with Option.some/Option.none',
+    reason: 'Option.cond is deprecated',
+  },
+  'Either.cond': {
+    replacement: 'ternary expression with Either.right/Either.left',
+    reason: 'Either.cond is deprecated',
+  },
+  'Effect.matchTag': {
+    replacement: 'Effect.catchTags',
+    reason: 'Effect.matchTag is deprecated, use Effect.catchTags',
+    fix: renameMember('catchTags'),
+  },
+};
+
+const deprecatedApi: RuleCheck = {
+  visit: (node, context) => {
+    // `Option.zip` and friends, or `zip(...)` imported from "effect/Option"
+    const named =
+      ts.isPropertyAccessExpression(node) ||
+      (ts.isIdentifier(node) &&
+        context.imports.members.has(node.text) &&
+        ts.isCallExpression(node.parent) &&
+        node.parent.expression === node);
+    const name = named ? resolveName(node, context.imports) : undefined;
+    const api = name === undefined ? undefined : DEPRECATED_APIS[name];
+    if (api === undefined) {
+      return;
+    }
+    context.report(node, {
+      severity: 'error',
+      message: api.reason,
+      suggestion: `Use ${api.replacement} instead`,
+      fix:
+        api.fix && ts.isPropertyAccessExpression(node)
+          ? api.fix(node, context)
+          : undefined,
+    });
+  },
+};
+
+/**
+ * `a.b().c()` -> `a.b()`
+ */
+function chainedCall(call: ts.CallExpression): ts.CallExpression | undefined {
+  return ts.isPropertyAccessExpression(call.expression) &&
+    ts.isCallExpression(call.expression.expression)
+    ? call.expression.expression
+    : undefined;
+}
+
+const preferPipe: RuleCheck = {
+  visit: (node, context) => {
+    if (!ts.isCallExpression(node)) {
+      return;
+    }
+    // Only report the outermost call of a chain
+    const parent = node.parent;
+    if (
+      ts.isPropertyAccessExpression(parent) &&
+      ts.isCallExpression(parent.parent) &&
+      parent.parent.expression === parent
+    ) {
+      return;
+    }
+
+    let links = 0;
+    let pipes = false;
+    for (
+      let call: ts.CallExpression | undefined = node;
+      call !== undefined;
+      call = chainedCall(call)
+    ) {
+      pipes ||= calleeName(call) === 'pipe';
+      if (chainedCall(call)) {
+        links++;
+      }
+    }
+    if (links > MAX_METHOD_CHAIN && !pipes) {
+      context.report(node, {
+        severity: 'info',
+        message:
+          'Consider using pipe() for better readability with long chains',
+        suggestion: 'Refactor to: pipe(value, fn1, fn2, fn3, ...)',
+      });
+    }
+  },
+};
+
+/**
+ * Whether a `readFile` call feeds a stream: `readFile(p).pipe(...)`, or
+ * an argument of `pipe(...)` or a `Stream.*` call
+ */
+function isStreamed(call: ts.CallExpression, context: LintContext): boolean {
+  const parent = call.parent;
+  if (ts.isPropertyAccessExpression(parent) && parent.name.text === 'pipe') {
+    return true;
+  }
+  if (!ts.isCallExpression(parent) || parent.expression === call) {
+    return false;
+  }
+  const name = resolveName(parent.expression, context.imports);
+  return calleeName(parent) === 'pipe' || name?.startsWith('Stream.') === true;
+}
+
+const streamMemory: RuleCheck = {
+  appliesTo: (context) => context.baseName.includes('stream'),
+  visit: (node, context) => {
+    if (ts.isCallExpression(node)) {
+      const name = calleeName(node);
+      if (
+        name === 'readFileString' ||
+        (name === 'readFile' && !isStreamed(node, context))
+      ) {
+        context.report(node, {
+          severity: 'error',
+          message:
+            'Streaming pattern loads entire content into memory. Use proper streaming.',
+          suggestion:
+            "Use: fs.readFile(path).pipe(Stream.decodeText('utf-8'), Stream.splitLines)",
+        });
+      }
+      return;
+    }
+    if (
+      ts.isPropertyAccessExpression(node) &&
+      resolveName(node, context.imports) === 'Stream.runCollect' &&
+      !leadingComments(node, context.sourceFile).includes(
+        'Intentionally collecting'
+      )
+    ) {
+      context.report(node, {
+        severity: 'warning',
+        message:
+          'Stream.runCollect loads entire stream into memory. Consider using Stream.run instead.',
+        suggestion: 'Use Stream.run or other streaming combinators',
+      });
+    }
+  },
+};
+
+function isGlobalError(node: ts.Node | undefined, context: LintContext) {
+  const name =
+    node !== undefined && ts.isTypeReferenceNode(node) ? node.typeName : node;
+  return (
+    name !== undefined &&
+    ts.isIdentifier(name) &&
+    name.text === 'Error' &&
+    !context.imports.foreign.has('Error')
+  );
+}
+
+/**
+ * `Effect.fail(new Error(...))`, or `Error` as the error channel of an
+ * `Effect` type
+ */
+function genericErrorNode(
+  node: ts.Node,
+  context: LintContext
+): ts.Node | undefined {
+  if (ts.isCallExpression(node)) {
+    const [error] = node.arguments;
+    return resolveCallee(node, context) === 'Effect.fail' &&
+      error !== undefined &&
+      ts.isNewExpression(error) &&
+      isGlobalError(error.expression, context)
+      ? error.expression
+      : undefined;
+  }
+  if (ts.isTypeReferenceNode(node)) {
+    const name = resolveName(node.typeName, context.imports);
+    const error = node.typeArguments?.[1];
+    return (name === 'Effect' || name === 'Effect.Effect') &&
+      isGlobalError(error, context)
+      ? error
+      : undefined;
+  }
+  return;
+}
+
+const errorModel: RuleCheck = {
+  visit: (node, context) => {
+    const error = genericErrorNode(node, context);
+    const comments =
+      error === undefined ? '' : leadingComments(node, context.sourceFile);
+    if (
+      error === undefined ||
+      comments.includes('Anti-Pattern') ||
+      comments.includes('Bad:')
+    ) {
+      return;
+    }
+    context.report(error, {
+      severity: 'info',
+      message:
+        'Consider using typed errors (Data.TaggedError) instead of generic Error',
+      suggestion:
+        "Define: class MyError extends Data.TaggedError('MyError')<{...}>",
+    });
+  },
+};
+
+/**
+ * Implementation of each rule in `LINT_RULES`
+ */
+const RULE_CHECKS: Readonly<Record<LintRuleName, RuleCheck>> = {
+  'effect-use-taperror': useTapError,
+  'effect-explicit-concurrency': explicitConcurrency,
+  'effect-deprecated-api': deprecatedApi,
+  'effect-prefer-pipe': preferPipe,
+  'effect-stream-memory': streamMemory,
+  'effect-error-model': errorModel,
+};
+
+// --- LINTING ---
+
+/**
+ * The quote character of the file's first import, so fixes match the
+ * file's style
+ */
+function detectQuote(sourceFile: ts.SourceFile): string {
+  const specifier = sourceFile.statements.find(
+    ts.isImportDeclaration
+  )?.moduleSpecifier;
+  return specifier?.getText(sourceFile).startsWith("'") ? "'" : '"';
+}
+
+const DISABLE_NEXT_LINE = 'ep-lint-disable-next-line';
+const COMMENT_START = /^\/[/*]/;
+const COMMENT_END = /\*\/$/;
+const RULE_SEPARATOR = /[\s,]+/;
+
+/**
+ * Lines with suppressed rules, from `ep-lint-disable-next-line` comments
+ *
+ * An empty set suppresses every rule. Anything after ` -- ` in the
+ * comment is a description.
+ */
+function disabledLines(
+  sourceFile: ts.SourceFile
+): ReadonlyMap<number, ReadonlySet<string>> {
+  const text = sourceFile.text;
+  const disabled = new Map<number, ReadonlySet<string>>();
+  const seen = new Set<number>();
+
+  const collect = (ranges: readonly ts.CommentRange[] | undefined) => {
+    for (const range of ranges ?? []) {
+      if (seen.has(range.pos)) {
+        continue;
+      }
+      seen.add(range.pos);
+      const comment = text
+        .slice(range.pos, range.end)
+        .replace(COMMENT_START, '')
+        .replace(COMMENT_END, '')
+        .trim();
+      const [directive = '', ...rules] = comment
+        .split(' -- ')[0]
+        .split(RULE_SEPARATOR)
+        .filter((word) => word.length > 0);
+      if (directive !== DISABLE_NEXT_LINE) {
+        continue;
+      }
+      const { line } = sourceFile.getLineAndCharacterOfPosition(range.end);
+      disabled.set(line + 2, new Set(rules));
+    }
+  };
+  const visit = (node: ts.Node): void => {
+    collect(ts.getLeadingCommentRanges(text, node.pos));
+    collect(ts.getTrailingCommentRanges(text, node.end));
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return disabled;
+}
+
+/**
+ * Lint one file
+ *
+ * Some rules look at the file name: `effect-stream-memory` only runs on
+ * files named `*stream*`, and `effect-explicit-concurrency` skips files
+ * named `*sequential*`/`*sequence*` and reports errors rather than
+ * warnings in files named `*parallel*`/`*concurrent*`.
+ *
+ * @param fileName - Path of the file (only its name is used)
+ * @param content - Source text
+ * @param options - Rule severities
+ * @returns Issues sorted by position, without suppressed ones
+ */
+export function lintSource(
+  fileName: string,
+  content: string,
+  options: LintOptions = {}
+): LintIssue[] {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    fileName.endsWith('.tsx') ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+  );
+  const baseName = path.basename(fileName, path.extname(fileName));
+  const imports = collectEffectImports(sourceFile);
+  const quote = detectQuote(sourceFile);
+  const issues: Array<LintIssue & { readonly position: number }> = [];
+
+  for (const rule of LINT_RULES) {
+    const severity = options.rules?.[rule.name];
+    if (
+      severity === 'off' ||
+      (severity === undefined && rule.defaultSeverity === 'off')
+    ) {
+      continue;
+    }
+    const check = RULE_CHECKS[rule.name];
+    const context: LintContext = {
+      sourceFile,
+      baseName,
+      imports,
+      quote,
+      report: (node, issue) => {
+        const position = node.getStart(sourceFile);
+        const { line, character } =
+          sourceFile.getLineAndCharacterOfPosition(position);
+        issues.push({
+          rule: rule.name,
+          ...issue,
+          severity: severity ?? issue.severity,
+          line: line + 1,
+          column: character + 1,
+          position,
+        });
+      },
+    };
+    if (check.appliesTo && !check.appliesTo(context)) {
+      continue;
+    }
+    const visit = (node: ts.Node): void => {
+      check.visit(node, context);
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  const disabled = disabledLines(sourceFile);
+  return issues
+    .filter((issue) => {
+      const rules = disabled.get(issue.line);
+      return !(rules && (rules.size === 0 || rules.has(issue.rule)));
+    })
+    .sort((a, b) => a.position - b.position)
+    .map(({ position: _, fix, ...issue }) =>
+      fix === undefined || fix.length === 0 ? issue : { ...issue, fix }
+    );
+}
+
+/**
+ * Apply the fixes of issues found by `lintSource` in `content`
+ *
+ * Fixes that overlap one already applied are skipped; linting the
+ * result again finds what is left.
+ *
+ * @returns The fixed content and the issues that were fixed
+ */
+export function applyLintFixes(
+  content: string,
+  issues: readonly LintIssue[]
+): { readonly content: string; readonly fixed: readonly LintIssue[] } {
+  const applied: LintEdit[] = [];
+  const fixed: LintIssue[] = [];
+  // Edits at the same position are treated as overlapping, since the
+  // order they would apply in is arbitrary
+  const overlaps = (edit: LintEdit) =>
+    applied.some(
+      (other) =>
+        edit.start === other.start ||
+        (edit.start < other.end && other.start < edit.end)
+    );
+
+  for (const issue of issues) {
+    if (issue.fix === undefined || issue.fix.some(overlaps)) {
+      continue;
+    }
+    applied.push(...issue.fix);
+    fixed.push(issue);
+  }
+
+  let result = content;
+  for (const edit of [...applied].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return { content: result, fixed };
+}
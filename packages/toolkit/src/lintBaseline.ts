@@ -0,0 +1,134 @@
+/**
+ * Lint Baseline
+ *
+ * Reads, writes and applies lint baselines: the issues a project
+ * already has, which `ep lint --baseline` suppresses so only new issues
+ * are reported and fail the build.
+ */
+
+import { Schema as S } from '@effect/schema';
+import { Data, Either } from 'effect';
+import type { LintFileResult } from './lintReport.js';
+import {
+  LINT_BASELINE_VERSION,
+  LintBaseline,
+  type LintBaselineEntry,
+} from './schemas/lint.js';
+
+/**
+ * Default baseline file name, relative to the project root
+ */
+export const LINT_BASELINE_NAME = 'ep-lint-baseline.json';
+
+/**
+ * A baseline file is not valid JSON or does not match `LintBaseline`
+ */
+export class LintBaselineError extends Data.TaggedError('LintBaselineError')<{
+  readonly message: string;
+}> {}
+
+/**
+ * Parse the contents of a baseline file
+ */
+export function parseLintBaseline(
+  json: string
+): Either.Either<LintBaseline, LintBaselineError> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    return Either.left(
+      new LintBaselineError({
+        message: `Invalid JSON in lint baseline: ${error}`,
+      })
+    );
+  }
+
+  return S.decodeUnknownEither(LintBaseline)(parsed).pipe(
+    Either.mapLeft(
+      (error) =>
+        new LintBaselineError({
+          message: `Invalid lint baseline: ${error.message}`,
+        })
+    )
+  );
+}
+
+/**
+ * Serialize a baseline
+ */
+export const formatLintBaseline = (baseline: LintBaseline): string =>
+  `${JSON.stringify(baseline, null, 2)}\n`;
+
+const baselineKey = (file: string, rule: string, message: string) =>
+  JSON.stringify([file, rule, message]);
+
+/**
+ * A baseline suppressing every issue in `results`, sorted by file, rule
+ * and message so it diffs cleanly
+ */
+export function createLintBaseline(
+  results: readonly LintFileResult[]
+): LintBaseline {
+  const entries = new Map<string, LintBaselineEntry>();
+  for (const result of results) {
+    for (const issue of result.issues) {
+      const key = baselineKey(result.file, issue.rule, issue.message);
+      const entry = entries.get(key);
+      entries.set(key, {
+        file: result.file,
+        rule: issue.rule,
+        message: issue.message,
+        count: (entry?.count ?? 0) + 1,
+      });
+    }
+  }
+
+  return {
+    baselineVersion: LINT_BASELINE_VERSION,
+    issues: [...entries.values()].sort(
+      (a, b) =>
+        a.file.localeCompare(b.file) ||
+        a.rule.localeCompare(b.rule) ||
+        a.message.localeCompare(b.message)
+    ),
+  };
+}
+
+/**
+ * Remove the issues a baseline suppresses
+ *
+ * Each entry suppresses up to `count` issues with its file, rule and
+ * message, in the order they appear in the file; any beyond that are
+ * new and kept.
+ *
+ * @returns The remaining issues and how many were suppressed
+ */
+export function applyLintBaseline(
+  results: readonly LintFileResult[],
+  baseline: LintBaseline
+): { readonly results: LintFileResult[]; readonly suppressed: number } {
+  const remaining = new Map(
+    baseline.issues.map((entry) => [
+      baselineKey(entry.file, entry.rule, entry.message),
+      entry.count,
+    ])
+  );
+  let suppressed = 0;
+
+  const filtered = results.map((result) => ({
+    file: result.file,
+    issues: result.issues.filter((issue) => {
+      const key = baselineKey(result.file, issue.rule, issue.message);
+      const count = remaining.get(key) ?? 0;
+      if (count === 0) {
+        return true;
+      }
+      remaining.set(key, count - 1);
+      suppressed++;
+      return false;
+    }),
+  }));
+
+  return { results: filtered, suppressed };
+}
@@ -0,0 +1,313 @@
+/**
+ * Lint Reports
+ *
+ * Machine-readable output for `ep lint` results: JSON, SARIF 2.1.0
+ * (for code scanning, with rule metadata from `LINT_RULES`), JUnit XML
+ * and GitHub Actions workflow commands. The colored text output stays
+ * in the CLI.
+ */
+
+import { LINT_RULES, type LintIssue, type LintSeverity } from './lint.js';
+
+/**
+ * Lint issues of one file
+ */
+export interface LintFileResult {
+  /** Path relative to the project root, with `/` separators */
+  readonly file: string;
+  readonly issues: readonly LintIssue[];
+}
+
+/**
+ * Issue counts over a set of results
+ */
+export interface LintSummary {
+  readonly files: number;
+  readonly errors: number;
+  readonly warnings: number;
+  readonly info: number;
+}
+
+/**
+ * Report formats besides the CLI's text output
+ */
+export const LINT_REPORT_FORMATS = [
+  'json',
+  'sarif',
+  'junit',
+  'github',
+] as const;
+
+export type LintReportFormat = (typeof LINT_REPORT_FORMATS)[number];
+
+export interface LintReportOptions {
+  /** Issues suppressed by a baseline, reported in the JSON summary */
+  readonly suppressed?: number;
+  /** Version reported as the SARIF tool driver's version */
+  readonly toolVersion?: string;
+}
+
+const TOOL_NAME = 'Effect Patterns Linter';
+const TOOL_URI = 'https://github.com/PaulJPhilp/Effect-Patterns';
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const SARIF_LEVELS: Readonly<Record<LintSeverity | 'off', string>> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'note',
+  off: 'none',
+};
+
+const GITHUB_COMMANDS: Readonly<Record<LintSeverity, string>> = {
+  error: 'error',
+  warning: 'warning',
+  info: 'notice',
+};
+
+/**
+ * Count issues by severity
+ */
+export function summarizeLintResults(
+  results: readonly LintFileResult[]
+): LintSummary {
+  const issues = results.flatMap((result) => result.issues);
+  const count = (severity: LintSeverity) =>
+    issues.filter((issue) => issue.severity === severity).length;
+  return {
+    files: results.length,
+    errors: count('error'),
+    warnings: count('warning'),
+    info: count('info'),
+  };
+}
+
+/**
+ * JSON report: a summary and every issue, with `fixable` in place of
+ * the fix edits
+ */
+export function formatLintJson(
+  results: readonly LintFileResult[],
+  options: LintReportOptions = {}
+): string {
+  const report = {
+    summary: {
+      ...summarizeLintResults(results),
+      ...(options.suppressed === undefined
+        ? {}
+        : { suppressed: options.suppressed }),
+    },
+    results: results.map((result) => ({
+      file: result.file,
+      issues: result.issues.map(({ fix, ...issue }) => ({
+        ...issue,
+        fixable: fix !== undefined,
+      })),
+    })),
+  };
+  return `${JSON.stringify(report, null, 2)}\n`;
+}
+
+/**
+ * SARIF 2.1.0 log with one run
+ *
+ * Rules come from `LINT_RULES`; issues with a fix carry it as a SARIF
+ * fix, with regions given as UTF-16 offsets.
+ */
+export function formatLintSarif(
+  results: readonly LintFileResult[],
+  options: LintReportOptions = {}
+): string {
+  const ruleIndex = new Map<string, number>(
+    LINT_RULES.map((rule, index) => [rule.name, index])
+  );
+  const sarifResults = results.flatMap((result) =>
+    result.issues.map((issue) => ({
+      ruleId: issue.rule,
+      ...(ruleIndex.has(issue.rule)
+        ? { ruleIndex: ruleIndex.get(issue.rule) }
+        : {}),
+      level: SARIF_LEVELS[issue.severity],
+      message: {
+        text: issue.suggestion
+          ? `${issue.message}\n${issue.suggestion}`
+          : issue.message,
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: result.file },
+            region: { startLine: issue.line, startColumn: issue.column },
+          },
+        },
+      ],
+      ...(issue.fix === undefined
+        ? {}
+        : {
+            fixes: [
+              {
+                description: { text: issue.suggestion ?? issue.message },
+                artifactChanges: [
+                  {
+                    artifactLocation: { uri: result.file },
+                    replacements: issue.fix.map((edit) => ({
+                      deletedRegion: {
+                        charOffset: edit.start,
+                        charLength: edit.end - edit.start,
+                      },
+                      insertedContent: { text: edit.text },
+                    })),
+                  },
+                ],
+              },
+            ],
+          }),
+    }))
+  );
+
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            informationUri: TOOL_URI,
+            ...(options.toolVersion === undefined
+              ? {}
+              : { version: options.toolVersion }),
+            rules: LINT_RULES.map((rule) => ({
+              id: rule.name,
+              shortDescription: { text: rule.description },
+              defaultConfiguration: {
+                level: SARIF_LEVELS[rule.defaultSeverity],
+              },
+              properties: { fixable: rule.canFix },
+            })),
+          },
+        },
+        columnKind: 'utf16CodeUnits',
+        results: sarifResults,
+      },
+    ],
+  };
+  return `${JSON.stringify(log, null, 2)}\n`;
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * JUnit XML report: a test suite per file, with a failing test case per
+ * error or warning and a single passing one for files without any
+ *
+ * Info issues are style suggestions and are left out.
+ */
+export function formatLintJunit(results: readonly LintFileResult[]): string {
+  const suites = results.map((result) => {
+    const failures = result.issues.filter((issue) => issue.severity !== 'info');
+    const file = escapeXml(result.file);
+    const cases =
+      failures.length === 0
+        ? [`    <testcase name="${TOOL_NAME}" classname="${file}"/>`]
+        : failures.map((issue) => {
+            const name = escapeXml(
+              `${issue.rule} (${issue.line}:${issue.column})`
+            );
+            const message = escapeXml(issue.message);
+            const detail = escapeXml(
+              [
+                `${result.file}:${issue.line}:${issue.column}`,
+                issue.message,
+                ...(issue.suggestion ? [issue.suggestion] : []),
+              ].join('\n')
+            );
+            return [
+              `    <testcase name="${name}" classname="${file}">`,
+              `      <failure message="${message}" type="${issue.severity}">${detail}</failure>`,
+              '    </testcase>',
+            ].join('\n');
+          });
+    return [
+      `  <testsuite name="${file}" tests="${cases.length}" failures="${failures.length}">`,
+      ...cases,
+      '  </testsuite>',
+    ].join('\n');
+  });
+
+  const tests = results.reduce(
+    (sum, result) =>
+      sum +
+      Math.max(
+        1,
+        result.issues.filter((issue) => issue.severity !== 'info').length
+      ),
+    0
+  );
+  const { errors, warnings } = summarizeLintResults(results);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${TOOL_NAME}" tests="${tests}" failures="${errors + warnings}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+// Workflow command escaping, as done by @actions/core
+const escapeData = (text: string) =>
+  text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+
+const escapeProperty = (text: string) =>
+  escapeData(text).replace(/:/g, '%3A').replace(/,/g, '%2C');
+
+/**
+ * GitHub Actions workflow commands (`::error file=...::message`), one
+ * per issue, which the runner shows as annotations on the diff
+ */
+export function formatLintGithub(results: readonly LintFileResult[]): string {
+  return results
+    .flatMap((result) =>
+      result.issues.map((issue) => {
+        const properties = [
+          `file=${escapeProperty(result.file)}`,
+          `line=${issue.line}`,
+          `col=${issue.column}`,
+          `title=${escapeProperty(issue.rule)}`,
+        ].join(',');
+        const message = issue.suggestion
+          ? `${issue.message}\n${issue.suggestion}`
+          : issue.message;
+        return `::${GITHUB_COMMANDS[issue.severity]} ${properties}::${escapeData(message)}\n`;
+      })
+    )
+    .join('');
+}
+
+const REPORTERS: Readonly<
+  Record<
+    LintReportFormat,
+    (results: readonly LintFileResult[], options: LintReportOptions) => string
+  >
+> = {
+  json: formatLintJson,
+  sarif: formatLintSarif,
+  junit: formatLintJunit,
+  github: formatLintGithub,
+};
+
+/**
+ * Format results in one of `LINT_REPORT_FORMATS`
+ */
+export function formatLintReport(
+  format: LintReportFormat,
+  results: readonly LintFileResult[],
+  options: LintReportOptions = {}
+): string {
+  return REPORTERS[format](results, options);
+}
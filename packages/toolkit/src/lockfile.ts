@@ -0,0 +1,185 @@
+/**
+ * Rules Lockfile
+ *
+ * Reads and updates `ep.lock.json`, and compares what it records with
+ * the project and the Pattern Server: which rules a new bundle adds,
+ * removes or changes, which installed files were edited by hand, and
+ * which files a new bundle no longer writes.
+ */
+
+import { Schema as S } from '@effect/schema';
+import { Data, Either } from 'effect';
+import { contentHash, extractManagedBlock } from './bundles.js';
+import type { RuleBundle, RuleDigest } from './schemas/api.js';
+import {
+  type LockedFile,
+  RULES_LOCKFILE_VERSION,
+  RulesLockfile,
+  type ToolLock,
+} from './schemas/lockfile.js';
+
+/**
+ * Lockfile name, relative to the project root
+ */
+export const RULES_LOCKFILE_NAME = 'ep.lock.json';
+
+/**
+ * `ep.lock.json` is not valid JSON or does not match `RulesLockfile`
+ */
+export class RulesLockfileError extends Data.TaggedError('RulesLockfileError')<{
+  readonly message: string;
+}> {}
+
+/**
+ * Lockfile of a project with nothing installed
+ */
+export const emptyRulesLockfile: RulesLockfile = {
+  lockfileVersion: RULES_LOCKFILE_VERSION,
+  tools: {},
+};
+
+/**
+ * Parse the contents of `ep.lock.json`
+ */
+export function parseRulesLockfile(
+  json: string
+): Either.Either<RulesLockfile, RulesLockfileError> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    return Either.left(
+      new RulesLockfileError({
+        message: `Invalid JSON in ${RULES_LOCKFILE_NAME}: ${error}`,
+      })
+    );
+  }
+
+  return S.decodeUnknownEither(RulesLockfile)(parsed).pipe(
+    Either.mapLeft(
+      (error) =>
+        new RulesLockfileError({
+          message: `Invalid ${RULES_LOCKFILE_NAME}: ${error.message}`,
+        })
+    )
+  );
+}
+
+/**
+ * Serialize a lockfile, with tools sorted by name so the file diffs
+ * cleanly
+ */
+export function formatRulesLockfile(lockfile: RulesLockfile): string {
+  const tools = Object.fromEntries(
+    Object.entries(lockfile.tools).sort(([a], [b]) => a.localeCompare(b))
+  );
+  return `${JSON.stringify({ ...lockfile, tools }, null, 2)}\n`;
+}
+
+/**
+ * Where a bundle came from
+ */
+export interface LockRuleBundleOptions {
+  readonly source: string;
+  readonly filters: ToolLock['filters'];
+  /** ISO timestamp recorded as `installedAt` (default: now) */
+  readonly installedAt?: string;
+}
+
+/**
+ * The lock entry for a bundle that has just been written
+ */
+export function lockRuleBundle(
+  bundle: Pick<RuleBundle, 'version' | 'rules' | 'files'>,
+  options: LockRuleBundleOptions
+): ToolLock {
+  return {
+    source: options.source,
+    version: bundle.version,
+    installedAt: options.installedAt ?? new Date().toISOString(),
+    filters: options.filters,
+    rules: bundle.rules,
+    files: bundle.files.map((file) => ({
+      path: file.path,
+      mode: file.mode,
+      hash: contentHash(file.content),
+    })),
+  };
+}
+
+/**
+ * Rule IDs that differ between two bundles, each sorted
+ */
+export interface RuleChanges {
+  readonly added: readonly string[];
+  readonly removed: readonly string[];
+  readonly changed: readonly string[];
+}
+
+/**
+ * Compare the installed rules with the rules of a new bundle
+ */
+export function diffRuleDigests(
+  installed: readonly RuleDigest[],
+  next: readonly RuleDigest[]
+): RuleChanges {
+  const installedHashes = new Map(
+    installed.map((rule) => [rule.id, rule.hash])
+  );
+  const nextIds = new Set(next.map((rule) => rule.id));
+  const ids = (rules: readonly RuleDigest[]) =>
+    rules.map((rule) => rule.id).sort((a, b) => a.localeCompare(b));
+
+  return {
+    added: ids(next.filter((rule) => !installedHashes.has(rule.id))),
+    removed: ids(installed.filter((rule) => !nextIds.has(rule.id))),
+    changed: ids(
+      next.filter((rule) => {
+        const hash = installedHashes.get(rule.id);
+        return hash !== undefined && hash !== rule.hash;
+      })
+    ),
+  };
+}
+
+/**
+ * Whether a comparison found any changes
+ */
+export const hasRuleChanges = (changes: RuleChanges): boolean =>
+  changes.added.length + changes.removed.length + changes.changed.length > 0;
+
+/**
+ * Paths of installed files that were edited since they were written
+ *
+ * `current` maps each path that still exists to its content. Missing
+ * files and files whose managed block was taken out count as removed,
+ * not edited, since writing them again loses nothing.
+ */
+export function findLocalEdits(
+  lock: ToolLock,
+  current: ReadonlyMap<string, string>
+): string[] {
+  return lock.files
+    .filter((file) => {
+      const content = current.get(file.path);
+      if (content === undefined) {
+        return false;
+      }
+      const written =
+        file.mode === 'managed-block' ? extractManagedBlock(content) : content;
+      return written !== undefined && contentHash(written) !== file.hash;
+    })
+    .map((file) => file.path);
+}
+
+/**
+ * Installed files a new bundle no longer writes, e.g. the `.mdc` file
+ * of a removed rule
+ */
+export function findStaleFiles(
+  lock: ToolLock,
+  bundle: Pick<RuleBundle, 'files'>
+): LockedFile[] {
+  const paths = new Set(bundle.files.map((file) => file.path));
+  return lock.files.filter((file) => !paths.has(file.path));
+}
@@ -0,0 +1,542 @@
+/**
+ * OpenAPI Document
+ *
+ * Describes the pattern HTTP APIs (the MCP server routes and the rules
+ * server) as a table of operations whose request and response bodies
+ * are the toolkit Schemas, and generates an OpenAPI 3.1 document from
+ * it. The same table backs `checkResponseContract`, which contract
+ * tests use to catch routes drifting from the document.
+ */
+
+import { JSONSchema, Schema as S } from '@effect/schema';
+import { Either } from 'effect';
+import {
+  GetPatternResponse,
+  HealthResponse,
+  ProblemDetails,
+  ReloadPatternsResponse,
+  Rule,
+  RuleBundle,
+  RuleBundleQuery,
+  RulesErrorResponse,
+  RulesQuery,
+  TraceWiringResponse,
+} from './schemas/api.js';
+import {
+  ExplainPatternRequest,
+  ExplainPatternResponse,
+  GenerateRequest,
+  GenerateResponse,
+  SearchPatternsRequest,
+  SearchPatternsResponse,
+} from './schemas/generate.js';
+import { Pattern } from './schemas/pattern.js';
+
+/**
+ * Schemas published under `components.schemas`, referenced by name
+ * from operations
+ */
+export const API_SCHEMAS = {
+  Pattern,
+  ProblemDetails,
+  HealthResponse,
+  SearchPatternsResponse,
+  GetPatternResponse,
+  ExplainPatternRequest,
+  ExplainPatternResponse,
+  GenerateRequest,
+  GenerateResponse,
+  TraceWiringResponse,
+  ReloadPatternsResponse,
+  Rule,
+  RuleList: S.Array(Rule),
+  RulesErrorResponse,
+  RuleBundle,
+  OpenApiDocument: S.Record({ key: S.String, value: S.Unknown }),
+};
+
+export type ApiSchemaName = keyof typeof API_SCHEMAS;
+
+/**
+ * API key scope an operation requires
+ */
+export type ApiScope = 'patterns:read' | 'generate' | 'admin';
+
+/**
+ * One documented response
+ */
+export interface ApiResponse {
+  readonly description: string;
+  /** Body schema; undefined for responses without a body (304) */
+  readonly schema?: ApiSchemaName;
+  /** OpenAPI header objects by header name */
+  readonly headers?: Readonly<Record<string, JsonObject>>;
+}
+
+/**
+ * One HTTP operation
+ */
+export interface ApiOperation {
+  readonly method: 'get' | 'post';
+  /** OpenAPI path template, e.g. /api/patterns/{id} */
+  readonly path: string;
+  readonly operationId: string;
+  readonly summary: string;
+  readonly tags: readonly string[];
+  /** Required scope; undefined for public operations */
+  readonly scope?: ApiScope;
+  /** Server base URL, if not the MCP server */
+  readonly server?: string;
+  readonly pathParams?: readonly { name: string; description: string }[];
+  /** Struct of string-encoded query parameters */
+  readonly query?: S.Struct<S.Struct.Fields>;
+  readonly body?: ApiSchemaName;
+  readonly responses: Readonly<Record<number, ApiResponse>>;
+}
+
+/** Base URL of the rules server (`server/index.ts`) */
+export const RULES_SERVER_URL = 'http://localhost:3001';
+
+const problem = (description: string): ApiResponse => ({
+  description,
+  schema: 'ProblemDetails',
+});
+
+const AUTHENTICATED_RESPONSES = {
+  401: problem('Missing, invalid, expired or revoked API key'),
+  403: problem('API key lacks the required scope'),
+  429: problem('Rate limit exceeded'),
+  500: problem('Unexpected error'),
+};
+
+const CACHE_VALIDATOR_HEADERS = {
+  ETag: {
+    description: 'Entity tag of the response body',
+    schema: { type: 'string' },
+  },
+  'Last-Modified': {
+    description: 'When the rules last changed',
+    schema: { type: 'string' },
+  },
+};
+
+/**
+ * Every pattern API operation
+ */
+export const API_OPERATIONS: readonly ApiOperation[] = [
+  {
+    method: 'get',
+    path: '/api/health',
+    operationId: 'getHealth',
+    summary: 'Service health and loaded patterns snapshot',
+    tags: ['health'],
+    responses: {
+      200: { description: 'Service is healthy', schema: 'HealthResponse' },
+      500: problem('Unexpected error'),
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/patterns',
+    operationId: 'searchPatterns',
+    summary: 'Search patterns (lexical, semantic or hybrid ranking)',
+    tags: ['patterns'],
+    scope: 'patterns:read',
+    query: SearchPatternsRequest,
+    responses: {
+      200: {
+        description: 'Matching patterns',
+        schema: 'SearchPatternsResponse',
+      },
+      400: problem('Invalid query parameters'),
+      ...AUTHENTICATED_RESPONSES,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/patterns/{id}',
+    operationId: 'getPattern',
+    summary: 'Get a pattern by ID',
+    tags: ['patterns'],
+    scope: 'patterns:read',
+    pathParams: [{ name: 'id', description: 'Pattern ID' }],
+    responses: {
+      200: { description: 'The pattern', schema: 'GetPatternResponse' },
+      404: problem('Pattern not found'),
+      ...AUTHENTICATED_RESPONSES,
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/explain',
+    operationId: 'explainPattern',
+    summary: 'Explain a pattern, optionally for a given context',
+    tags: ['patterns'],
+    scope: 'patterns:read',
+    body: 'ExplainPatternRequest',
+    responses: {
+      200: { description: 'Explanation', schema: 'ExplainPatternResponse' },
+      400: problem('Invalid request body'),
+      404: problem('Pattern not found'),
+      ...AUTHENTICATED_RESPONSES,
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/generate',
+    operationId: 'generateSnippet',
+    summary: 'Generate a code snippet from a pattern',
+    tags: ['generate'],
+    scope: 'generate',
+    body: 'GenerateRequest',
+    responses: {
+      200: { description: 'Generated snippet', schema: 'GenerateResponse' },
+      400: problem('Invalid request body'),
+      404: problem('Pattern or requested example not found'),
+      422: problem('Snippet does not compile (requireCompiles)'),
+      ...AUTHENTICATED_RESPONSES,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/trace-wiring',
+    operationId: 'getTraceWiring',
+    summary: 'Examples for propagating trace IDs',
+    tags: ['tracing'],
+    scope: 'patterns:read',
+    responses: {
+      200: { description: 'Examples', schema: 'TraceWiringResponse' },
+      ...AUTHENTICATED_RESPONSES,
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/reload',
+    operationId: 'reloadPatterns',
+    summary: 'Reload patterns.json',
+    tags: ['admin'],
+    scope: 'admin',
+    responses: {
+      200: { description: 'Reloaded', schema: 'ReloadPatternsResponse' },
+      422: {
+        description: 'New file rejected; previous snapshot still served',
+        schema: 'ReloadPatternsResponse',
+      },
+      ...AUTHENTICATED_RESPONSES,
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/openapi.json',
+    operationId: 'getOpenApiDocument',
+    summary: 'This OpenAPI document',
+    tags: ['meta'],
+    responses: {
+      200: { description: 'OpenAPI 3.1 document', schema: 'OpenApiDocument' },
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/v1/rules',
+    operationId: 'listRules',
+    summary: 'List AI coding rules',
+    tags: ['rules'],
+    server: RULES_SERVER_URL,
+    query: RulesQuery,
+    responses: {
+      200: {
+        description: 'Matching rules, ordered by ID',
+        schema: 'RuleList',
+        headers: {
+          ...CACHE_VALIDATOR_HEADERS,
+          Link: {
+            description: 'URL of the next page (`rel="next"`), if any',
+            schema: { type: 'string' },
+          },
+          'X-Total-Count': {
+            description: 'Rules matching the filters, across all pages',
+            schema: { type: 'integer' },
+          },
+        },
+      },
+      304: {
+        description: 'Not modified (If-None-Match / If-Modified-Since)',
+        headers: CACHE_VALIDATOR_HEADERS,
+      },
+      400: {
+        description: 'Invalid query parameters or cursor',
+        schema: 'RulesErrorResponse',
+      },
+      500: {
+        description: 'Rules failed to load',
+        schema: 'RulesErrorResponse',
+      },
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/v1/rules/{id}',
+    operationId: 'getRule',
+    summary: 'Get an AI coding rule by ID',
+    tags: ['rules'],
+    server: RULES_SERVER_URL,
+    pathParams: [{ name: 'id', description: 'Rule ID' }],
+    responses: {
+      200: { description: 'The rule', schema: 'Rule' },
+      404: { description: 'Rule not found', schema: 'RulesErrorResponse' },
+      500: { description: 'Rule failed to load', schema: 'RulesErrorResponse' },
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/v1/bundles/{tool}',
+    operationId: 'getRuleBundle',
+    summary: 'Render the rule files for an AI tool',
+    tags: ['rules'],
+    server: RULES_SERVER_URL,
+    pathParams: [{ name: 'tool', description: 'Tool name, e.g. cursor' }],
+    query: RuleBundleQuery,
+    responses: {
+      200: { description: 'Files to write', schema: 'RuleBundle' },
+      404: { description: 'Unknown tool', schema: 'RulesErrorResponse' },
+      500: {
+        description: 'Rules failed to load',
+        schema: 'RulesErrorResponse',
+      },
+    },
+  },
+];
+
+/**
+ * JSON object (OpenAPI documents are plain JSON)
+ */
+export type JsonObject = { readonly [key: string]: unknown };
+
+/**
+ * Options for building the document
+ */
+export interface OpenApiDocumentOptions {
+  /** API version (default: "0.1.0") */
+  readonly version?: string;
+  /** MCP server base URL (default: production deployment) */
+  readonly serverUrl?: string;
+}
+
+const REF_PREFIX = '#/components/schemas/';
+
+/**
+ * JSON Schema for a component, with nested `$defs` hoisted into
+ * `components.schemas`
+ */
+function toComponentSchema(
+  schema: S.Schema.AnyNoContext,
+  components: Record<string, unknown>
+): JsonObject {
+  const {
+    $schema: _,
+    $defs,
+    ...jsonSchema
+  } = JSONSchema.make(schema) as unknown as {
+    $schema?: string;
+    $defs?: Record<string, unknown>;
+  } & JsonObject;
+
+  const rewrite = (value: JsonObject): JsonObject =>
+    JSON.parse(
+      JSON.stringify(value).replace(/"#\/\$defs\//g, `"${REF_PREFIX}`)
+    );
+
+  for (const [name, def] of Object.entries($defs ?? {})) {
+    components[name] = rewrite(def as JsonObject);
+  }
+  return rewrite(jsonSchema);
+}
+
+const ref = (name: ApiSchemaName) => ({ $ref: `${REF_PREFIX}${name}` });
+
+function toOperationObject(operation: ApiOperation): JsonObject {
+  const parameters: JsonObject[] = [
+    ...(operation.pathParams ?? []).map((param) => ({
+      name: param.name,
+      in: 'path',
+      required: true,
+      description: param.description,
+      schema: { type: 'string' },
+    })),
+  ];
+
+  if (operation.query) {
+    const query = JSONSchema.make(operation.query) as unknown as {
+      properties: Record<string, JsonObject>;
+      required: readonly string[];
+    };
+    for (const [name, schema] of Object.entries(query.properties)) {
+      parameters.push({
+        name,
+        in: 'query',
+        required: query.required.includes(name),
+        schema,
+      });
+    }
+  }
+
+  const responses: Record<string, JsonObject> = {};
+  for (const [status, response] of Object.entries(operation.responses)) {
+    const contentType =
+      response.schema === 'ProblemDetails'
+        ? 'application/problem+json'
+        : 'application/json';
+    const headers = status === '429' ? RATE_LIMIT_HEADERS : response.headers;
+    responses[status] = {
+      description: response.description,
+      ...(headers && { headers }),
+      ...(response.schema && {
+        content: { [contentType]: { schema: ref(response.schema) } },
+      }),
+    };
+  }
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    tags: operation.tags,
+    ...(operation.scope
+      ? {
+          description: `Requires an API key with the \`${operation.scope}\` scope.`,
+          security: [{ ApiKeyHeader: [] }, { ApiKeyQuery: [] }],
+          'x-required-scope': operation.scope,
+        }
+      : { security: [] }),
+    ...(operation.server && { servers: [{ url: operation.server }] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(operation.body && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: ref(operation.body) } },
+      },
+    }),
+    responses,
+  };
+}
+
+const RATE_LIMIT_HEADERS = {
+  'Retry-After': {
+    description: 'Seconds until a request will be allowed',
+    schema: { type: 'integer' },
+  },
+  'X-RateLimit-Limit': {
+    description: 'Requests allowed per window',
+    schema: { type: 'integer' },
+  },
+  'X-RateLimit-Remaining': {
+    description: 'Requests left in the current window',
+    schema: { type: 'integer' },
+  },
+  'X-RateLimit-Reset': {
+    description: 'Epoch seconds at which the limit fully resets',
+    schema: { type: 'integer' },
+  },
+};
+
+/**
+ * Build the OpenAPI 3.1 document for the pattern APIs
+ *
+ * @param options - Version and server URL
+ * @returns OpenAPI document as plain JSON
+ */
+export function buildOpenApiDocument(
+  options: OpenApiDocumentOptions = {}
+): JsonObject {
+  const components: Record<string, unknown> = {};
+  for (const [name, schema] of Object.entries(API_SCHEMAS)) {
+    components[name] = toComponentSchema(schema, components);
+  }
+
+  const paths: Record<string, Record<string, JsonObject>> = {};
+  for (const operation of API_OPERATIONS) {
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: toOperationObject(operation),
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Effect Patterns API',
+      version: options.version ?? '0.1.0',
+      description:
+        'Search, explain and generate code from Effect patterns. Errors are RFC 7807 problem details.',
+    },
+    servers: [
+      { url: options.serverUrl ?? 'https://effect-patterns.vercel.app' },
+    ],
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: {
+        ApiKeyHeader: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+        ApiKeyQuery: { type: 'apiKey', in: 'query', name: 'key' },
+      },
+    },
+  };
+}
+
+/**
+ * Find the operation serving a concrete request path
+ *
+ * @param method - HTTP method (any case)
+ * @param path - Request path, e.g. /api/patterns/retry-with-backoff (a
+ * query string is ignored)
+ */
+export function findApiOperation(
+  method: string,
+  path: string
+): ApiOperation | undefined {
+  const pathname = path.split('?')[0] ?? path;
+  return API_OPERATIONS.find(
+    (operation) =>
+      operation.method === method.toLowerCase() &&
+      new RegExp(`^${operation.path.replace(/\{[^/]+\}/g, '[^/]+')}$`).test(
+        pathname
+      )
+  );
+}
+
+/**
+ * Check an actual response against the document
+ *
+ * Fails if the status is undocumented for the operation, or the body
+ * does not match the documented schema exactly (missing, mistyped or
+ * undocumented fields).
+ *
+ * @returns Undefined if the response conforms, otherwise why not
+ */
+export function checkResponseContract(response: {
+  readonly method: string;
+  readonly path: string;
+  readonly status: number;
+  readonly body: unknown;
+}): string | undefined {
+  const operation = findApiOperation(response.method, response.path);
+  if (!operation) {
+    return `Undocumented operation: ${response.method.toUpperCase()} ${response.path}`;
+  }
+
+  const documented = operation.responses[response.status];
+  if (!documented) {
+    return `Undocumented status ${response.status} for ${operation.operationId}`;
+  }
+  if (!documented.schema) {
+    return response.body === undefined || response.body === ''
+      ? undefined
+      : `${operation.operationId} ${response.status} should have no body`;
+  }
+
+  const result = S.decodeUnknownEither(
+    API_SCHEMAS[documented.schema] as S.Schema.AnyNoContext
+  )(response.body, { onExcessProperty: 'error', errors: 'all' });
+  return Either.isLeft(result)
+    ? `${operation.operationId} ${response.status} does not match ${documented.schema}: ${result.left.message}`
+    : undefined;
+}
@@ -0,0 +1,315 @@
+/**
+ * Published Pattern Mapping
+ *
+ * Maps the published MDX patterns (`content/published/*.mdx`) onto the
+ * toolkit `Pattern` schema and assembles them into a `PatternsIndex`.
+ * Frontmatter is parsed by the caller (e.g. with gray-matter) and
+ * decoded with `PatternFromFrontmatter`; this module adds the code
+ * blocks of the `## Good Example` sections. Any pattern that cannot be
+ * mapped fails the whole build.
+ */
+
+import { createHash } from 'node:crypto';
+import { ArrayFormatter, Schema as S } from '@effect/schema';
+import { Data, Either } from 'effect';
+import { PatternFromFrontmatter } from './schemas/frontmatter.js';
+import {
+  type CodeExample,
+  PATTERNS_INDEX_SCHEMA_VERSION,
+  type Pattern,
+  PatternsIndex,
+} from './schemas/pattern.js';
+
+/**
+ * A published MDX file with its frontmatter already parsed
+ */
+export interface PublishedPatternSource {
+  /** Path of the MDX file, used in error messages */
+  readonly path: string;
+  /** Parsed frontmatter (decoded with `PatternFromFrontmatter`) */
+  readonly frontmatter: unknown;
+  /** MDX content after the frontmatter */
+  readonly body: string;
+}
+
+/**
+ * A published pattern that cannot be mapped onto the `Pattern` schema
+ */
+export class PatternMappingError extends Data.TaggedError(
+  'PatternMappingError'
+)<{
+  readonly path: string;
+  readonly message: string;
+}> {}
+
+/**
+ * The index could not be built; `failures` lists every unmappable
+ * pattern, not just the first
+ */
+export class PatternsIndexBuildError extends Data.TaggedError(
+  'PatternsIndexBuildError'
+)<{
+  readonly message: string;
+  readonly failures: readonly PatternMappingError[];
+}> {}
+
+/**
+ * Options for building the index
+ */
+export interface BuildPatternsIndexOptions {
+  /** ISO timestamp recorded as `lastUpdated` (default: now) */
+  readonly lastUpdated?: string;
+}
+
+/**
+ * A built index, with problems that did not fail the build (e.g.
+ * `related` entries that are not published)
+ */
+export interface PatternsIndexBuild {
+  readonly index: PatternsIndex;
+  readonly warnings: readonly string[];
+}
+
+type MdxToken =
+  | { readonly kind: 'heading'; readonly text: string }
+  | { readonly kind: 'code'; readonly language: string; readonly code: string }
+  | { readonly kind: 'text'; readonly line: string };
+
+/** Opening or closing code fence, with the info string's language */
+const FENCE = /^(`{3,}|~{3,})\s*([\w+-]*)/;
+/** Level-2 heading (the pattern's sections) */
+const SECTION_HEADING = /^##\s+(.*)$/;
+/** "Good Example", optionally numbered and followed by a title */
+const GOOD_EXAMPLE_HEADING = /^Good Example\b\s*\d*\s*[:(-]?\s*(.*?)\)?$/;
+
+/**
+ * Extract the code blocks of every `## Good Example` section
+ *
+ * Blocks without a language (e.g. sample output) are skipped. Each
+ * example is described by the heading's title when it has one
+ * ("Good Example 2: Creating a Branded Type"), otherwise by the first
+ * paragraph before the block.
+ */
+export function extractExamples(body: string): CodeExample[] {
+  const examples: CodeExample[] = [];
+  // Title of the current Good Example section, undefined outside one
+  let title: string | undefined;
+  let prose: string[] = [];
+
+  for (const token of tokenizeMdx(body)) {
+    switch (token.kind) {
+      case 'heading':
+        title = GOOD_EXAMPLE_HEADING.exec(token.text)?.[1];
+        prose = [];
+        break;
+      case 'text':
+        prose.push(token.line);
+        break;
+      case 'code':
+        if (title !== undefined && token.language) {
+          examples.push(toExample(token, title || firstParagraph(prose)));
+        }
+        prose = [];
+        break;
+      default:
+        break;
+    }
+  }
+
+  return examples;
+}
+
+/**
+ * Map one published pattern onto the `Pattern` schema
+ *
+ * `relatedPatterns` is copied as-is; `buildPatternsIndex` drops
+ * entries that are not published.
+ */
+export function mapPublishedPattern(
+  source: PublishedPatternSource
+): Either.Either<Pattern, PatternMappingError> {
+  const fail = (message: string) =>
+    Either.left(new PatternMappingError({ path: source.path, message }));
+
+  const decoded = S.decodeUnknownEither(PatternFromFrontmatter)(
+    source.frontmatter
+  );
+  if (Either.isLeft(decoded)) {
+    const issues = ArrayFormatter.formatErrorSync(decoded.left).map(
+      (issue) =>
+        `${issue.path.length > 0 ? issue.path.join('.') : 'frontmatter'}: ${issue.message}`
+    );
+    return fail(`Invalid frontmatter (${issues.join('; ')})`);
+  }
+
+  const examples = extractExamples(source.body);
+  if (examples.length === 0) {
+    return fail('No code blocks in a "## Good Example" section');
+  }
+
+  return Either.right({ ...decoded.right, examples });
+}
+
+/**
+ * Map every published pattern and assemble a validated `PatternsIndex`
+ *
+ * Patterns are sorted by ID and `version` is a hash of their content,
+ * so rebuilding unchanged content yields the same version.
+ */
+export function buildPatternsIndex(
+  sources: readonly PublishedPatternSource[],
+  options: BuildPatternsIndexOptions = {}
+): Either.Either<PatternsIndexBuild, PatternsIndexBuildError> {
+  const failures: PatternMappingError[] = [];
+  const patterns: Pattern[] = [];
+  const paths = new Map<string, string>();
+
+  for (const source of sources) {
+    const mapped = mapPublishedPattern(source);
+    if (Either.isLeft(mapped)) {
+      failures.push(mapped.left);
+      continue;
+    }
+    const previous = paths.get(mapped.right.id);
+    if (previous) {
+      failures.push(
+        new PatternMappingError({
+          path: source.path,
+          message: `Duplicate id "${mapped.right.id}" (also in ${previous})`,
+        })
+      );
+      continue;
+    }
+    paths.set(mapped.right.id, source.path);
+    patterns.push(mapped.right);
+  }
+
+  if (failures.length > 0) {
+    return Either.left(
+      new PatternsIndexBuildError({
+        message: `${failures.length} of ${sources.length} patterns could not be mapped`,
+        failures,
+      })
+    );
+  }
+
+  const warnings: string[] = [];
+  const resolved = patterns
+    .map((pattern) => {
+      if (!pattern.relatedPatterns) {
+        return pattern;
+      }
+      const missing = pattern.relatedPatterns.filter((id) => !paths.has(id));
+      for (const id of missing) {
+        warnings.push(
+          `${pattern.id}: related pattern "${id}" is not published`
+        );
+      }
+      return {
+        ...pattern,
+        relatedPatterns: pattern.relatedPatterns.filter((id) => paths.has(id)),
+      };
+    })
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  const index = S.decodeUnknownEither(PatternsIndex)({
+    schemaVersion: PATTERNS_INDEX_SCHEMA_VERSION,
+    version: createHash('sha256')
+      .update(JSON.stringify(resolved))
+      .digest('hex')
+      .slice(0, 12),
+    lastUpdated: options.lastUpdated ?? new Date().toISOString(),
+    patterns: resolved,
+  });
+  if (Either.isLeft(index)) {
+    return Either.left(
+      new PatternsIndexBuildError({
+        message: `Built index is invalid: ${index.left.message}`,
+        failures: [],
+      })
+    );
+  }
+
+  return Either.right({ index: index.right, warnings });
+}
+
+function toExample(
+  block: { readonly language: string; readonly code: string },
+  description: string | undefined
+): CodeExample {
+  return {
+    language: normalizeLanguage(block.language),
+    code: block.code,
+    ...(description && { description }),
+  };
+}
+
+/**
+ * Split MDX into level-2 headings, fenced code blocks and other lines
+ */
+function tokenizeMdx(body: string): MdxToken[] {
+  const tokens: MdxToken[] = [];
+  let fence: { marker: string; language: string; lines: string[] } | undefined;
+
+  for (const line of body.replace(/\r\n?/g, '\n').split('\n')) {
+    if (fence) {
+      if (isClosingFence(line, fence.marker)) {
+        tokens.push({
+          kind: 'code',
+          language: fence.language,
+          code: fence.lines.join('\n'),
+        });
+        fence = undefined;
+      } else {
+        fence.lines.push(line);
+      }
+      continue;
+    }
+
+    const opening = FENCE.exec(line);
+    if (opening) {
+      fence = {
+        marker: opening[1] ?? '```',
+        language: opening[2] ?? '',
+        lines: [],
+      };
+      continue;
+    }
+
+    const heading = SECTION_HEADING.exec(line);
+    tokens.push(
+      heading
+        ? { kind: 'heading', text: (heading[1] ?? '').trim() }
+        : { kind: 'text', line }
+    );
+  }
+
+  return tokens;
+}
+
+function isClosingFence(line: string, marker: string): boolean {
+  const trimmed = line.trim();
+  return (
+    trimmed.length >= marker.length &&
+    trimmed === (marker[0] ?? '`').repeat(trimmed.length)
+  );
+}
+
+function firstParagraph(lines: readonly string[]): string | undefined {
+  const paragraph: string[] = [];
+  for (const line of lines) {
+    if (line.trim() === '') {
+      if (paragraph.length > 0) {
+        break;
+      }
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  return paragraph.length > 0 ? paragraph.join(' ') : undefined;
+}
+
+function normalizeLanguage(language: string): string {
+  const lower = language.toLowerCase();
+  return lower === 'ts' ? 'typescript' : lower;
+}
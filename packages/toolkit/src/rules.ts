@@ -0,0 +1,202 @@
+/**
+ * Rules Queries
+ *
+ * Filtering, keyset pagination and conditional-request helpers for the
+ * rules served by `/api/v1/rules`. Rules are ordered by ID and a cursor
+ * is the (base64url-encoded) ID of the last rule of the previous page,
+ * so pages stay stable when rules are added or removed between
+ * requests.
+ */
+
+import { createHash } from 'node:crypto';
+import { ArrayFormatter, Schema as S } from '@effect/schema';
+import { Data, Either } from 'effect';
+import { type Rule, RulesQuery } from './schemas/api.js';
+
+const WHITESPACE = /\s+/;
+
+/**
+ * Invalid `/api/v1/rules` query parameters (including an unknown
+ * cursor)
+ */
+export class InvalidRulesQueryError extends Data.TaggedError(
+  'InvalidRulesQueryError'
+)<{
+  readonly message: string;
+}> {}
+
+/**
+ * One page of matching rules
+ */
+export interface RulesPage {
+  readonly rules: readonly Rule[];
+  /** Rules matching the filters, across all pages */
+  readonly total: number;
+  /** Cursor for the next page; undefined on the last page */
+  readonly nextCursor?: string;
+}
+
+/**
+ * Validators sent by the client (`If-None-Match`, `If-Modified-Since`)
+ */
+export interface ConditionalRequest {
+  readonly ifNoneMatch?: string;
+  readonly ifModifiedSince?: string;
+}
+
+/**
+ * Decode query parameters into a `RulesQuery`
+ */
+export function decodeRulesQuery(
+  params: unknown
+): Either.Either<RulesQuery, InvalidRulesQueryError> {
+  return S.decodeUnknownEither(RulesQuery)(params, { errors: 'all' }).pipe(
+    Either.mapLeft(
+      (error) =>
+        new InvalidRulesQueryError({
+          message: ArrayFormatter.formatErrorSync(error)
+            .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+            .join('; '),
+        })
+    )
+  );
+}
+
+/**
+ * Cursor pointing after the rule with this ID
+ */
+export function encodeRulesCursor(id: string): string {
+  return Buffer.from(id, 'utf-8').toString('base64url');
+}
+
+/**
+ * ID of the last rule of the previous page
+ */
+export function decodeRulesCursor(
+  cursor: string
+): Either.Either<string, InvalidRulesQueryError> {
+  const id = Buffer.from(cursor, 'base64url').toString('utf-8');
+  return id.length > 0 && encodeRulesCursor(id) === cursor
+    ? Either.right(id)
+    : Either.left(
+        new InvalidRulesQueryError({
+          message: `cursor: Invalid cursor "${cursor}"`,
+        })
+      );
+}
+
+/**
+ * Rules matching the query's filters (`skillLevel`, `useCase`, `q`),
+ * ordered by ID
+ */
+export function filterRules(
+  rules: readonly Rule[],
+  query: Omit<RulesQuery, 'limit' | 'cursor'>
+): Rule[] {
+  return rules
+    .filter(matchesRulesQuery(query))
+    .sort((a, b) => compareIds(a.id, b.id));
+}
+
+/**
+ * Filter, order and page rules
+ */
+export function queryRules(
+  rules: readonly Rule[],
+  query: RulesQuery
+): Either.Either<RulesPage, InvalidRulesQueryError> {
+  const after =
+    query.cursor === undefined
+      ? Either.right(undefined)
+      : decodeRulesCursor(query.cursor);
+  if (Either.isLeft(after)) {
+    return Either.left(after.left);
+  }
+
+  const matching = filterRules(rules, query);
+  const remaining =
+    after.right === undefined
+      ? matching
+      : matching.filter((rule) => rule.id > (after.right ?? ''));
+  const page =
+    query.limit === undefined ? remaining : remaining.slice(0, query.limit);
+  const last = page[page.length - 1];
+
+  return Either.right({
+    rules: page,
+    total: matching.length,
+    ...(last &&
+      page.length < remaining.length && {
+        nextCursor: encodeRulesCursor(last.id),
+      }),
+  });
+}
+
+/**
+ * Strong entity tag for a response body
+ */
+export function entityTag(body: string): string {
+  return `"${createHash('sha256').update(body).digest('hex').slice(0, 32)}"`;
+}
+
+/**
+ * Whether the client's cached copy is current (respond 304)
+ *
+ * `If-None-Match` takes precedence over `If-Modified-Since`, as in
+ * RFC 9110; entity tags are compared weakly.
+ */
+export function isNotModified(
+  request: ConditionalRequest,
+  current: { readonly etag: string; readonly lastModified: Date }
+): boolean {
+  if (request.ifNoneMatch !== undefined) {
+    const etag = stripWeak(current.etag);
+    return request.ifNoneMatch
+      .split(',')
+      .map((tag) => tag.trim())
+      .some((tag) => tag === '*' || stripWeak(tag) === etag);
+  }
+  if (request.ifModifiedSince !== undefined) {
+    const since = Date.parse(request.ifModifiedSince);
+    // HTTP dates have one-second precision
+    return (
+      !Number.isNaN(since) &&
+      Math.floor(current.lastModified.getTime() / 1000) * 1000 <= since
+    );
+  }
+  return false;
+}
+
+const matchesRulesQuery = (query: Omit<RulesQuery, 'limit' | 'cursor'>) => {
+  const skillLevel = query.skillLevel?.toLowerCase();
+  const useCase = query.useCase?.toLowerCase();
+  const words = (query.q ?? '').toLowerCase().split(WHITESPACE).filter(Boolean);
+
+  return (rule: Rule): boolean => {
+    if (skillLevel && rule.skillLevel?.toLowerCase() !== skillLevel) {
+      return false;
+    }
+    if (
+      useCase &&
+      !rule.useCase?.some((candidate) => candidate.toLowerCase() === useCase)
+    ) {
+      return false;
+    }
+    if (words.length === 0) {
+      return true;
+    }
+    const text =
+      `${rule.id}\n${rule.title}\n${rule.description}\n${rule.content}`.toLowerCase();
+    return words.every((word) => text.includes(word));
+  };
+};
+
+/** Code-unit order, the order cursors compare IDs in */
+const compareIds = (a: string, b: string) => {
+  if (a === b) {
+    return 0;
+  }
+  return a < b ? -1 : 1;
+};
+
+const stripWeak = (tag: string) => (tag.startsWith('W/') ? tag.slice(2) : tag);
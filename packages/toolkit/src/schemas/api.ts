@@ -0,0 +1,230 @@
+/**
+ * HTTP API Schema Definitions
+ *
+ * Response schemas for the pattern API routes not covered by
+ * generate.ts (health, pattern lookup, reload, trace wiring, rules),
+ * and the RFC 7807 problem details every route fails with.
+ */
+
+import { Schema as S } from '@effect/schema';
+import { Struct } from 'effect';
+import { SnippetDiagnostic } from './generate.js';
+import { Pattern } from './pattern.js';
+
+/**
+ * One invalid field of a request
+ */
+export const ValidationIssue = S.Struct({
+  /** JSON Pointer to the field, e.g. "#/patternId" ("#" for the whole input) */
+  pointer: S.String,
+  detail: S.String,
+});
+
+export type ValidationIssue = S.Schema.Type<typeof ValidationIssue>;
+
+/**
+ * RFC 7807 problem details (application/problem+json)
+ *
+ * `errors` is set for invalid requests, `patternId` for unknown
+ * patterns and `diagnostics` for snippets that do not compile.
+ */
+export const ProblemDetails = S.Struct({
+  type: S.String,
+  title: S.String,
+  status: S.Number,
+  detail: S.String,
+  instance: S.optional(S.String),
+  traceId: S.optional(S.String),
+  errors: S.optional(S.Array(ValidationIssue)),
+  patternId: S.optional(S.String),
+  diagnostics: S.optional(S.Array(SnippetDiagnostic)),
+});
+
+export type ProblemDetails = S.Schema.Type<typeof ProblemDetails>;
+
+/**
+ * Loaded patterns snapshot, as reported by health and reload
+ */
+export const PatternsStatus = S.Struct({
+  version: S.String,
+  lastUpdated: S.optional(S.String),
+  loadedAt: S.String,
+  count: S.Number,
+  lastError: S.optional(S.Struct({ message: S.String, at: S.String })),
+});
+
+export type PatternsStatus = S.Schema.Type<typeof PatternsStatus>;
+
+/**
+ * Health check response
+ */
+export const HealthResponse = S.Struct({
+  ok: S.Boolean,
+  version: S.String,
+  service: S.String,
+  timestamp: S.String,
+  patterns: PatternsStatus,
+  traceId: S.optional(S.String),
+});
+
+export type HealthResponse = S.Schema.Type<typeof HealthResponse>;
+
+/**
+ * Get pattern by ID response
+ */
+export const GetPatternResponse = S.Struct({
+  pattern: Pattern,
+  traceId: S.optional(S.String),
+});
+
+export type GetPatternResponse = S.Schema.Type<typeof GetPatternResponse>;
+
+/**
+ * Reload patterns response - `ok` is false (HTTP 422) when the new
+ * file was rejected and the previous snapshot is still served
+ */
+export const ReloadPatternsResponse = S.Struct({
+  ok: S.Boolean,
+  error: S.optional(S.String),
+  patterns: PatternsStatus,
+  traceId: S.optional(S.String),
+});
+
+export type ReloadPatternsResponse = S.Schema.Type<
+  typeof ReloadPatternsResponse
+>;
+
+/**
+ * Trace wiring examples response
+ */
+export const TraceWiringResponse = S.Struct({
+  effectNodeSdk: S.String,
+  effectWithSpan: S.String,
+  langgraphPython: S.String,
+  notes: S.String,
+  traceId: S.optional(S.String),
+});
+
+export type TraceWiringResponse = S.Schema.Type<typeof TraceWiringResponse>;
+
+/**
+ * Rule served by the rules server (`/api/v1/rules`)
+ */
+export const Rule = S.Struct({
+  id: S.String,
+  title: S.String,
+  description: S.String,
+  skillLevel: S.optional(S.String),
+  useCase: S.optional(S.Array(S.String)),
+  content: S.String,
+});
+
+export type Rule = S.Schema.Type<typeof Rule>;
+
+/**
+ * Largest page `GET /api/v1/rules` returns
+ */
+export const MAX_RULES_PAGE_SIZE = 200;
+
+/**
+ * Query parameters of `GET /api/v1/rules`
+ *
+ * Filters match case-insensitively; without `limit` every matching rule
+ * is returned.
+ */
+export const RulesQuery = S.Struct({
+  skillLevel: S.optional(S.String),
+  /** Rules that list this use case */
+  useCase: S.optional(S.String),
+  /** Words that must all appear in the ID, title, description or content */
+  q: S.optional(S.String),
+  limit: S.optional(
+    S.NumberFromString.pipe(S.int(), S.between(1, MAX_RULES_PAGE_SIZE))
+  ),
+  /** `nextCursor` of the previous page */
+  cursor: S.optional(S.String),
+});
+
+export type RulesQuery = S.Schema.Type<typeof RulesQuery>;
+
+/**
+ * Rules server error response
+ */
+export const RulesErrorResponse = S.Struct({
+  /** Error type (`InvalidRulesQuery`, `RuleNotFound`, `RulesUnavailable`) */
+  _tag: S.optional(S.String),
+  error: S.String,
+});
+
+export type RulesErrorResponse = S.Schema.Type<typeof RulesErrorResponse>;
+
+/**
+ * AI tool a rule bundle is rendered for (`/api/v1/bundles/{tool}`)
+ */
+export const RuleTool = S.Literal(
+  'cursor',
+  'cursor-mdc',
+  'agents',
+  'windsurf',
+  'windsurf-mdc',
+  'gemini',
+  'claude',
+  'vscode',
+  'kilo',
+  'kira',
+  'trae',
+  'goose'
+);
+
+export type RuleTool = S.Schema.Type<typeof RuleTool>;
+
+/**
+ * Query parameters of `GET /api/v1/bundles/{tool}` (the `RulesQuery`
+ * filters)
+ */
+export const RuleBundleQuery = S.Struct(
+  Struct.pick(RulesQuery.fields, 'skillLevel', 'useCase')
+);
+
+export type RuleBundleQuery = S.Schema.Type<typeof RuleBundleQuery>;
+
+/**
+ * One file of a rule bundle
+ *
+ * `managed-block` content goes between the EffectPatterns markers of
+ * an existing file (keeping the rest of it); `replace` content is the
+ * whole file.
+ */
+export const RuleBundleFile = S.Struct({
+  /** Path relative to the project root */
+  path: S.String,
+  content: S.String,
+  mode: S.Literal('managed-block', 'replace'),
+});
+
+export type RuleBundleFile = S.Schema.Type<typeof RuleBundleFile>;
+
+/**
+ * A rule in a bundle, identified by the hash of its content
+ */
+export const RuleDigest = S.Struct({
+  id: S.String,
+  hash: S.String,
+});
+
+export type RuleDigest = S.Schema.Type<typeof RuleDigest>;
+
+/**
+ * Rule files rendered for one tool
+ */
+export const RuleBundle = S.Struct({
+  tool: RuleTool,
+  /** Hash of `rules`; changes whenever a rule is added, removed or edited */
+  version: S.String,
+  /** Rules included, after filtering */
+  ruleCount: S.Number,
+  rules: S.Array(RuleDigest),
+  files: S.Array(RuleBundleFile),
+});
+
+export type RuleBundle = S.Schema.Type<typeof RuleBundle>;
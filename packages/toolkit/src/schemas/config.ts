@@ -0,0 +1,55 @@
+/**
+ * Project Configuration Schema Definitions
+ *
+ * `ep.json` configures the `ep` CLI for a project. It is written by
+ * `ep init`, and the JSON Schema emitted from `EpConfig` (`ep.schema.json`)
+ * gives editors completion for it.
+ */
+
+import { Schema as S } from '@effect/schema';
+import { LintRuleSettings } from './lint.js';
+
+/**
+ * Rule severities for the files matching some globs
+ *
+ * A glob matching a directory applies to every file below it.
+ */
+export const LintOverride = S.Struct({
+  files: S.Array(S.String),
+  rules: LintRuleSettings,
+});
+
+export type LintOverride = S.Schema.Type<typeof LintOverride>;
+
+/**
+ * `ep lint` settings
+ *
+ * Globs are relative to the project root.
+ */
+export const LinterConfig = S.Struct({
+  enabled: S.optional(S.Boolean),
+  files: S.optional(
+    S.Struct({
+      /** Files linted when `ep lint` is run without files */
+      include: S.optional(S.Array(S.String)),
+      /** Files never linted, even when passed to `ep lint` */
+      exclude: S.optional(S.Array(S.String)),
+    })
+  ),
+  rules: S.optional(LintRuleSettings),
+  /** Applied in order over `rules`, for the files they match */
+  overrides: S.optional(S.Array(LintOverride)),
+});
+
+export type LinterConfig = S.Schema.Type<typeof LinterConfig>;
+
+/**
+ * `ep.json`
+ */
+export const EpConfig = S.Struct({
+  /** JSON Schema of the file, for editors */
+  $schema: S.optional(S.String),
+  linter: S.optional(LinterConfig),
+});
+
+export type EpConfig = S.Schema.Type<typeof EpConfig>;
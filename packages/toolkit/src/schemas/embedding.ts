@@ -0,0 +1,49 @@
+/**
+ * Embedding Schema Definitions
+ *
+ * Serializable per-pattern embedding vectors, stored alongside a
+ * `PatternsIndex` so vectors can be computed once and reloaded
+ * without calling the embedding model again.
+ */
+
+import { Schema as S } from '@effect/schema';
+
+/**
+ * Search ranking mode
+ *
+ * - `lexical`: BM25 over the search index (default)
+ * - `semantic`: cosine similarity between query and pattern embeddings
+ * - `hybrid`: weighted blend of lexical and semantic scores
+ */
+export const SearchMode = S.Literal('lexical', 'semantic', 'hybrid');
+
+export type SearchMode = S.Schema.Type<typeof SearchMode>;
+
+/**
+ * Embedding vector for a single pattern
+ *
+ * `contentHash` identifies the pattern text the vector was computed
+ * from, so vectors of edited patterns are recomputed instead of reused.
+ */
+export const PatternEmbedding = S.Struct({
+  id: S.String,
+  contentHash: S.String,
+  vector: S.Array(S.Number),
+});
+
+export type PatternEmbedding = S.Schema.Type<typeof PatternEmbedding>;
+
+/**
+ * Embedding vectors for a set of patterns (e.g. embeddings.json)
+ *
+ * `model` and `dimensions` identify the embedder that produced the
+ * vectors; vectors from a different embedder are not comparable.
+ */
+export const PatternEmbeddings = S.Struct({
+  model: S.String,
+  dimensions: S.Number,
+  embeddings: S.Array(PatternEmbedding),
+  createdAt: S.optional(S.String),
+});
+
+export type PatternEmbeddings = S.Schema.Type<typeof PatternEmbeddings>;
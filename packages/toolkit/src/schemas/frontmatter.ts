@@ -0,0 +1,175 @@
+/**
+ * Pattern Frontmatter Codec
+ *
+ * Decodes the frontmatter of a published MDX pattern
+ * (`content/published/*.mdx`) into the metadata fields of `Pattern` and
+ * encodes them back, so tools that rewrite frontmatter round-trip it
+ * without loss. `category` is derived from the first use case and use
+ * case slugs become display labels; both directions go through
+ * `USE_CASE_CATEGORIES`, so only known use cases are accepted.
+ */
+
+import { ParseResult, Schema as S } from '@effect/schema';
+import { Struct } from 'effect';
+import {
+  Pattern,
+  type PatternCategory,
+  PatternRule,
+  SkillLevel,
+} from './pattern.js';
+
+/**
+ * Category for each published `useCase`; the first use case of a
+ * pattern decides its category
+ */
+export const USE_CASE_CATEGORIES: Readonly<Record<string, PatternCategory>> = {
+  'core-concepts': 'core-concepts',
+  'domain-modeling': 'domain-modeling',
+  'modeling-data': 'domain-modeling',
+  'error-management': 'error-handling',
+  concurrency: 'concurrency',
+  'building-data-pipelines': 'streams',
+  observability: 'observability',
+  'resource-management': 'resource-management',
+  testing: 'testing',
+  'building-apis': 'http',
+  'making-http-requests': 'http',
+  'project-setup--execution': 'project-setup',
+  'tooling-and-debugging': 'tooling',
+};
+
+/**
+ * Frontmatter of a published pattern
+ */
+export const PatternFrontmatter = S.Struct({
+  title: S.String.pipe(S.nonEmptyString()),
+  id: S.String.pipe(S.nonEmptyString()),
+  skillLevel: SkillLevel,
+  useCase: S.Union(S.String, S.Array(S.String)),
+  summary: S.String.pipe(S.nonEmptyString()),
+  tags: S.Array(S.String),
+  rule: S.optional(PatternRule),
+  related: S.optional(S.Array(S.String)),
+  author: S.optional(S.String),
+});
+
+export type PatternFrontmatter = S.Schema.Type<typeof PatternFrontmatter>;
+
+/**
+ * The `Pattern` fields backed by frontmatter (everything but the
+ * examples, which come from the MDX body, and build metadata)
+ */
+export const PatternMetadata = S.Struct(
+  Struct.pick(
+    Pattern.fields,
+    'id',
+    'title',
+    'description',
+    'category',
+    'difficulty',
+    'tags',
+    'useCases',
+    'relatedPatterns',
+    'rule',
+    'author'
+  )
+);
+
+export type PatternMetadata = S.Schema.Type<typeof PatternMetadata>;
+
+/**
+ * "project-setup--execution" -> "Project Setup & Execution"
+ */
+export function useCaseLabel(useCase: string): string {
+  return useCase
+    .split('--')
+    .map((part) =>
+      part
+        .split('-')
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' ')
+    )
+    .join(' & ');
+}
+
+const USE_CASE_SLUGS: ReadonlyMap<string, string> = new Map(
+  Object.keys(USE_CASE_CATEGORIES).map((slug) => [useCaseLabel(slug), slug])
+);
+
+/**
+ * `PatternFrontmatter` <-> `PatternMetadata`
+ *
+ * `summary` is `description` and `skillLevel` is `difficulty`. A single
+ * use case is encoded as a string, as the published files write it.
+ */
+export const PatternFromFrontmatter = S.transformOrFail(
+  PatternFrontmatter,
+  PatternMetadata,
+  {
+    strict: true,
+    decode: (frontmatter, _, ast) => {
+      const useCases =
+        typeof frontmatter.useCase === 'string'
+          ? [frontmatter.useCase]
+          : frontmatter.useCase;
+      const unknown = useCases.filter((slug) => !USE_CASE_CATEGORIES[slug]);
+      const category = USE_CASE_CATEGORIES[useCases[0] ?? ''];
+      if (unknown.length > 0 || !category) {
+        return ParseResult.fail(
+          new ParseResult.Pointer(
+            'useCase',
+            frontmatter,
+            new ParseResult.Type(
+              ast,
+              frontmatter.useCase,
+              unknown.length > 0
+                ? `Unknown useCase ${unknown.map((u) => `"${u}"`).join(', ')} (known: ${Object.keys(USE_CASE_CATEGORIES).join(', ')})`
+                : 'No useCase'
+            )
+          )
+        );
+      }
+
+      return ParseResult.succeed({
+        id: frontmatter.id,
+        title: frontmatter.title,
+        description: frontmatter.summary,
+        category,
+        difficulty: frontmatter.skillLevel,
+        tags: frontmatter.tags,
+        useCases: useCases.map(useCaseLabel),
+        ...(frontmatter.related && { relatedPatterns: frontmatter.related }),
+        ...(frontmatter.rule && { rule: frontmatter.rule }),
+        ...(frontmatter.author !== undefined && {
+          author: frontmatter.author,
+        }),
+      });
+    },
+    encode: (metadata, _, ast) => {
+      const slugs = metadata.useCases.map((label) => USE_CASE_SLUGS.get(label));
+      const unknown = metadata.useCases.filter((_label, i) => !slugs[i]);
+      if (unknown.length > 0) {
+        return ParseResult.fail(
+          new ParseResult.Type(
+            ast,
+            metadata,
+            `No useCase for ${unknown.map((u) => `"${u}"`).join(', ')}`
+          )
+        );
+      }
+      const useCase = slugs.filter((slug) => slug !== undefined);
+
+      return ParseResult.succeed({
+        title: metadata.title,
+        id: metadata.id,
+        skillLevel: metadata.difficulty,
+        useCase: useCase.length === 1 ? (useCase[0] ?? '') : useCase,
+        summary: metadata.description,
+        tags: metadata.tags,
+        ...(metadata.rule && { rule: metadata.rule }),
+        ...(metadata.relatedPatterns && { related: metadata.relatedPatterns }),
+        ...(metadata.author !== undefined && { author: metadata.author }),
+      });
+    },
+  }
+);
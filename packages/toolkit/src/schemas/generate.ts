@@ -6,6 +6,8 @@
  */
 
 import { Schema as S } from '@effect/schema';
+import { SearchMode } from './embedding.js';
+import { SearchHighlight } from './search.js';
 
 /**
  * Module type for generated code
@@ -16,6 +18,10 @@ export type ModuleType = S.Schema.Type<typeof ModuleType>;
 
 /**
  * Generate snippet request
+ *
+ * `exampleIndex` selects an example by position and `example` by
+ * (case-insensitive) description text; the first example is used by
+ * default.
  */
 export const GenerateRequest = S.Struct({
   patternId: S.String,
@@ -23,17 +29,66 @@ export const GenerateRequest = S.Struct({
   input: S.optional(S.String),
   moduleType: S.optional(ModuleType),
   effectVersion: S.optional(S.String),
+  exampleIndex: S.optional(S.Number.pipe(S.int(), S.nonNegative())),
+  example: S.optional(S.String),
+  includeTest: S.optional(S.Boolean),
+  /** Fail instead of returning a snippet that does not typecheck */
+  requireCompiles: S.optional(S.Boolean),
 });
 
 export type GenerateRequest = S.Schema.Type<typeof GenerateRequest>;
 
 /**
- * Generate snippet response
+ * One generated file
+ */
+export const SnippetFile = S.Struct({
+  /** Relative path, e.g. "retry-with-backoff.ts" */
+  path: S.String,
+  content: S.String,
+});
+
+export type SnippetFile = S.Schema.Type<typeof SnippetFile>;
+
+/**
+ * TypeScript diagnostic for a generated file
+ */
+export const SnippetDiagnostic = S.Struct({
+  path: S.String,
+  /** 1-based line */
+  line: S.Number,
+  /** 1-based column */
+  column: S.Number,
+  /** TypeScript error code (0 for checker notices) */
+  code: S.Number,
+  category: S.Literal('error', 'warning'),
+  message: S.String,
+});
+
+export type SnippetDiagnostic = S.Schema.Type<typeof SnippetDiagnostic>;
+
+/**
+ * Result of typechecking the generated files
+ */
+export const SnippetTypecheck = S.Struct({
+  /** True if there are no error diagnostics */
+  ok: S.Boolean,
+  /** Version of the effect declarations checked against */
+  effectVersion: S.String,
+  diagnostics: S.Array(SnippetDiagnostic),
+});
+
+export type SnippetTypecheck = S.Schema.Type<typeof SnippetTypecheck>;
+
+/**
+ * Generate snippet response - `snippet` is the content of the first
+ * of `files`, which also holds the companion test when requested
  */
 export const GenerateResponse = S.Struct({
   patternId: S.String,
   title: S.String,
   snippet: S.String,
+  files: S.optional(S.Array(SnippetFile)),
+  typecheck: S.optional(SnippetTypecheck),
   traceId: S.optional(S.String),
   timestamp: S.String,
 });
@@ -48,6 +103,7 @@ export const SearchPatternsRequest = S.Struct({
   category: S.optional(S.String),
   difficulty: S.optional(S.String),
   limit: S.optional(S.NumberFromString),
+  mode: S.optional(SearchMode),
 });
 
 export type SearchPatternsRequest = S.Schema.Type<typeof SearchPatternsRequest>;
@@ -65,6 +121,8 @@ export const SearchPatternsResponse = S.Struct({
       category: S.String,
       difficulty: S.String,
       tags: S.Array(S.String),
+      score: S.optional(S.Number),
+      highlights: S.optional(S.Array(SearchHighlight)),
     })
   ),
   traceId: S.optional(S.String),
@@ -79,6 +137,75 @@ export type SearchPatternsResponse = S.Schema.Type<
  */
 export const ExplainPatternRequest = S.Struct({
   patternId: S.String,
+  context: S.optional(S.String),
 });
 
 export type ExplainPatternRequest = S.Schema.Type<typeof ExplainPatternRequest>;
+
+/**
+ * Summary of a pattern referenced from `relatedPatterns`
+ *
+ * `title` and `description` are absent when the ID does not resolve to
+ * a loaded pattern.
+ */
+export const RelatedPatternSummary = S.Struct({
+  id: S.String,
+  title: S.optional(S.String),
+  description: S.optional(S.String),
+});
+
+export type RelatedPatternSummary = S.Schema.Type<typeof RelatedPatternSummary>;
+
+/**
+ * Example code with explanatory comments inserted
+ */
+export const AnnotatedExample = S.Struct({
+  language: S.String,
+  description: S.optional(S.String),
+  code: S.String,
+});
+
+export type AnnotatedExample = S.Schema.Type<typeof AnnotatedExample>;
+
+/**
+ * How an explanation was tailored to the caller's context
+ */
+export const ExplanationContext = S.Struct({
+  text: S.String,
+  summary: S.String,
+  matchedUseCases: S.Array(S.String),
+  matchedTags: S.Array(S.String),
+});
+
+export type ExplanationContext = S.Schema.Type<typeof ExplanationContext>;
+
+/**
+ * Structured pattern explanation with a Markdown rendering
+ */
+export const PatternExplanation = S.Struct({
+  guideline: S.String,
+  rationale: S.String,
+  useCases: S.Array(S.String),
+  relatedPatterns: S.Array(RelatedPatternSummary),
+  examples: S.Array(AnnotatedExample),
+  context: S.optional(ExplanationContext),
+  markdown: S.String,
+});
+
+export type PatternExplanation = S.Schema.Type<typeof PatternExplanation>;
+
+/**
+ * Explain pattern response
+ */
+export const ExplainPatternResponse = S.Struct({
+  patternId: S.String,
+  title: S.String,
+  explanation: S.String,
+  sections: PatternExplanation,
+  traceId: S.optional(S.String),
+  timestamp: S.String,
+});
+
+export type ExplainPatternResponse = S.Schema.Type<
+  typeof ExplainPatternResponse
+>;
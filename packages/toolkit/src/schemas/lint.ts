@@ -0,0 +1,70 @@
+/**
+ * Lint Schema Definitions
+ *
+ * Rule names and severities as they appear in `ep.json`, and lint
+ * baselines. A baseline lists the issues a project already has, so CI
+ * can suppress them and fail only on new ones. Issues are matched by
+ * file, rule and message rather than position, so editing other lines
+ * of a file does not invalidate the baseline.
+ */
+
+import { Schema as S } from '@effect/schema';
+
+/**
+ * Names of the rules in `LINT_RULES`
+ */
+export const LintRuleName = S.Literal(
+  'effect-use-taperror',
+  'effect-explicit-concurrency',
+  'effect-deprecated-api',
+  'effect-prefer-pipe',
+  'effect-stream-memory',
+  'effect-error-model'
+);
+
+export type LintRuleName = S.Schema.Type<typeof LintRuleName>;
+
+/**
+ * Severity configured for a rule; `off` disables it
+ */
+export const LintRuleSetting = S.Literal('error', 'warning', 'info', 'off');
+
+export type LintRuleSetting = S.Schema.Type<typeof LintRuleSetting>;
+
+/**
+ * Severities by rule name, e.g. `{ "effect-prefer-pipe": "off" }`
+ */
+export const LintRuleSettings = S.partial(
+  S.Record({ key: LintRuleName, value: LintRuleSetting })
+);
+
+export type LintRuleSettings = S.Schema.Type<typeof LintRuleSettings>;
+
+/**
+ * Version of the baseline format
+ */
+export const LINT_BASELINE_VERSION = 1;
+
+/**
+ * Known issues with the same file, rule and message
+ */
+export const LintBaselineEntry = S.Struct({
+  /** Path relative to the project root */
+  file: S.String,
+  rule: S.String,
+  message: S.String,
+  /** How many such issues are suppressed */
+  count: S.Number.pipe(S.int(), S.positive()),
+});
+
+export type LintBaselineEntry = S.Schema.Type<typeof LintBaselineEntry>;
+
+/**
+ * A baseline file, as written by `ep lint --update-baseline`
+ */
+export const LintBaseline = S.Struct({
+  baselineVersion: S.Literal(LINT_BASELINE_VERSION),
+  issues: S.Array(LintBaselineEntry),
+});
+
+export type LintBaseline = S.Schema.Type<typeof LintBaseline>;
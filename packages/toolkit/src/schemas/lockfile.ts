@@ -0,0 +1,65 @@
+/**
+ * Rules Lockfile Schema Definitions
+ *
+ * `ep.lock.json` records what `ep install` wrote for each tool: where
+ * the rules came from, which rules at which content hash, and a hash
+ * of every file or managed block so local edits can be detected before
+ * they are overwritten.
+ */
+
+import { Schema as S } from '@effect/schema';
+import { RuleBundleFile, RuleDigest } from './api.js';
+
+/**
+ * Version of the lockfile format
+ */
+export const RULES_LOCKFILE_VERSION = 1;
+
+/**
+ * A file written for a tool
+ *
+ * For `managed-block` files `hash` covers the block only, so edits
+ * outside the markers are not reported.
+ */
+export const LockedFile = S.Struct({
+  path: RuleBundleFile.fields.path,
+  mode: RuleBundleFile.fields.mode,
+  hash: S.String,
+});
+
+export type LockedFile = S.Schema.Type<typeof LockedFile>;
+
+/**
+ * What was installed for one tool
+ */
+export const ToolLock = S.Struct({
+  /**
+   * Where the bundle came from: a Pattern Server URL, `local:<path>`
+   * for a rules directory, or `bundled` for the rules shipped with the
+   * CLI
+   */
+  source: S.String,
+  /** `RuleBundle.version` of the installed bundle */
+  version: S.String,
+  /** ISO timestamp of the install */
+  installedAt: S.String,
+  /** Filters the bundle was fetched with */
+  filters: S.Struct({
+    skillLevel: S.optional(S.String),
+    useCase: S.optional(S.String),
+  }),
+  rules: S.Array(RuleDigest),
+  files: S.Array(LockedFile),
+});
+
+export type ToolLock = S.Schema.Type<typeof ToolLock>;
+
+/**
+ * `ep.lock.json`, keyed by tool name
+ */
+export const RulesLockfile = S.Struct({
+  lockfileVersion: S.Literal(RULES_LOCKFILE_VERSION),
+  tools: S.Record({ key: S.String, value: ToolLock }),
+});
+
+export type RulesLockfile = S.Schema.Type<typeof RulesLockfile>;
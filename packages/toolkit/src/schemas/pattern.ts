@@ -2,10 +2,12 @@
  * Pattern Schema Definitions using @effect/schema
  *
  * Canonical domain types for Effect patterns, including full Pattern
- * representation and PatternSummary for list views.
+ * representation and PatternSummary for list views. The MDX frontmatter
+ * codec lives in `frontmatter.ts`; `PatternsIndex` is versioned and
+ * older indexes are migrated by `PatternsIndexFromJson`.
  */
 
-import { Schema as S } from '@effect/schema';
+import { ParseResult, Schema as S } from '@effect/schema';
 
 /**
  * Pattern category enumeration
@@ -20,7 +22,12 @@ export const PatternCategory = S.Literal(
   'caching',
   'observability',
   'scheduling',
-  'resource-management'
+  'resource-management',
+  'core-concepts',
+  'domain-modeling',
+  'http',
+  'project-setup',
+  'tooling'
 );
 
 export type PatternCategory = S.Schema.Type<typeof PatternCategory>;
@@ -36,6 +43,13 @@ export const DifficultyLevel = S.Literal(
 
 export type DifficultyLevel = S.Schema.Type<typeof DifficultyLevel>;
 
+/**
+ * Skill level, as the MDX frontmatter and the web app call it
+ */
+export const SkillLevel = DifficultyLevel;
+
+export type SkillLevel = DifficultyLevel;
+
 /**
  * Code example schema
  */
@@ -47,6 +61,15 @@ export const CodeExample = S.Struct({
 
 export type CodeExample = S.Schema.Type<typeof CodeExample>;
 
+/**
+ * The pattern's rule (frontmatter `rule`), used to generate AI rules
+ */
+export const PatternRule = S.Struct({
+  description: S.String,
+});
+
+export type PatternRule = S.Schema.Type<typeof PatternRule>;
+
 /**
  * Full Pattern schema with all metadata and content
  */
@@ -60,6 +83,8 @@ export const Pattern = S.Struct({
   examples: S.Array(CodeExample),
   useCases: S.Array(S.String),
   relatedPatterns: S.optional(S.Array(S.String)),
+  rule: S.optional(PatternRule),
+  author: S.optional(S.String),
   effectVersion: S.optional(S.String),
   createdAt: S.optional(S.String),
   updatedAt: S.optional(S.String),
@@ -81,13 +106,72 @@ export const PatternSummary = S.Struct({
 
 export type PatternSummary = S.Schema.Type<typeof PatternSummary>;
 
+/**
+ * Current `PatternsIndex` schema version
+ *
+ * Version 1 indexes have no `schemaVersion`; version 2 added it along
+ * with `rule` and `author` on patterns.
+ */
+export const PATTERNS_INDEX_SCHEMA_VERSION = 2;
+
 /**
  * Patterns index (loaded from patterns.json)
  */
 export const PatternsIndex = S.Struct({
+  schemaVersion: S.Literal(PATTERNS_INDEX_SCHEMA_VERSION),
   version: S.optional(S.String),
   patterns: S.Array(Pattern),
   lastUpdated: S.optional(S.String),
 });
 
 export type PatternsIndex = S.Schema.Type<typeof PatternsIndex>;
+
+type JsonRecord = { readonly [key: string]: unknown };
+
+/**
+ * Upgrade from each older schema version to the next one
+ */
+const PATTERNS_INDEX_MIGRATIONS: Readonly<
+  Record<number, (index: JsonRecord) => JsonRecord>
+> = {
+  // Only optional fields were added, so stamping the version is enough
+  1: (index) => ({ ...index, schemaVersion: 2 }),
+};
+
+/**
+ * A `PatternsIndex` of any supported schema version, migrated to the
+ * current one
+ *
+ * Indexes newer than `PATTERNS_INDEX_SCHEMA_VERSION` are rejected
+ * rather than decoded with fields silently dropped.
+ */
+export const PatternsIndexFromJson = S.transformOrFail(
+  S.Record({ key: S.String, value: S.Unknown }),
+  PatternsIndex,
+  {
+    strict: false,
+    decode: (input, _, ast) => {
+      let index: JsonRecord = input;
+      let schemaVersion: unknown = index.schemaVersion ?? 1;
+      while (schemaVersion !== PATTERNS_INDEX_SCHEMA_VERSION) {
+        const migrate =
+          typeof schemaVersion === 'number'
+            ? PATTERNS_INDEX_MIGRATIONS[schemaVersion]
+            : undefined;
+        if (!migrate) {
+          return ParseResult.fail(
+            new ParseResult.Type(
+              ast,
+              input,
+              `Unsupported patterns index schemaVersion ${JSON.stringify(schemaVersion)} (supported: 1-${PATTERNS_INDEX_SCHEMA_VERSION})`
+            )
+          );
+        }
+        index = migrate(index);
+        schemaVersion = index.schemaVersion;
+      }
+      return ParseResult.succeed(index);
+    },
+    encode: ParseResult.succeed,
+  }
+);
@@ -0,0 +1,75 @@
+/**
+ * Search Index Schema Definitions
+ *
+ * Serializable representation of the prebuilt pattern search index,
+ * so an index can be built once (at load or build time), written to
+ * disk as JSON and validated when it is read back.
+ */
+
+import { Schema as S } from '@effect/schema';
+
+/**
+ * Pattern fields covered by the search index
+ */
+export const SearchField = S.Literal(
+  'title',
+  'description',
+  'tags',
+  'useCases',
+  'category',
+  'code'
+);
+
+export type SearchField = S.Schema.Type<typeof SearchField>;
+
+/**
+ * Per-document metadata stored in the index
+ *
+ * `fieldLengths` holds the token count of each field, in the order of
+ * `SearchIndex.fields`.
+ */
+export const SearchIndexDocument = S.Struct({
+  id: S.String,
+  category: S.String,
+  difficulty: S.String,
+  fieldLengths: S.Array(S.Number),
+});
+
+export type SearchIndexDocument = S.Schema.Type<typeof SearchIndexDocument>;
+
+/**
+ * Posting list for a single term
+ *
+ * `postings` is a flat array of `[documentIndex, fieldIndex, termFrequency]`
+ * triples, kept flat to make the serialized index compact.
+ */
+export const SearchIndexTerm = S.Struct({
+  surface: S.String,
+  postings: S.Array(S.Number),
+});
+
+export type SearchIndexTerm = S.Schema.Type<typeof SearchIndexTerm>;
+
+/**
+ * Prebuilt, serializable BM25 search index
+ */
+export const SearchIndex = S.Struct({
+  version: S.Number,
+  fields: S.Array(SearchField),
+  fieldWeights: S.Array(S.Number),
+  averageFieldLengths: S.Array(S.Number),
+  documents: S.Array(SearchIndexDocument),
+  terms: S.Record({ key: S.String, value: SearchIndexTerm }),
+});
+
+export type SearchIndex = S.Schema.Type<typeof SearchIndex>;
+
+/**
+ * Matched terms within a single field of a search hit
+ */
+export const SearchHighlight = S.Struct({
+  field: SearchField,
+  terms: S.Array(S.String),
+});
+
+export type SearchHighlight = S.Schema.Type<typeof SearchHighlight>;
@@ -0,0 +1,391 @@
+/**
+ * Pattern Search Index
+ *
+ * Pure functions for building and querying a prebuilt, serializable
+ * inverted index over patterns. Ranking uses field-weighted BM25
+ * (BM25F) over title, description, tags, use cases, category and
+ * example code, with typo-tolerant matching for query terms that are
+ * not in the index vocabulary.
+ */
+
+import type { Pattern } from './schemas/pattern.js';
+import type {
+  SearchField,
+  SearchHighlight,
+  SearchIndex,
+  SearchIndexTerm,
+} from './schemas/search.js';
+import { tokenize } from './tokenize.js';
+
+/**
+ * Current serialized index format version
+ */
+export const SEARCH_INDEX_VERSION = 1;
+
+/**
+ * Indexed fields, in the order used by field indices in postings
+ */
+export const SEARCH_FIELDS: readonly SearchField[] = [
+  'title',
+  'description',
+  'tags',
+  'useCases',
+  'category',
+  'code',
+];
+
+/**
+ * Default BM25F field weights (higher = more important)
+ */
+export const DEFAULT_FIELD_WEIGHTS: Readonly<Record<SearchField, number>> = {
+  title: 3,
+  tags: 2,
+  description: 1.5,
+  useCases: 1,
+  category: 1,
+  code: 0.5,
+};
+
+/** BM25 term-frequency saturation */
+const BM25_K1 = 1.2;
+/** BM25 length normalization */
+const BM25_B = 0.75;
+/** Score multiplier applied per edit of a typo-corrected term */
+const FUZZY_PENALTY = 0.35;
+
+/**
+ * Options for building a search index
+ */
+export interface BuildSearchIndexOptions {
+  /** Override default field weights */
+  fieldWeights?: Partial<Record<SearchField, number>>;
+}
+
+/**
+ * Parameters for querying a search index
+ */
+export interface QuerySearchIndexParams {
+  /** Free-text query (optional; empty returns all filtered documents) */
+  query?: string;
+  /** Filter by category (optional, case-insensitive) */
+  category?: string;
+  /** Filter by difficulty level (optional, case-insensitive) */
+  difficulty?: string;
+  /** Maximum number of results (default: no limit) */
+  limit?: number;
+  /** Match misspelled query terms against the vocabulary (default: true) */
+  fuzzy?: boolean;
+}
+
+/**
+ * A single ranked search result
+ */
+export interface SearchHit {
+  /** Pattern ID */
+  readonly id: string;
+  /** BM25F relevance score (0 when no query was given) */
+  readonly score: number;
+  /** Matched words per field, in `SEARCH_FIELDS` order */
+  readonly highlights: readonly SearchHighlight[];
+}
+
+/**
+ * Extract the raw text of a pattern field
+ */
+function fieldText(pattern: Pattern, field: SearchField): string {
+  switch (field) {
+    case 'title':
+      return pattern.title;
+    case 'description':
+      return pattern.description;
+    case 'tags':
+      return pattern.tags.join(' ');
+    case 'useCases':
+      return pattern.useCases.join(' ');
+    case 'category':
+      return pattern.category;
+    case 'code':
+      return pattern.examples.map((example) => example.code).join('\n');
+  }
+}
+
+/**
+ * Look up a term without tripping over Object.prototype keys
+ */
+function lookupTerm(
+  index: SearchIndex,
+  term: string
+): SearchIndexTerm | undefined {
+  return Object.prototype.hasOwnProperty.call(index.terms, term)
+    ? index.terms[term]
+    : undefined;
+}
+
+/**
+ * Build a search index from patterns
+ *
+ * The returned index is plain JSON data: it can be written with
+ * `JSON.stringify` and read back with the `SearchIndex` schema.
+ *
+ * @param patterns - Patterns to index
+ * @param options - Index build options
+ * @returns Serializable search index
+ * @example
+ * ```typescript
+ * const index = buildSearchIndex(patternsIndex.patterns)
+ * const hits = querySearchIndex(index, { query: "retry with backoff" })
+ * ```
+ */
+export function buildSearchIndex(
+  patterns: readonly Pattern[],
+  options: BuildSearchIndexOptions = {}
+): SearchIndex {
+  const weights = { ...DEFAULT_FIELD_WEIGHTS, ...options.fieldWeights };
+  const terms: Record<string, { surface: string; postings: number[] }> = {};
+  const totalFieldLengths = SEARCH_FIELDS.map(() => 0);
+
+  const documents = patterns.map((pattern, docIndex) => {
+    const fieldLengths = SEARCH_FIELDS.map((field, fieldIndex) => {
+      const tokens = tokenize(fieldText(pattern, field));
+      const frequencies = new Map<string, number>();
+
+      for (const token of tokens) {
+        frequencies.set(token.term, (frequencies.get(token.term) ?? 0) + 1);
+        if (!Object.prototype.hasOwnProperty.call(terms, token.term)) {
+          terms[token.term] = { surface: token.surface, postings: [] };
+        }
+      }
+
+      for (const [term, frequency] of frequencies) {
+        terms[term]?.postings.push(docIndex, fieldIndex, frequency);
+      }
+
+      totalFieldLengths[fieldIndex] =
+        (totalFieldLengths[fieldIndex] ?? 0) + tokens.length;
+      return tokens.length;
+    });
+
+    return {
+      id: pattern.id,
+      category: pattern.category,
+      difficulty: pattern.difficulty,
+      fieldLengths,
+    };
+  });
+
+  return {
+    version: SEARCH_INDEX_VERSION,
+    fields: [...SEARCH_FIELDS],
+    fieldWeights: SEARCH_FIELDS.map((field) => weights[field]),
+    averageFieldLengths: totalFieldLengths.map((total) =>
+      documents.length > 0 ? total / documents.length : 0
+    ),
+    documents,
+    terms,
+  };
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus transpositions),
+ * abandoning early once `max` is exceeded
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, (previousPrevious[j - 2] ?? 0) + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length] ?? max + 1;
+}
+
+/**
+ * Maximum edit distance tolerated for a query term of a given length
+ */
+function maxTypos(term: string): number {
+  if (term.length < 4) return 0;
+  if (term.length < 8) return 1;
+  return 2;
+}
+
+/**
+ * Resolve a query term to indexed terms with a match weight
+ *
+ * Exact vocabulary hits win outright; otherwise, when fuzzy matching
+ * is enabled, every vocabulary term within the typo budget is used
+ * with a penalty proportional to its edit distance.
+ */
+function expandTerm(
+  index: SearchIndex,
+  term: string,
+  fuzzy: boolean
+): Array<readonly [string, number]> {
+  if (lookupTerm(index, term)) return [[term, 1]];
+
+  const budget = fuzzy ? maxTypos(term) : 0;
+  if (budget === 0) return [];
+
+  const expansions: Array<readonly [string, number]> = [];
+  for (const candidate of Object.keys(index.terms)) {
+    const distance = editDistance(term, candidate, budget);
+    if (distance <= budget) {
+      expansions.push([candidate, 1 - FUZZY_PENALTY * distance]);
+    }
+  }
+  return expansions;
+}
+
+/**
+ * Query a search index
+ *
+ * Applies category/difficulty filters, then ranks the remaining
+ * documents with BM25F. Without a query, filtered documents are
+ * returned in index order with a score of 0; a query made up only of
+ * stop words matches nothing.
+ *
+ * @param index - Index built by `buildSearchIndex`
+ * @param params - Query parameters
+ * @returns Hits sorted by descending score
+ */
+export function querySearchIndex(
+  index: SearchIndex,
+  params: QuerySearchIndexParams
+): SearchHit[] {
+  const { query, category, difficulty, limit, fuzzy = true } = params;
+
+  const candidates = new Set<number>();
+  index.documents.forEach((doc, docIndex) => {
+    if (category && doc.category.toLowerCase() !== category.toLowerCase()) {
+      return;
+    }
+    if (
+      difficulty &&
+      doc.difficulty.toLowerCase() !== difficulty.toLowerCase()
+    ) {
+      return;
+    }
+    candidates.add(docIndex);
+  });
+
+  const hasQuery = Boolean(query?.trim());
+  const terms = hasQuery
+    ? [...new Set(tokenize(query ?? '').map((token) => token.term))]
+    : [];
+  let hits: SearchHit[];
+
+  if (!hasQuery) {
+    hits = [...candidates].map((docIndex) => ({
+      id: index.documents[docIndex]?.id ?? '',
+      score: 0,
+      highlights: [],
+    }));
+  } else {
+    const scores = new Map<number, number>();
+    const matches = new Map<number, Map<number, Set<string>>>();
+    const totalDocuments = index.documents.length;
+
+    for (const term of terms) {
+      for (const [indexedTerm, weight] of expandTerm(index, term, fuzzy)) {
+        const entry = lookupTerm(index, indexedTerm);
+        if (!entry) continue;
+
+        // Pseudo term frequency per document, summed across fields
+        const pseudoFrequencies = new Map<number, number>();
+        const matchedFields = new Map<number, number[]>();
+
+        for (let i = 0; i + 2 < entry.postings.length; i += 3) {
+          const docIndex = entry.postings[i] ?? 0;
+          const fieldIndex = entry.postings[i + 1] ?? 0;
+          const frequency = entry.postings[i + 2] ?? 0;
+          if (!candidates.has(docIndex)) continue;
+
+          const length =
+            index.documents[docIndex]?.fieldLengths[fieldIndex] ?? 0;
+          const average = index.averageFieldLengths[fieldIndex] || 1;
+          const normalization = 1 - BM25_B + BM25_B * (length / average);
+          const fieldWeight = index.fieldWeights[fieldIndex] ?? 1;
+
+          pseudoFrequencies.set(
+            docIndex,
+            (pseudoFrequencies.get(docIndex) ?? 0) +
+              (fieldWeight * frequency) / normalization
+          );
+          matchedFields.set(docIndex, [
+            ...(matchedFields.get(docIndex) ?? []),
+            fieldIndex,
+          ]);
+        }
+
+        const documentFrequency = new Set(
+          entry.postings.filter((_, i) => i % 3 === 0)
+        ).size;
+        const idf = Math.log(
+          1 +
+            (totalDocuments - documentFrequency + 0.5) /
+              (documentFrequency + 0.5)
+        );
+
+        for (const [docIndex, pseudoFrequency] of pseudoFrequencies) {
+          const termScore =
+            (idf * pseudoFrequency * (BM25_K1 + 1)) /
+            (pseudoFrequency + BM25_K1);
+          scores.set(
+            docIndex,
+            (scores.get(docIndex) ?? 0) + weight * termScore
+          );
+
+          const docMatches = matches.get(docIndex) ?? new Map();
+          for (const fieldIndex of matchedFields.get(docIndex) ?? []) {
+            const surfaces = docMatches.get(fieldIndex) ?? new Set<string>();
+            surfaces.add(entry.surface);
+            docMatches.set(fieldIndex, surfaces);
+          }
+          matches.set(docIndex, docMatches);
+        }
+      }
+    }
+
+    hits = [...scores]
+      .sort(([aIndex, a], [bIndex, b]) => b - a || aIndex - bIndex)
+      .map(([docIndex, score]) => {
+        const docMatches = matches.get(docIndex) ?? new Map();
+        const highlights = index.fields.flatMap((field, fieldIndex) => {
+          const surfaces = docMatches.get(fieldIndex);
+          return surfaces ? [{ field, terms: [...surfaces] }] : [];
+        });
+        return {
+          id: index.documents[docIndex]?.id ?? '',
+          score,
+          highlights,
+        };
+      });
+  }
+
+  if (limit && limit > 0) {
+    hits = hits.slice(0, limit);
+  }
+
+  return hits;
+}
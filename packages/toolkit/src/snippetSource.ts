@@ -0,0 +1,629 @@
+/**
+ * Snippet Source Transforms
+ *
+ * TypeScript AST transforms applied to pattern example code when
+ * building snippets: scope-aware renaming of the example's main
+ * binding, substitution of "input" string literals, and recomputing
+ * the imports the code actually uses. Example code is parsed, never
+ * evaluated.
+ */
+
+import * as EffectExports from 'effect';
+import ts from 'typescript';
+import type { ModuleType } from './schemas/generate.js';
+
+const FILE_NAME = 'snippet.ts';
+
+/**
+ * `Effect.*` members whose result is not an Effect: runners
+ * (`Effect.runSync(...)` yields the Effect's value, e.g. a Runtime),
+ * guards and class factories. `Effect.fn` builds a function.
+ */
+const NON_EFFECT_MEMBER = /^(run|is)[A-Z]|^(Service|Tag)$/;
+const FUNCTION_MEMBER = /^fn(Untraced)?$/;
+
+/**
+ * Names exported by "effect" that example code may use without
+ * importing them. JavaScript globals (Array, String, ...) and TS lib
+ * types (Record, Iterable) are excluded so they are never shadowed.
+ */
+const EFFECT_EXPORTS: ReadonlySet<string> = new Set(
+  Object.keys(EffectExports).filter(
+    (name) => !(name in globalThis || name === 'Record' || name === 'Iterable')
+  )
+);
+
+/**
+ * The declaration a snippet is built around
+ */
+export interface MainBinding {
+  readonly name: string;
+  /**
+   * `effect` if the value is built from an `Effect.*` call that returns
+   * an Effect (so it can be run with `yield*`), `function` for
+   * functions, `value` otherwise
+   */
+  readonly kind: 'effect' | 'function' | 'value';
+}
+
+/**
+ * Parameters for transforming example code
+ */
+export interface TransformSourceParams {
+  readonly code: string;
+  /** New name for the main binding (must be a valid identifier) */
+  readonly name?: string;
+  /** Replacement for "input" string literals */
+  readonly input?: string;
+  /** Module type (default: 'esm') */
+  readonly moduleType?: ModuleType;
+}
+
+/**
+ * Transformed example code
+ */
+export interface TransformedSource {
+  /** Import (or require) statements the code needs */
+  readonly imports: readonly string[];
+  /** The code without its imports, exporting the main binding */
+  readonly body: string;
+  /** Main binding after renaming; undefined if the code declares none */
+  readonly mainBinding?: MainBinding;
+}
+
+interface Edit {
+  readonly start: number;
+  readonly end: number;
+  readonly text: string;
+}
+
+interface ImportEntry {
+  readonly module: string;
+  /** Named specifiers, rendered (e.g. "Effect", "type Layer", "a as b") */
+  readonly named: string[];
+  readonly defaultName?: string;
+  readonly namespaceName?: string;
+  readonly sideEffect: boolean;
+}
+
+/**
+ * Convert user input to a valid identifier
+ *
+ * @returns The identifier, or undefined if nothing usable remains
+ */
+export function toIdentifier(name: string): string | undefined {
+  const identifier = name.replace(/[^A-Za-z0-9_]/g, '');
+  if (identifier.length === 0) {
+    return undefined;
+  }
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+/**
+ * Transform example code for a snippet
+ *
+ * The main binding is the top-level declaration named `example` if
+ * there is one, otherwise the last exported top-level declaration,
+ * otherwise the last top-level declaration. Renaming resolves symbols,
+ * so shadowing locals, property names and strings are left alone; if
+ * the new name is already used in the code, a numeric suffix is added.
+ *
+ * @param params - Code and transform options
+ * @returns Imports, body and main binding
+ */
+export function transformSource(
+  params: TransformSourceParams
+): TransformedSource {
+  const { code, name, input, moduleType = 'esm' } = params;
+  const sourceFile = ts.createSourceFile(
+    FILE_NAME,
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TS
+  );
+  const checker = createChecker(sourceFile);
+
+  const edits: Edit[] = [];
+  const removed: Array<readonly [number, number]> = [];
+  const isRemoved = (node: ts.Node) =>
+    removed.some(([start, end]) => node.getStart() >= start && node.end <= end);
+
+  const remove = (statement: ts.Statement) => {
+    const end =
+      code[statement.end] === '\n' ? statement.end + 1 : statement.end;
+    removed.push([statement.getStart(), end]);
+    edits.push({ start: statement.getStart(), end, text: '' });
+  };
+
+  const main = findMainBinding(sourceFile);
+  const mainSymbol = main && checker.getSymbolAtLocation(main.nameNode);
+  const identifiers = collectIdentifiers(sourceFile);
+
+  const usedNames = new Set(identifiers.map((identifier) => identifier.text));
+  const newName =
+    main && name && name !== main.nameNode.text
+      ? uniqueName(name, usedNames)
+      : undefined;
+  const mainName = newName ?? main?.nameNode.text;
+
+  // Imports are removed from the body and regenerated below
+  const imports: ImportEntry[] = [];
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement)) {
+      imports.push(toImportEntry(statement));
+      remove(statement);
+    }
+  }
+
+  // CJS: strip `export`, collecting the names for module.exports
+  const exportedNames: string[] = [];
+  if (moduleType === 'cjs') {
+    for (const statement of sourceFile.statements) {
+      if (
+        ts.isExportDeclaration(statement) &&
+        !statement.moduleSpecifier &&
+        statement.exportClause &&
+        ts.isNamedExports(statement.exportClause)
+      ) {
+        for (const specifier of statement.exportClause.elements) {
+          const local = (specifier.propertyName ?? specifier.name).getText();
+          exportedNames.push(
+            local === main?.nameNode.text && mainName ? mainName : local
+          );
+        }
+        remove(statement);
+        continue;
+      }
+      const exportKeyword = ts.canHaveModifiers(statement)
+        ? ts
+            .getModifiers(statement)
+            ?.find((m) => m.kind === ts.SyntaxKind.ExportKeyword)
+        : undefined;
+      if (exportKeyword) {
+        edits.push({
+          start: exportKeyword.getStart(),
+          end: exportKeyword.end + 1,
+          text: '',
+        });
+        for (const declared of declaredNames(statement)) {
+          exportedNames.push(
+            declared === main?.nameNode.text && mainName ? mainName : declared
+          );
+        }
+      }
+    }
+  }
+
+  // Rename the main binding wherever it resolves to the same symbol
+  if (mainSymbol && newName) {
+    const oldName = mainSymbol.getName();
+    for (const identifier of identifiers) {
+      if (identifier.text !== oldName || isRemoved(identifier)) {
+        continue;
+      }
+      const parent = identifier.parent;
+      if (ts.isShorthandPropertyAssignment(parent)) {
+        if (checker.getShorthandAssignmentValueSymbol(parent) === mainSymbol) {
+          edits.push(replace(identifier, `${oldName}: ${newName}`));
+        }
+      } else if (ts.isExportSpecifier(parent) && !parent.propertyName) {
+        if (
+          checker.getExportSpecifierLocalTargetSymbol(parent) === mainSymbol
+        ) {
+          edits.push(replace(identifier, newName));
+        }
+      } else if (checker.getSymbolAtLocation(identifier) === mainSymbol) {
+        edits.push(replace(identifier, newName));
+      }
+    }
+  }
+
+  // Substitute "input" string literals
+  if (input !== undefined) {
+    const visit = (node: ts.Node): void => {
+      if (
+        (ts.isStringLiteral(node) ||
+          ts.isNoSubstitutionTemplateLiteral(node)) &&
+        node.text === 'input' &&
+        !isRemoved(node)
+      ) {
+        edits.push(replace(node, JSON.stringify(input)));
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+  }
+
+  let body = applyEdits(code, edits)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  // Export the main binding so it can be imported (e.g. by a test)
+  if (main && mainName) {
+    if (moduleType === 'cjs') {
+      if (!exportedNames.includes(mainName)) {
+        exportedNames.push(mainName);
+      }
+    } else if (!main.exported) {
+      body = `${body}\n\nexport { ${mainName} };`;
+    }
+  }
+  if (moduleType === 'cjs' && exportedNames.length > 0) {
+    body = `${body}\n\nmodule.exports = { ${exportedNames.join(', ')} };`;
+  }
+
+  // Names referenced but declared nowhere in the code
+  const freeNames = new Set(
+    identifiers
+      .filter(
+        (identifier) =>
+          isReference(identifier) &&
+          !isRemoved(identifier) &&
+          !checker.getSymbolAtLocation(identifier)
+      )
+      .map((identifier) => identifier.text)
+  );
+  const referenced = new Set(
+    identifiers
+      .filter((identifier) => isReference(identifier) && !isRemoved(identifier))
+      .map((identifier) => identifier.text)
+  );
+
+  return {
+    imports: renderImports(imports, referenced, freeNames, moduleType),
+    body,
+    ...(main &&
+      mainName && { mainBinding: { name: mainName, kind: main.kind } }),
+  };
+}
+
+/**
+ * Type checker over the single in-memory file, used only to resolve
+ * which declaration an identifier refers to
+ */
+function createChecker(sourceFile: ts.SourceFile): ts.TypeChecker {
+  const host: ts.CompilerHost = {
+    getSourceFile: (fileName) =>
+      fileName === FILE_NAME ? sourceFile : undefined,
+    getDefaultLibFileName: () => 'lib.d.ts',
+    writeFile: () => undefined,
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: (fileName) => fileName === FILE_NAME,
+    readFile: () => undefined,
+  };
+  return ts
+    .createProgram(
+      [FILE_NAME],
+      { noLib: true, noResolve: true, target: ts.ScriptTarget.Latest },
+      host
+    )
+    .getTypeChecker();
+}
+
+function findMainBinding(sourceFile: ts.SourceFile):
+  | {
+      readonly nameNode: ts.Identifier;
+      readonly kind: MainBinding['kind'];
+      readonly exported: boolean;
+    }
+  | undefined {
+  const exportedLocals = new Set<string>();
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isExportDeclaration(statement) &&
+      !statement.moduleSpecifier &&
+      statement.exportClause &&
+      ts.isNamedExports(statement.exportClause)
+    ) {
+      for (const specifier of statement.exportClause.elements) {
+        exportedLocals.add(
+          (specifier.propertyName ?? specifier.name).getText()
+        );
+      }
+    }
+  }
+
+  const candidates: Array<{
+    nameNode: ts.Identifier;
+    kind: MainBinding['kind'];
+    exported: boolean;
+  }> = [];
+  for (const statement of sourceFile.statements) {
+    const hasExport =
+      ts.canHaveModifiers(statement) &&
+      (ts.getModifiers(statement) ?? []).some(
+        (m) => m.kind === ts.SyntaxKind.ExportKeyword
+      );
+    const add = (nameNode: ts.Identifier, kind: MainBinding['kind']) =>
+      candidates.push({
+        nameNode,
+        kind,
+        exported: hasExport || exportedLocals.has(nameNode.text),
+      });
+
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          add(declaration.name, initializerKind(declaration.initializer));
+        }
+      }
+    } else if (ts.isFunctionDeclaration(statement) && statement.name) {
+      add(statement.name, 'function');
+    } else if (ts.isClassDeclaration(statement) && statement.name) {
+      add(statement.name, 'value');
+    }
+  }
+
+  const exported = candidates.filter((candidate) => candidate.exported);
+  return (
+    candidates.find((candidate) => candidate.nameNode.text === 'example') ??
+    exported[exported.length - 1] ??
+    candidates[candidates.length - 1]
+  );
+}
+
+function initializerKind(
+  initializer: ts.Expression | undefined
+): MainBinding['kind'] {
+  if (!initializer) {
+    return 'value';
+  }
+  if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+    return 'function';
+  }
+
+  // Walk to the leftmost identifier: Effect.gen(...).pipe(...) -> Effect,
+  // remembering the member it is accessed with (gen)
+  let expression: ts.Expression = initializer;
+  let member: string | undefined;
+  for (;;) {
+    if (ts.isPropertyAccessExpression(expression)) {
+      member = expression.name.text;
+    }
+    if (ts.isCallExpression(expression)) {
+      if (
+        ts.isIdentifier(expression.expression) &&
+        expression.expression.text === 'pipe' &&
+        expression.arguments[0]
+      ) {
+        expression = expression.arguments[0];
+      } else {
+        expression = expression.expression;
+      }
+    } else if (
+      ts.isPropertyAccessExpression(expression) ||
+      ts.isParenthesizedExpression(expression) ||
+      ts.isAsExpression(expression)
+    ) {
+      expression = expression.expression;
+    } else {
+      break;
+    }
+  }
+  if (!(ts.isIdentifier(expression) && expression.text === 'Effect')) {
+    return 'value';
+  }
+  if (member && FUNCTION_MEMBER.test(member)) {
+    return 'function';
+  }
+  return member && NON_EFFECT_MEMBER.test(member) ? 'value' : 'effect';
+}
+
+function collectIdentifiers(sourceFile: ts.SourceFile): ts.Identifier[] {
+  const identifiers: ts.Identifier[] = [];
+  const visit = (node: ts.Node): void => {
+    if (ts.isIdentifier(node)) {
+      identifiers.push(node);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return identifiers;
+}
+
+/**
+ * Whether an identifier refers to a binding (as opposed to naming a
+ * property, member or import)
+ */
+function isReference(identifier: ts.Identifier): boolean {
+  const parent = identifier.parent;
+  if (
+    (ts.isPropertyAccessExpression(parent) && parent.name === identifier) ||
+    (ts.isQualifiedName(parent) && parent.right === identifier)
+  ) {
+    return false;
+  }
+  if (
+    (ts.isPropertyAssignment(parent) ||
+      ts.isPropertySignature(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isMethodDeclaration(parent) ||
+      ts.isMethodSignature(parent) ||
+      ts.isGetAccessorDeclaration(parent) ||
+      ts.isSetAccessorDeclaration(parent) ||
+      ts.isEnumMember(parent)) &&
+    parent.name === identifier
+  ) {
+    return false;
+  }
+  return !(
+    ts.isImportSpecifier(parent) ||
+    ts.isImportClause(parent) ||
+    ts.isNamespaceImport(parent)
+  );
+}
+
+function declaredNames(statement: ts.Statement): string[] {
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations.flatMap((declaration) =>
+      ts.isIdentifier(declaration.name) ? [declaration.name.text] : []
+    );
+  }
+  if (
+    (ts.isFunctionDeclaration(statement) ||
+      ts.isClassDeclaration(statement) ||
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement) ||
+      ts.isEnumDeclaration(statement)) &&
+    statement.name
+  ) {
+    return [statement.name.text];
+  }
+  return [];
+}
+
+function toImportEntry(declaration: ts.ImportDeclaration): ImportEntry {
+  const module = (declaration.moduleSpecifier as ts.StringLiteral).text;
+  const clause = declaration.importClause;
+  if (!clause) {
+    return { module, named: [], sideEffect: true };
+  }
+
+  const typeOnly = clause.isTypeOnly ? 'type ' : '';
+  const bindings = clause.namedBindings;
+  return {
+    module,
+    named:
+      bindings && ts.isNamedImports(bindings)
+        ? bindings.elements.map((element) => {
+            const prefix = typeOnly || (element.isTypeOnly ? 'type ' : '');
+            return element.propertyName
+              ? `${prefix}${element.propertyName.text} as ${element.name.text}`
+              : `${prefix}${element.name.text}`;
+          })
+        : [],
+    ...(clause.name && { defaultName: clause.name.text }),
+    ...(bindings &&
+      ts.isNamespaceImport(bindings) && { namespaceName: bindings.name.text }),
+    sideEffect: false,
+  };
+}
+
+/** Local name of a rendered named specifier ("a as b" -> "b") */
+const localName = (specifier: string) => {
+  const parts = specifier.replace(/^type /, '').split(' as ');
+  return parts[parts.length - 1] ?? specifier;
+};
+
+/**
+ * Render the imports the code references: unused specifiers are
+ * dropped, and "effect" exports used without an import are added
+ */
+function renderImports(
+  entries: readonly ImportEntry[],
+  referenced: ReadonlySet<string>,
+  freeNames: ReadonlySet<string>,
+  moduleType: ModuleType
+): string[] {
+  const effectNamed = new Set<string>();
+  for (const freeName of freeNames) {
+    if (EFFECT_EXPORTS.has(freeName)) {
+      effectNamed.add(freeName);
+    }
+  }
+
+  const others: ImportEntry[] = [];
+  for (const entry of entries) {
+    const named = entry.named.filter((specifier) =>
+      referenced.has(localName(specifier))
+    );
+    if (
+      entry.module === 'effect' &&
+      !entry.defaultName &&
+      !entry.namespaceName
+    ) {
+      for (const specifier of named) {
+        effectNamed.add(specifier);
+      }
+      continue;
+    }
+    const defaultName =
+      entry.defaultName && referenced.has(entry.defaultName)
+        ? entry.defaultName
+        : undefined;
+    const namespaceName =
+      entry.namespaceName && referenced.has(entry.namespaceName)
+        ? entry.namespaceName
+        : undefined;
+    if (entry.sideEffect || named.length > 0 || defaultName || namespaceName) {
+      others.push({ ...entry, named, defaultName, namespaceName });
+    }
+  }
+
+  const effectEntry: ImportEntry = {
+    module: 'effect',
+    named: [...effectNamed].sort((a, b) =>
+      localName(a).localeCompare(localName(b))
+    ),
+    sideEffect: false,
+  };
+  return [effectEntry, ...others]
+    .filter(
+      (entry) =>
+        entry.sideEffect ||
+        entry.named.length > 0 ||
+        entry.defaultName ||
+        entry.namespaceName
+    )
+    .flatMap((entry) =>
+      moduleType === 'cjs' ? renderRequire(entry) : [renderImport(entry)]
+    );
+}
+
+function renderImport(entry: ImportEntry): string {
+  const from = JSON.stringify(entry.module);
+  if (entry.sideEffect) {
+    return `import ${from};`;
+  }
+  const clause = [
+    entry.defaultName,
+    entry.namespaceName && `* as ${entry.namespaceName}`,
+    entry.named.length > 0 && `{ ${entry.named.join(', ')} }`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+  return `import ${clause} from ${from};`;
+}
+
+function renderRequire(entry: ImportEntry): string[] {
+  const call = `require(${JSON.stringify(entry.module)})`;
+  if (entry.sideEffect) {
+    return [`${call};`];
+  }
+  // Type-only imports have no runtime value
+  const named = entry.named
+    .filter((specifier) => !specifier.startsWith('type '))
+    .map((specifier) => specifier.replace(' as ', ': '));
+  return [
+    ...[entry.defaultName, entry.namespaceName]
+      .filter((name): name is string => name !== undefined)
+      .map((name) => `const ${name} = ${call};`),
+    ...(named.length > 0 ? [`const { ${named.join(', ')} } = ${call};`] : []),
+  ];
+}
+
+const replace = (node: ts.Node, text: string): Edit => ({
+  start: node.getStart(),
+  end: node.end,
+  text,
+});
+
+function uniqueName(name: string, used: ReadonlySet<string>): string {
+  let candidate = name;
+  for (let suffix = 2; used.has(candidate); suffix++) {
+    candidate = `${name}${suffix}`;
+  }
+  return candidate;
+}
+
+function applyEdits(code: string, edits: readonly Edit[]): string {
+  let result = code;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
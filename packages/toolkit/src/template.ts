@@ -1,13 +1,20 @@
 /**
  * Code Snippet Template Generation
  *
- * Deterministic snippet generation with support for different module
- * types and Effect versions. All generation is pure functions - no
- * code evaluation or execution.
+ * Deterministic snippet generation with support for example
+ * selection, different module types, Effect versions and companion
+ * tests. All generation is pure functions - no code evaluation or
+ * execution.
  */
 
-import type { ModuleType } from './schemas/generate.js';
-import type { Pattern } from './schemas/pattern.js';
+import { Data, Either, Option } from 'effect';
+import type { ModuleType, SnippetFile } from './schemas/generate.js';
+import type { CodeExample, Pattern } from './schemas/pattern.js';
+import {
+  type MainBinding,
+  toIdentifier,
+  transformSource,
+} from './snippetSource.js';
 
 /**
  * Sanitize user input to prevent template injection
@@ -25,31 +32,15 @@ export function sanitizeInput(input: string): string {
 }
 
 /**
- * Generate import statement based on module type
- *
- * @param moduleType - ESM or CJS
- * @returns Import/require statement
+ * Error raised when no example matches the requested index or
+ * description
  */
-function generateImport(moduleType: ModuleType = 'esm'): string {
-  if (moduleType === 'cjs') {
-    return `const { Effect, pipe } = require("effect");`;
-  }
-  return `import { Effect, pipe } from "effect";`;
-}
-
-/**
- * Generate export statement based on module type
- *
- * @param moduleType - ESM or CJS
- * @param name - Export name
- * @returns Export statement
- */
-function generateExport(name: string, moduleType: ModuleType = 'esm'): string {
-  if (moduleType === 'cjs') {
-    return `module.exports = { ${name} };`;
-  }
-  return `export { ${name} };`;
-}
+export class ExampleNotFoundError extends Data.TaggedError(
+  'ExampleNotFoundError'
+)<{
+  readonly patternId: string;
+  readonly message: string;
+}> {}
 
 /**
  * Parameters for building a code snippet
@@ -65,95 +56,214 @@ export interface BuildSnippetParams {
   moduleType?: ModuleType;
   /** Optional Effect version to include in comment */
   effectVersion?: string;
+  /** Index of the example to use (default: 0) */
+  exampleIndex?: number;
+  /** Use the first example whose description contains this text */
+  exampleDescription?: string;
+  /** Also emit a companion `*.test.ts` using `@effect/vitest` */
+  includeTest?: boolean;
 }
 
 /**
- * Build a code snippet from a pattern
+ * Select an example by index or description
  *
- * Generates deterministic, sanitized code snippets based on pattern
- * examples. Supports module type variations and Effect version
- * comments.
+ * @returns The example and its index, none if the pattern has no
+ *   examples and nothing was requested, or an error if the requested
+ *   example does not exist
+ */
+export function selectExample(
+  pattern: Pattern,
+  selector: { exampleIndex?: number; exampleDescription?: string } = {}
+): Either.Either<
+  Option.Option<{ example: CodeExample; index: number }>,
+  ExampleNotFoundError
+> {
+  const { exampleIndex, exampleDescription } = selector;
+
+  if (exampleDescription !== undefined) {
+    const needle = exampleDescription.toLowerCase();
+    const index = pattern.examples.findIndex((candidate) =>
+      candidate.description?.toLowerCase().includes(needle)
+    );
+    const example = pattern.examples[index];
+    return example
+      ? Either.right(Option.some({ example, index }))
+      : Either.left(
+          new ExampleNotFoundError({
+            patternId: pattern.id,
+            message: `No example of ${pattern.id} matches "${exampleDescription}"`,
+          })
+        );
+  }
+
+  const index = exampleIndex ?? 0;
+  const example = pattern.examples[index];
+  if (example) {
+    return Either.right(Option.some({ example, index }));
+  }
+  return exampleIndex === undefined
+    ? Either.right(Option.none())
+    : Either.left(
+        new ExampleNotFoundError({
+          patternId: pattern.id,
+          message: `Pattern ${pattern.id} has no example ${exampleIndex} (${pattern.examples.length} available)`,
+        })
+      );
+}
+
+/**
+ * Build snippet files from a pattern
+ *
+ * The selected example (or a placeholder if the pattern has none) is
+ * parsed and transformed with the TypeScript AST: its main binding is
+ * renamed to `customName`, "input" string literals are replaced with
+ * `customInput`, and its imports are recomputed from what the code
+ * uses. The first file is the snippet; with `includeTest`, a companion
+ * `@effect/vitest` test importing the main binding follows.
  *
  * @param params - Snippet generation parameters
- * @returns Generated code snippet
- * @example
- * ```typescript
- * const snippet = buildSnippet({
- *   pattern: myPattern,
- *   customName: "retryRequest",
- *   moduleType: "esm"
- * })
- * ```
+ * @returns Generated files, or an error if the requested example does
+ *   not exist
  */
-export function buildSnippet(params: BuildSnippetParams): string {
+export function buildSnippetFiles(
+  params: BuildSnippetParams
+): Either.Either<readonly SnippetFile[], ExampleNotFoundError> {
   const {
     pattern,
     customName,
     customInput,
     moduleType = 'esm',
-    effectVersion
+    effectVersion,
+    includeTest = false,
   } = params;
 
-  const sanitizedName = customName ? sanitizeInput(customName) : 'example';
-  const sanitizedInput = customInput ? sanitizeInput(customInput) : 'input';
+  return Either.map(selectExample(pattern, params), (selected) => {
+    const example = Option.getOrUndefined(selected)?.example;
+    const name = customName
+      ? toIdentifier(sanitizeInput(customName))
+      : undefined;
+    const input = customInput ? sanitizeInput(customInput) : undefined;
 
-  // Use first example if available
-  const example = pattern.examples?.[0];
+    const code =
+      example?.code ??
+      [
+        `// ${pattern.description}`,
+        '',
+        `const ${name ?? 'example'} = Effect.succeed(${JSON.stringify(input ?? 'input')});`,
+      ].join('\n');
+
+    const { imports, body, mainBinding } = transformSource({
+      code,
+      name,
+      input,
+      moduleType,
+    });
 
-  if (!example) {
-    // Generate a minimal placeholder if no example exists
     const header = [
       `// ${pattern.title}`,
       effectVersion ? `// Effect version: ${effectVersion}` : '',
       `// Pattern ID: ${pattern.id}`,
-      '',
-      generateImport(moduleType),
-      '',
-      `// ${pattern.description}`,
-      '',
-      `const ${sanitizedName} = Effect.succeed("${sanitizedInput}");`,
-      '',
-      generateExport(sanitizedName, moduleType),
-    ]
-      .filter(Boolean)
-      .join('\n');
-
-    return header;
-  }
+      example?.description ? `// ${example.description}` : '',
+    ].filter(Boolean);
 
-  // Build snippet from example with header
-  const header = [
-    `// ${pattern.title}`,
-    effectVersion ? `// Effect version: ${effectVersion}` : '',
+    const baseName = pattern.id.replace(/[^A-Za-z0-9_-]/g, '-');
+    const files: SnippetFile[] = [
+      {
+        path: `${baseName}.ts`,
+        content: [
+          ...header,
+          '',
+          ...(imports.length > 0 ? [...imports, ''] : []),
+          body,
+        ].join('\n'),
+      },
+    ];
+
+    if (includeTest && mainBinding) {
+      files.push({
+        path: `${baseName}.test.ts`,
+        content: buildCompanionTest(pattern, mainBinding, baseName, moduleType),
+      });
+    }
+
+    return files;
+  });
+}
+
+/**
+ * Build a code snippet from a pattern
+ *
+ * Returns the snippet file of `buildSnippetFiles`.
+ *
+ * @param params - Snippet generation parameters
+ * @returns Generated code snippet
+ * @throws ExampleNotFoundError if the requested example does not exist
+ * @example
+ * ```typescript
+ * const snippet = buildSnippet({
+ *   pattern: myPattern,
+ *   customName: "retryRequest",
+ *   moduleType: "esm"
+ * })
+ * ```
+ */
+export function buildSnippet(params: BuildSnippetParams): string {
+  const files = Either.getOrThrowWith(
+    buildSnippetFiles(params),
+    (error) => error
+  );
+  return files[0]?.content ?? '';
+}
+
+/**
+ * Companion test for a snippet's main binding
+ *
+ * Effects are run with `it.effect`; anything else is only checked to
+ * be defined. The test is a starting point: Effects that require
+ * services need them provided.
+ */
+function buildCompanionTest(
+  pattern: Pattern,
+  binding: MainBinding,
+  baseName: string,
+  moduleType: ModuleType
+): string {
+  const { name, kind } = binding;
+  const importNames = (names: string, module: string) =>
+    moduleType === 'cjs'
+      ? `const { ${names} } = require(${JSON.stringify(module)});`
+      : `import { ${names} } from ${JSON.stringify(module)};`;
+  const testCase =
+    kind === 'effect'
+      ? [
+          `  it.effect(${JSON.stringify(`${name} runs`)}, () =>`,
+          '    Effect.gen(function* () {',
+          `      const result = yield* ${name};`,
+          '      expect(result).toBeDefined();',
+          '    })',
+          '  );',
+        ]
+      : [
+          `  it(${JSON.stringify(`${name} is defined`)}, () => {`,
+          kind === 'function'
+            ? `    expect(typeof ${name}).toBe("function");`
+            : `    expect(${name}).toBeDefined();`,
+          '  });',
+        ];
+
+  return [
+    `// Tests for ${pattern.title}`,
     `// Pattern ID: ${pattern.id}`,
-    example.description ? `// ${example.description}` : '',
     '',
-    generateImport(moduleType),
+    importNames('describe, expect, it', '@effect/vitest'),
+    ...(kind === 'effect' ? [importNames('Effect', 'effect')] : []),
+    importNames(name, `./${baseName}`),
     '',
-  ]
-    .filter(Boolean)
-    .join('\n');
-
-  // Process the example code (sanitize but preserve structure)
-  const processedCode = example.code
-    .split('\n')
-    .map((line) => {
-      // Replace any template variables if present
-      let processedLine = line;
-      if (customName) {
-        processedLine = processedLine.replace(/\bexample\b/g, sanitizedName);
-      }
-      if (customInput) {
-        processedLine = processedLine.replace(
-          /"input"/g,
-          `"${sanitizedInput}"`
-        );
-      }
-      return processedLine;
-    })
-    .join('\n');
-
-  return `${header}\n${processedCode}`;
+    `describe(${JSON.stringify(pattern.title)}, () => {`,
+    ...testCase,
+    '});',
+    '',
+  ].join('\n');
 }
 
 /**
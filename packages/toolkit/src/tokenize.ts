@@ -0,0 +1,205 @@
+/**
+ * Text Tokenization
+ *
+ * Pure functions for turning pattern text and search queries into
+ * normalized, stemmed terms. Used by the search index so that
+ * documents and queries are tokenized identically.
+ */
+
+/**
+ * Common English words that carry no search signal
+ */
+export const STOP_WORDS: ReadonlySet<string> = new Set([
+  'a',
+  'about',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'can',
+  'do',
+  'does',
+  'for',
+  'from',
+  'how',
+  'i',
+  'if',
+  'in',
+  'into',
+  'is',
+  'it',
+  'its',
+  'my',
+  'of',
+  'on',
+  'or',
+  'should',
+  'that',
+  'the',
+  'then',
+  'this',
+  'to',
+  'use',
+  'using',
+  'was',
+  'what',
+  'when',
+  'where',
+  'which',
+  'why',
+  'will',
+  'with',
+  'you',
+  'your',
+]);
+
+/**
+ * A single token with its original (lowercased) surface form
+ */
+export interface Token {
+  /** Normalized, stemmed term used for matching */
+  readonly term: string;
+  /** Lowercased word as it appeared in the source text */
+  readonly surface: string;
+}
+
+const VOWEL = /[aeiouy]/;
+
+/**
+ * Inflectional suffixes, stripped first (longest match wins)
+ */
+const INFLECTIONAL_SUFFIXES: ReadonlyArray<readonly [string, string]> = [
+  ['sses', 'ss'],
+  ['ies', 'i'],
+  ['ing', ''],
+  ['ed', ''],
+  ['ly', ''],
+  ['s', ''],
+];
+
+/**
+ * Derivational suffixes, stripped after inflectional ones
+ */
+const DERIVATIONAL_SUFFIXES: readonly string[] = [
+  'ization',
+  'isation',
+  'fulness',
+  'ational',
+  'ement',
+  'ness',
+  'ment',
+  'ency',
+  'ence',
+  'ance',
+  'ancy',
+  'able',
+  'ible',
+  'ical',
+  'ion',
+  'ent',
+  'ant',
+  'ive',
+  'ize',
+  'ise',
+  'ful',
+  'al',
+  'e',
+];
+
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * Strip a trailing doubled consonant left behind by suffix removal
+ * (e.g. "batching" -> "batch", "running" -> "runn" -> "run")
+ */
+function undouble(stem: string): string {
+  const last = stem[stem.length - 1];
+  if (
+    stem.length > MIN_STEM_LENGTH &&
+    last &&
+    last === stem[stem.length - 2] &&
+    !VOWEL.test(last) &&
+    !'lsz'.includes(last)
+  ) {
+    return stem.slice(0, -1);
+  }
+  return stem;
+}
+
+/**
+ * Light suffix-stripping stemmer
+ *
+ * Conflates common English inflections and derivations so that
+ * "retries", "retrying" and "retry" (or "concurrent" and
+ * "concurrency") map to the same term. Words shorter than four
+ * characters and tokens containing digits are returned unchanged.
+ *
+ * @param word - Lowercased word
+ * @returns Stemmed term
+ */
+export function stem(word: string): string {
+  if (word.length <= MIN_STEM_LENGTH || /\d/.test(word)) return word;
+
+  let result = word;
+
+  for (const [suffix, replacement] of INFLECTIONAL_SUFFIXES) {
+    if (!result.endsWith(suffix)) continue;
+    if (suffix === 's' && /(?:ss|us|is)$/.test(result)) break;
+    const candidate = result.slice(0, -suffix.length) + replacement;
+    if (candidate.length >= MIN_STEM_LENGTH && VOWEL.test(candidate)) {
+      result =
+        suffix === 'ing' || suffix === 'ed' ? undouble(candidate) : candidate;
+    }
+    break;
+  }
+
+  for (const suffix of DERIVATIONAL_SUFFIXES) {
+    if (!result.endsWith(suffix)) continue;
+    const candidate = result.slice(0, -suffix.length);
+    if (candidate.length >= MIN_STEM_LENGTH && VOWEL.test(candidate)) {
+      result = candidate;
+    }
+    break;
+  }
+
+  // Normalize a final "y" so "retry" and "retries" agree
+  if (result.endsWith('y') && VOWEL.test(result.slice(0, -1))) {
+    result = `${result.slice(0, -1)}i`;
+  }
+
+  return result;
+}
+
+/**
+ * Split text into lowercased words
+ *
+ * Breaks on any non-alphanumeric character and on camelCase / PascalCase
+ * boundaries, so code such as `Effect.retryOrElse` yields
+ * "effect", "retry", "or", "else".
+ *
+ * @param text - Raw text or source code
+ * @returns Lowercased words in source order
+ */
+export function splitWords(text: string): string[] {
+  return text
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z\d]+/)
+    .filter((word) => word.length > 0);
+}
+
+/**
+ * Tokenize text into stemmed terms with stop words removed
+ *
+ * @param text - Raw text, query or source code
+ * @returns Tokens in source order (duplicates preserved)
+ */
+export function tokenize(text: string): Token[] {
+  return splitWords(text)
+    .filter((word) => !STOP_WORDS.has(word))
+    .map((surface) => ({ term: stem(surface), surface }));
+}
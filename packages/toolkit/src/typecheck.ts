@@ -0,0 +1,341 @@
+/**
+ * Snippet Typechecking
+ *
+ * The `SnippetChecker` service typechecks generated snippet files with
+ * an in-process TypeScript language service before they are returned,
+ * so renaming or CJS conversion mistakes surface as diagnostics instead
+ * of broken code. `effect` resolves to bundled type declarations for
+ * the requested version (by default, the version the toolkit depends
+ * on); other packages are declared as untyped modules, since only the
+ * snippet's own code is being verified.
+ */
+
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { Context, Data, Effect, Layer } from 'effect';
+import ts from 'typescript';
+import type {
+  SnippetDiagnostic,
+  SnippetFile,
+  SnippetTypecheck,
+} from './schemas/generate.js';
+
+/** Directory the snippet files are checked in (never touches disk) */
+const SNIPPET_ROOT = '/__snippet__/';
+/** Ambient declarations for modules the checker has no types for */
+const SHIM_FILE = `${SNIPPET_ROOT}__modules__.d.ts`;
+/** Range prefix of a requested version, e.g. "^" in "^3.17.0" */
+const VERSION_PREFIX = /^[^\d]*/;
+
+/**
+ * Error raised when a snippet was required to compile and did not
+ */
+export class SnippetCompileError extends Data.TaggedError(
+  'SnippetCompileError'
+)<{
+  readonly patternId: string;
+  readonly message: string;
+  readonly typecheck: SnippetTypecheck;
+}> {}
+
+/**
+ * Options for typechecking
+ */
+export interface CheckSnippetOptions {
+  /** Effect version to check against (default: the bundled version) */
+  readonly effectVersion?: string;
+}
+
+/**
+ * SnippetChecker service tag
+ */
+export class SnippetChecker extends Context.Tag('SnippetChecker')<
+  SnippetChecker,
+  {
+    /** Versions with bundled `effect` declarations */
+    readonly effectVersions: readonly string[];
+    readonly check: (
+      files: readonly SnippetFile[],
+      options?: CheckSnippetOptions
+    ) => Effect.Effect<SnippetTypecheck>;
+  }
+>() {}
+
+/**
+ * Options for the snippet checker
+ */
+export interface MakeSnippetCheckerOptions {
+  /**
+   * `effect` package directories by version. Defaults to the `effect`
+   * package installed with the toolkit.
+   */
+  readonly effectTypes?: Readonly<Record<string, string>>;
+}
+
+/**
+ * Directory and version of the `effect` package the toolkit uses
+ */
+export function bundledEffectTypes(): Record<string, string> {
+  const packageJson = createRequire(import.meta.url).resolve(
+    'effect/package.json'
+  );
+  const { version } = JSON.parse(readFileSync(packageJson, 'utf-8')) as {
+    version: string;
+  };
+  return { [version]: dirname(packageJson) };
+}
+
+/**
+ * Pick the bundled version for a request: exact match, then same
+ * major.minor, then the newest bundled version
+ */
+export function resolveEffectVersion(
+  requested: string | undefined,
+  available: readonly string[]
+): string | undefined {
+  const sorted = [...available].sort((a, b) =>
+    b.localeCompare(a, undefined, { numeric: true })
+  );
+  if (!requested) {
+    return sorted[0];
+  }
+  const wanted = requested.replace(VERSION_PREFIX, '');
+  const minor = wanted.split('.').slice(0, 2).join('.');
+  return (
+    sorted.find((version) => version === wanted) ??
+    sorted.find((version) => version.startsWith(`${minor}.`)) ??
+    sorted[0]
+  );
+}
+
+/**
+ * Create a snippet checker
+ *
+ * One language service is kept per `effect` version, so declarations
+ * are parsed once and later checks only re-check the snippet files.
+ */
+export function makeSnippetChecker(
+  options: MakeSnippetCheckerOptions = {}
+): Context.Tag.Service<SnippetChecker> {
+  const effectTypes = options.effectTypes ?? bundledEffectTypes();
+  const effectVersions = Object.keys(effectTypes);
+  const services = new Map<string, SnippetLanguageService>();
+
+  const check = (
+    files: readonly SnippetFile[],
+    checkOptions: CheckSnippetOptions = {}
+  ): Effect.Effect<SnippetTypecheck> =>
+    Effect.sync(() => {
+      const path = files[0]?.path ?? '';
+      const version = resolveEffectVersion(
+        checkOptions.effectVersion,
+        effectVersions
+      );
+      const effectDir = version ? effectTypes[version] : undefined;
+      if (!(version && effectDir)) {
+        return {
+          ok: false,
+          effectVersion: '',
+          diagnostics: [
+            notice(path, 'error', 'No effect type declarations are bundled'),
+          ],
+        };
+      }
+
+      let service = services.get(version);
+      if (!service) {
+        service = createSnippetLanguageService(effectDir);
+        services.set(version, service);
+      }
+
+      const diagnostics = service.check(files);
+      const requested = checkOptions.effectVersion?.replace(VERSION_PREFIX, '');
+      if (requested && requested !== version) {
+        diagnostics.unshift(
+          notice(
+            path,
+            'warning',
+            `effect ${requested} types are not bundled; checked against ${version}`
+          )
+        );
+      }
+
+      return {
+        ok: diagnostics.every((d) => d.category !== 'error'),
+        effectVersion: version,
+        diagnostics,
+      };
+    });
+
+  return { effectVersions, check };
+}
+
+/**
+ * SnippetChecker layer using the bundled `effect` declarations
+ */
+export const SnippetCheckerLive = Layer.sync(SnippetChecker, () =>
+  makeSnippetChecker()
+);
+
+interface SnippetLanguageService {
+  readonly check: (files: readonly SnippetFile[]) => SnippetDiagnostic[];
+}
+
+function createSnippetLanguageService(
+  effectDir: string
+): SnippetLanguageService {
+  const dts = join(effectDir, 'dist', 'dts');
+  const options: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+    types: [],
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    esModuleInterop: true,
+    moduleDetection: ts.ModuleDetectionKind.Force,
+    paths: {
+      effect: [join(dts, 'index.d.ts')],
+      'effect/*': [join(dts, '*.d.ts')],
+    },
+  };
+
+  // Versions are global so a file removed and re-added is never stale
+  const snippets = new Map<string, { content: string; version: number }>();
+  let version = 0;
+  const setFile = (path: string, content: string) => {
+    if (snippets.get(path)?.content !== content) {
+      version += 1;
+      snippets.set(path, { content, version });
+    }
+  };
+
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => options,
+    getScriptFileNames: () => [...snippets.keys()],
+    getScriptVersion: (fileName) =>
+      String(snippets.get(fileName)?.version ?? 0),
+    getScriptSnapshot: (fileName) => {
+      const content =
+        snippets.get(fileName)?.content ?? ts.sys.readFile(fileName);
+      return content === undefined
+        ? undefined
+        : ts.ScriptSnapshot.fromString(content);
+    },
+    getCurrentDirectory: () => SNIPPET_ROOT,
+    getDefaultLibFileName: (compilerOptions) =>
+      ts.getDefaultLibFilePath(compilerOptions),
+    fileExists: (fileName) =>
+      snippets.has(fileName) ||
+      (!fileName.startsWith(SNIPPET_ROOT) && ts.sys.fileExists(fileName)),
+    readFile: (fileName) =>
+      snippets.get(fileName)?.content ?? ts.sys.readFile(fileName),
+    directoryExists: (directory) =>
+      directory.startsWith(SNIPPET_ROOT.slice(0, -1)) ||
+      ts.sys.directoryExists(directory),
+    getDirectories: (directory) =>
+      directory.startsWith(SNIPPET_ROOT)
+        ? []
+        : ts.sys.getDirectories(directory),
+  };
+  const languageService = ts.createLanguageService(
+    host,
+    ts.createDocumentRegistry()
+  );
+
+  return {
+    check: (files) => {
+      const current = new Set([
+        SHIM_FILE,
+        ...files.map((file) => `${SNIPPET_ROOT}${file.path}`),
+      ]);
+      for (const fileName of snippets.keys()) {
+        if (!current.has(fileName)) {
+          snippets.delete(fileName);
+        }
+      }
+      for (const file of files) {
+        setFile(`${SNIPPET_ROOT}${file.path}`, file.content);
+      }
+      setFile(SHIM_FILE, moduleShims(files));
+
+      return files.flatMap((file) => {
+        const fileName = `${SNIPPET_ROOT}${file.path}`;
+        const sourceFile = languageService
+          .getProgram()
+          ?.getSourceFile(fileName);
+        return [
+          ...languageService.getSyntacticDiagnostics(fileName),
+          ...languageService.getSemanticDiagnostics(fileName),
+        ].map((diagnostic) =>
+          toSnippetDiagnostic(file.path, diagnostic, sourceFile)
+        );
+      });
+    },
+  };
+}
+
+/**
+ * `declare module` for every package other than `effect` the snippets
+ * import, and CommonJS globals so CJS snippets typecheck: `require` of
+ * an `effect` module is typed, anything else is untyped
+ */
+function moduleShims(files: readonly SnippetFile[]): string {
+  const effectModules = new Set<string>();
+  const otherModules = new Set<string>();
+  for (const file of files) {
+    const { importedFiles } = ts.preProcessFile(file.content, true, true);
+    for (const { fileName } of importedFiles) {
+      if (fileName === 'effect' || fileName.startsWith('effect/')) {
+        effectModules.add(fileName);
+      } else if (!fileName.startsWith('.')) {
+        otherModules.add(fileName);
+      }
+    }
+  }
+  return [
+    ...[...otherModules].map(
+      (name) => `declare module ${JSON.stringify(name)};`
+    ),
+    ...[...effectModules].map((name) => {
+      const id = JSON.stringify(name);
+      return `declare function require(id: ${id}): typeof import(${id});`;
+    }),
+    'declare function require(id: string): any;',
+    'declare var module: { exports: any };',
+  ].join('\n');
+}
+
+/**
+ * Diagnostic raised by the checker itself rather than TypeScript
+ */
+function notice(
+  path: string,
+  category: SnippetDiagnostic['category'],
+  message: string
+): SnippetDiagnostic {
+  return { path, line: 1, column: 1, code: 0, category, message };
+}
+
+function toSnippetDiagnostic(
+  path: string,
+  diagnostic: ts.Diagnostic,
+  sourceFile: ts.SourceFile | undefined
+): SnippetDiagnostic {
+  const position =
+    sourceFile && diagnostic.start !== undefined
+      ? sourceFile.getLineAndCharacterOfPosition(diagnostic.start)
+      : { line: 0, character: 0 };
+  return {
+    path,
+    line: position.line + 1,
+    column: position.character + 1,
+    code: diagnostic.code,
+    category:
+      diagnostic.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+  };
+}
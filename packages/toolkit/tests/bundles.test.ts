@@ -0,0 +1,166 @@
+/**
+ * Rule Bundle Tests
+ *
+ * Tests for rendering tool-specific rule files and applying managed
+ * blocks to existing files.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  applyManagedBlock,
+  contentHash,
+  extractManagedBlock,
+  isRuleTool,
+  MANAGED_BLOCK_END,
+  MANAGED_BLOCK_START,
+  RULE_TOOLS,
+  removeManagedBlock,
+  renderRuleBundle,
+  ruleSetVersion,
+} from '../src/bundles.js';
+import type { Rule } from '../src/schemas/api.js';
+
+const rules: Rule[] = [
+  {
+    id: 'use-schedule',
+    title: 'Retry with a Schedule',
+    description: '',
+    skillLevel: 'intermediate',
+    useCase: ['error-management', 'concurrency'],
+    content: '# Retry with a Schedule\n\nUse Schedule.',
+  },
+  {
+    id: 'stream-files',
+    title: 'Stream Files',
+    description: '',
+    content: '# Stream Files',
+  },
+];
+
+describe('renderRuleBundle', () => {
+  it('should render one managed block for markdown tools', () => {
+    const bundle = renderRuleBundle('goose', rules);
+
+    expect(bundle.ruleCount).toBe(2);
+    expect(bundle.files).toEqual([
+      {
+        path: '.goosehints',
+        mode: 'managed-block',
+        content: [
+          MANAGED_BLOCK_START,
+          '',
+          '### Retry with a Schedule',
+          '**ID:** use-schedule',
+          '**Use Case:** error-management, concurrency | **Skill Level:** intermediate',
+          '',
+          '# Retry with a Schedule',
+          '',
+          'Use Schedule.',
+          '',
+          '---',
+          '',
+          '### Stream Files',
+          '**ID:** stream-files',
+          '**Use Case:** N/A | **Skill Level:** N/A',
+          '',
+          '# Stream Files',
+          '',
+          MANAGED_BLOCK_END,
+        ].join('\n'),
+      },
+    ]);
+  });
+
+  it('should render one .mdc file per rule for -mdc tools', () => {
+    const bundle = renderRuleBundle('cursor-mdc', rules);
+
+    expect(bundle.files).toEqual([
+      {
+        path: '.cursor/rules/use-schedule.mdc',
+        mode: 'replace',
+        content: '# Retry with a Schedule\n\nUse Schedule.',
+      },
+      {
+        path: '.cursor/rules/stream-files.mdc',
+        mode: 'replace',
+        content: '# Stream Files',
+      },
+    ]);
+  });
+
+  it('should render no files without rules', () => {
+    expect(renderRuleBundle('cursor', [])).toEqual({
+      tool: 'cursor',
+      version: contentHash('[]'),
+      ruleCount: 0,
+      rules: [],
+      files: [],
+    });
+  });
+
+  it('should list rule digests and version the bundle by them', () => {
+    const bundle = renderRuleBundle('cursor', rules);
+    const edited = renderRuleBundle('cursor', [
+      {
+        ...rules[0],
+        content: '# Retry with a Schedule\n\nUse Schedule.spaced.',
+      },
+      rules[1],
+    ]);
+
+    expect(bundle.rules).toEqual([
+      { id: 'use-schedule', hash: contentHash(rules[0].content) },
+      { id: 'stream-files', hash: contentHash(rules[1].content) },
+    ]);
+    expect(renderRuleBundle('goose', rules).version).toBe(bundle.version);
+    expect(ruleSetVersion(rules)).toBe(bundle.version);
+    expect(edited.version).not.toBe(bundle.version);
+  });
+
+  it('should know every tool in RULE_TOOLS', () => {
+    for (const tool of Object.keys(RULE_TOOLS)) {
+      expect(isRuleTool(tool)).toBe(true);
+    }
+    expect(isRuleTool('codeium')).toBe(false);
+  });
+});
+
+describe('applyManagedBlock', () => {
+  const block = `${MANAGED_BLOCK_START}\nnew\n${MANAGED_BLOCK_END}`;
+
+  it('should replace an existing block and keep the rest', () => {
+    const existing = `# Mine\n\n${MANAGED_BLOCK_START}\nold\n${MANAGED_BLOCK_END}\n\nMore`;
+
+    expect(applyManagedBlock(existing, block)).toBe(
+      `# Mine\n\n${block}\n\nMore`
+    );
+  });
+
+  it('should append to files without a block', () => {
+    expect(applyManagedBlock('# Mine', block)).toBe(`# Mine\n\n${block}\n`);
+    expect(applyManagedBlock(undefined, block)).toBe(`${block}\n`);
+  });
+});
+
+describe('removeManagedBlock', () => {
+  const block = `${MANAGED_BLOCK_START}\nrules\n${MANAGED_BLOCK_END}`;
+
+  it('should undo applyManagedBlock', () => {
+    expect(removeManagedBlock(applyManagedBlock('# Mine\n', block))).toBe(
+      '# Mine\n'
+    );
+    expect(removeManagedBlock(applyManagedBlock(undefined, block))).toBe('');
+  });
+
+  it('should keep content on both sides of the block', () => {
+    expect(removeManagedBlock(`# Mine\n\n${block}\n\nMore\n`)).toBe(
+      '# Mine\n\nMore\n'
+    );
+  });
+
+  it('should leave files without a block alone', () => {
+    expect(removeManagedBlock('# Mine\n')).toBe('# Mine\n');
+    expect(extractManagedBlock('# Mine\n')).toBeUndefined();
+    expect(extractManagedBlock(`# Mine\n\n${block}\n`)).toBe(block);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Embedding Search Tests
+ *
+ * Tests for the hashed n-gram embedder, cosine similarity, and
+ * semantic/hybrid ranking through the EmbeddingIndex service.
+ */
+
+import { Effect, Layer } from 'effect';
+import { describe, expect, it } from 'vitest';
+import {
+  Embedder,
+  EmbeddingError,
+  HashedEmbedderLive,
+  hashedEmbedding,
+  makeHashedEmbedder,
+} from '../src/embedding.js';
+import {
+  cosineSimilarity,
+  EmbeddingIndex,
+  EmbeddingIndexLive,
+  makeEmbeddingIndex,
+} from '../src/embeddingIndex.js';
+import type { Pattern } from '../src/schemas/pattern.js';
+
+// Test fixtures
+const createMockPattern = (overrides: Partial<Pattern> = {}): Pattern => ({
+  id: 'test-pattern',
+  title: 'Test Pattern',
+  description: 'A test pattern for unit testing',
+  category: 'error-handling',
+  difficulty: 'beginner',
+  tags: [],
+  examples: [],
+  useCases: [],
+  ...overrides,
+});
+
+const mockPatterns: Pattern[] = [
+  createMockPattern({
+    id: 'retry-backoff',
+    title: 'Retry with Exponential Backoff',
+    description: 'Retry failed operations with growing delays',
+    tags: ['retry', 'resilience'],
+    useCases: ['Flaky network calls'],
+  }),
+  createMockPattern({
+    id: 'interrupt-fiber',
+    title: 'Interrupting Fibers',
+    description: 'Stop a running fiber when the caller aborts the request',
+    category: 'concurrency',
+    difficulty: 'advanced',
+    tags: ['fiber', 'interruption', 'cancellation'],
+    useCases: ['Cancel work when an HTTP request is aborted'],
+  }),
+  createMockPattern({
+    id: 'batch-processing',
+    title: 'Concurrent Batch Processing',
+    description: 'Process large datasets in parallel batches',
+    category: 'concurrency',
+    difficulty: 'intermediate',
+    tags: ['batching', 'parallel'],
+  }),
+];
+
+const run = <A, E>(effect: Effect.Effect<A, E, EmbeddingIndex>) =>
+  Effect.runPromise(
+    effect.pipe(
+      Effect.provide(
+        EmbeddingIndexLive(mockPatterns).pipe(Layer.provide(HashedEmbedderLive))
+      )
+    )
+  );
+
+describe('hashedEmbedding', () => {
+  it('should be deterministic', () => {
+    expect(hashedEmbedding('retry with backoff', 64)).toEqual(
+      hashedEmbedding('retry with backoff', 64)
+    );
+  });
+
+  it('should return unit-length vectors of the requested size', () => {
+    const vector = hashedEmbedding('retry with backoff', 64);
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+    expect(vector).toHaveLength(64);
+    expect(norm).toBeCloseTo(1);
+  });
+
+  it('should return a zero vector for text without terms', () => {
+    expect(hashedEmbedding('the and of', 8)).toEqual(new Array(8).fill(0));
+  });
+
+  it('should place related texts closer than unrelated ones', () => {
+    const query = hashedEmbedding('cancel a fiber', 256);
+    const related = hashedEmbedding('fiber cancellation', 256);
+    const unrelated = hashedEmbedding('parse json with schema', 256);
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(
+      cosineSimilarity(query, unrelated)
+    );
+  });
+});
+
+describe('makeHashedEmbedder', () => {
+  it('should name the model after its dimensions', () => {
+    const embedder = makeHashedEmbedder({ dimensions: 32 });
+    expect(embedder.model).toBe('hashed-ngram-32');
+    expect(embedder.dimensions).toBe(32);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('should return 1 for identical directions', () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+  });
+
+  it('should return 0 for zero vectors', () => {
+    expect(cosineSimilarity([0, 0], [1, 2])).toBe(0);
+  });
+});
+
+describe('EmbeddingIndex', () => {
+  it('should store one vector per pattern', async () => {
+    const embeddings = await run(
+      Effect.map(EmbeddingIndex, (index) => index.embeddings)
+    );
+    expect(embeddings.model).toBe('hashed-ngram-256');
+    expect(embeddings.embeddings.map((e) => e.id)).toEqual(
+      mockPatterns.map((p) => p.id)
+    );
+  });
+
+  it('should rank by intent in semantic mode', async () => {
+    const hits = await run(
+      Effect.flatMap(EmbeddingIndex, (index) =>
+        index.semanticSearch({
+          query: 'how do I stop a fiber when the request is aborted',
+        })
+      )
+    );
+    expect(hits[0]?.id).toBe('interrupt-fiber');
+  });
+
+  it('should apply filters and limit in semantic mode', async () => {
+    const hits = await run(
+      Effect.flatMap(EmbeddingIndex, (index) =>
+        index.semanticSearch({
+          query: 'parallel fibers',
+          category: 'concurrency',
+          limit: 1,
+        })
+      )
+    );
+    expect(hits).toHaveLength(1);
+    expect(hits[0]?.id).not.toBe('retry-backoff');
+  });
+
+  it('should blend lexical and semantic scores in hybrid mode', async () => {
+    const hits = await run(
+      Effect.flatMap(EmbeddingIndex, (index) =>
+        index.hybridSearch({ query: 'retry backoff' })
+      )
+    );
+    expect(hits[0]?.id).toBe('retry-backoff');
+    expect(hits[0]?.highlights.length).toBeGreaterThan(0);
+    expect(hits[0]?.score).toBeLessThanOrEqual(1);
+  });
+
+  it('should reuse precomputed vectors from the same embedder', async () => {
+    let embedded = 0;
+    const countingEmbedder = Layer.succeed(Embedder, {
+      ...makeHashedEmbedder(),
+      embed: (texts) => {
+        embedded += texts.length;
+        return makeHashedEmbedder().embed(texts);
+      },
+    });
+
+    const first = await Effect.runPromise(
+      makeEmbeddingIndex(mockPatterns).pipe(Effect.provide(countingEmbedder))
+    );
+    embedded = 0;
+    await Effect.runPromise(
+      makeEmbeddingIndex(mockPatterns, {
+        precomputed: first.embeddings,
+      }).pipe(Effect.provide(countingEmbedder))
+    );
+
+    expect(embedded).toBe(0);
+  });
+
+  it('should re-embed patterns whose content changed', async () => {
+    const embeddedTexts: string[] = [];
+    const countingEmbedder = Layer.succeed(Embedder, {
+      ...makeHashedEmbedder(),
+      embed: (texts) => {
+        embeddedTexts.push(...texts);
+        return makeHashedEmbedder().embed(texts);
+      },
+    });
+
+    const first = await Effect.runPromise(
+      makeEmbeddingIndex(mockPatterns).pipe(Effect.provide(countingEmbedder))
+    );
+    embeddedTexts.length = 0;
+    const edited = mockPatterns.map((pattern) =>
+      pattern.id === 'retry-backoff'
+        ? { ...pattern, description: 'Retry with jittered delays' }
+        : pattern
+    );
+    const second = await Effect.runPromise(
+      makeEmbeddingIndex(edited, {
+        precomputed: first.embeddings,
+      }).pipe(Effect.provide(countingEmbedder))
+    );
+
+    expect(embeddedTexts).toHaveLength(1);
+    expect(embeddedTexts[0]).toContain('Retry with jittered delays');
+    expect(second.embeddings.embeddings[0]?.contentHash).not.toBe(
+      first.embeddings.embeddings[0]?.contentHash
+    );
+  });
+
+  it('should re-embed when precomputed vectors come from another model', async () => {
+    const first = await Effect.runPromise(
+      makeEmbeddingIndex(mockPatterns).pipe(
+        Effect.provide(
+          Layer.succeed(Embedder, makeHashedEmbedder({ dimensions: 16 }))
+        )
+      )
+    );
+    const second = await Effect.runPromise(
+      makeEmbeddingIndex(mockPatterns, {
+        precomputed: first.embeddings,
+      }).pipe(Effect.provide(HashedEmbedderLive))
+    );
+
+    expect(second.embeddings.embeddings[0]?.vector).toHaveLength(256);
+  });
+
+  it('should surface embedder failures as EmbeddingError', async () => {
+    const failing = Layer.succeed(Embedder, {
+      model: 'failing',
+      dimensions: 1,
+      embed: () => Effect.fail(new EmbeddingError({ message: 'offline' })),
+    });
+
+    const result = await Effect.runPromise(
+      makeEmbeddingIndex(mockPatterns).pipe(
+        Effect.provide(failing),
+        Effect.flip
+      )
+    );
+
+    expect(result._tag).toBe('EmbeddingError');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Project Configuration Tests
+ *
+ * Tests for reading `ep.json` and resolving linter settings per file.
+ */
+
+import { readFileSync } from 'node:fs';
+import { JSONSchema } from '@effect/schema';
+import { Either } from 'effect';
+import { describe, expect, it } from 'vitest';
+import {
+  defaultEpConfig,
+  formatEpConfig,
+  isLintExcluded,
+  lintRulesFor,
+  matchesGlob,
+  parseEpConfig,
+} from '../src/epConfig.js';
+import { LINT_RULES } from '../src/lint.js';
+import { EpConfig, type LinterConfig } from '../src/schemas/config.js';
+import { LintRuleName } from '../src/schemas/lint.js';
+
+describe('parseEpConfig', () => {
+  it('should round-trip through formatEpConfig', () => {
+    expect(parseEpConfig(formatEpConfig(defaultEpConfig))).toEqual(
+      Either.right(defaultEpConfig)
+    );
+  });
+
+  it('should reject invalid JSON, severities and unknown rules', () => {
+    const invalid = parseEpConfig('{');
+    const severity = parseEpConfig(
+      '{"linter":{"rules":{"effect-prefer-pipe":"fatal"}}}'
+    );
+    const unknown = parseEpConfig(
+      '{"linter":{"rules":{"effect-prefer-pipes":"off"}}}'
+    );
+
+    expect(Either.isLeft(invalid) && invalid.left._tag).toBe('EpConfigError');
+    expect(Either.isLeft(severity)).toBe(true);
+    expect(Either.isLeft(unknown) && unknown.left.message).toContain(
+      'effect-prefer-pipes'
+    );
+  });
+});
+
+describe('matchesGlob', () => {
+  it('should match files and directories', () => {
+    expect(matchesGlob('src/a/b.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesGlob('src/b.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesGlob('src/b.ts', 'src/*.{js,ts}')).toBe(true);
+    expect(matchesGlob('src/a/b.ts', 'src/*.ts')).toBe(false);
+    expect(matchesGlob('src/legacy/a/b.ts', './src/legacy/')).toBe(true);
+    expect(matchesGlob('src/legacy-new/b.ts', 'src/legacy')).toBe(false);
+    expect(matchesGlob('a.test.ts', '*.test.ts')).toBe(true);
+    expect(matchesGlob('a-test.ts', 'a.test.ts')).toBe(false);
+  });
+});
+
+describe('linter settings', () => {
+  const linter: LinterConfig = {
+    files: { exclude: ['src/generated', '**/*.d.ts'] },
+    rules: { 'effect-prefer-pipe': 'off', 'effect-error-model': 'warning' },
+    overrides: [
+      {
+        files: ['src/legacy/**'],
+        rules: { 'effect-deprecated-api': 'warning' },
+      },
+      {
+        files: ['src/legacy/stream/*.ts'],
+        rules: { 'effect-prefer-pipe': 'info' },
+      },
+    ],
+  };
+
+  it('should exclude matching files', () => {
+    expect(isLintExcluded(linter, 'src/generated/api.ts')).toBe(true);
+    expect(isLintExcluded(linter, 'src/types.d.ts')).toBe(true);
+    expect(isLintExcluded(linter, 'src/index.ts')).toBe(false);
+    expect(isLintExcluded(undefined, 'src/index.ts')).toBe(false);
+  });
+
+  it('should merge matching overrides over the rules in order', () => {
+    expect(lintRulesFor(linter, 'src/index.ts')).toEqual(linter.rules);
+    expect(lintRulesFor(linter, 'src/legacy/stream/read.ts')).toEqual({
+      'effect-prefer-pipe': 'info',
+      'effect-error-model': 'warning',
+      'effect-deprecated-api': 'warning',
+    });
+    expect(lintRulesFor(undefined, 'src/index.ts')).toEqual({});
+  });
+});
+
+describe('EpConfig', () => {
+  it('should list every lint rule', () => {
+    expect([...LintRuleName.literals].sort()).toEqual(
+      LINT_RULES.map((rule) => rule.name).sort()
+    );
+  });
+
+  it('should match the committed ep.schema.json', () => {
+    const committed = readFileSync(
+      new URL('../ep.schema.json', import.meta.url),
+      'utf-8'
+    );
+
+    expect(JSON.parse(committed)).toEqual(JSONSchema.make(EpConfig));
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Pattern Explanation Tests
+ *
+ * Tests for deterministic explanation building, context tailoring,
+ * related-pattern summaries and example code annotation.
+ */
+
+import { Schema as S } from '@effect/schema';
+import { describe, expect, it } from 'vitest';
+import { annotateCode, buildExplanation } from '../src/explain.js';
+import { PatternExplanation } from '../src/schemas/generate.js';
+import type { Pattern } from '../src/schemas/pattern.js';
+
+// Test fixtures
+const createMockPattern = (overrides: Partial<Pattern> = {}): Pattern => ({
+  id: 'test-pattern',
+  title: 'Test Pattern',
+  description: 'A test pattern for unit testing',
+  category: 'error-handling',
+  difficulty: 'beginner',
+  tags: [],
+  examples: [],
+  useCases: [],
+  ...overrides,
+});
+
+const retryPattern = createMockPattern({
+  id: 'retry-backoff',
+  title: 'Retry with Exponential Backoff',
+  description: 'Retry failed operations with growing delays',
+  difficulty: 'intermediate',
+  tags: ['retry', 'resilience', 'database'],
+  useCases: [
+    'Calling flaky third-party APIs',
+    'Reconnecting to a database after a restart',
+  ],
+  relatedPatterns: ['circuit-breaker', 'missing-pattern'],
+  examples: [
+    {
+      language: 'typescript',
+      description: 'Retry an HTTP call',
+      code: [
+        'import { Effect, Schedule } from "effect";',
+        '',
+        'const program = Effect.tryPromise(() => fetch(url)).pipe(',
+        '  Effect.retry(Schedule.exponential("100 millis"))',
+        ');',
+      ].join('\n'),
+    },
+  ],
+});
+
+const circuitBreaker = createMockPattern({
+  id: 'circuit-breaker',
+  title: 'Circuit Breaker',
+  description: 'Stop calling a failing dependency for a while',
+});
+
+describe('buildExplanation', () => {
+  it('should be deterministic', () => {
+    const params = { pattern: retryPattern, patterns: [circuitBreaker] };
+    expect(buildExplanation(params)).toEqual(buildExplanation(params));
+  });
+
+  it('should produce a valid PatternExplanation', () => {
+    const explanation = buildExplanation({ pattern: retryPattern });
+    expect(() =>
+      S.decodeUnknownSync(PatternExplanation)(explanation)
+    ).not.toThrow();
+  });
+
+  it('should use the description as guideline and explain the category', () => {
+    const explanation = buildExplanation({ pattern: retryPattern });
+    expect(explanation.guideline).toBe(retryPattern.description);
+    expect(explanation.rationale).toContain('intermediate error-handling');
+  });
+
+  it('should summarize related patterns and keep unknown IDs', () => {
+    const explanation = buildExplanation({
+      pattern: retryPattern,
+      patterns: [retryPattern, circuitBreaker],
+    });
+    expect(explanation.relatedPatterns).toEqual([
+      {
+        id: 'circuit-breaker',
+        title: 'Circuit Breaker',
+        description: 'Stop calling a failing dependency for a while',
+      },
+      { id: 'missing-pattern' },
+    ]);
+  });
+
+  it('should annotate example code', () => {
+    const explanation = buildExplanation({ pattern: retryPattern });
+    expect(explanation.examples[0]?.code).toContain('// Effect.retry:');
+    expect(explanation.examples[0]?.description).toBe('Retry an HTTP call');
+  });
+
+  it('should leave use cases in order without context', () => {
+    const explanation = buildExplanation({ pattern: retryPattern });
+    expect(explanation.useCases).toEqual(retryPattern.useCases);
+    expect(explanation.context).toBeUndefined();
+  });
+
+  it('should put use cases matching the context first', () => {
+    const explanation = buildExplanation({
+      pattern: retryPattern,
+      context: 'our database restarts during deploys',
+    });
+    expect(explanation.useCases[0]).toBe(
+      'Reconnecting to a database after a restart'
+    );
+    expect(explanation.context?.matchedTags).toEqual(['database']);
+    expect(explanation.markdown).toContain('## For Your Context');
+  });
+
+  it('should say when nothing matches the context', () => {
+    const explanation = buildExplanation({
+      pattern: retryPattern,
+      context: 'rendering charts',
+    });
+    expect(explanation.context?.matchedUseCases).toEqual([]);
+    expect(explanation.context?.summary).toContain('None of');
+  });
+
+  it('should ignore a blank context', () => {
+    const explanation = buildExplanation({
+      pattern: retryPattern,
+      context: '   ',
+    });
+    expect(explanation.context).toBeUndefined();
+  });
+
+  it('should render every section as Markdown', () => {
+    const { markdown } = buildExplanation({
+      pattern: retryPattern,
+      patterns: [circuitBreaker],
+    });
+    expect(markdown).toMatch(/^# Retry with Exponential Backoff/);
+    expect(markdown).toContain('## Rationale');
+    expect(markdown).toContain('## Use Cases');
+    expect(markdown).toContain('```typescript');
+    expect(markdown).toContain('**Circuit Breaker** (`circuit-breaker`)');
+    expect(markdown).toContain('- `missing-pattern`');
+  });
+});
+
+describe('annotateCode', () => {
+  it('should annotate each API only once', () => {
+    const code = 'Effect.gen(a)\nEffect.gen(b)';
+    const lines = annotateCode(code).split('\n');
+    expect(lines.filter((l) => l.includes('// Effect.gen'))).toHaveLength(1);
+  });
+
+  it('should preserve indentation', () => {
+    expect(annotateCode('  Effect.sleep("1 second")')).toMatch(
+      /^ {2}\/\/ Effect\.sleep:/
+    );
+  });
+
+  it('should not match an API name inside a longer one', () => {
+    const annotated = annotateCode('Effect.tryPromise(() => fetch(url))');
+    expect(annotated).toContain('// Effect.tryPromise:');
+    expect(annotated).not.toContain('// Effect.try:');
+  });
+
+  it('should skip imports and comments', () => {
+    const code = 'import { Layer } from "effect"\n// Layer.succeed here';
+    expect(annotateCode(code)).toBe(code);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Format JSON Tests
+ *
+ * Tests for serializing JSON in the formatter's layout.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { formatJson } from '../src/formatJson.js';
+
+describe('formatJson', () => {
+  it('should expand objects and keep short arrays on one line', () => {
+    expect(formatJson({ id: 'a', tags: ['x', 'y'], nested: {} })).toBe(
+      '{\n  "id": "a",\n  "tags": ["x", "y"],\n  "nested": {}\n}'
+    );
+  });
+
+  it('should put each string on its own line when the array is too long', () => {
+    const words = Array.from({ length: 8 }, (_, i) => `word-number-${i}`);
+
+    const lines = formatJson({ words }).split('\n');
+
+    expect(lines).toHaveLength(words.length + 4);
+    expect(lines[2]).toBe('    "word-number-0",');
+  });
+
+  it('should fill lines with numbers when the array is too long', () => {
+    const vector = Array.from({ length: 40 }, (_, i) => i / 8);
+
+    const lines = formatJson({ vector }).split('\n');
+
+    expect(lines.length).toBeGreaterThan(3);
+    expect(lines.length).toBeLessThan(vector.length);
+    for (const line of lines) {
+      expect(line.length).toBeLessThanOrEqual(80);
+    }
+    expect(JSON.parse(lines.join('\n'))).toEqual({ vector });
+  });
+});
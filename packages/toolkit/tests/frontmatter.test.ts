@@ -0,0 +1,91 @@
+/**
+ * Frontmatter Codec Tests
+ *
+ * Tests for decoding published MDX frontmatter into Pattern metadata
+ * and encoding it back.
+ */
+
+import { Schema as S } from '@effect/schema';
+import { Either } from 'effect';
+import { describe, expect, it } from 'vitest';
+import {
+  PatternFromFrontmatter,
+  useCaseLabel,
+} from '../src/schemas/frontmatter.js';
+
+const frontmatter = {
+  title: 'Retry Flaky Calls',
+  id: 'retry-flaky-calls',
+  skillLevel: 'intermediate',
+  useCase: 'error-management',
+  summary: 'Retry operations that fail intermittently.',
+  tags: ['retry', 'schedule'],
+  rule: { description: 'Retry transient failures with a schedule.' },
+  related: ['timeouts'],
+  author: 'PaulJPhilp',
+};
+
+const decode = S.decodeUnknownEither(PatternFromFrontmatter);
+const encode = S.encodeEither(PatternFromFrontmatter);
+
+describe('PatternFromFrontmatter', () => {
+  it('should decode frontmatter into Pattern metadata', () => {
+    expect(Either.getOrThrow(decode(frontmatter))).toEqual({
+      id: 'retry-flaky-calls',
+      title: 'Retry Flaky Calls',
+      description: 'Retry operations that fail intermittently.',
+      category: 'error-handling',
+      difficulty: 'intermediate',
+      tags: ['retry', 'schedule'],
+      useCases: ['Error Management'],
+      relatedPatterns: ['timeouts'],
+      rule: { description: 'Retry transient failures with a schedule.' },
+      author: 'PaulJPhilp',
+    });
+  });
+
+  it('should encode back to the original frontmatter', () => {
+    const metadata = Either.getOrThrow(decode(frontmatter));
+
+    expect(Either.getOrThrow(encode(metadata))).toStrictEqual(frontmatter);
+  });
+
+  it('should round-trip several use cases and missing optional fields', () => {
+    const { rule: _, related: __, author: ___, ...minimal } = frontmatter;
+    const input = {
+      ...minimal,
+      useCase: ['project-setup--execution', 'testing'],
+    };
+    const metadata = Either.getOrThrow(decode(input));
+
+    expect(metadata.category).toBe('project-setup');
+    expect(Either.getOrThrow(encode(metadata))).toStrictEqual(input);
+  });
+
+  it('should reject unknown use cases on either side', () => {
+    const decoded = decode({ ...frontmatter, useCase: 'gardening' });
+    const metadata = Either.getOrThrow(decode(frontmatter));
+
+    expect(Either.isLeft(decoded) && decoded.left.message).toContain(
+      'Unknown useCase "gardening"'
+    );
+    expect(
+      Either.isLeft(encode({ ...metadata, useCases: ['Gardening'] }))
+    ).toBe(true);
+  });
+
+  it('should require tags', () => {
+    const { tags: _, ...untagged } = frontmatter;
+
+    expect(Either.isLeft(decode(untagged))).toBe(true);
+  });
+});
+
+describe('useCaseLabel', () => {
+  it('should humanize use case slugs', () => {
+    expect(useCaseLabel('project-setup--execution')).toBe(
+      'Project Setup & Execution'
+    );
+    expect(useCaseLabel('observability')).toBe('Observability');
+  });
+});
@@ -10,7 +10,7 @@ import * as path from 'node:path';
 import * as NodeFileSystem from '@effect/platform-node/NodeFileSystem';
 import { Effect } from 'effect';
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
-import { loadPatternsFromJson } from '../src/io.js';
+import { loadEmbeddingsFromJson, loadPatternsFromJson } from '../src/io.js';
 import type { PatternsIndex } from '../src/schemas/pattern.js';
 
 describe('loadPatternsFromJson', () => {
@@ -33,6 +33,7 @@ describe('loadPatternsFromJson', () => {
   describe('successful loading', () => {
     it('should load valid patterns.json file', async () => {
       const validData: PatternsIndex = {
+        schemaVersion: 2,
         version: '1.0.0',
         patterns: [
           {
@@ -222,6 +223,34 @@ describe('loadPatternsFromJson', () => {
       ).rejects.toThrow();
     });
 
+    it('should report invalid JSON as a recoverable failure', async () => {
+      fs.writeFileSync(testFilePath, '{ "patterns": [');
+
+      const error = await Effect.runPromise(
+        loadPatternsFromJson(testFilePath).pipe(
+          Effect.provide(NodeFileSystem.layer),
+          Effect.flip
+        )
+      );
+
+      expect(error).toBeInstanceOf(Error);
+    });
+
+    it('should fail on an index from a newer toolkit', async () => {
+      fs.writeFileSync(
+        testFilePath,
+        JSON.stringify({ schemaVersion: 99, patterns: [] })
+      );
+
+      await expect(
+        Effect.runPromise(
+          loadPatternsFromJson(testFilePath).pipe(
+            Effect.provide(NodeFileSystem.layer)
+          )
+        )
+      ).rejects.toThrow('Unsupported patterns index schemaVersion 99');
+    });
+
     it('should fail on empty file', async () => {
       fs.writeFileSync(testFilePath, '');
 
@@ -460,6 +489,11 @@ describe('loadPatternsFromJson', () => {
         'observability',
         'scheduling',
         'resource-management',
+        'core-concepts',
+        'domain-modeling',
+        'http',
+        'project-setup',
+        'tooling',
       ];
 
       for (const category of categories) {
@@ -552,3 +586,70 @@ describe('loadPatternsFromJson', () => {
     });
   });
 });
+
+describe('loadEmbeddingsFromJson', () => {
+  let testDir: string;
+  let testFilePath: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(tmpdir(), 'toolkit-test-'));
+    testFilePath = path.join(testDir, 'embeddings.json');
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testDir)) {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should load valid embeddings.json file', async () => {
+    const data = {
+      model: 'hashed-ngram-2',
+      dimensions: 2,
+      embeddings: [
+        {
+          id: 'test-pattern',
+          contentHash: '0123456789abcdef',
+          vector: [0.6, 0.8],
+        },
+      ],
+    };
+    fs.writeFileSync(testFilePath, JSON.stringify(data));
+
+    const result = await Effect.runPromise(
+      loadEmbeddingsFromJson(testFilePath).pipe(
+        Effect.provide(NodeFileSystem.layer)
+      )
+    );
+
+    expect(result).toEqual(data);
+  });
+
+  it('should fail on invalid JSON', async () => {
+    fs.writeFileSync(testFilePath, '{ invalid json }');
+
+    const error = await Effect.runPromise(
+      loadEmbeddingsFromJson(testFilePath).pipe(
+        Effect.provide(NodeFileSystem.layer),
+        Effect.flip
+      )
+    );
+
+    expect(error).toBeInstanceOf(Error);
+  });
+
+  it('should fail when vectors are missing', async () => {
+    fs.writeFileSync(
+      testFilePath,
+      JSON.stringify({ model: 'm', dimensions: 2, embeddings: [{ id: 'x' }] })
+    );
+
+    await expect(
+      Effect.runPromise(
+        loadEmbeddingsFromJson(testFilePath).pipe(
+          Effect.provide(NodeFileSystem.layer)
+        )
+      )
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Effect Linter Tests
+ *
+ * Tests for the AST-based lint rules and their fixes.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { applyLintFixes, LINT_RULES, lintSource } from '../src/lint.js';
+
+const rules = (fileName: string, code: string) =>
+  lintSource(fileName, code).map((issue) => issue.rule);
+
+const fix = (fileName: string, code: string) =>
+  applyLintFixes(code, lintSource(fileName, code)).content;
+
+describe('LINT_RULES', () => {
+  it('should have unique names', () => {
+    const names = LINT_RULES.map((rule) => rule.name);
+    expect(new Set(names).size).toBe(names.length);
+  });
+});
+
+describe('effect-explicit-concurrency', () => {
+  it('should report Effect.all without a concurrency option', () => {
+    const issues = lintSource(
+      'example.ts',
+      `import { Effect } from "effect";\n\nconst all = Effect.all([a, b]);\n`
+    );
+
+    expect(issues).toMatchObject([
+      {
+        rule: 'effect-explicit-concurrency',
+        severity: 'warning',
+        line: 3,
+        column: 13,
+      },
+    ]);
+  });
+
+  it('should see the option however the call is formatted', () => {
+    const code = `import { Effect } from "effect";
+
+const all = Effect.all(
+  [a, b],
+  {
+    // run both at once
+    concurrency:
+      "unbounded",
+  }
+);
+`;
+    expect(rules('example.ts', code)).toEqual([]);
+  });
+
+  it('should resolve aliased and namespace imports', () => {
+    expect(
+      rules(
+        'example.ts',
+        `import { Effect as E } from "effect";\nE.all([a, b]);\n`
+      )
+    ).toEqual(['effect-explicit-concurrency']);
+    expect(
+      rules(
+        'example.ts',
+        `import * as Fx from "effect/Effect";\nFx.all([a, b]);\n`
+      )
+    ).toEqual(['effect-explicit-concurrency']);
+    expect(
+      rules(
+        'example.ts',
+        `import { all } from "effect/Effect";\nall([a, b]);\n`
+      )
+    ).toEqual(['effect-explicit-concurrency']);
+  });
+
+  it('should ignore Effect imported from other packages', () => {
+    expect(
+      rules(
+        'example.ts',
+        `import { Effect } from "./my-effect";\nEffect.all([a, b]);\n`
+      )
+    ).toEqual([]);
+  });
+
+  it('should report errors in parallel patterns and skip sequential ones', () => {
+    const code = 'Effect.all([a, b]);\n';
+
+    expect(lintSource('run-in-parallel.ts', code)[0]?.severity).toBe('error');
+    expect(rules('run-sequential.ts', code)).toEqual([]);
+  });
+
+  it('should add the option, keeping the file quote style', () => {
+    expect(
+      fix(
+        'example.ts',
+        `import { Effect } from 'effect';\nEffect.all([a, b]);\n`
+      )
+    ).toBe(
+      `import { Effect } from 'effect';\nEffect.all([a, b], { concurrency: 'unbounded' });\n`
+    );
+    expect(
+      fix('example.ts', 'Effect.all({ a, b }, { mode: "either" });\n')
+    ).toBe(
+      'Effect.all({ a, b }, { concurrency: "unbounded", mode: "either" });\n'
+    );
+  });
+});
+
+describe('effect-use-taperror', () => {
+  it('should report catchAll handlers that only log', () => {
+    const code = `import { Effect } from "effect";
+
+const program = task.pipe(
+  Effect.catchAll((error) =>
+    Effect.gen(function* () {
+      yield* Effect.logError("failed", error);
+    })
+  )
+);
+`;
+    expect(lintSource('example.ts', code)).toMatchObject([
+      { rule: 'effect-use-taperror', line: 4, column: 3 },
+    ]);
+    expect(
+      rules('example.ts', 'Effect.catchAll(task, (e) => Console.error(e));\n')
+    ).toEqual(['effect-use-taperror']);
+  });
+
+  it('should not report handlers that recover or fail', () => {
+    const code = `const program = task.pipe(
+  Effect.catchAll((error) =>
+    Effect.gen(function* () {
+      yield* Effect.logError("failed", error);
+      return yield* Effect.succeed(fallback);
+    })
+  )
+);
+`;
+    expect(rules('example.ts', code)).toEqual([]);
+  });
+});
+
+describe('effect-deprecated-api', () => {
+  it('should report deprecated APIs', () => {
+    const code = `import { Effect, Option as O } from "effect";
+Effect.fromOption(value);
+O.cond(flag, () => 1);
+`;
+    expect(rules('example.ts', code)).toEqual([
+      'effect-deprecated-api',
+      'effect-deprecated-api',
+    ]);
+  });
+
+  it('should fix zip and matchTag, keeping aliases', () => {
+    expect(
+      fix(
+        'example.ts',
+        `import { Option as O } from "effect";\nO.zip(a, b);\nEffect.matchTag(x);\n`
+      )
+    ).toBe(
+      `import { Option as O } from "effect";\nO.all([a, b]);\nEffect.catchTags(x);\n`
+    );
+  });
+
+  it('should leave issues without a safe fix alone', () => {
+    const code = 'pipe(a, Option.zip(b));\n';
+    const issues = lintSource('example.ts', code);
+
+    expect(issues).toHaveLength(1);
+    expect(applyLintFixes(code, issues)).toEqual({ content: code, fixed: [] });
+  });
+});
+
+describe('effect-prefer-pipe', () => {
+  it('should report long method chains once', () => {
+    const code = 'const x = a.b().c().d().e().f();\n';
+
+    expect(rules('example.ts', code)).toEqual(['effect-prefer-pipe']);
+    expect(rules('example.ts', 'const x = a.b().c().d();\n')).toEqual([]);
+    expect(
+      rules('example.ts', 'const x = a.b().c().d().pipe(f).e();\n')
+    ).toEqual([]);
+  });
+});
+
+describe('effect-stream-memory', () => {
+  it('should only run on stream patterns', () => {
+    const code = 'const text = fs.readFileString(path);\n';
+
+    expect(rules('stream-file.ts', code)).toEqual(['effect-stream-memory']);
+    expect(rules('read-file.ts', code)).toEqual([]);
+  });
+
+  it('should allow streamed reads and intentional collection', () => {
+    const code = `const lines = fs.readFile(path).pipe(Stream.decodeText("utf-8"));
+// Intentionally collecting: the input is small
+const all = Stream.runCollect(lines);
+`;
+    expect(rules('stream-file.ts', code)).toEqual([]);
+  });
+});
+
+describe('effect-error-model', () => {
+  it('should report generic errors', () => {
+    const code = `import { Effect } from "effect";
+const fail = Effect.fail(new Error("boom"));
+declare const load: Effect.Effect<string, Error>;
+`;
+    expect(lintSource('example.ts', code)).toMatchObject([
+      { rule: 'effect-error-model', line: 2, column: 30 },
+      { rule: 'effect-error-model', line: 3, column: 43 },
+    ]);
+  });
+
+  it('should skip anti-pattern examples', () => {
+    const code = `// Anti-Pattern: untyped errors
+const fail = Effect.fail(new Error("boom"));
+`;
+    expect(rules('example.ts', code)).toEqual([]);
+  });
+});
+
+describe('rule severities', () => {
+  it('should replace reported severities and skip rules set to off', () => {
+    const code = 'const x = a.b().c().d().e().f(Effect.all([a]));\n';
+    const issues = lintSource('parallel.ts', code, {
+      rules: {
+        'effect-prefer-pipe': 'off',
+        'effect-explicit-concurrency': 'info',
+      },
+    });
+
+    expect(issues).toMatchObject([
+      { rule: 'effect-explicit-concurrency', severity: 'info' },
+    ]);
+  });
+});
+
+describe('ep-lint-disable-next-line', () => {
+  it('should suppress the listed rules on the next line', () => {
+    const code = `// ep-lint-disable-next-line effect-explicit-concurrency -- small input
+const both = Effect.all([a, b]);
+const x = a.b().c().d().e().f(); // ep-lint-disable-next-line effect-prefer-pipe
+const y = Effect.all([a, b]).b().c().d().e();
+`;
+    expect(lintSource('example.ts', code)).toMatchObject([
+      { rule: 'effect-prefer-pipe', line: 3 },
+      { rule: 'effect-explicit-concurrency', line: 4 },
+    ]);
+  });
+
+  it('should suppress every rule when none are listed', () => {
+    const code = `function f() {
+  /* ep-lint-disable-next-line */
+  return Effect.all([a, b]).b().c().d().e();
+}
+`;
+    expect(rules('example.ts', code)).toEqual([]);
+  });
+
+  it('should ignore the directive in strings', () => {
+    const code = `const note = "// ep-lint-disable-next-line";
+const both = Effect.all([a, b]);
+`;
+    expect(rules('example.ts', code)).toEqual(['effect-explicit-concurrency']);
+  });
+});
+
+describe('applyLintFixes', () => {
+  it('should fix every non-overlapping issue', () => {
+    const code = 'Effect.all([Effect.all([a]), b]);\n';
+    const { content, fixed } = applyLintFixes(
+      code,
+      lintSource('example.ts', code)
+    );
+
+    expect(fixed).toHaveLength(2);
+    expect(content).toBe(
+      'Effect.all([Effect.all([a], { concurrency: "unbounded" }), b], { concurrency: "unbounded" });\n'
+    );
+    expect(rules('example.ts', content)).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Lint Baseline Tests
+ *
+ * Tests for creating, reading and applying lint baselines.
+ */
+
+import { Either } from 'effect';
+import { describe, expect, it } from 'vitest';
+import type { LintIssue } from '../src/lint.js';
+import {
+  applyLintBaseline,
+  createLintBaseline,
+  formatLintBaseline,
+  parseLintBaseline,
+} from '../src/lintBaseline.js';
+
+const issue = (rule: string, line: number, message = rule): LintIssue => ({
+  rule,
+  severity: 'warning',
+  message,
+  line,
+  column: 1,
+});
+
+const results = [
+  { file: 'src/b.ts', issues: [issue('x', 1), issue('x', 5)] },
+  { file: 'src/a.ts', issues: [issue('y', 2)] },
+];
+
+describe('createLintBaseline', () => {
+  it('should count issues by file, rule and message', () => {
+    expect(createLintBaseline(results)).toEqual({
+      baselineVersion: 1,
+      issues: [
+        { file: 'src/a.ts', rule: 'y', message: 'y', count: 1 },
+        { file: 'src/b.ts', rule: 'x', message: 'x', count: 2 },
+      ],
+    });
+  });
+});
+
+describe('parseLintBaseline', () => {
+  it('should round-trip through formatLintBaseline', () => {
+    const baseline = createLintBaseline(results);
+
+    expect(parseLintBaseline(formatLintBaseline(baseline))).toEqual(
+      Either.right(baseline)
+    );
+  });
+
+  it('should reject invalid baselines', () => {
+    const invalid = parseLintBaseline('[');
+    const badCount = parseLintBaseline(
+      '{"baselineVersion":1,"issues":[{"file":"a","rule":"r","message":"m","count":0}]}'
+    );
+
+    expect(Either.isLeft(invalid) && invalid.left._tag).toBe(
+      'LintBaselineError'
+    );
+    expect(Either.isLeft(badCount)).toBe(true);
+  });
+});
+
+describe('applyLintBaseline', () => {
+  it('should suppress known issues wherever they moved', () => {
+    const baseline = createLintBaseline(results);
+    const moved = [
+      { file: 'src/b.ts', issues: [issue('x', 10), issue('x', 20)] },
+      { file: 'src/a.ts', issues: [issue('y', 1)] },
+    ];
+
+    expect(applyLintBaseline(moved, baseline)).toEqual({
+      results: [
+        { file: 'src/b.ts', issues: [] },
+        { file: 'src/a.ts', issues: [] },
+      ],
+      suppressed: 3,
+    });
+  });
+
+  it('should keep new issues', () => {
+    const baseline = createLintBaseline(results);
+    const next = [
+      {
+        file: 'src/b.ts',
+        issues: [issue('x', 1), issue('x', 5), issue('x', 9)],
+      },
+      { file: 'src/a.ts', issues: [issue('y', 2, 'other message')] },
+      { file: 'src/c.ts', issues: [issue('x', 1)] },
+    ];
+    const { results: remaining, suppressed } = applyLintBaseline(
+      next,
+      baseline
+    );
+
+    expect(suppressed).toBe(2);
+    expect(remaining.map((result) => result.issues)).toEqual([
+      [issue('x', 9)],
+      [issue('y', 2, 'other message')],
+      [issue('x', 1)],
+    ]);
+  });
+});
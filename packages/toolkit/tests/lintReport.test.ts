@@ -0,0 +1,180 @@
+/**
+ * Lint Report Tests
+ *
+ * Tests for the JSON, SARIF, JUnit and GitHub Actions lint reports.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { LINT_RULES, lintSource } from '../src/lint.js';
+import {
+  formatLintGithub,
+  formatLintJson,
+  formatLintJunit,
+  formatLintReport,
+  formatLintSarif,
+  type LintFileResult,
+  summarizeLintResults,
+} from '../src/lintReport.js';
+
+const code = `import { Effect } from "effect";
+const both = Effect.all([a, b]);
+const value = Effect.fromOption(option);
+`;
+
+const results: LintFileResult[] = [
+  { file: 'src/program.ts', issues: lintSource('program.ts', code) },
+  { file: 'src/clean.ts', issues: [] },
+];
+
+describe('summarizeLintResults', () => {
+  it('should count issues by severity', () => {
+    expect(summarizeLintResults(results)).toEqual({
+      files: 2,
+      errors: 1,
+      warnings: 1,
+      info: 0,
+    });
+  });
+});
+
+describe('formatLintJson', () => {
+  it('should report the summary and issues without fix edits', () => {
+    const report = JSON.parse(formatLintJson(results, { suppressed: 3 }));
+
+    expect(report.summary).toEqual({
+      files: 2,
+      errors: 1,
+      warnings: 1,
+      info: 0,
+      suppressed: 3,
+    });
+    expect(report.results[0].issues[0]).toEqual({
+      rule: 'effect-explicit-concurrency',
+      severity: 'warning',
+      message:
+        'Effect.all should explicitly specify concurrency option (default is sequential)',
+      line: 2,
+      column: 14,
+      suggestion: "Add: { concurrency: 'unbounded' } or { concurrency: N }",
+      fixable: true,
+    });
+  });
+});
+
+describe('formatLintSarif', () => {
+  it('should produce a SARIF 2.1.0 run with rule metadata', () => {
+    const log = JSON.parse(formatLintSarif(results, { toolVersion: '0.4.0' }));
+    const [run] = log.runs;
+
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.version).toBe('0.4.0');
+    expect(run.tool.driver.rules).toHaveLength(LINT_RULES.length);
+    expect(run.tool.driver.rules[2]).toEqual({
+      id: 'effect-deprecated-api',
+      shortDescription: { text: LINT_RULES[2]?.description },
+      defaultConfiguration: { level: 'error' },
+      properties: { fixable: true },
+    });
+    expect(run.results[1]).toMatchObject({
+      ruleId: 'effect-deprecated-api',
+      ruleIndex: 2,
+      level: 'error',
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'src/program.ts' },
+            region: { startLine: 3, startColumn: 15 },
+          },
+        },
+      ],
+    });
+  });
+
+  it('should include fixes as replacements', () => {
+    const [run] = JSON.parse(formatLintSarif(results)).runs;
+    const [change] = run.results[0].fixes[0].artifactChanges;
+    const offset = code.indexOf(']);') + 1;
+
+    expect(change.replacements).toEqual([
+      {
+        deletedRegion: { charOffset: offset, charLength: 0 },
+        insertedContent: { text: ', { concurrency: "unbounded" }' },
+      },
+    ]);
+  });
+});
+
+describe('formatLintJunit', () => {
+  it('should report a failing test case per issue', () => {
+    const xml = formatLintJunit(results);
+
+    expect(xml).toContain(
+      '<testsuites name="Effect Patterns Linter" tests="3" failures="2">'
+    );
+    expect(xml).toContain(
+      '<testsuite name="src/program.ts" tests="2" failures="2">'
+    );
+    expect(xml).toContain('type="error">src/program.ts:3:15');
+    expect(xml).toContain(
+      '<testcase name="Effect Patterns Linter" classname="src/clean.ts"/>'
+    );
+  });
+
+  it('should escape XML', () => {
+    const xml = formatLintJunit([
+      {
+        file: 'a&b.ts',
+        issues: [
+          {
+            rule: 'r',
+            severity: 'error',
+            message: '<"bad">',
+            line: 1,
+            column: 1,
+          },
+        ],
+      },
+    ]);
+
+    expect(xml).toContain('name="a&amp;b.ts"');
+    expect(xml).toContain('message="&lt;&quot;bad&quot;&gt;"');
+  });
+});
+
+describe('formatLintGithub', () => {
+  it('should emit a workflow command per issue', () => {
+    expect(formatLintGithub(results).split('\n')[1]).toBe(
+      '::error file=src/program.ts,line=3,col=15,title=effect-deprecated-api::Effect.fromOption is deprecated%0AUse Option.match with Effect.succeed/Effect.fail instead'
+    );
+  });
+
+  it('should escape properties and data', () => {
+    expect(
+      formatLintGithub([
+        {
+          file: 'a,b:c.ts',
+          issues: [
+            {
+              rule: 'r',
+              severity: 'info',
+              message: '100%\r\ndone',
+              line: 1,
+              column: 1,
+            },
+          ],
+        },
+      ])
+    ).toBe(
+      '::notice file=a%2Cb%3Ac.ts,line=1,col=1,title=r::100%25%0D%0Adone\n'
+    );
+  });
+});
+
+describe('formatLintReport', () => {
+  it('should dispatch on the format', () => {
+    expect(formatLintReport('github', results)).toBe(formatLintGithub(results));
+    expect(formatLintReport('json', results, { suppressed: 1 })).toBe(
+      formatLintJson(results, { suppressed: 1 })
+    );
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Rules Lockfile Tests
+ *
+ * Tests for reading and writing ep.lock.json, comparing installed
+ * rules with a new bundle and detecting local edits.
+ */
+
+import { Either } from 'effect';
+import { describe, expect, it } from 'vitest';
+import {
+  applyManagedBlock,
+  contentHash,
+  renderRuleBundle,
+} from '../src/bundles.js';
+import {
+  diffRuleDigests,
+  emptyRulesLockfile,
+  findLocalEdits,
+  findStaleFiles,
+  formatRulesLockfile,
+  hasRuleChanges,
+  lockRuleBundle,
+  parseRulesLockfile,
+} from '../src/lockfile.js';
+import type { Rule } from '../src/schemas/api.js';
+
+const rule = (id: string, content = `# ${id}`): Rule => ({
+  id,
+  title: id,
+  description: '',
+  content,
+});
+
+const source = {
+  source: 'http://localhost:3001',
+  filters: { skillLevel: 'beginner' },
+  installedAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('parseRulesLockfile', () => {
+  it('should round-trip through formatRulesLockfile', () => {
+    const lockfile = {
+      ...emptyRulesLockfile,
+      tools: {
+        goose: lockRuleBundle(renderRuleBundle('goose', [rule('a')]), source),
+        agents: lockRuleBundle(renderRuleBundle('agents', [rule('b')]), source),
+      },
+    };
+    const json = formatRulesLockfile(lockfile);
+
+    expect(Object.keys(JSON.parse(json).tools)).toEqual(['agents', 'goose']);
+    expect(parseRulesLockfile(json)).toEqual(Either.right(lockfile));
+  });
+
+  it('should reject invalid JSON and unknown versions', () => {
+    const invalid = parseRulesLockfile('{');
+    const future = parseRulesLockfile('{"lockfileVersion":2,"tools":{}}');
+
+    expect(Either.isLeft(invalid) && invalid.left._tag).toBe(
+      'RulesLockfileError'
+    );
+    expect(Either.isLeft(future)).toBe(true);
+  });
+});
+
+describe('lockRuleBundle', () => {
+  it('should record the source, rules and file hashes', () => {
+    const bundle = renderRuleBundle('cursor-mdc', [rule('a'), rule('b')]);
+
+    expect(lockRuleBundle(bundle, source)).toEqual({
+      ...source,
+      version: bundle.version,
+      rules: bundle.rules,
+      files: [
+        {
+          path: '.cursor/rules/a.mdc',
+          mode: 'replace',
+          hash: contentHash('# a'),
+        },
+        {
+          path: '.cursor/rules/b.mdc',
+          mode: 'replace',
+          hash: contentHash('# b'),
+        },
+      ],
+    });
+  });
+});
+
+describe('diffRuleDigests', () => {
+  it('should report added, removed and changed rules', () => {
+    const installed = renderRuleBundle('cursor', [rule('a'), rule('b')]);
+    const next = renderRuleBundle('cursor', [
+      rule('c'),
+      rule('b', '# b, edited'),
+    ]);
+    const changes = diffRuleDigests(installed.rules, next.rules);
+
+    expect(changes).toEqual({ added: ['c'], removed: ['a'], changed: ['b'] });
+    expect(hasRuleChanges(changes)).toBe(true);
+    expect(
+      hasRuleChanges(diffRuleDigests(installed.rules, installed.rules))
+    ).toBe(false);
+  });
+});
+
+describe('findLocalEdits', () => {
+  const bundle = renderRuleBundle('goose', [rule('a')]);
+  const lock = lockRuleBundle(bundle, source);
+  const block = bundle.files[0]?.content ?? '';
+
+  it('should ignore edits outside the managed block', () => {
+    const current = new Map([
+      ['.goosehints', applyManagedBlock('# Mine, edited', block)],
+    ]);
+
+    expect(findLocalEdits(lock, current)).toEqual([]);
+  });
+
+  it('should report edits inside the managed block', () => {
+    const current = new Map([
+      [
+        '.goosehints',
+        applyManagedBlock('# Mine', block.replace('# a', '# mine')),
+      ],
+    ]);
+
+    expect(findLocalEdits(lock, current)).toEqual(['.goosehints']);
+  });
+
+  it('should not report missing files or blocks', () => {
+    expect(findLocalEdits(lock, new Map())).toEqual([]);
+    expect(findLocalEdits(lock, new Map([['.goosehints', '# Mine']]))).toEqual(
+      []
+    );
+  });
+
+  it('should report edited replaced files', () => {
+    const mdc = lockRuleBundle(
+      renderRuleBundle('cursor-mdc', [rule('a')]),
+      source
+    );
+
+    expect(
+      findLocalEdits(mdc, new Map([['.cursor/rules/a.mdc', '# a, mine']]))
+    ).toEqual(['.cursor/rules/a.mdc']);
+  });
+});
+
+describe('findStaleFiles', () => {
+  it('should list files the new bundle no longer writes', () => {
+    const lock = lockRuleBundle(
+      renderRuleBundle('cursor-mdc', [rule('a'), rule('b')]),
+      source
+    );
+
+    expect(
+      findStaleFiles(lock, renderRuleBundle('cursor-mdc', [rule('b')]))
+    ).toEqual([lock.files[0]]);
+  });
+});
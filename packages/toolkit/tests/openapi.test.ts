@@ -0,0 +1,179 @@
+/**
+ * OpenAPI Document Tests
+ *
+ * Tests for document generation from the toolkit Schemas, operation
+ * lookup and response contract checking.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  API_OPERATIONS,
+  buildOpenApiDocument,
+  checkResponseContract,
+  findApiOperation,
+  type JsonObject,
+} from '../src/openapi.js';
+
+const document = buildOpenApiDocument();
+const paths = document.paths as Record<string, Record<string, JsonObject>>;
+const schemas = (document.components as { schemas: Record<string, unknown> })
+  .schemas;
+
+describe('buildOpenApiDocument', () => {
+  it('should produce an OpenAPI 3.1 document for every operation', () => {
+    expect(document.openapi).toBe('3.1.0');
+
+    for (const operation of API_OPERATIONS) {
+      expect(paths[operation.path]?.[operation.method]?.operationId).toBe(
+        operation.operationId
+      );
+    }
+  });
+
+  it('should resolve every $ref to a component schema', () => {
+    const refs = JSON.stringify(document).match(/"#\/[^"]+"/g) ?? [];
+
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) {
+      const name = ref.slice(1, -1).replace('#/components/schemas/', '');
+      expect(schemas).toHaveProperty(name);
+    }
+  });
+
+  it('should document query parameters from the request Schema', () => {
+    const parameters = paths['/api/patterns']?.get?.parameters as JsonObject[];
+
+    expect(parameters.map((p) => p.name)).toEqual(
+      expect.arrayContaining(['q', 'category', 'difficulty', 'limit', 'mode'])
+    );
+    expect(parameters.find((p) => p.name === 'mode')?.schema).toEqual({
+      enum: ['lexical', 'semantic', 'hybrid'],
+    });
+  });
+
+  it('should mark authenticated operations with their scope', () => {
+    expect(paths['/api/generate']?.post?.['x-required-scope']).toBe('generate');
+    expect(paths['/api/health']?.get?.security).toEqual([]);
+  });
+
+  it('should serve rules operations from the rules server', () => {
+    expect(paths['/api/v1/rules']?.get?.servers).toEqual([
+      { url: 'http://localhost:3001' },
+    ]);
+  });
+
+  it('should document bodiless responses and response headers', () => {
+    const responses = paths['/api/v1/rules']?.get?.responses as Record<
+      string,
+      JsonObject
+    >;
+
+    expect(responses['304']).not.toHaveProperty('content');
+    expect(responses['200']?.headers).toHaveProperty('ETag');
+    expect(responses['200']?.headers).toHaveProperty('Link');
+  });
+});
+
+describe('findApiOperation', () => {
+  it('should match path templates', () => {
+    expect(
+      findApiOperation('GET', '/api/patterns/retry-backoff')?.operationId
+    ).toBe('getPattern');
+    expect(
+      findApiOperation('POST', '/api/patterns/retry-backoff')
+    ).toBeUndefined();
+    expect(findApiOperation('GET', '/api/v1/rules?limit=10')?.operationId).toBe(
+      'listRules'
+    );
+  });
+});
+
+describe('checkResponseContract', () => {
+  const generated = {
+    patternId: 'retry-backoff',
+    title: 'Retry with Backoff',
+    snippet: 'const x = 1;',
+    files: [{ path: 'retry-backoff.ts', content: 'const x = 1;' }],
+    timestamp: '2025-01-01T00:00:00.000Z',
+  };
+
+  it('should accept a conforming response', () => {
+    expect(
+      checkResponseContract({
+        method: 'POST',
+        path: '/api/generate',
+        status: 200,
+        body: generated,
+      })
+    ).toBeUndefined();
+  });
+
+  it('should reject missing and undocumented fields', () => {
+    const { snippet: _, ...missing } = generated;
+
+    expect(
+      checkResponseContract({
+        method: 'POST',
+        path: '/api/generate',
+        status: 200,
+        body: missing,
+      })
+    ).toContain('snippet');
+    expect(
+      checkResponseContract({
+        method: 'POST',
+        path: '/api/generate',
+        status: 200,
+        body: { ...generated, code: 'const x = 1;' },
+      })
+    ).toContain('code');
+  });
+
+  it('should reject undocumented statuses and operations', () => {
+    expect(
+      checkResponseContract({
+        method: 'GET',
+        path: '/api/health',
+        status: 404,
+        body: {},
+      })
+    ).toContain('Undocumented status');
+    expect(
+      checkResponseContract({
+        method: 'GET',
+        path: '/api/unknown',
+        status: 200,
+        body: {},
+      })
+    ).toContain('Undocumented operation');
+  });
+
+  it('should require an empty body for bodiless responses', () => {
+    const notModified = { method: 'GET', path: '/api/v1/rules', status: 304 };
+
+    expect(
+      checkResponseContract({ ...notModified, body: undefined })
+    ).toBeUndefined();
+    expect(checkResponseContract({ ...notModified, body: [] })).toContain(
+      'no body'
+    );
+  });
+
+  it('should check problem details', () => {
+    expect(
+      checkResponseContract({
+        method: 'GET',
+        path: '/api/patterns/missing',
+        status: 404,
+        body: {
+          type: '/problems/v1/pattern-not-found',
+          title: 'Pattern Not Found',
+          status: 404,
+          detail: 'Pattern not found: missing',
+          patternId: 'missing',
+          instance: '/api/patterns/missing',
+        },
+      })
+    ).toBeUndefined();
+  });
+});
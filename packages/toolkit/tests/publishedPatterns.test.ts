@@ -0,0 +1,221 @@
+/**
+ * Published Pattern Mapping Tests
+ *
+ * Tests for mapping published MDX frontmatter and Good Example code
+ * blocks onto the Pattern schema, and for building the index.
+ */
+
+import { Either } from 'effect';
+import { describe, expect, it } from 'vitest';
+import {
+  buildPatternsIndex,
+  extractExamples,
+  mapPublishedPattern,
+  type PublishedPatternSource,
+} from '../src/publishedPatterns.js';
+import { PATTERNS_INDEX_SCHEMA_VERSION } from '../src/schemas/pattern.js';
+
+const BODY = [
+  '## Guideline',
+  '',
+  'Use retries.',
+  '',
+  '```typescript',
+  'const notAnExample = 1;',
+  '```',
+  '',
+  '## Good Example',
+  '',
+  'Retry a flaky call three times.',
+  '',
+  '````typescript',
+  'import { Effect, Schedule } from "effect";',
+  '',
+  '```ts',
+  'nested fence inside a comment',
+  '```',
+  '````',
+  '',
+  '```',
+  'sample output',
+  '```',
+  '',
+  '## Anti-Pattern',
+  '',
+  '```typescript',
+  'const bad = 1;',
+  '```',
+].join('\n');
+
+const createSource = (
+  frontmatter: Record<string, unknown> = {},
+  body = BODY
+): PublishedPatternSource => ({
+  path: `content/published/${String(frontmatter.id ?? 'retry-flaky-calls')}.mdx`,
+  frontmatter: {
+    id: 'retry-flaky-calls',
+    title: 'Retry Flaky Calls',
+    skillLevel: 'intermediate',
+    useCase: 'error-management',
+    summary: 'Retry operations that fail intermittently.',
+    tags: ['retry'],
+    rule: { description: 'Retry transient failures with a schedule.' },
+    related: ['timeouts'],
+    author: 'PaulJPhilp',
+    ...frontmatter,
+  },
+  body,
+});
+
+describe('extractExamples', () => {
+  it('should extract only Good Example code blocks with a language', () => {
+    expect(extractExamples(BODY)).toEqual([
+      {
+        language: 'typescript',
+        code: 'import { Effect, Schedule } from "effect";\n\n```ts\nnested fence inside a comment\n```',
+        description: 'Retry a flaky call three times.',
+      },
+    ]);
+  });
+
+  it('should describe examples by their heading title', () => {
+    const examples = extractExamples(
+      [
+        '## Good Example 1: `Queue` for a Work Pool',
+        '',
+        '```typescript',
+        'const a = 1;',
+        '```',
+        '',
+        '## Good Example (The Effect Way)',
+        '',
+        '```ts',
+        'const b = 2;',
+        '```',
+      ].join('\n')
+    );
+
+    expect(examples).toEqual([
+      {
+        language: 'typescript',
+        code: 'const a = 1;',
+        description: '`Queue` for a Work Pool',
+      },
+      {
+        language: 'typescript',
+        code: 'const b = 2;',
+        description: 'The Effect Way',
+      },
+    ]);
+  });
+});
+
+describe('mapPublishedPattern', () => {
+  it('should map frontmatter onto the Pattern schema', () => {
+    const pattern = Either.getOrThrow(mapPublishedPattern(createSource()));
+
+    expect(pattern).toMatchObject({
+      id: 'retry-flaky-calls',
+      title: 'Retry Flaky Calls',
+      description: 'Retry operations that fail intermittently.',
+      category: 'error-handling',
+      difficulty: 'intermediate',
+      tags: ['retry'],
+      useCases: ['Error Management'],
+      relatedPatterns: ['timeouts'],
+      rule: { description: 'Retry transient failures with a schedule.' },
+      author: 'PaulJPhilp',
+    });
+    expect(pattern.examples).toHaveLength(1);
+  });
+
+  it('should take the category from the first of several use cases', () => {
+    const pattern = Either.getOrThrow(
+      mapPublishedPattern(
+        createSource({ useCase: ['project-setup--execution', 'testing'] })
+      )
+    );
+
+    expect(pattern.category).toBe('project-setup');
+    expect(pattern.useCases).toEqual(['Project Setup & Execution', 'Testing']);
+  });
+
+  it('should reject unknown use cases and skill levels', () => {
+    const unknownUseCase = mapPublishedPattern(
+      createSource({ useCase: 'gardening' })
+    );
+    const unknownLevel = mapPublishedPattern(
+      createSource({ skillLevel: 'expert' })
+    );
+
+    expect(
+      Either.isLeft(unknownUseCase) && unknownUseCase.left.message
+    ).toContain('Unknown useCase "gardening"');
+    expect(Either.isLeft(unknownLevel) && unknownLevel.left.message).toContain(
+      'skillLevel'
+    );
+  });
+
+  it('should reject patterns without Good Example code', () => {
+    const result = mapPublishedPattern(
+      createSource({}, '## Good Example\n\nNo code here.')
+    );
+
+    expect(Either.isLeft(result) && result.left.path).toBe(
+      'content/published/retry-flaky-calls.mdx'
+    );
+  });
+});
+
+describe('buildPatternsIndex', () => {
+  it('should build a sorted, versioned index', () => {
+    const build = Either.getOrThrow(
+      buildPatternsIndex(
+        [
+          createSource({ id: 'timeouts', related: [] }),
+          createSource({ related: ['timeouts', 'unpublished'] }),
+        ],
+        { lastUpdated: '2025-01-01T00:00:00.000Z' }
+      )
+    );
+
+    expect(build.index.patterns.map((p) => p.id)).toEqual([
+      'retry-flaky-calls',
+      'timeouts',
+    ]);
+    expect(build.index.patterns[0]?.relatedPatterns).toEqual(['timeouts']);
+    expect(build.index.schemaVersion).toBe(PATTERNS_INDEX_SCHEMA_VERSION);
+    expect(build.index.lastUpdated).toBe('2025-01-01T00:00:00.000Z');
+    expect(build.index.version).toHaveLength(12);
+    expect(build.warnings).toEqual([
+      'retry-flaky-calls: related pattern "unpublished" is not published',
+    ]);
+  });
+
+  it('should keep the version while content is unchanged', () => {
+    const version = (lastUpdated: string) =>
+      Either.getOrThrow(buildPatternsIndex([createSource()], { lastUpdated }))
+        .index.version;
+
+    expect(version('2025-01-01T00:00:00.000Z')).toBe(
+      version('2025-06-01T00:00:00.000Z')
+    );
+  });
+
+  it('should report every unmappable pattern and duplicate id', () => {
+    const result = buildPatternsIndex([
+      createSource(),
+      createSource({ title: 'Duplicate' }),
+      createSource({ id: 'broken', useCase: 'gardening' }),
+    ]);
+
+    expect(Either.isLeft(result)).toBe(true);
+    if (Either.isLeft(result)) {
+      expect(result.left.message).toBe('2 of 3 patterns could not be mapped');
+      expect(result.left.failures.map((f) => f.message)).toEqual([
+        expect.stringContaining('Duplicate id "retry-flaky-calls"'),
+        expect.stringContaining('Unknown useCase'),
+      ]);
+    }
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Rules Query Tests
+ *
+ * Tests for filtering and paging rules, query decoding and conditional
+ * request handling for /api/v1/rules.
+ */
+
+import { Either } from 'effect';
+import { describe, expect, it } from 'vitest';
+import {
+  decodeRulesCursor,
+  decodeRulesQuery,
+  encodeRulesCursor,
+  entityTag,
+  isNotModified,
+  queryRules,
+} from '../src/rules.js';
+import type { Rule } from '../src/schemas/api.js';
+
+const rule = (id: string, overrides: Partial<Rule> = {}): Rule => ({
+  id,
+  title: id,
+  description: '',
+  content: `# ${id}`,
+  ...overrides,
+});
+
+const rules: Rule[] = [
+  rule('use-schedule', {
+    skillLevel: 'intermediate',
+    useCase: ['error-management'],
+    description: 'Retry with a Schedule',
+  }),
+  rule('access-config', { skillLevel: 'beginner', useCase: ['core-concepts'] }),
+  rule('handle-errors', {
+    skillLevel: 'Beginner',
+    useCase: ['Error-Management', 'core-concepts'],
+  }),
+  rule('stream-files'),
+];
+
+const query = (params: Record<string, string>) =>
+  Either.getOrThrow(decodeRulesQuery(params));
+
+const ids = (params: Record<string, string>) =>
+  Either.getOrThrow(queryRules(rules, query(params))).rules.map((r) => r.id);
+
+describe('queryRules', () => {
+  it('should return every rule ordered by ID without parameters', () => {
+    const page = Either.getOrThrow(queryRules(rules, {}));
+
+    expect(page.rules.map((r) => r.id)).toEqual([
+      'access-config',
+      'handle-errors',
+      'stream-files',
+      'use-schedule',
+    ]);
+    expect(page.total).toBe(4);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it('should filter by skill level and use case, ignoring case', () => {
+    expect(ids({ skillLevel: 'BEGINNER' })).toEqual([
+      'access-config',
+      'handle-errors',
+    ]);
+    expect(ids({ useCase: 'error-management' })).toEqual([
+      'handle-errors',
+      'use-schedule',
+    ]);
+    expect(
+      ids({ skillLevel: 'beginner', useCase: 'error-management' })
+    ).toEqual(['handle-errors']);
+  });
+
+  it('should require every query word', () => {
+    expect(ids({ q: 'retry schedule' })).toEqual(['use-schedule']);
+    expect(ids({ q: 'retry files' })).toEqual([]);
+  });
+
+  it('should page with cursors until the last page', () => {
+    const first = Either.getOrThrow(queryRules(rules, query({ limit: '3' })));
+    const second = Either.getOrThrow(
+      queryRules(rules, query({ limit: '3', cursor: first.nextCursor ?? '' }))
+    );
+
+    expect(first.rules).toHaveLength(3);
+    expect(first.total).toBe(4);
+    expect(second.rules.map((r) => r.id)).toEqual(['use-schedule']);
+    expect(second.total).toBe(4);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('should keep paging after the cursor rule is removed', () => {
+    const cursor = encodeRulesCursor('handle-errors');
+    const remaining = rules.filter((r) => r.id !== 'handle-errors');
+    const page = Either.getOrThrow(
+      queryRules(remaining, query({ cursor, limit: '1' }))
+    );
+
+    expect(page.rules.map((r) => r.id)).toEqual(['stream-files']);
+  });
+});
+
+describe('decodeRulesQuery', () => {
+  it('should reject out-of-range limits', () => {
+    for (const limit of ['0', '1.5', '1000', 'ten']) {
+      const result = decodeRulesQuery({ limit });
+
+      expect(Either.isLeft(result) && result.left.message).toContain('limit');
+    }
+  });
+});
+
+describe('decodeRulesCursor', () => {
+  it('should round-trip IDs and reject malformed cursors', () => {
+    expect(Either.getOrThrow(decodeRulesCursor(encodeRulesCursor('a-b')))).toBe(
+      'a-b'
+    );
+    expect(Either.isLeft(decodeRulesCursor('not a cursor!'))).toBe(true);
+    expect(Either.isLeft(decodeRulesCursor(''))).toBe(true);
+  });
+});
+
+describe('isNotModified', () => {
+  const current = {
+    etag: entityTag('[]'),
+    lastModified: new Date('2025-01-01T00:00:00.500Z'),
+  };
+
+  it('should match entity tags, including weak and wildcard tags', () => {
+    expect(isNotModified({ ifNoneMatch: current.etag }, current)).toBe(true);
+    expect(
+      isNotModified({ ifNoneMatch: `"other", W/${current.etag}` }, current)
+    ).toBe(true);
+    expect(isNotModified({ ifNoneMatch: '*' }, current)).toBe(true);
+    expect(isNotModified({ ifNoneMatch: '"other"' }, current)).toBe(false);
+  });
+
+  it('should compare modification dates to the second', () => {
+    expect(
+      isNotModified(
+        { ifModifiedSince: 'Wed, 01 Jan 2025 00:00:00 GMT' },
+        current
+      )
+    ).toBe(true);
+    expect(
+      isNotModified(
+        { ifModifiedSince: 'Tue, 31 Dec 2024 23:59:59 GMT' },
+        current
+      )
+    ).toBe(false);
+    expect(isNotModified({ ifModifiedSince: 'yesterday' }, current)).toBe(
+      false
+    );
+  });
+
+  it('should let If-None-Match take precedence', () => {
+    expect(
+      isNotModified(
+        {
+          ifNoneMatch: '"other"',
+          ifModifiedSince: 'Wed, 01 Jan 2025 00:00:00 GMT',
+        },
+        current
+      )
+    ).toBe(false);
+  });
+});
@@ -20,6 +20,7 @@ import {
   PatternCategory,
   PatternSummary,
   PatternsIndex,
+  PatternsIndexFromJson,
 } from '../src/schemas/pattern.js';
 
 describe('Pattern schemas', () => {
@@ -36,6 +37,11 @@ describe('Pattern schemas', () => {
         'observability',
         'scheduling',
         'resource-management',
+        'core-concepts',
+        'domain-modeling',
+        'http',
+        'project-setup',
+        'tooling',
       ];
 
       for (const category of validCategories) {
@@ -266,6 +272,7 @@ describe('Pattern schemas', () => {
 
   describe('PatternsIndex', () => {
     const validIndex = {
+      schemaVersion: 2,
       version: '1.0.0',
       patterns: [
         {
@@ -292,6 +299,7 @@ describe('Pattern schemas', () => {
 
     it('should allow missing optional fields', async () => {
       const minimal = {
+        schemaVersion: 2,
         patterns: validIndex.patterns,
       };
 
@@ -322,6 +330,7 @@ describe('Pattern schemas', () => {
 
     it('should allow empty patterns array', async () => {
       const empty = {
+        schemaVersion: 2,
         patterns: [],
       };
 
@@ -329,6 +338,55 @@ describe('Pattern schemas', () => {
       expect(result.patterns).toHaveLength(0);
     });
   });
+
+  describe('PatternsIndexFromJson', () => {
+    const patterns = [
+      {
+        id: 'test',
+        title: 'Test',
+        description: 'Test',
+        category: 'error-handling',
+        difficulty: 'beginner',
+        tags: [],
+        examples: [],
+        useCases: [],
+      },
+    ];
+
+    it('should migrate a version 1 index (no schemaVersion)', async () => {
+      const result = await Effect.runPromise(
+        S.decodeUnknown(PatternsIndexFromJson)({ version: '1.0.0', patterns })
+      );
+
+      expect(result.schemaVersion).toBe(2);
+      expect(result.version).toBe('1.0.0');
+      expect(result.patterns).toHaveLength(1);
+    });
+
+    it('should decode a current index unchanged', async () => {
+      const result = await Effect.runPromise(
+        S.decodeUnknown(PatternsIndexFromJson)({ schemaVersion: 2, patterns })
+      );
+
+      expect(result.patterns[0]?.id).toBe('test');
+    });
+
+    it('should reject newer and malformed schema versions', async () => {
+      await expect(
+        Effect.runPromise(
+          S.decodeUnknown(PatternsIndexFromJson)({ schemaVersion: 3, patterns })
+        )
+      ).rejects.toThrow('Unsupported patterns index schemaVersion 3');
+      await expect(
+        Effect.runPromise(
+          S.decodeUnknown(PatternsIndexFromJson)({
+            schemaVersion: '2',
+            patterns,
+          })
+        )
+      ).rejects.toThrow('Unsupported patterns index schemaVersion "2"');
+    });
+  });
 });
 
 describe('Generate schemas', () => {
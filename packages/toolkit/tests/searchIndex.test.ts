@@ -0,0 +1,226 @@
+/**
+ * Search Index Tests
+ *
+ * Tests for tokenization, stemming, BM25F ranking, typo tolerance,
+ * highlights and index serialization.
+ */
+
+import { Schema as S } from '@effect/schema';
+import { describe, expect, it } from 'vitest';
+import type { Pattern } from '../src/schemas/pattern.js';
+import { SearchIndex } from '../src/schemas/search.js';
+import {
+  buildSearchIndex,
+  querySearchIndex,
+  SEARCH_INDEX_VERSION,
+} from '../src/searchIndex.js';
+import { splitWords, stem, tokenize } from '../src/tokenize.js';
+
+// Test fixtures
+const createMockPattern = (overrides: Partial<Pattern> = {}): Pattern => ({
+  id: 'test-pattern',
+  title: 'Test Pattern',
+  description: 'A test pattern for unit testing',
+  category: 'error-handling',
+  difficulty: 'beginner',
+  tags: ['test'],
+  examples: [],
+  useCases: [],
+  ...overrides,
+});
+
+const mockPatterns: Pattern[] = [
+  createMockPattern({
+    id: 'retry-backoff',
+    title: 'Retry with Exponential Backoff',
+    description: 'Retry failed operations with exponentially growing delays',
+    category: 'error-handling',
+    difficulty: 'intermediate',
+    tags: ['retry', 'resilience', 'schedule'],
+    examples: [
+      {
+        language: 'typescript',
+        code: 'Effect.retry(apiCall, Schedule.exponential("100 millis"))',
+      },
+    ],
+    useCases: ['API calls that may fail due to network issues'],
+  }),
+  createMockPattern({
+    id: 'retry-fixed',
+    title: 'Retry a Fixed Number of Times',
+    description: 'Retry an effect a bounded number of times',
+    category: 'error-handling',
+    difficulty: 'beginner',
+    tags: ['retry'],
+  }),
+  createMockPattern({
+    id: 'concurrent-batch',
+    title: 'Concurrent Batch Processing',
+    description: 'Process large datasets in concurrent batches',
+    category: 'concurrency',
+    difficulty: 'intermediate',
+    tags: ['concurrency', 'batching', 'parallel'],
+    examples: [
+      {
+        language: 'typescript',
+        code: 'Effect.forEach(items, processItem, { concurrency: 10 })',
+      },
+    ],
+  }),
+  createMockPattern({
+    id: 'interrupt-fiber',
+    title: 'Interrupting Fibers',
+    description: 'Stop a running fiber when the caller aborts the request',
+    category: 'concurrency',
+    difficulty: 'advanced',
+    tags: ['fiber', 'interruption'],
+  }),
+];
+
+describe('tokenize', () => {
+  it('should split camelCase and dotted identifiers', () => {
+    expect(splitWords('Effect.retryOrElse')).toEqual([
+      'effect',
+      'retry',
+      'or',
+      'else',
+    ]);
+  });
+
+  it('should drop stop words', () => {
+    const terms = tokenize('how do I retry with backoff').map((t) => t.term);
+    expect(terms).toEqual(['retri', 'backoff']);
+  });
+
+  it('should keep the lowercased surface form', () => {
+    expect(tokenize('Retries')[0]).toEqual({
+      term: 'retri',
+      surface: 'retries',
+    });
+  });
+
+  it('should conflate inflections to the same stem', () => {
+    expect(stem('retries')).toBe(stem('retry'));
+    expect(stem('retrying')).toBe(stem('retry'));
+    expect(stem('batching')).toBe(stem('batch'));
+    expect(stem('batches')).toBe(stem('batch'));
+    expect(stem('concurrency')).toBe(stem('concurrent'));
+    expect(stem('validation')).toBe(stem('validate'));
+  });
+
+  it('should leave short words and numbers untouched', () => {
+    expect(stem('use')).toBe('use');
+    expect(stem('v3')).toBe('v3');
+    expect(stem('100ms')).toBe('100ms');
+  });
+});
+
+describe('buildSearchIndex', () => {
+  it('should index every pattern', () => {
+    const index = buildSearchIndex(mockPatterns);
+    expect(index.version).toBe(SEARCH_INDEX_VERSION);
+    expect(index.documents.map((d) => d.id)).toEqual(
+      mockPatterns.map((p) => p.id)
+    );
+  });
+
+  it('should produce an index that round-trips through JSON', () => {
+    const index = buildSearchIndex(mockPatterns);
+    const decoded = S.decodeUnknownSync(SearchIndex)(
+      JSON.parse(JSON.stringify(index))
+    );
+
+    expect(querySearchIndex(decoded, { query: 'retry' })).toEqual(
+      querySearchIndex(index, { query: 'retry' })
+    );
+  });
+
+  it('should apply custom field weights', () => {
+    const index = buildSearchIndex(mockPatterns, {
+      fieldWeights: { code: 10 },
+    });
+    expect(index.fieldWeights[index.fields.indexOf('code')]).toBe(10);
+  });
+
+  it('should handle an empty pattern list', () => {
+    const index = buildSearchIndex([]);
+    expect(querySearchIndex(index, { query: 'retry' })).toEqual([]);
+  });
+});
+
+describe('querySearchIndex', () => {
+  const index = buildSearchIndex(mockPatterns);
+
+  it('should rank documents matching more query terms first', () => {
+    const hits = querySearchIndex(index, { query: 'retry with backoff' });
+    expect(hits.map((h) => h.id)).toEqual(['retry-backoff', 'retry-fixed']);
+    expect(hits[0]?.score).toBeGreaterThan(hits[1]?.score ?? 0);
+  });
+
+  it('should match words from example code', () => {
+    const hits = querySearchIndex(index, { query: 'forEach' });
+    expect(hits.map((h) => h.id)).toEqual(['concurrent-batch']);
+  });
+
+  it('should find intent-style queries through stemming', () => {
+    const hits = querySearchIndex(index, {
+      query: 'stop fibers when the request is aborted',
+    });
+    expect(hits[0]?.id).toBe('interrupt-fiber');
+  });
+
+  it('should tolerate typos', () => {
+    const hits = querySearchIndex(index, { query: 'concurent' });
+    expect(hits[0]?.id).toBe('concurrent-batch');
+  });
+
+  it('should not tolerate typos when fuzzy matching is disabled', () => {
+    const hits = querySearchIndex(index, { query: 'concurent', fuzzy: false });
+    expect(hits).toHaveLength(0);
+  });
+
+  it('should rank exact matches above typo matches', () => {
+    const typo = querySearchIndex(index, { query: 'exponentail' });
+    const exact = querySearchIndex(index, { query: 'exponential' });
+    expect(typo[0]?.id).toBe('retry-backoff');
+    expect(typo[0]?.score).toBeLessThan(exact[0]?.score ?? 0);
+  });
+
+  it('should report matched fields as highlights', () => {
+    const [hit] = querySearchIndex(index, { query: 'backoff' });
+    expect(hit?.highlights).toEqual([{ field: 'title', terms: ['backoff'] }]);
+  });
+
+  it('should apply category and difficulty filters', () => {
+    const hits = querySearchIndex(index, {
+      query: 'retry',
+      difficulty: 'BEGINNER',
+    });
+    expect(hits.map((h) => h.id)).toEqual(['retry-fixed']);
+
+    const byCategory = querySearchIndex(index, { category: 'concurrency' });
+    expect(byCategory.map((h) => h.id)).toEqual([
+      'concurrent-batch',
+      'interrupt-fiber',
+    ]);
+  });
+
+  it('should return all documents with zero score for an empty query', () => {
+    const hits = querySearchIndex(index, { query: '   ' });
+    expect(hits).toHaveLength(mockPatterns.length);
+    expect(hits.every((h) => h.score === 0)).toBe(true);
+  });
+
+  it('should match nothing for a stop-word-only query', () => {
+    expect(querySearchIndex(index, { query: 'how do I' })).toEqual([]);
+  });
+
+  it('should not match Object.prototype keys', () => {
+    expect(querySearchIndex(index, { query: 'constructor' })).toEqual([]);
+  });
+
+  it('should apply limit after ranking', () => {
+    const hits = querySearchIndex(index, { query: 'retry', limit: 1 });
+    expect(hits).toHaveLength(1);
+  });
+});
@@ -5,10 +5,13 @@
  * and module type handling.
  */
 
+import { Either } from 'effect';
 import { describe, expect, it } from 'vitest';
 import type { Pattern } from '../src/schemas/pattern.js';
 import {
   buildSnippet,
+  buildSnippetFiles,
+  ExampleNotFoundError,
   generateUsageExample,
   sanitizeInput,
 } from '../src/template.js';
@@ -105,11 +108,12 @@ describe('buildSnippet', () => {
       expect(snippet).toContain(`// Pattern ID: ${pattern.id}`);
     });
 
-    it('should include import statement', () => {
+    it('should include the imports the example uses', () => {
       const pattern = createMockPattern();
       const snippet = buildSnippet({ pattern });
 
-      expect(snippet).toContain('import { Effect, pipe } from "effect"');
+      expect(snippet).toContain('import { Effect } from "effect"');
+      expect(snippet).not.toContain('pipe');
     });
 
     it('should include example code', () => {
@@ -140,7 +144,7 @@ describe('buildSnippet', () => {
       const pattern = createMockPattern();
       const snippet = buildSnippet({ pattern });
 
-      expect(snippet).toContain('import { Effect, pipe } from "effect"');
+      expect(snippet).toContain('import { Effect } from "effect"');
       expect(snippet).not.toContain('require');
     });
 
@@ -148,16 +152,17 @@ describe('buildSnippet', () => {
       const pattern = createMockPattern();
       const snippet = buildSnippet({ pattern, moduleType: 'esm' });
 
-      expect(snippet).toContain('import { Effect, pipe } from "effect"');
+      expect(snippet).toContain('import { Effect } from "effect"');
     });
 
     it('should generate CJS requires when specified', () => {
       const pattern = createMockPattern();
       const snippet = buildSnippet({ pattern, moduleType: 'cjs' });
 
-      expect(snippet).toContain('const { Effect, pipe } = require("effect")');
-      // Note: The example code itself may contain import statements,
-      // but the header should use require
+      expect(snippet).toContain('const { Effect } = require("effect")');
+      expect(snippet).toContain('module.exports = { example };');
+      expect(snippet).not.toContain('import ');
+      expect(snippet).not.toContain('export ');
     });
   });
 
@@ -171,7 +176,10 @@ describe('buildSnippet', () => {
 
     it('should sanitize custom name', () => {
       const pattern = createMockPattern();
-      const snippet = buildSnippet({ pattern, customName: "<script>alert('xss')</script>" });
+      const snippet = buildSnippet({
+        pattern,
+        customName: "<script>alert('xss')</script>",
+      });
 
       expect(snippet).not.toContain('<script>');
       expect(snippet).not.toContain('>');
@@ -196,7 +204,10 @@ describe('buildSnippet', () => {
   describe('custom input parameter', () => {
     it('should use custom input value', () => {
       const pattern = createMockPattern();
-      const snippet = buildSnippet({ pattern, customInput: 'customInputValue' });
+      const snippet = buildSnippet({
+        pattern,
+        customInput: 'customInputValue',
+      });
 
       expect(snippet).toContain('customInputValue');
     });
@@ -229,7 +240,7 @@ describe('buildSnippet', () => {
       const pattern = createMockPattern();
       const snippet = buildSnippet({
         pattern,
-        effectVersion: '3.0.0'
+        effectVersion: '3.0.0',
       });
 
       expect(snippet).toContain('// Effect version: 3.0.0');
@@ -250,7 +261,7 @@ describe('buildSnippet', () => {
 
       expect(snippet).toContain(`// ${pattern.title}`);
       expect(snippet).toContain(`// ${pattern.description}`);
-      expect(snippet).toContain('import { Effect, pipe } from "effect"');
+      expect(snippet).toContain('import { Effect } from "effect"');
     });
 
     it('should include pattern ID in placeholder', () => {
@@ -285,7 +296,7 @@ describe('buildSnippet', () => {
       const pattern = createMockPattern({ examples: [] });
       const snippet = buildSnippet({ pattern, moduleType: 'cjs' });
 
-      expect(snippet).toContain('const { Effect, pipe } = require');
+      expect(snippet).toContain('const { Effect } = require');
       expect(snippet).toContain('module.exports');
     });
   });
@@ -360,7 +371,7 @@ export { step2 };`,
         customName: 'customName',
         customInput: 'customInput',
         moduleType: 'cjs',
-        effectVersion: '3.0.0'
+        effectVersion: '3.0.0',
       });
 
       expect(snippet).toContain('customName');
@@ -376,7 +387,7 @@ export { step2 };`,
         customName: '<name>',
         customInput: '`input`',
         moduleType: 'esm',
-        effectVersion: '3.0.0'
+        effectVersion: '3.0.0',
       });
 
       expect(snippet).not.toContain('<name>');
@@ -385,6 +396,239 @@ export { step2 };`,
   });
 });
 
+describe('buildSnippet example selection', () => {
+  const pattern = createMockPattern({
+    examples: [
+      {
+        language: 'typescript',
+        code: 'const first = 1;',
+        description: 'Basic usage',
+      },
+      {
+        language: 'typescript',
+        code: 'const second = 2;',
+        description: 'With a Layer',
+      },
+    ],
+  });
+
+  it('should select an example by index', () => {
+    const snippet = buildSnippet({ pattern, exampleIndex: 1 });
+
+    expect(snippet).toContain('const second');
+    expect(snippet).not.toContain('const first');
+  });
+
+  it('should select an example by description', () => {
+    const snippet = buildSnippet({ pattern, exampleDescription: 'layer' });
+
+    expect(snippet).toContain('// With a Layer');
+    expect(snippet).toContain('const second');
+  });
+
+  it('should fail when the requested example does not exist', () => {
+    const byIndex = buildSnippetFiles({ pattern, exampleIndex: 2 });
+    const byDescription = buildSnippetFiles({
+      pattern,
+      exampleDescription: 'stream',
+    });
+
+    expect(Either.isLeft(byIndex)).toBe(true);
+    expect(Either.isLeft(byDescription)).toBe(true);
+    expect(() => buildSnippet({ pattern, exampleIndex: 2 })).toThrow(
+      ExampleNotFoundError
+    );
+  });
+});
+
+describe('buildSnippet imports', () => {
+  it('should add Effect modules the example uses without importing', () => {
+    const pattern = createMockPattern({
+      examples: [
+        {
+          language: 'typescript',
+          code: 'const example = Effect.succeed(1).pipe(Effect.retry(Schedule.recurs(3)));',
+        },
+      ],
+    });
+
+    const snippet = buildSnippet({ pattern });
+    expect(snippet).toContain('import { Effect, Schedule } from "effect";');
+  });
+
+  it('should drop unused imports and keep other modules', () => {
+    const pattern = createMockPattern({
+      examples: [
+        {
+          language: 'typescript',
+          code: [
+            'import { Effect, Layer, pipe } from "effect";',
+            'import { NodeRuntime } from "@effect/platform-node";',
+            'import * as fs from "node:fs";',
+            '',
+            'const example = Effect.log("hi");',
+            'NodeRuntime.runMain(example);',
+          ].join('\n'),
+        },
+      ],
+    });
+
+    const snippet = buildSnippet({ pattern });
+    expect(snippet).toContain('import { Effect } from "effect";');
+    expect(snippet).toContain(
+      'import { NodeRuntime } from "@effect/platform-node";'
+    );
+    expect(snippet).not.toContain('Layer');
+    expect(snippet).not.toContain('node:fs');
+  });
+
+  it('should not shadow JavaScript globals', () => {
+    const pattern = createMockPattern({
+      examples: [
+        {
+          language: 'typescript',
+          code: 'const example = Effect.succeed(Array.from(String(1)));',
+        },
+      ],
+    });
+
+    const snippet = buildSnippet({ pattern });
+    expect(snippet).toContain('import { Effect } from "effect";');
+  });
+});
+
+describe('buildSnippet renaming', () => {
+  const pattern = createMockPattern({
+    examples: [
+      {
+        language: 'typescript',
+        code: [
+          'export const retryRequest = Effect.succeed("input");',
+          'const twice = (retryRequest: number) => retryRequest * 2;',
+          'const config = { retryRequest, label: "retryRequest" };',
+          'config.retryRequest;',
+        ].join('\n'),
+      },
+    ],
+  });
+
+  it('should rename only references to the main binding', () => {
+    const snippet = buildSnippet({ pattern, customName: 'fetchWithRetry' });
+
+    expect(snippet).toContain('export const fetchWithRetry =');
+    expect(snippet).toContain(
+      'const twice = (retryRequest: number) => retryRequest * 2;'
+    );
+    expect(snippet).toContain(
+      '{ retryRequest: fetchWithRetry, label: "retryRequest" }'
+    );
+    expect(snippet).toContain('config.retryRequest;');
+  });
+
+  it('should avoid names already used in the example', () => {
+    const snippet = buildSnippet({ pattern, customName: 'twice' });
+
+    expect(snippet).toContain('export const twice2 =');
+  });
+
+  it('should turn the custom name into a valid identifier', () => {
+    const snippet = buildSnippet({ pattern, customName: 'fetch with-retry' });
+
+    expect(snippet).toContain('export const fetchwithretry =');
+  });
+});
+
+describe('buildSnippetFiles', () => {
+  it('should return only the snippet by default', () => {
+    const files = Either.getOrThrow(
+      buildSnippetFiles({ pattern: createMockPattern() })
+    );
+
+    expect(files.map((file) => file.path)).toEqual(['test-pattern.ts']);
+  });
+
+  it('should emit a companion @effect/vitest test', () => {
+    const files = Either.getOrThrow(
+      buildSnippetFiles({
+        pattern: createMockPattern(),
+        customName: 'myEffect',
+        includeTest: true,
+      })
+    );
+
+    expect(files.map((file) => file.path)).toEqual([
+      'test-pattern.ts',
+      'test-pattern.test.ts',
+    ]);
+    const test = files[1]?.content ?? '';
+    expect(test).toContain('from "@effect/vitest"');
+    expect(test).toContain('import { myEffect } from "./test-pattern";');
+    expect(test).toContain('yield* myEffect');
+  });
+
+  it('should require the snippet from a CommonJS companion test', () => {
+    const files = Either.getOrThrow(
+      buildSnippetFiles({
+        pattern: createMockPattern(),
+        moduleType: 'cjs',
+        includeTest: true,
+      })
+    );
+
+    const test = files[1]?.content ?? '';
+    expect(test).toContain(
+      'const { describe, expect, it } = require("@effect/vitest");'
+    );
+    expect(test).toContain('const { example } = require("./test-pattern");');
+  });
+
+  it('should export the main binding for the test to import', () => {
+    const files = Either.getOrThrow(
+      buildSnippetFiles({
+        pattern: createMockPattern({
+          examples: [
+            {
+              language: 'typescript',
+              code: 'const greet = (name: string) => `Hello ${name}`;',
+            },
+          ],
+        }),
+        includeTest: true,
+      })
+    );
+
+    expect(files[0]?.content).toContain('export { greet };');
+    expect(files[1]?.content).toContain(
+      'expect(typeof greet).toBe("function");'
+    );
+  });
+
+  it('should not run values built by an Effect runner', () => {
+    const files = Either.getOrThrow(
+      buildSnippetFiles({
+        pattern: createMockPattern({
+          examples: [
+            {
+              language: 'typescript',
+              code: [
+                'import { Effect, Layer } from "effect";',
+                'const runtime = Effect.runSync(',
+                '  Layer.toRuntime(Layer.empty).pipe(Effect.scoped)',
+                ');',
+              ].join('\n'),
+            },
+          ],
+        }),
+        includeTest: true,
+      })
+    );
+
+    const test = files[1]?.content ?? '';
+    expect(test).not.toContain('yield* runtime');
+    expect(test).toContain('expect(runtime).toBeDefined();');
+  });
+});
+
 describe('generateUsageExample', () => {
   it('should generate example with title and description', () => {
     const pattern = createMockPattern();
@@ -0,0 +1,141 @@
+/**
+ * Snippet Typecheck Tests
+ *
+ * Tests for the in-process language service checker and effect
+ * version resolution.
+ */
+
+import { Effect, Either } from 'effect';
+import { describe, expect, it } from 'vitest';
+import type { Pattern } from '../src/schemas/pattern.js';
+import { buildSnippetFiles } from '../src/template.js';
+import {
+  bundledEffectTypes,
+  makeSnippetChecker,
+  resolveEffectVersion,
+} from '../src/typecheck.js';
+
+// The first check parses the effect declarations
+const FIRST_CHECK_TIMEOUT = 30_000;
+
+const checker = makeSnippetChecker();
+const [bundledVersion = ''] = Object.keys(bundledEffectTypes());
+
+const check = (content: string, effectVersion?: string) =>
+  Effect.runPromise(
+    checker.check([{ path: 'snippet.ts', content }], { effectVersion })
+  );
+
+const pattern: Pattern = {
+  id: 'retry-backoff',
+  title: 'Retry with Backoff',
+  description: 'Retry failed effects',
+  category: 'error-handling',
+  difficulty: 'intermediate',
+  tags: ['retry'],
+  examples: [
+    {
+      language: 'typescript',
+      code: [
+        'import { Effect, Schedule } from "effect";',
+        '',
+        'const example = Effect.succeed("input").pipe(',
+        '  Effect.retry(Schedule.recurs(3))',
+        ');',
+      ].join('\n'),
+    },
+  ],
+  useCases: ['Flaky calls'],
+};
+
+describe('SnippetChecker', () => {
+  it(
+    'should accept a snippet that compiles',
+    async () => {
+      const result = await check(
+        'import { Effect } from "effect";\n\nexport const program = Effect.succeed(1).pipe(Effect.map((n) => n + 1));\n'
+      );
+
+      expect(result).toEqual({
+        ok: true,
+        effectVersion: bundledVersion,
+        diagnostics: [],
+      });
+    },
+    FIRST_CHECK_TIMEOUT
+  );
+
+  it('should report type errors with 1-based positions', async () => {
+    const result = await check(
+      'import { Effect } from "effect";\n\nexport const n: number = Effect.succeed("a");\n'
+    );
+
+    expect(result.ok).toBe(false);
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        path: 'snippet.ts',
+        line: 3,
+        column: 14,
+        code: 2322,
+        category: 'error',
+      }),
+    ]);
+  });
+
+  it('should not forget files between checks', async () => {
+    await check('export const a: string = 1;\n');
+    const result = await check('export const a: string = "a";\n');
+
+    expect(result.ok).toBe(true);
+  });
+
+  it('should treat packages without bundled types as untyped', async () => {
+    const result = await check(
+      'import { z } from "zod";\n\nexport const schema = z.string();\n'
+    );
+
+    expect(result.ok).toBe(true);
+  });
+
+  it('should warn when the requested effect version is not bundled', async () => {
+    const result = await check('export const a = 1;\n', '2.0.0');
+
+    expect(result.ok).toBe(true);
+    expect(result.effectVersion).toBe(bundledVersion);
+    expect(result.diagnostics[0]).toMatchObject({
+      category: 'warning',
+      message: `effect 2.0.0 types are not bundled; checked against ${bundledVersion}`,
+    });
+  });
+
+  it.each(['esm', 'cjs'] as const)(
+    'should accept generated %s snippets and their companion tests',
+    async (moduleType) => {
+      const files = Either.getOrThrow(
+        buildSnippetFiles({ pattern, moduleType, includeTest: true })
+      );
+      const result = await Effect.runPromise(checker.check(files));
+
+      expect(result.diagnostics).toEqual([]);
+    }
+  );
+});
+
+describe('resolveEffectVersion', () => {
+  const available = ['3.10.2', '3.17.1', '3.17.9'];
+
+  it('should prefer an exact match', () => {
+    expect(resolveEffectVersion('3.17.1', available)).toBe('3.17.1');
+    expect(resolveEffectVersion('^3.10.2', available)).toBe('3.10.2');
+  });
+
+  it('should fall back to the same minor, then the newest', () => {
+    expect(resolveEffectVersion('3.17.4', available)).toBe('3.17.9');
+    expect(resolveEffectVersion('3.22.0', available)).toBe('3.17.9');
+    expect(resolveEffectVersion(undefined, available)).toBe('3.17.9');
+  });
+
+  it('should return undefined when nothing is bundled', () => {
+    expect(resolveEffectVersion('3.17.1', [])).toBeUndefined();
+  });
+});
@@ -75,6 +75,9 @@ describe('ep install add command', () => {
     try {
       await fs.rm(TEST_DIR, { recursive: true });
     } catch {}
+
+    // Clean up the lockfile written by install add
+    await fs.rm('ep.lock.json', { force: true });
   });
 
   describe('Tool Validation', () => {
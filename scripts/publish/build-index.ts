@@ -0,0 +1,144 @@
+/**
+ * build-index.ts
+ *
+ * Compiles every published pattern (content/published/*.mdx) into the
+ * toolkit PatternsIndex loaded by the MCP servers:
+ * - data/patterns-index.json (mcp-server-stdio)
+ * - services/mcp-server/data/patterns.json (mcp-server)
+ *
+ * Frontmatter is mapped onto the toolkit Pattern schema and the
+ * `## Good Example` code blocks become `examples`. The build fails (and
+ * nothing is written) if any pattern cannot be mapped.
+ *
+ * The mcp-server's semantic search vectors are then written to
+ * services/mcp-server/data/embeddings.json with the same embedder the
+ * server uses; vectors of unchanged patterns are kept from the previous
+ * file.
+ *
+ * Files are written in the formatter's layout. A file whose content is
+ * unchanged is left alone, keeping its `lastUpdated` (or `createdAt`)
+ * timestamp, so rebuilding makes no diff.
+ *
+ * Usage:
+ * ```bash
+ * bun run ep admin index build
+ * ```
+ */
+
+import { Effect, Either, Option } from 'effect';
+import * as fs from 'fs/promises';
+import matter from 'gray-matter';
+import * as path from 'path';
+import { HashedEmbedderLive } from '../../packages/toolkit/src/embedding.js';
+import { makeEmbeddingIndex } from '../../packages/toolkit/src/embeddingIndex.js';
+import { formatJson } from '../../packages/toolkit/src/formatJson.js';
+import { loadEmbeddingsFromJsonRunnable } from '../../packages/toolkit/src/io.js';
+import {
+  buildPatternsIndex,
+  type PublishedPatternSource,
+} from '../../packages/toolkit/src/publishedPatterns.js';
+import type { Pattern } from '../../packages/toolkit/src/schemas/pattern.js';
+
+// --- CONFIGURATION ---
+const PUBLISHED_DIR = path.join(process.cwd(), 'content/published');
+const OUTPUT_PATHS = [
+  path.join(process.cwd(), 'data/patterns-index.json'),
+  path.join(process.cwd(), 'services/mcp-server/data/patterns.json'),
+];
+const EMBEDDINGS_PATH = path.join(
+  process.cwd(),
+  'services/mcp-server/data/embeddings.json'
+);
+
+// --- OUTPUT ---
+
+/**
+ * Write `data` with `stampKey` set to the current time, unless the file
+ * already holds the same data
+ */
+async function writeStampedJson(
+  filePath: string,
+  data: object,
+  stampKey: string
+) {
+  const render = (at: string) => `${formatJson({ ...data, [stampKey]: at })}\n`;
+  const relativePath = path.relative(process.cwd(), filePath);
+
+  const previous = await fs.readFile(filePath, 'utf-8').catch(() => '');
+  const stamp = Either.getOrUndefined(
+    Either.try(() => JSON.parse(previous)[stampKey])
+  );
+  if (typeof stamp === 'string' && render(stamp) === previous) {
+    console.log(`✅ ${relativePath} is up to date`);
+    return;
+  }
+
+  await fs.writeFile(filePath, render(new Date().toISOString()));
+  console.log(`✅ Wrote ${relativePath}`);
+}
+
+// --- EMBEDDINGS ---
+
+/**
+ * Embed the patterns with the mcp-server's embedder (keep the two in
+ * sync), reusing the previous vectors of unchanged patterns
+ */
+async function writeEmbeddings(patterns: readonly Pattern[]) {
+  const previous = await Effect.runPromise(
+    loadEmbeddingsFromJsonRunnable(EMBEDDINGS_PATH).pipe(Effect.option)
+  );
+  const { embeddings } = await Effect.runPromise(
+    makeEmbeddingIndex(patterns, {
+      precomputed: Option.getOrUndefined(previous),
+    }).pipe(Effect.provide(HashedEmbedderLive))
+  );
+
+  await writeStampedJson(EMBEDDINGS_PATH, embeddings, 'createdAt');
+}
+
+// --- MAIN EXECUTION ---
+async function main() {
+  const files = (await fs.readdir(PUBLISHED_DIR))
+    .filter((file) => file.endsWith('.mdx'))
+    .sort();
+
+  const sources: PublishedPatternSource[] = [];
+  for (const file of files) {
+    const filePath = path.join(PUBLISHED_DIR, file);
+    const { data, content } = matter(await fs.readFile(filePath, 'utf-8'));
+    sources.push({
+      path: path.relative(process.cwd(), filePath),
+      frontmatter: data,
+      body: content,
+    });
+  }
+
+  const result = buildPatternsIndex(sources);
+
+  if (Either.isLeft(result)) {
+    console.error(`❌ ${result.left.message}:`);
+    for (const failure of result.left.failures) {
+      console.error(`  ${failure.path}: ${failure.message}`);
+    }
+    process.exit(1);
+  }
+
+  const { index, warnings } = result.right;
+  for (const warning of warnings) {
+    console.warn(`⚠️  ${warning}`);
+  }
+
+  for (const outputPath of OUTPUT_PATHS) {
+    await writeStampedJson(outputPath, index, 'lastUpdated');
+  }
+  await writeEmbeddings(index.patterns);
+
+  console.log(
+    `\n✨ Indexed ${index.patterns.length} patterns (version ${index.version})`
+  );
+}
+
+main().catch((error) => {
+  console.error('❌ Index build failed:', error);
+  process.exit(1);
+});
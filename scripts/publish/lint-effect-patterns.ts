@@ -9,29 +9,54 @@
  * - Non-idiomatic Effect patterns
  *
  * Complements Biome's general linting with Effect-specific checks.
+ * The rules live in the toolkit (`lintSource`), shared with `ep lint`.
+ *
+ * Options:
+ *   --format text|json|sarif|junit|github   Report format (default: text)
+ *   --max-warnings <n>                      Fail when there are more warnings
+ *   --baseline <file>                       Suppress issues recorded in <file>
+ *   --update-baseline                       Record the current issues in the baseline
+ *                                           (--baseline or ep-lint-baseline.json)
  */
 
+import { Either } from 'effect';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { type LintIssue, lintSource } from '../../packages/toolkit/src/lint.js';
+import {
+  applyLintBaseline,
+  createLintBaseline,
+  formatLintBaseline,
+  LINT_BASELINE_NAME,
+  parseLintBaseline,
+} from '../../packages/toolkit/src/lintBaseline.js';
+import {
+  formatLintReport,
+  LINT_REPORT_FORMATS,
+  type LintFileResult,
+  type LintReportFormat,
+  summarizeLintResults,
+} from '../../packages/toolkit/src/lintReport.js';
 
 // --- CONFIGURATION ---
 const NEW_SRC_DIR = path.join(process.cwd(), 'content/new/src');
 const PUBLISHED_SRC_DIR = path.join(process.cwd(), 'content/src');
 const CONCURRENCY = 10;
 
-// --- TYPES ---
-interface LintIssue {
-  rule: string;
-  severity: 'error' | 'warning' | 'info';
-  message: string;
-  line: number;
-  column: number;
-  suggestion?: string;
+// --- ARGUMENTS ---
+function argValue(flag: string): string | undefined {
+  const idx = process.argv.indexOf(flag);
+  return idx >= 0 && idx + 1 < process.argv.length
+    ? process.argv[idx + 1]
+    : undefined;
+}
+
+function hasFlag(flag: string): boolean {
+  return process.argv.includes(flag);
 }
 
-interface LintResult {
-  file: string;
-  issues: LintIssue[];
+// --- TYPES ---
+interface LintResult extends LintFileResult {
   errors: number;
   warnings: number;
   info: number;
@@ -53,350 +78,20 @@ function colorize(text: string, color: keyof typeof colors): string {
   return `${colors[color]}${text}${colors.reset}`;
 }
 
-// --- LINT RULES ---
-
-/**
- * Rule: effect-use-taperror
- * Detects: Effect.catchAll with Effect.gen just for logging
- * Suggests: Use Effect.tapError instead
- */
-function checkUseTapError(content: string, filePath: string): LintIssue[] {
-  const issues: LintIssue[] = [];
-  const lines = content.split('\n');
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // Pattern: .catchAll((error) => Effect.gen(function* () { yield* Effect.log(...) }))
-    if (
-      line.includes('catchAll') &&
-      i + 1 < lines.length &&
-      lines[i + 1].includes('Effect.gen')
-    ) {
-      // Check if the next few lines only contain Effect.log or console.log
-      let nextLines = '';
-      let endFound = false;
-      for (let j = i + 1; j < Math.min(i + 10, lines.length); j++) {
-        nextLines += lines[j];
-        if (lines[j].includes('))')) {
-          endFound = true;
-          break;
-        }
-      }
-
-      // If it's just logging, suggest tapError
-      if (
-        (nextLines.includes('Effect.log') ||
-          nextLines.includes('console.log')) &&
-        !nextLines.includes('return') &&
-        !nextLines.includes('Effect.fail') &&
-        !nextLines.includes('Effect.succeed')
-      ) {
-        issues.push({
-          rule: 'effect-use-taperror',
-          severity: 'warning',
-          message:
-            'Use Effect.tapError for side-effect logging instead of Effect.catchAll + Effect.gen',
-          line: i + 1,
-          column: line.indexOf('catchAll') + 1,
-          suggestion:
-            'Replace with: .pipe(Effect.tapError((error) => Effect.log(...)), Effect.catchAll(...))',
-        });
-      }
-    }
-  }
-
-  return issues;
-}
-
-/**
- * Rule: effect-explicit-concurrency
- * Detects: Effect.all without explicit concurrency option
- * Suggests: Add { concurrency: "unbounded" } or { concurrency: N }
- */
-function checkExplicitConcurrency(
-  content: string,
-  filePath: string
-): LintIssue[] {
-  const issues: LintIssue[] = [];
-  const lines = content.split('\n');
-  const fileName = path.basename(filePath, '.ts');
-
-  // Skip patterns that are explicitly about sequential execution
-  if (
-    fileName.includes('sequential') ||
-    fileName.includes('sequence') ||
-    content.includes('// sequential by design')
-  ) {
-    return issues;
-  }
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // Pattern: Effect.all(...) without { concurrency: ... }
-    if (line.includes('Effect.all(') && !line.includes('concurrency')) {
-      // Check if concurrency is on the next line
-      let hasConcurrency = false;
-      for (let j = i + 1; j < Math.min(i + 3, lines.length); j++) {
-        if (lines[j].includes('concurrency')) {
-          hasConcurrency = true;
-          break;
-        }
-      }
-
-      if (!hasConcurrency) {
-        // Check if it's a parallel pattern
-        const isParallelPattern =
-          fileName.includes('parallel') ||
-          fileName.includes('concurrent') ||
-          content.includes('// parallel') ||
-          content.includes('// concurrently');
-
-        issues.push({
-          rule: 'effect-explicit-concurrency',
-          severity: isParallelPattern ? 'error' : 'warning',
-          message: isParallelPattern
-            ? "Effect.all runs sequentially by default. Add { concurrency: 'unbounded' } for parallel execution"
-            : 'Effect.all should explicitly specify concurrency option (default is sequential)',
-          line: i + 1,
-          column: line.indexOf('Effect.all') + 1,
-          suggestion: isParallelPattern
-            ? "Add: { concurrency: 'unbounded' }"
-            : "Add: { concurrency: 'unbounded' } or { concurrency: N }",
-        });
-      }
-    }
-  }
-
-  return issues;
-}
-
-/**
- * Rule: effect-deprecated-api
- * Detects: Usage of deprecated Effect APIs
- */
-function checkDeprecatedAPIs(content: string, filePath: string): LintIssue[] {
-  const issues: LintIssue[] = [];
-  const lines = content.split('\n');
-
-  const deprecatedAPIs = [
-    {
-      pattern: /Effect\.fromOption\(/,
-      replacement: 'Option.match with Effect.succeed/Effect.fail',
-      reason: 'Effect.fromOption is deprecated',
-    },
-    {
-      pattern: /Effect\.fromEither\(/,
-      replacement: 'Either.match with Effect.succeed/Effect.fail',
-      reason: 'Effect.fromEither is deprecated',
-    },
-    {
-      pattern: /Option\.zip\(/,
-      replacement: 'Option.all',
-      reason: 'Option.zip is deprecated, use Option.all',
-    },
-    {
-      pattern: /Either\.zip\(/,
-      replacement: 'Either.all',
-      reason: 'Either.zip is deprecated, use Either.all',
-    },
-    {
-      pattern: /Option\.cond\(/,
-      replacement: 'ternary expression with Option.some/Option.none',
-      reason: 'Option.cond is deprecated',
-    },
-    {
-      pattern: /Either\.cond\(/,
-      replacement: 'ternary expression with Either.right/Either.left',
-      reason: 'Either.cond is deprecated',
-    },
-    {
-      pattern: /Effect\.matchTag\(/,
-      replacement: 'Effect.catchTags',
-      reason: 'Effect.matchTag is deprecated, use Effect.catchTags',
-    },
-  ];
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    for (const api of deprecatedAPIs) {
-      if (api.pattern.test(line)) {
-        issues.push({
-          rule: 'effect-deprecated-api',
-          severity: 'error',
-          message: api.reason,
-          line: i + 1,
-          column: line.search(api.pattern) + 1,
-          suggestion: `Use ${api.replacement} instead`,
-        });
-      }
-    }
-  }
-
-  return issues;
-}
-
-/**
- * Rule: effect-prefer-pipe
- * Detects: Long .then() chains or nested calls
- * Suggests: Use pipe for composition
- */
-function checkPreferPipe(content: string, filePath: string): LintIssue[] {
-  const issues: LintIssue[] = [];
-  const lines = content.split('\n');
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // Count method chains
-    const chainCount = (line.match(/\)\./g) || []).length;
-
-    // If more than 3 chained calls, suggest pipe
-    if (chainCount > 3 && !line.includes('pipe(')) {
-      issues.push({
-        rule: 'effect-prefer-pipe',
-        severity: 'info',
-        message:
-          'Consider using pipe() for better readability with long chains',
-        line: i + 1,
-        column: 1,
-        suggestion: 'Refactor to: pipe(value, fn1, fn2, fn3, ...)',
-      });
-    }
-  }
-
-  return issues;
-}
-
-/**
- * Rule: effect-stream-memory
- * Detects: Non-streaming operations in stream patterns
- */
-function checkStreamMemory(content: string, filePath: string): LintIssue[] {
-  const issues: LintIssue[] = [];
-  const lines = content.split('\n');
-  const fileName = path.basename(filePath, '.ts');
-
-  // Only check files that claim to be streaming
-  if (!fileName.includes('stream')) {
-    return issues;
-  }
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // Detect loading entire file/array into memory
-    if (
-      line.includes('readFileString') ||
-      (line.includes('readFile') &&
-        !line.includes('Stream') &&
-        !line.includes('pipe'))
-    ) {
-      issues.push({
-        rule: 'effect-stream-memory',
-        severity: 'error',
-        message:
-          'Streaming pattern loads entire content into memory. Use proper streaming.',
-        line: i + 1,
-        column: line.indexOf('readFile') + 1,
-        suggestion:
-          "Use: fs.readFile(path).pipe(Stream.decodeText('utf-8'), Stream.splitLines)",
-      });
-    }
-
-    // Detect collecting entire stream before processing
-    if (
-      line.includes('Stream.runCollect') &&
-      i > 0 &&
-      !lines[i - 5]?.includes('// Intentionally collecting')
-    ) {
-      issues.push({
-        rule: 'effect-stream-memory',
-        severity: 'warning',
-        message:
-          'Stream.runCollect loads entire stream into memory. Consider using Stream.run instead.',
-        line: i + 1,
-        column: line.indexOf('Stream.runCollect') + 1,
-        suggestion: 'Use Stream.run or other streaming combinators',
-      });
-    }
-  }
-
-  return issues;
-}
-
-/**
- * Rule: effect-error-model
- * Detects: Generic Error instead of typed errors
- */
-function checkErrorModel(content: string, filePath: string): LintIssue[] {
-  const issues: LintIssue[] = [];
-  const lines = content.split('\n');
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-
-    // Pattern: Effect<..., Error, ...> or Effect.fail(new Error(...))
-    if (
-      (line.includes('Effect<') && line.includes(', Error,')) ||
-      (line.includes('Effect.fail') && line.includes('new Error('))
-    ) {
-      // Skip if it's in a comment or example of what NOT to do
-      if (
-        line.trim().startsWith('//') ||
-        lines[i - 1]?.includes('Anti-Pattern') ||
-        lines[i - 1]?.includes('Bad:')
-      ) {
-        continue;
-      }
-
-      issues.push({
-        rule: 'effect-error-model',
-        severity: 'info',
-        message:
-          'Consider using typed errors (Data.TaggedError) instead of generic Error',
-        line: i + 1,
-        column: line.indexOf('Error') + 1,
-        suggestion:
-          "Define: class MyError extends Data.TaggedError('MyError')<{...}>",
-      });
-    }
-  }
+// --- LINTER ---
 
-  return issues;
+function toLintResult(file: string, issues: readonly LintIssue[]): LintResult {
+  const { errors, warnings, info } = summarizeLintResults([{ file, issues }]);
+  return { file, issues, errors, warnings, info };
 }
 
-// --- LINTER ---
-
 async function lintFile(filePath: string): Promise<LintResult> {
-  const fileName = path.basename(filePath, '.ts');
   const content = await fs.readFile(filePath, 'utf-8');
 
-  const allIssues: LintIssue[] = [
-    ...checkUseTapError(content, filePath),
-    ...checkExplicitConcurrency(content, filePath),
-    ...checkDeprecatedAPIs(content, filePath),
-    ...checkPreferPipe(content, filePath),
-    ...checkStreamMemory(content, filePath),
-    ...checkErrorModel(content, filePath),
-  ];
-
-  // Sort by line number
-  allIssues.sort((a, b) => a.line - b.line);
-
-  const errors = allIssues.filter((i) => i.severity === 'error').length;
-  const warnings = allIssues.filter((i) => i.severity === 'warning').length;
-  const info = allIssues.filter((i) => i.severity === 'info').length;
-
-  return {
-    file: fileName,
-    issues: allIssues,
-    errors,
-    warnings,
-    info,
-  };
+  return toLintResult(
+    path.relative(process.cwd(), filePath).split(path.sep).join('/'),
+    lintSource(filePath, content)
+  );
 }
 
 // --- PARALLEL EXECUTION ---
@@ -451,7 +146,7 @@ function printResults(results: LintResult[]) {
     console.log('─'.repeat(60));
 
     for (const result of filesWithErrors) {
-      console.log(`\n${colorize(result.file + '.ts', 'bright')}`);
+      console.log(`\n${colorize(result.file, 'bright')}`);
 
       for (const issue of result.issues) {
         if (issue.severity === 'error') {
@@ -478,7 +173,7 @@ function printResults(results: LintResult[]) {
     console.log('─'.repeat(60));
 
     for (const result of filesWithWarnings) {
-      console.log(`\n${colorize(result.file + '.ts', 'bright')}`);
+      console.log(`\n${colorize(result.file, 'bright')}`);
 
       for (const issue of result.issues) {
         if (issue.severity === 'warning') {
@@ -510,11 +205,32 @@ function printResults(results: LintResult[]) {
 // --- MAIN ---
 async function main() {
   const startTime = Date.now();
+  const format = argValue('--format') ?? 'text';
+  const maxWarningsArg = argValue('--max-warnings');
+  const maxWarnings =
+    maxWarningsArg === undefined ? undefined : Number(maxWarningsArg);
+  const baselinePath = argValue('--baseline') ?? LINT_BASELINE_NAME;
 
-  console.log(colorize('\n🔍 Effect Patterns Linter', 'bright'));
-  console.log(
-    colorize('Checking Effect-TS idioms and best practices\n', 'dim')
-  );
+  if (
+    format !== 'text' &&
+    !(LINT_REPORT_FORMATS as readonly string[]).includes(format)
+  ) {
+    throw new Error(
+      `Unknown --format "${format}" (expected text, ${LINT_REPORT_FORMATS.join(', ')})`
+    );
+  }
+  if (
+    maxWarnings !== undefined &&
+    !(Number.isInteger(maxWarnings) && maxWarnings >= 0)
+  ) {
+    throw new Error('--max-warnings must be a non-negative integer');
+  }
+
+  // Keep stdout clean for machine-readable reports
+  const log = format === 'text' ? console.log : console.error;
+
+  log(colorize('\n🔍 Effect Patterns Linter', 'bright'));
+  log(colorize('Checking Effect-TS idioms and best practices\n', 'dim'));
 
   // Get all TypeScript files from new and published
   const newFiles = await fs.readdir(NEW_SRC_DIR);
@@ -533,35 +249,82 @@ async function main() {
   }
 
   const allFiles = newTsFiles;
-  console.log(colorize(`Found ${allFiles.length} files to lint\n`, 'bright'));
+  log(colorize(`Found ${allFiles.length} files to lint\n`, 'bright'));
 
   // Run linter
-  const results = await lintInParallel(allFiles);
+  let results = (await lintInParallel(allFiles)).sort((a, b) =>
+    a.file.localeCompare(b.file)
+  );
+
+  if (hasFlag('--update-baseline')) {
+    await fs.writeFile(
+      baselinePath,
+      formatLintBaseline(createLintBaseline(results))
+    );
+    log(
+      colorize(
+        `\n✓ Wrote ${baselinePath} with ${results.reduce((sum, r) => sum + r.issues.length, 0)} issue(s)\n`,
+        'green'
+      )
+    );
+    return;
+  }
+
+  let suppressed: number | undefined;
+  if (argValue('--baseline') !== undefined) {
+    const baseline = parseLintBaseline(
+      await fs.readFile(baselinePath, 'utf-8')
+    );
+    if (Either.isLeft(baseline)) {
+      throw new Error(baseline.left.message);
+    }
+    const applied = applyLintBaseline(results, baseline.right);
+    results = applied.results.map((r) => toLintResult(r.file, r.issues));
+    suppressed = applied.suppressed;
+  }
 
   // Print results
-  printResults(results);
+  if (format === 'text') {
+    printResults(results);
+    if (suppressed !== undefined) {
+      console.log(
+        colorize(
+          `\n${suppressed} known issue(s) suppressed by ${baselinePath}`,
+          'dim'
+        )
+      );
+    }
+  } else {
+    process.stdout.write(
+      formatLintReport(format as LintReportFormat, results, { suppressed })
+    );
+  }
 
   const duration = Date.now() - startTime;
   const totalErrors = results.reduce((sum, r) => sum + r.errors, 0);
   const totalWarnings = results.reduce((sum, r) => sum + r.warnings, 0);
+  const tooManyWarnings =
+    maxWarnings !== undefined && totalWarnings > maxWarnings;
 
-  if (totalErrors > 0) {
-    console.log(
+  if (totalErrors > 0 || tooManyWarnings) {
+    log(
       colorize(
-        `\n❌ Linting completed in ${duration}ms with ${totalErrors} error(s)\n`,
+        totalErrors > 0
+          ? `\n❌ Linting completed in ${duration}ms with ${totalErrors} error(s)\n`
+          : `\n❌ Linting completed in ${duration}ms with ${totalWarnings} warning(s) (max ${maxWarnings})\n`,
         'red'
       )
     );
     process.exit(1);
   } else if (totalWarnings > 0) {
-    console.log(
+    log(
       colorize(
         `\n⚠️  Linting completed in ${duration}ms with ${totalWarnings} warning(s)\n`,
         'yellow'
       )
     );
   } else {
-    console.log(
+    log(
       colorize(
         `\n✨ All files passed Effect patterns linting in ${duration}ms!\n`,
         'green'
@@ -5,8 +5,9 @@
  * 1. test - Run all TypeScript examples
  * 2. publish - Convert raw MDX to published MDX
  * 3. validate - Validate published MDX files
- * 4. generate - Generate README.md
- * 5. rules - Generate AI coding rules
+ * 4. index - Build the MCP server patterns index
+ * 5. generate - Generate README.md
+ * 6. rules - Generate AI coding rules
  *
  * The pipeline stops if any step fails.
  *
@@ -42,6 +43,11 @@ const STEPS = [
     script: 'validate-improved.ts',
     description: 'Validating published MDX files...',
   },
+  {
+    name: 'Build Patterns Index',
+    script: 'build-index.ts',
+    description: 'Compiling published MDX into the patterns index...',
+  },
   {
     name: 'Generate README',
     script: 'generate.ts',
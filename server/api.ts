@@ -0,0 +1,181 @@
+/**
+ * Pattern Server - HTTP API Definition
+ *
+ * The single definition of the Pattern Server API: endpoints, their
+ * schemas and their typed errors. The Node server (`server/index.ts`)
+ * and the web-standard handler (`api/index.ts`) both serve it with the
+ * handlers in `server/handlers.ts`, and `ep install add` derives its
+ * client from it with `HttpApiClient.make(PatternApi)`.
+ *
+ * This module only declares the API, so clients can import it without
+ * pulling in the server's dependencies.
+ */
+
+import {
+  HttpApi,
+  HttpApiEndpoint,
+  HttpApiGroup,
+  HttpApiSchema,
+} from '@effect/platform';
+import { Schema } from 'effect';
+
+// --- SCHEMA DEFINITIONS ---
+
+/**
+ * Schema for a Rule object
+ */
+export const RuleSchema = Schema.Struct({
+  id: Schema.String,
+  title: Schema.String,
+  description: Schema.String,
+  skillLevel: Schema.optional(Schema.String),
+  useCase: Schema.optional(Schema.Array(Schema.String)),
+  content: Schema.String,
+});
+
+export type Rule = typeof RuleSchema.Type;
+
+/**
+ * Query parameters of `GET /api/v1/rules`
+ *
+ * Kept as strings here and validated by the toolkit's `RulesQuery`, so
+ * invalid values get the same 400 body as an unknown cursor.
+ */
+export const RulesUrlParams = Schema.Struct({
+  skillLevel: Schema.optional(Schema.String),
+  useCase: Schema.optional(Schema.String),
+  q: Schema.optional(Schema.String),
+  limit: Schema.optional(Schema.String),
+  cursor: Schema.optional(Schema.String),
+});
+
+/**
+ * Query parameters of `GET /api/v1/bundles/:tool`
+ */
+export const RuleBundleUrlParams = Schema.Struct({
+  skillLevel: Schema.optional(Schema.String),
+  useCase: Schema.optional(Schema.String),
+});
+
+/**
+ * Schema for one file of a rule bundle
+ */
+export const RuleBundleFileSchema = Schema.Struct({
+  path: Schema.String,
+  content: Schema.String,
+  mode: Schema.Literal('managed-block', 'replace'),
+});
+
+/**
+ * Schema for a rule in a bundle and the hash of its content
+ */
+export const RuleDigestSchema = Schema.Struct({
+  id: Schema.String,
+  hash: Schema.String,
+});
+
+/**
+ * Schema for the rule files rendered for one tool
+ */
+export const RuleBundleSchema = Schema.Struct({
+  tool: Schema.String,
+  version: Schema.String,
+  ruleCount: Schema.Number,
+  rules: Schema.Array(RuleDigestSchema),
+  files: Schema.Array(RuleBundleFileSchema),
+});
+
+export type RuleBundle = typeof RuleBundleSchema.Type;
+
+// --- ERROR TYPES ---
+
+/**
+ * Invalid query parameters or cursor (400)
+ */
+export class InvalidRulesQuery extends Schema.TaggedError<InvalidRulesQuery>()(
+  'InvalidRulesQuery',
+  { error: Schema.String },
+  HttpApiSchema.annotations({ status: 400 })
+) {}
+
+/**
+ * No rule with the requested ID (404)
+ */
+export class RuleNotFound extends Schema.TaggedError<RuleNotFound>()(
+  'RuleNotFound',
+  { error: Schema.String },
+  HttpApiSchema.annotations({ status: 404 })
+) {}
+
+/**
+ * No bundle for the requested tool (404)
+ */
+export class UnknownRuleTool extends Schema.TaggedError<UnknownRuleTool>()(
+  'UnknownRuleTool',
+  { error: Schema.String },
+  HttpApiSchema.annotations({ status: 404 })
+) {}
+
+/**
+ * Rule files could not be read or parsed (500)
+ */
+export class RulesUnavailable extends Schema.TaggedError<RulesUnavailable>()(
+  'RulesUnavailable',
+  { error: Schema.String },
+  HttpApiSchema.annotations({ status: 500 })
+) {}
+
+// --- ENDPOINTS ---
+
+/**
+ * Liveness check
+ */
+export class HealthApi extends HttpApiGroup.make('health').add(
+  HttpApiEndpoint.get('getHealth', '/health').addSuccess(
+    Schema.Struct({ status: Schema.Literal('ok') })
+  )
+) {}
+
+/**
+ * AI coding rules from `rules/cursor`
+ *
+ * `listRules` responds with `ETag`/`Last-Modified` validators (304 when
+ * the client's copy is current), `X-Total-Count` and a
+ * `Link: <...>; rel="next"` header while more pages remain.
+ */
+export class RulesApi extends HttpApiGroup.make('rules')
+  .add(
+    HttpApiEndpoint.get('listRules', '/api/v1/rules')
+      .setUrlParams(RulesUrlParams)
+      .addSuccess(Schema.Array(RuleSchema))
+      .addError(InvalidRulesQuery)
+      .addError(RulesUnavailable)
+  )
+  .add(
+    HttpApiEndpoint.get('getRule', '/api/v1/rules/:id')
+      .setPath(Schema.Struct({ id: Schema.String }))
+      .addSuccess(RuleSchema)
+      .addError(RuleNotFound)
+      .addError(RulesUnavailable)
+  ) {}
+
+/**
+ * Rule files rendered for each AI tool, so every client writes the
+ * same output
+ */
+export class BundlesApi extends HttpApiGroup.make('bundles').add(
+  HttpApiEndpoint.get('getRuleBundle', '/api/v1/bundles/:tool')
+    .setPath(Schema.Struct({ tool: Schema.String }))
+    .setUrlParams(RuleBundleUrlParams)
+    .addSuccess(RuleBundleSchema)
+    .addError(UnknownRuleTool)
+    .addError(RulesUnavailable)
+) {}
+
+/**
+ * The Pattern Server API
+ */
+export class PatternApi extends HttpApi.make('PatternApi')
+  .add(HealthApi)
+  .add(RulesApi)
+  .add(BundlesApi) {}
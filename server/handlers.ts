@@ -0,0 +1,431 @@
+/**
+ * Pattern Server - HTTP API Handlers
+ *
+ * Implements `PatternApi` (see `server/api.ts`): reads the rules from
+ * `rules/cursor` with `server/ruleFiles.ts`, caches them until a rule
+ * file changes and serves them through the toolkit's rules queries. `PatternApiLive` is shared by
+ * the Node server and the web-standard handler, which only differ in
+ * how they receive requests.
+ */
+
+import * as path from 'node:path';
+import {
+  FileSystem,
+  HttpApiBuilder,
+  HttpServerRequest,
+  HttpServerResponse,
+} from '@effect/platform';
+import {
+  Clock,
+  Context,
+  Data,
+  Effect,
+  Either,
+  Layer,
+  Option,
+  Ref,
+  Schema,
+  Stream,
+} from 'effect';
+import {
+  isRuleTool,
+  RULE_TOOLS,
+  type RuleSet,
+  renderRuleBundle,
+} from '../packages/toolkit/src/bundles.js';
+import {
+  decodeRulesQuery,
+  entityTag,
+  filterRules,
+  isNotModified,
+  queryRules,
+} from '../packages/toolkit/src/rules.js';
+import {
+  InvalidRulesQuery,
+  PatternApi,
+  type Rule,
+  type RuleBundleUrlParams,
+  RuleNotFound,
+  RuleSchema,
+  RulesUnavailable,
+  type RulesUrlParams,
+  UnknownRuleTool,
+} from './api.js';
+import {
+  loadRules,
+  parseRuleFile,
+  RULES_ROOT,
+  RuleLoadError,
+  ruleSetDir,
+} from './ruleFiles.js';
+
+// --- ERROR TYPES ---
+
+/**
+ * Tagged error for rule not found
+ */
+class RuleNotFoundError extends Data.TaggedError('RuleNotFoundError')<{
+  readonly id: string;
+}> {}
+
+// --- CONFIGURATION ---
+
+/**
+ * Directory the rules are read from
+ */
+const RULES_DIR = ruleSetDir(RULES_ROOT, 'cursor');
+
+/**
+ * Directory of each rule set bundles are rendered from
+ */
+const RULE_SET_DIRS: Readonly<Record<RuleSet, string>> = {
+  cursor: RULES_DIR,
+  windsurf: ruleSetDir(RULES_ROOT, 'windsurf'),
+};
+
+/**
+ * Quiet period after the last rule file event before the cache is
+ * invalidated, so bulk regeneration triggers one reload
+ */
+const WATCH_DEBOUNCE = '250 millis';
+
+// --- HELPER FUNCTIONS ---
+
+/**
+ * Read, parse and validate a single rule by ID
+ */
+const readRuleById = (id: string) =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem;
+    const filePath = path.join(RULES_DIR, `${id}.mdc`);
+
+    yield* Effect.logInfo(`Loading rule by ID: ${id}`);
+
+    // Check if file exists
+    const fileExists = yield* fs.exists(filePath);
+    if (!fileExists) {
+      return yield* Effect.fail(new RuleNotFoundError({ id }));
+    }
+
+    // Parse the rule file
+    const rule = yield* parseRuleFile(fs, filePath, id);
+    const validated = yield* Schema.decodeUnknown(RuleSchema)(rule);
+
+    yield* Effect.logInfo(`Successfully loaded rule: ${id}`);
+    return validated;
+  });
+
+// --- RULES CACHE ---
+
+/**
+ * Validated rules, as last read from disk
+ */
+interface RulesSnapshot {
+  readonly rules: readonly Rule[];
+  /**
+   * Newest modification time of the rule files or the directory, so
+   * deleting a rule advances it too
+   */
+  readonly lastModified: Date;
+}
+
+/**
+ * Read, validate and date all rules
+ */
+const loadRulesSnapshot = (rulesDir: string) =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem;
+    const validated = yield* loadRules(rulesDir);
+
+    const paths = [
+      rulesDir,
+      ...validated.map((rule) => path.join(rulesDir, `${rule.id}.mdc`)),
+    ];
+    const modified = yield* Effect.forEach(paths, (filePath) =>
+      fs.stat(filePath).pipe(
+        Effect.map((info) => Option.getOrElse(info.mtime, () => new Date(0))),
+        Effect.catchAll((error) =>
+          Effect.fail(new RuleLoadError({ path: filePath, cause: error }))
+        )
+      )
+    );
+
+    return {
+      rules: validated,
+      lastModified: new Date(
+        Math.max(0, ...modified.map((date) => date.getTime()))
+      ),
+    } satisfies RulesSnapshot;
+  });
+
+type RulesLoadError = Effect.Effect.Error<ReturnType<typeof loadRulesSnapshot>>;
+
+/**
+ * In-memory rules, re-read on the first request after a rule file
+ * changes
+ */
+class RulesCache extends Context.Tag('RulesCache')<
+  RulesCache,
+  {
+    /** The `cursor` rule set (served by `/api/v1/rules`) */
+    readonly get: Effect.Effect<RulesSnapshot, RulesLoadError>;
+    readonly getRuleSet: (
+      ruleSet: RuleSet
+    ) => Effect.Effect<RulesSnapshot, RulesLoadError>;
+  }
+>() {}
+
+/**
+ * Cached snapshot of one rules directory; watches the directory for as
+ * long as the scope is open
+ */
+const makeSnapshotCache = (fs: FileSystem.FileSystem, rulesDir: string) =>
+  Effect.gen(function* () {
+    const cached = yield* Ref.make(Option.none<RulesSnapshot>());
+    // Bumped on every change, so a load that raced a change isn't cached
+    const generation = yield* Ref.make(0);
+    // When the watcher last saw a change; later than any mtime it reports
+    const invalidatedAt = yield* Ref.make(new Date(0));
+    const lock = yield* Effect.makeSemaphore(1);
+
+    yield* fs.watch(rulesDir).pipe(
+      Stream.filter((event) => event.path.endsWith('.mdc')),
+      Stream.debounce(WATCH_DEBOUNCE),
+      Stream.runForEach(() =>
+        Effect.all([
+          Ref.update(generation, (n) => n + 1),
+          Ref.set(cached, Option.none()),
+          Effect.flatMap(Clock.currentTimeMillis, (now) =>
+            Ref.set(invalidatedAt, new Date(now))
+          ),
+          Effect.logInfo(
+            `Rule files changed in ${rulesDir}; cache invalidated`
+          ),
+        ])
+      ),
+      Effect.catchAll((error) =>
+        Effect.logWarning('Not watching rules; changes need a restart', {
+          error,
+        })
+      ),
+      Effect.forkScoped
+    );
+
+    const load = Effect.gen(function* () {
+      const started = yield* Ref.get(generation);
+      const loaded = yield* loadRulesSnapshot(rulesDir).pipe(
+        Effect.provideService(FileSystem.FileSystem, fs)
+      );
+      const invalidated = yield* Ref.get(invalidatedAt);
+      const snapshot: RulesSnapshot =
+        invalidated > loaded.lastModified
+          ? { ...loaded, lastModified: invalidated }
+          : loaded;
+      if ((yield* Ref.get(generation)) === started) {
+        yield* Ref.set(cached, Option.some(snapshot));
+      }
+      yield* Effect.logInfo(
+        `Cached ${snapshot.rules.length} rules from ${rulesDir}`
+      );
+      return snapshot;
+    });
+
+    return lock.withPermits(1)(
+      Effect.flatMap(
+        Ref.get(cached),
+        Option.match({ onNone: () => load, onSome: Effect.succeed })
+      )
+    );
+  });
+
+/**
+ * RulesCache layer, with one cache per rule set
+ */
+const RulesCacheLive = Layer.scoped(
+  RulesCache,
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem;
+    const caches = yield* Effect.all({
+      cursor: makeSnapshotCache(fs, RULE_SET_DIRS.cursor),
+      windsurf: makeSnapshotCache(fs, RULE_SET_DIRS.windsurf),
+    });
+
+    return {
+      get: caches.cursor,
+      getRuleSet: (ruleSet: RuleSet) => caches[ruleSet],
+    };
+  })
+);
+
+// --- ROUTE HANDLERS ---
+
+/**
+ * URL of the page after the current one
+ */
+const nextPageUrl = (requestUrl: string, cursor: string): string => {
+  const url = new URL(requestUrl, 'http://localhost');
+  url.searchParams.set('cursor', cursor);
+  return `${url.pathname}${url.search}`;
+};
+
+/**
+ * Rules endpoint handler
+ * Query: skillLevel, useCase, q, limit, cursor
+ * Returns: Matching rules ordered by ID, with ETag/Last-Modified (304
+ * when the client's copy is current) and a Link header to the next page
+ */
+const listRules = (urlParams: typeof RulesUrlParams.Type) =>
+  Effect.gen(function* () {
+    const request = yield* HttpServerRequest.HttpServerRequest;
+    const cache = yield* RulesCache;
+
+    yield* Effect.logInfo(`Rules endpoint requested: ${request.url}`);
+
+    const query = decodeRulesQuery(urlParams);
+    if (Either.isLeft(query)) {
+      return yield* new InvalidRulesQuery({ error: query.left.message });
+    }
+
+    // Serve from the cache, reading the rules if it is empty
+    const snapshot = yield* cache.get.pipe(
+      Effect.tapError((error) =>
+        Effect.logError('Failed to load and validate rules', { error })
+      ),
+      Effect.mapError(
+        () => new RulesUnavailable({ error: 'Failed to load rules' })
+      )
+    );
+
+    const page = queryRules(snapshot.rules, query.right);
+    if (Either.isLeft(page)) {
+      return yield* new InvalidRulesQuery({ error: page.left.message });
+    }
+
+    const body = JSON.stringify(page.right.rules);
+    const etag = entityTag(body);
+    const validators = {
+      ETag: etag,
+      'Last-Modified': snapshot.lastModified.toUTCString(),
+      'Cache-Control': 'no-cache',
+    };
+
+    const notModified = isNotModified(
+      {
+        ifNoneMatch: request.headers['if-none-match'],
+        ifModifiedSince: request.headers['if-modified-since'],
+      },
+      { etag, lastModified: snapshot.lastModified }
+    );
+    if (notModified) {
+      return HttpServerResponse.empty({ status: 304, headers: validators });
+    }
+
+    const { nextCursor } = page.right;
+    yield* Effect.logInfo(
+      `Returning ${page.right.rules.length} of ${page.right.total} rules`
+    );
+    return HttpServerResponse.text(body, {
+      contentType: 'application/json',
+      headers: {
+        ...validators,
+        'X-Total-Count': String(page.right.total),
+        ...(nextCursor && {
+          Link: `<${nextPageUrl(request.url, nextCursor)}>; rel="next"`,
+        }),
+      },
+    });
+  });
+
+/**
+ * Single rule endpoint handler
+ * Returns: Single rule by ID from rules/cursor directory
+ */
+const getRule = (id: string) =>
+  Effect.gen(function* () {
+    yield* Effect.logInfo(`Single rule endpoint requested for ID: ${id}`);
+
+    const rule = yield* Effect.either(readRuleById(id));
+    if (Either.isRight(rule)) {
+      yield* Effect.logInfo(`Returning rule: ${id}`);
+      return rule.right;
+    }
+
+    const error = rule.left;
+    if (error._tag === 'RuleNotFoundError') {
+      yield* Effect.logInfo(`Rule not found: ${id}`);
+      return yield* new RuleNotFound({ error: 'Rule not found' });
+    }
+
+    // Other errors are 500
+    yield* Effect.logError('Failed to load and validate rule', { error });
+    return yield* new RulesUnavailable({ error: 'Failed to load rule' });
+  });
+
+/**
+ * Bundles endpoint handler
+ * Query: skillLevel, useCase
+ * Returns: The tool's rule files, rendered from its rule set
+ */
+const getRuleBundle = (
+  tool: string,
+  urlParams: typeof RuleBundleUrlParams.Type
+) =>
+  Effect.gen(function* () {
+    const cache = yield* RulesCache;
+
+    yield* Effect.logInfo(`Bundle endpoint requested for tool: ${tool}`);
+
+    if (!isRuleTool(tool)) {
+      return yield* new UnknownRuleTool({
+        error: `Unknown tool "${tool}" (supported: ${Object.keys(RULE_TOOLS).join(', ')})`,
+      });
+    }
+
+    const snapshot = yield* cache.getRuleSet(RULE_TOOLS[tool].ruleSet).pipe(
+      Effect.tapError((error) =>
+        Effect.logError('Failed to load and validate rules', { error })
+      ),
+      Effect.mapError(
+        () => new RulesUnavailable({ error: 'Failed to load rules' })
+      )
+    );
+
+    const bundle = renderRuleBundle(
+      tool,
+      filterRules(snapshot.rules, urlParams)
+    );
+    yield* Effect.logInfo(
+      `Returning ${bundle.files.length} files with ${bundle.ruleCount} rules for ${tool}`
+    );
+    return bundle;
+  });
+
+// --- API LAYERS ---
+
+const HealthLive = HttpApiBuilder.group(PatternApi, 'health', (handlers) =>
+  handlers.handle('getHealth', () =>
+    Effect.logInfo('Health check requested').pipe(Effect.as({ status: 'ok' }))
+  )
+);
+
+const RulesLive = HttpApiBuilder.group(PatternApi, 'rules', (handlers) =>
+  handlers
+    .handle('listRules', ({ urlParams }) => listRules(urlParams))
+    .handle('getRule', ({ path: { id } }) => getRule(id))
+);
+
+const BundlesLive = HttpApiBuilder.group(PatternApi, 'bundles', (handlers) =>
+  handlers.handle('getRuleBundle', ({ path: { tool }, urlParams }) =>
+    getRuleBundle(tool, urlParams)
+  )
+);
+
+/**
+ * `PatternApi` with its handlers; requires a `FileSystem` to read the
+ * rules from
+ */
+export const PatternApiLive = HttpApiBuilder.api(PatternApi).pipe(
+  Layer.provide(HealthLive),
+  Layer.provide(Layer.merge(RulesLive, BundlesLive)),
+  Layer.provide(RulesCacheLive)
+);
@@ -0,0 +1,177 @@
+/**
+ * Pattern Server - Rule Files
+ *
+ * Reads the generated `.mdc` rule files under `rules/`, one directory
+ * per rule set, into `Rule`s. The server serves what it reads here, and
+ * `ep install add --source local:<path>` reads rules the same way when
+ * no server is running.
+ */
+
+import * as path from 'node:path';
+import { FileSystem } from '@effect/platform';
+import { Data, Effect, Schema } from 'effect';
+import matter from 'gray-matter';
+import type { RuleSet } from '../packages/toolkit/src/bundles.js';
+import { RuleSchema } from './api.js';
+
+// --- ERROR TYPES ---
+
+/**
+ * Tagged error for rule loading failures
+ */
+export class RuleLoadError extends Data.TaggedError('RuleLoadError')<{
+  readonly path: string;
+  readonly cause: unknown;
+}> {}
+
+/**
+ * Tagged error for rule parsing failures
+ */
+export class RuleParseError extends Data.TaggedError('RuleParseError')<{
+  readonly file: string;
+  readonly cause: unknown;
+}> {}
+
+/**
+ * Tagged error for directory not found
+ */
+export class RulesDirectoryNotFoundError extends Data.TaggedError(
+  'RulesDirectoryNotFoundError'
+)<{
+  readonly path: string;
+}> {}
+
+// --- CONFIGURATION ---
+
+/**
+ * Directory holding one directory of rule files per rule set
+ */
+export const RULES_ROOT = 'rules';
+
+const TITLE_HEADING_REGEX = /^#\s+(.+)$/;
+
+/**
+ * Directory of a rule set's `.mdc` files under a rules root
+ */
+export const ruleSetDir = (root: string, ruleSet: RuleSet): string =>
+  path.join(root, ruleSet);
+
+// --- HELPER FUNCTIONS ---
+
+/**
+ * Extract the first # heading from markdown content as the title
+ */
+const extractTitle = (content: string): string => {
+  const lines = content.split('\n');
+  for (const line of lines) {
+    const match = line.match(TITLE_HEADING_REGEX);
+    if (match) {
+      return match[1].trim();
+    }
+  }
+  return 'Untitled Rule';
+};
+
+/**
+ * Normalize frontmatter `useCase` (a string or a list) to a list
+ */
+const toUseCases = (value: unknown): string[] | undefined => {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  return typeof value === 'string' ? [value] : undefined;
+};
+
+/**
+ * Parse a single rule file and return a rule object
+ */
+export const parseRuleFile = (
+  fs: FileSystem.FileSystem,
+  filePath: string,
+  fileId: string
+) =>
+  Effect.gen(function* () {
+    // Read file content
+    const content = yield* fs
+      .readFileString(filePath)
+      .pipe(
+        Effect.catchAll((error) =>
+          Effect.fail(new RuleLoadError({ path: filePath, cause: error }))
+        )
+      );
+
+    // Parse frontmatter
+    let parsed: { data: Record<string, unknown>; content: string };
+    try {
+      parsed = matter(content);
+    } catch (error) {
+      return yield* Effect.fail(
+        new RuleParseError({ file: filePath, cause: error })
+      );
+    }
+
+    const { data, content: markdownContent } = parsed;
+
+    // Build rule object
+    return {
+      id: fileId,
+      title: extractTitle(markdownContent),
+      description: (data.description as string) || '',
+      skillLevel: data.skillLevel as string | undefined,
+      useCase: toUseCases(data.useCase),
+      content: markdownContent,
+    };
+  });
+
+/**
+ * Read and parse all .mdc rule files from a rules directory
+ */
+export const readAndParseRules = (rulesDir: string) =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem.FileSystem;
+
+    yield* Effect.logInfo(`Loading rules from ${rulesDir}`);
+
+    // Check if directory exists
+    const dirExists = yield* fs.exists(rulesDir);
+    if (!dirExists) {
+      return yield* Effect.fail(
+        new RulesDirectoryNotFoundError({ path: rulesDir })
+      );
+    }
+
+    // Read all files in directory
+    const files = yield* fs
+      .readDirectory(rulesDir)
+      .pipe(
+        Effect.catchAll((error) =>
+          Effect.fail(new RuleLoadError({ path: rulesDir, cause: error }))
+        )
+      );
+
+    // Filter for .mdc files
+    const mdcFiles = files.filter((file) => file.endsWith('.mdc'));
+    yield* Effect.logInfo(`Found ${mdcFiles.length} rule files`);
+
+    // Parse each file
+    const rules = yield* Effect.forEach(
+      mdcFiles,
+      (file) => {
+        const filePath = path.join(rulesDir, file);
+        const fileId = path.basename(file, '.mdc');
+        return parseRuleFile(fs, filePath, fileId);
+      },
+      { concurrency: 'unbounded' }
+    );
+
+    yield* Effect.logInfo(`Successfully parsed ${rules.length} rules`);
+    return rules;
+  });
+
+/**
+ * Read, parse and validate all rules of a rules directory
+ */
+export const loadRules = (rulesDir: string) =>
+  readAndParseRules(rulesDir).pipe(
+    Effect.flatMap(Schema.decodeUnknown(Schema.Array(RuleSchema)))
+  );
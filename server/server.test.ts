@@ -6,12 +6,16 @@
 
 import {
   FetchHttpClient,
+  HttpApiClient,
   HttpClient,
   type HttpClientResponse,
 } from '@effect/platform';
 import { type ChildProcess, spawn } from 'child_process';
 import { Effect, Schema } from 'effect';
 import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { handler } from '../api/index.js';
+import { checkResponseContract } from '../packages/toolkit/src/openapi.js';
+import { PatternApi } from './api.js';
 
 // --- SCHEMAS ---
 
@@ -29,6 +33,7 @@ type Rule = typeof RuleSchema.Type;
 // --- TEST UTILITIES ---
 
 const BASE_URL = 'http://localhost:3001';
+const NEXT_LINK = /^<([^>]+)>; rel="next"$/;
 
 /**
  * Make HTTP request with Effect
@@ -164,6 +169,82 @@ describe.sequential('Pattern Server', () => {
     });
   });
 
+  describe('GET /api/v1/rules query parameters and caching', () => {
+    it('should page with limit and a Link to the next page', async () => {
+      const program = Effect.gen(function* () {
+        const first = yield* makeRequest('/api/v1/rules?limit=2');
+        const firstRules = yield* Schema.decodeUnknown(
+          Schema.Array(RuleSchema)
+        )(yield* getJson(first));
+
+        expect(firstRules).toHaveLength(2);
+        expect(Number(first.headers['x-total-count'])).toBeGreaterThan(2);
+
+        const next = first.headers.link?.match(NEXT_LINK)?.[1];
+        expect(next).toBeDefined();
+
+        const second = yield* makeRequest(next ?? '');
+        const secondRules = yield* Schema.decodeUnknown(
+          Schema.Array(RuleSchema)
+        )(yield* getJson(second));
+
+        expect(secondRules).toHaveLength(2);
+        expect(secondRules[0]?.id > (firstRules[1]?.id ?? '')).toBe(true);
+      });
+
+      await Effect.runPromise(program.pipe(Effect.provide(TestLayer)));
+    });
+
+    it('should filter by query words', async () => {
+      const program = Effect.gen(function* () {
+        const response = yield* makeRequest('/api/v1/rules?q=schedule');
+        const rules = yield* Schema.decodeUnknown(Schema.Array(RuleSchema))(
+          yield* getJson(response)
+        );
+
+        expect(rules.length).toBeGreaterThan(0);
+        for (const rule of rules) {
+          expect(
+            `${rule.id} ${rule.title} ${rule.description} ${rule.content}`.toLowerCase()
+          ).toContain('schedule');
+        }
+      });
+
+      await Effect.runPromise(program.pipe(Effect.provide(TestLayer)));
+    });
+
+    it('should return 400 for an invalid limit', async () => {
+      const program = Effect.gen(function* () {
+        const client = yield* HttpClient.HttpClient;
+        const response = yield* client.get(`${BASE_URL}/api/v1/rules?limit=0`);
+
+        expect(response.status).toBe(400);
+        expect(yield* getJson(response)).toHaveProperty('error');
+      });
+
+      await Effect.runPromise(program.pipe(Effect.provide(TestLayer)));
+    });
+
+    it('should return 304 when the ETag still matches', async () => {
+      const program = Effect.gen(function* () {
+        const client = yield* HttpClient.HttpClient;
+        const response = yield* makeRequest('/api/v1/rules');
+        const etag = response.headers.etag;
+
+        expect(etag).toBeDefined();
+        expect(response.headers['last-modified']).toBeDefined();
+
+        const revalidated = yield* client.get(`${BASE_URL}/api/v1/rules`, {
+          headers: { 'If-None-Match': etag ?? '' },
+        });
+        expect(revalidated.status).toBe(304);
+        expect(revalidated.headers.etag).toBe(etag);
+      });
+
+      await Effect.runPromise(program.pipe(Effect.provide(TestLayer)));
+    });
+  });
+
   describe('GET /api/v1/rules/:id', () => {
     it('should return a single rule by ID', async () => {
       const program = Effect.gen(function* () {
@@ -256,4 +337,153 @@ describe.sequential('Pattern Server', () => {
       await Effect.runPromise(program.pipe(Effect.provide(TestLayer)));
     });
   });
+
+  describe('GET /api/v1/bundles/:tool', () => {
+    it('should render a managed block for markdown tools', async () => {
+      const program = Effect.gen(function* () {
+        const client = yield* HttpApiClient.make(PatternApi, {
+          baseUrl: BASE_URL,
+        });
+        const bundle = yield* client.bundles.getRuleBundle({
+          path: { tool: 'agents' },
+          urlParams: {},
+        });
+
+        expect(bundle.ruleCount).toBeGreaterThan(0);
+        expect(bundle.files).toHaveLength(1);
+        expect(bundle.files[0]?.path).toBe('AGENTS.md');
+        expect(bundle.files[0]?.mode).toBe('managed-block');
+        expect(bundle.files[0]?.content).toContain('**ID:**');
+        expect(bundle.rules).toHaveLength(bundle.ruleCount);
+      });
+
+      await Effect.runPromise(program.pipe(Effect.provide(TestLayer)));
+    });
+
+    it('should render one .mdc file per rule for Windsurf', async () => {
+      const program = Effect.gen(function* () {
+        const client = yield* HttpApiClient.make(PatternApi, {
+          baseUrl: BASE_URL,
+        });
+        const bundle = yield* client.bundles.getRuleBundle({
+          path: { tool: 'windsurf-mdc' },
+          urlParams: {},
+        });
+
+        expect(bundle.files).toHaveLength(bundle.ruleCount);
+        for (const file of bundle.files) {
+          expect(file.path).toMatch(/^\.windsurf\/rules\/.+\.mdc$/);
+          expect(file.mode).toBe('replace');
+        }
+      });
+
+      await Effect.runPromise(program.pipe(Effect.provide(TestLayer)));
+    });
+
+    it('should return 404 for an unknown tool', async () => {
+      const program = Effect.gen(function* () {
+        const client = yield* HttpApiClient.make(PatternApi, {
+          baseUrl: BASE_URL,
+        });
+        const error = yield* Effect.flip(
+          client.bundles.getRuleBundle({
+            path: { tool: 'codeium' },
+            urlParams: {},
+          })
+        );
+
+        expect(error._tag).toBe('UnknownRuleTool');
+      });
+
+      await Effect.runPromise(program.pipe(Effect.provide(TestLayer)));
+    });
+  });
+
+  describe('Derived client', () => {
+    it('should page through rules with Link headers', async () => {
+      const program = Effect.gen(function* () {
+        const client = yield* HttpApiClient.make(PatternApi, {
+          baseUrl: BASE_URL,
+        });
+        const [rules, response] = yield* client.rules.listRules({
+          urlParams: { limit: '2' },
+          withResponse: true,
+        });
+
+        expect(rules).toHaveLength(2);
+        expect(response.headers.link).toMatch(NEXT_LINK);
+      });
+
+      await Effect.runPromise(program.pipe(Effect.provide(TestLayer)));
+    });
+
+    it('should fail with typed errors', async () => {
+      const program = Effect.gen(function* () {
+        const client = yield* HttpApiClient.make(PatternApi, {
+          baseUrl: BASE_URL,
+        });
+        const missing = yield* Effect.flip(
+          client.rules.getRule({ path: { id: 'non-existent-rule-id' } })
+        );
+        const invalid = yield* Effect.flip(
+          client.rules.listRules({ urlParams: { limit: '0' } })
+        );
+
+        expect(missing._tag).toBe('RuleNotFound');
+        expect(invalid._tag).toBe('InvalidRulesQuery');
+      });
+
+      await Effect.runPromise(program.pipe(Effect.provide(TestLayer)));
+    });
+  });
+
+  describe('Web handler', () => {
+    it('should serve the same API as the Node server', async () => {
+      for (const path of [
+        '/health',
+        '/api/v1/rules?limit=2',
+        '/api/v1/rules/use-effect-gen-for-business-logic',
+        '/api/v1/rules/non-existent-rule-id',
+      ]) {
+        const [web, node] = await Promise.all([
+          handler(new Request(`http://localhost${path}`)),
+          fetch(`${BASE_URL}${path}`),
+        ]);
+
+        expect(web.status).toBe(node.status);
+        expect(web.headers.get('etag')).toBe(node.headers.get('etag'));
+        expect(await web.json()).toEqual(await node.json());
+      }
+    });
+  });
+
+  describe('OpenAPI contract', () => {
+    it.each([
+      '/api/v1/rules',
+      '/api/v1/rules?limit=2',
+      '/api/v1/rules?limit=0',
+      '/api/v1/rules/use-effect-gen-for-business-logic',
+      '/api/v1/rules/non-existent-rule-id',
+      '/api/v1/bundles/cursor',
+      '/api/v1/bundles/cursor-mdc?skillLevel=beginner',
+      '/api/v1/bundles/codeium',
+    ])('GET %s should match the OpenAPI document', async (path) => {
+      const program = Effect.gen(function* () {
+        const client = yield* HttpClient.HttpClient;
+        const response = yield* client.get(`${BASE_URL}${path}`);
+        const json = yield* getJson(response);
+
+        expect(
+          checkResponseContract({
+            method: 'GET',
+            path,
+            status: response.status,
+            body: json,
+          })
+        ).toBeUndefined();
+      });
+
+      await Effect.runPromise(program.pipe(Effect.provide(TestLayer)));
+    });
+  });
 });
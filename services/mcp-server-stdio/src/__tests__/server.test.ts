@@ -5,6 +5,7 @@ import { fileURLToPath } from 'node:url';
 import {
   searchPatterns,
   getPatternById,
+  buildExplanation,
   buildSnippet,
   type Pattern,
 } from '@effect-patterns/toolkit';
@@ -89,6 +90,28 @@ describe('MCP Server Integration', () => {
     }
   });
 
+  it('should explain a pattern', () => {
+    const patternsPath = join(
+      __dirname,
+      '../../../../data/patterns-index.json'
+    );
+    const data = readFileSync(patternsPath, 'utf-8');
+    const parsed = JSON.parse(data);
+    patterns = parsed.patterns || [];
+
+    if (patterns.length > 0) {
+      const explanation = buildExplanation({
+        pattern: patterns[0],
+        patterns,
+        context: 'handling errors in an HTTP API',
+      });
+
+      expect(explanation.guideline).toBe(patterns[0].description);
+      expect(explanation.context).toBeDefined();
+      expect(explanation.markdown).toContain(`# ${patterns[0].title}`);
+    }
+  });
+
   it('should handle missing pattern gracefully', () => {
     const patternsPath = join(
       __dirname,
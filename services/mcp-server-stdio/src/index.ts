@@ -2,8 +2,8 @@
 /**
  * Effect Patterns MCP Server
  *
- * Provides MCP tools for searching Effect patterns and generating code
- * snippets. Communicates via stdio following the Model Context Protocol.
+ * Provides MCP tools for searching, explaining and generating code
+ * snippets from Effect patterns. Communicates via stdio following the Model Context Protocol.
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
@@ -15,13 +15,23 @@ import {
   type ListToolsRequest,
 } from '@modelcontextprotocol/sdk/types.js';
 import {
-  buildSnippet,
+  buildExplanation,
+  buildSearchIndex,
+  buildSnippetFiles,
+  DifficultyLevel,
+  type EmbeddingIndex,
   getPatternById,
+  HashedEmbedderLive,
   loadPatternsFromJsonRunnable,
-  searchPatterns,
+  makeEmbeddingIndex,
+  makeSnippetChecker,
+  querySearchIndex,
   type Pattern,
+  PatternCategory,
+  type SearchHit,
+  type SearchIndex,
 } from '@effect-patterns/toolkit';
-import { Effect } from 'effect';
+import { type Context, Effect, Either } from 'effect';
 import { readFileSync } from 'node:fs';
 import { fileURLToPath } from 'node:url';
 import { dirname, join } from 'node:path';
@@ -32,17 +42,28 @@ const __dirname = dirname(__filename);
 // Load patterns data
 const patternsPath = join(__dirname, '../../../data/patterns-index.json');
 let patterns: Pattern[] = [];
+let searchIndex: SearchIndex;
+let embeddingIndex: Context.Tag.Service<EmbeddingIndex>;
 
 try {
   const data = readFileSync(patternsPath, 'utf-8');
   const parsed = JSON.parse(data);
   patterns = parsed.patterns || [];
+  searchIndex = buildSearchIndex(patterns);
+  embeddingIndex = Effect.runSync(
+    makeEmbeddingIndex(patterns, { lexicalIndex: searchIndex }).pipe(
+      Effect.provide(HashedEmbedderLive)
+    )
+  );
   console.error(`Loaded ${patterns.length} patterns`);
 } catch (error) {
   console.error('Failed to load patterns:', error);
   process.exit(1);
 }
 
+// Typechecks generated snippets (declarations load on first use)
+const snippetChecker = makeSnippetChecker();
+
 // Create MCP server
 const server = new Server(
   {
@@ -64,7 +85,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         name: 'search_patterns',
         description:
           'Search for Effect-TS patterns by query, category, or ' +
-          'difficulty. Returns matching patterns with metadata.',
+          'difficulty. Returns matching patterns ranked by relevance, ' +
+          'with scores and the fields each query term matched.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -77,29 +99,26 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             category: {
               type: 'string',
               description: 'Filter by category',
-              enum: [
-                'error-handling',
-                'concurrency',
-                'data-transformation',
-                'testing',
-                'services',
-                'streams',
-                'caching',
-                'observability',
-                'scheduling',
-                'resource-management',
-              ],
+              enum: [...PatternCategory.literals],
             },
             difficulty: {
               type: 'string',
               description: 'Filter by difficulty level',
-              enum: ['beginner', 'intermediate', 'advanced'],
+              enum: [...DifficultyLevel.literals],
             },
             limit: {
               type: 'number',
               description: 'Maximum number of results to return',
               default: 10,
             },
+            mode: {
+              type: 'string',
+              description:
+                'Ranking mode: lexical (keyword match), semantic ' +
+                '(match by intent) or hybrid (both)',
+              enum: ['lexical', 'semantic', 'hybrid'],
+              default: 'lexical',
+            },
           },
         },
       },
@@ -119,11 +138,35 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ['patternId'],
         },
       },
+      {
+        name: 'explain_pattern',
+        description:
+          'Explain a pattern: guideline, rationale, use cases, related ' +
+          'patterns and annotated example code. Optionally tailored to ' +
+          'a description of your situation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            patternId: {
+              type: 'string',
+              description: 'The pattern ID to explain',
+            },
+            context: {
+              type: 'string',
+              description:
+                'What you are building, used to highlight relevant use cases',
+            },
+          },
+          required: ['patternId'],
+        },
+      },
       {
         name: 'generate_snippet',
         description:
           'Generate a customized code snippet from a pattern. ' +
-          'Supports custom names, inputs, and module types (ESM/CJS).',
+          'Supports example selection, custom names, inputs, module types ' +
+          '(ESM/CJS) and an optional companion @effect/vitest test. ' +
+          'Snippets are typechecked and diagnostics are reported.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -148,7 +191,27 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             effectVersion: {
               type: 'string',
-              description: 'Effect version to include in comments',
+              description:
+                'Effect version to include in comments and typecheck against',
+            },
+            exampleIndex: {
+              type: 'number',
+              description: 'Index of the example to use (default: 0)',
+            },
+            example: {
+              type: 'string',
+              description:
+                'Use the first example whose description contains this text',
+            },
+            includeTest: {
+              type: 'boolean',
+              description: 'Also generate a companion *.test.ts file',
+              default: false,
+            },
+            requireCompiles: {
+              type: 'boolean',
+              description: 'Fail instead of returning a snippet with type errors',
+              default: false,
             },
           },
           required: ['patternId'],
@@ -179,13 +242,37 @@ server.setRequestHandler(
     try {
       switch (name) {
         case 'search_patterns': {
-          const results = searchPatterns({
-            patterns,
+          const params = {
             query: args.query as string | undefined,
             category: args.category as string | undefined,
             difficulty: args.difficulty as string | undefined,
             limit: args.limit as number | undefined,
-          });
+          };
+          const query = params.query?.trim();
+          const mode = (args.mode as string | undefined) || 'lexical';
+
+          let hits: SearchHit[];
+          if (mode === 'lexical' || !query) {
+            hits = querySearchIndex(searchIndex, params);
+          } else if (mode === 'semantic') {
+            hits = await Effect.runPromise(
+              embeddingIndex.semanticSearch({ ...params, query })
+            );
+          } else if (mode === 'hybrid') {
+            hits = await Effect.runPromise(
+              embeddingIndex.hybridSearch({ ...params, query })
+            );
+          } else {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ error: `Unknown mode: ${mode}` }),
+                },
+              ],
+              isError: true,
+            };
+          }
 
           return {
             content: [
@@ -193,15 +280,23 @@ server.setRequestHandler(
                 type: 'text',
                 text: JSON.stringify(
                   {
-                    count: results.length,
-                    patterns: results.map((p) => ({
-                      id: p.id,
-                      title: p.title,
-                      description: p.description,
-                      category: p.category,
-                      difficulty: p.difficulty,
-                      tags: p.tags,
-                    })),
+                    count: hits.length,
+                    patterns: hits.flatMap((hit) => {
+                      const p = getPatternById(patterns, hit.id);
+                      if (!p) return [];
+                      return [
+                        {
+                          id: p.id,
+                          title: p.title,
+                          description: p.description,
+                          category: p.category,
+                          difficulty: p.difficulty,
+                          tags: p.tags,
+                          score: hit.score,
+                          highlights: hit.highlights,
+                        },
+                      ];
+                    }),
                   },
                   null,
                   2
@@ -239,7 +334,7 @@ server.setRequestHandler(
           };
         }
 
-        case 'generate_snippet': {
+        case 'explain_pattern': {
           const patternId = args.patternId as string;
           const pattern = getPatternById(patterns, patternId);
 
@@ -257,24 +352,108 @@ server.setRequestHandler(
             };
           }
 
-          const snippet = buildSnippet({
+          const explanation = buildExplanation({
             pattern,
-            customName: args.customName as string | undefined,
-            customInput: args.customInput as string | undefined,
-            moduleType: (args.moduleType as 'esm' | 'cjs') || 'esm',
-            effectVersion: args.effectVersion as string | undefined,
+            patterns,
+            context: args.context as string | undefined,
           });
 
           return {
             content: [
               {
                 type: 'text',
-                text: snippet,
+                text: explanation.markdown,
               },
             ],
           };
         }
 
+        case 'generate_snippet': {
+          const patternId = args.patternId as string;
+          const pattern = getPatternById(patterns, patternId);
+
+          if (!pattern) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    error: `Pattern not found: ${patternId}`,
+                  }),
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          const result = buildSnippetFiles({
+            pattern,
+            customName: args.customName as string | undefined,
+            customInput: args.customInput as string | undefined,
+            moduleType: (args.moduleType as 'esm' | 'cjs') || 'esm',
+            effectVersion: args.effectVersion as string | undefined,
+            exampleIndex: args.exampleIndex as number | undefined,
+            exampleDescription: args.example as string | undefined,
+            includeTest: args.includeTest === true,
+          });
+
+          if (Either.isLeft(result)) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ error: result.left.message }),
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          const files = result.right;
+          const typecheck = await Effect.runPromise(
+            snippetChecker.check(files, {
+              effectVersion: args.effectVersion as string | undefined,
+            })
+          );
+
+          if (args.requireCompiles === true && !typecheck.ok) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    error: `Snippet for ${pattern.id} does not compile`,
+                    diagnostics: typecheck.diagnostics,
+                  }),
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          // Label files only when there is more than one
+          const content = files.map((file) => ({
+            type: 'text' as const,
+            text:
+              files.length > 1
+                ? `// File: ${file.path}\n${file.content}`
+                : file.content,
+          }));
+          if (typecheck.diagnostics.length > 0) {
+            content.push({
+              type: 'text' as const,
+              text: [
+                `// Typecheck against effect ${typecheck.effectVersion}:`,
+                ...typecheck.diagnostics.map(
+                  (d) =>
+                    `// ${d.path}:${d.line}:${d.column} ${d.category} TS${d.code}: ${d.message}`
+                ),
+              ].join('\n'),
+            });
+          }
+          return { content };
+        }
+
         default:
           return {
             content: [
@@ -0,0 +1,47 @@
+/**
+ * Reload Patterns Endpoint
+ *
+ * POST /api/admin/reload
+ * Forces PatternsService to reload patterns.json. The new snapshot is
+ * only swapped in if it validates; otherwise the previous one keeps
+ * being served and 422 is returned with the error.
+ */
+
+import { Effect, Either } from 'effect';
+import type { NextRequest } from 'next/server';
+import { validateApiKey } from '../../../../src/auth/apiKey.js';
+import {
+  enforceIpRateLimit,
+  enforceRateLimit,
+} from '../../../../src/rateLimit/rateLimiter.js';
+import { handleRoute } from '../../../../src/server/handleRoute.js';
+import { PatternsService } from '../../../../src/server/init.js';
+import { TracingService } from '../../../../src/tracing/otlpLayer.js';
+
+export async function POST(request: NextRequest) {
+  const reloadEffect = Effect.gen(function* () {
+    const tracing = yield* TracingService;
+    const patternsService = yield* PatternsService;
+
+    // Validate API key (a bad key still counts against the IP's limit),
+    // then rate limit by IP and key together
+    const client = yield* validateApiKey(request, 'admin').pipe(
+      Effect.tapError(() => enforceIpRateLimit(request, 'admin'))
+    );
+    yield* enforceRateLimit(request, client, 'admin');
+
+    // Reload; a failed reload is reported, not thrown
+    const result = yield* Effect.either(patternsService.reload());
+    const patterns = yield* patternsService.getStatus();
+
+    const traceId = tracing.getTraceId();
+
+    return Either.isRight(result)
+      ? { ok: true, patterns, traceId }
+      : { ok: false, error: result.left.message, patterns, traceId };
+  });
+
+  return handleRoute(request, reloadEffect, {
+    status: (result) => (result.ok ? 200 : 422),
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * Explain Pattern Endpoint
+ *
+ * POST /api/explain
+ * Explains a pattern, optionally tailored to the caller's context
+ */
+
+import {
+  buildExplanation,
+  ExplainPatternRequest,
+  type ExplainPatternResponse,
+} from '@effect-patterns/toolkit';
+import { Effect } from 'effect';
+import type { NextRequest } from 'next/server';
+import { validateApiKey } from '../../../src/auth/apiKey.js';
+import {
+  enforceIpRateLimit,
+  enforceRateLimit,
+} from '../../../src/rateLimit/rateLimiter.js';
+import { PatternNotFoundError } from '../../../src/server/errors.js';
+import {
+  decodeRequest,
+  handleRoute,
+  readJsonBody,
+} from '../../../src/server/handleRoute.js';
+import { PatternsService } from '../../../src/server/init.js';
+import { TracingService } from '../../../src/tracing/otlpLayer.js';
+
+export async function POST(request: NextRequest) {
+  const explainEffect = Effect.gen(function* () {
+    const tracing = yield* TracingService;
+    const patternsService = yield* PatternsService;
+
+    // Validate API key (a bad key still counts against the IP's limit),
+    // then rate limit by IP and key together
+    const client = yield* validateApiKey(request, 'patterns:read').pipe(
+      Effect.tapError(() => enforceIpRateLimit(request, 'explain'))
+    );
+    yield* enforceRateLimit(request, client, 'explain');
+
+    // Parse and validate request body
+    const body = yield* readJsonBody(request);
+    const explainRequest = yield* decodeRequest(ExplainPatternRequest)(body);
+
+    // Get the pattern
+    const pattern = yield* patternsService.getPatternById(
+      explainRequest.patternId
+    );
+
+    if (!pattern) {
+      return yield* Effect.fail(
+        new PatternNotFoundError(explainRequest.patternId)
+      );
+    }
+
+    // Build explanation, resolving related patterns
+    const patterns = yield* patternsService.getAllPatterns();
+    const explanation = buildExplanation({
+      pattern,
+      patterns,
+      context: explainRequest.context,
+    });
+
+    const traceId = tracing.getTraceId();
+
+    const response: ExplainPatternResponse = {
+      patternId: pattern.id,
+      title: pattern.title,
+      explanation: explanation.markdown,
+      sections: explanation,
+      traceId,
+      timestamp: new Date().toISOString(),
+    };
+
+    return response;
+  });
+
+  return handleRoute(request, explainEffect);
+}
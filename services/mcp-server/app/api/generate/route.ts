@@ -2,31 +2,49 @@
  * Generate Code Snippet Endpoint
  *
  * POST /api/generate
- * Generates a code snippet from a pattern with customization options
+ * Generates a code snippet (and optionally a companion test) from a
+ * pattern example with customization options, typechecked against the
+ * requested effect version
  */
 
-import { buildSnippet, GenerateRequest } from '@effect-patterns/toolkit';
+import {
+  buildSnippetFiles,
+  GenerateRequest,
+  SnippetChecker,
+  SnippetCompileError,
+} from '@effect-patterns/toolkit';
 import { Effect } from 'effect';
-import { Schema as S } from '@effect/schema';
-import { type NextRequest, NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { validateApiKey } from '../../../src/auth/apiKey.js';
+import {
+  enforceIpRateLimit,
+  enforceRateLimit,
+} from '../../../src/rateLimit/rateLimiter.js';
+import { PatternNotFoundError } from '../../../src/server/errors.js';
 import {
-  isAuthenticationError,
-  validateApiKey,
-} from '../../../src/auth/apiKey.js';
-import { PatternsService, runWithRuntime } from '../../../src/server/init.js';
+  decodeRequest,
+  handleRoute,
+  readJsonBody,
+} from '../../../src/server/handleRoute.js';
+import { PatternsService } from '../../../src/server/init.js';
 import { TracingService } from '../../../src/tracing/otlpLayer.js';
 
 export async function POST(request: NextRequest) {
   const generateEffect = Effect.gen(function* () {
     const tracing = yield* TracingService;
     const patternsService = yield* PatternsService;
+    const checker = yield* SnippetChecker;
 
-    // Validate API key
-    yield* validateApiKey(request);
+    // Validate API key (a bad key still counts against the IP's limit),
+    // then rate limit by IP and key together
+    const client = yield* validateApiKey(request, 'generate').pipe(
+      Effect.tapError(() => enforceIpRateLimit(request, 'generate'))
+    );
+    yield* enforceRateLimit(request, client, 'generate');
 
     // Parse and validate request body
-    const body = yield* Effect.tryPromise(() => request.json());
-    const generateRequest = yield* S.decode(GenerateRequest)(body);
+    const body = yield* readJsonBody(request);
+    const generateRequest = yield* decodeRequest(GenerateRequest)(body);
 
     // Get the pattern
     const pattern = yield* patternsService.getPatternById(
@@ -35,53 +53,51 @@ export async function POST(request: NextRequest) {
 
     if (!pattern) {
       return yield* Effect.fail(
-        new Error(`Pattern not found: ${generateRequest.patternId}`)
+        new PatternNotFoundError(generateRequest.patternId)
       );
     }
 
-    // Generate snippet
-    const snippet = buildSnippet({
+    // Generate snippet files (fails if the requested example is missing)
+    const files = yield* buildSnippetFiles({
       pattern,
       customName: generateRequest.name,
       customInput: generateRequest.input,
       moduleType: generateRequest.moduleType,
       effectVersion: generateRequest.effectVersion,
+      exampleIndex: generateRequest.exampleIndex,
+      exampleDescription: generateRequest.example,
+      includeTest: generateRequest.includeTest,
     });
 
+    // Typecheck, refusing non-compiling output only if asked to
+    const typecheck = yield* checker.check(files, {
+      effectVersion: generateRequest.effectVersion,
+    });
+    if (generateRequest.requireCompiles && !typecheck.ok) {
+      const errors = typecheck.diagnostics.filter(
+        (diagnostic) => diagnostic.category === 'error'
+      );
+      return yield* Effect.fail(
+        new SnippetCompileError({
+          patternId: pattern.id,
+          message: `Snippet for ${pattern.id} has ${errors.length} type error(s)`,
+          typecheck,
+        })
+      );
+    }
+
     const traceId = tracing.getTraceId();
 
     return {
       patternId: pattern.id,
       title: pattern.title,
-      snippet,
+      snippet: files[0]?.content ?? '',
+      files,
+      typecheck,
       traceId,
       timestamp: new Date().toISOString(),
     };
   });
 
-  try {
-    const result = await runWithRuntime(generateEffect);
-
-    return NextResponse.json(result, {
-      status: 200,
-      headers: {
-        'x-trace-id': result.traceId || '',
-      },
-    });
-  } catch (error) {
-    if (isAuthenticationError(error)) {
-      return NextResponse.json({ error: error.message }, { status: 401 });
-    }
-
-    if (error instanceof Error && error.message.includes('not found')) {
-      return NextResponse.json({ error: error.message }, { status: 404 });
-    }
-
-    return NextResponse.json(
-      {
-        error: String(error),
-      },
-      { status: 400 }
-    );
-  }
+  return handleRoute(request, generateEffect);
 }
@@ -2,44 +2,32 @@
  * Health Check Endpoint
  *
  * GET /api/health
- * Returns service health status and version
+ * Returns service health status, version and the loaded patterns
+ * snapshot (version, lastUpdated, count)
  */
 
 import { Effect } from 'effect';
-import { NextResponse } from 'next/server';
-import { runWithRuntime } from '../../../src/server/init.js';
+import type { NextRequest } from 'next/server';
+import { handleRoute } from '../../../src/server/handleRoute.js';
+import { PatternsService } from '../../../src/server/init.js';
 import { TracingService } from '../../../src/tracing/otlpLayer.js';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   const healthEffect = Effect.gen(function* () {
     const tracing = yield* TracingService;
+    const patternsService = yield* PatternsService;
     const traceId = tracing.getTraceId();
+    const patterns = yield* patternsService.getStatus();
 
     return {
       ok: true,
       version: '0.1.0',
       service: 'effect-patterns-mcp-server',
       timestamp: new Date().toISOString(),
+      patterns,
       traceId,
     };
   });
 
-  try {
-    const result = await runWithRuntime(healthEffect);
-
-    return NextResponse.json(result, {
-      status: 200,
-      headers: {
-        'x-trace-id': result.traceId || '',
-      },
-    });
-  } catch (error) {
-    return NextResponse.json(
-      {
-        ok: false,
-        error: String(error),
-      },
-      { status: 500 }
-    );
-  }
+  return handleRoute(request, healthEffect);
 }
@@ -0,0 +1,20 @@
+/**
+ * OpenAPI Document Endpoint
+ *
+ * GET /api/openapi.json
+ * Returns the OpenAPI 3.1 document for the pattern APIs, generated from
+ * the toolkit Schemas. Public - no API key required.
+ */
+
+import { buildOpenApiDocument } from '@effect-patterns/toolkit';
+import { Effect } from 'effect';
+import type { NextRequest } from 'next/server';
+import { handleRoute } from '../../../src/server/handleRoute.js';
+
+export async function GET(request: NextRequest) {
+  const openApiEffect = Effect.sync(() =>
+    buildOpenApiDocument({ serverUrl: request.nextUrl.origin })
+  );
+
+  return handleRoute(request, openApiEffect);
+}
@@ -6,15 +6,15 @@
  */
 
 import { Effect } from 'effect';
-import { type NextRequest, NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { validateApiKey } from '../../../../src/auth/apiKey.js';
 import {
-  isAuthenticationError,
-  validateApiKey,
-} from '../../../../src/auth/apiKey.js';
-import {
-  PatternsService,
-  runWithRuntime,
-} from '../../../../src/server/init.js';
+  enforceIpRateLimit,
+  enforceRateLimit,
+} from '../../../../src/rateLimit/rateLimiter.js';
+import { PatternNotFoundError } from '../../../../src/server/errors.js';
+import { handleRoute } from '../../../../src/server/handleRoute.js';
+import { PatternsService } from '../../../../src/server/init.js';
 import { TracingService } from '../../../../src/tracing/otlpLayer.js';
 
 export async function GET(
@@ -25,8 +25,12 @@ export async function GET(
     const tracing = yield* TracingService;
     const patternsService = yield* PatternsService;
 
-    // Validate API key
-    yield* validateApiKey(request);
+    // Validate API key (a bad key still counts against the IP's limit),
+    // then rate limit by IP and key together
+    const client = yield* validateApiKey(request, 'patterns:read').pipe(
+      Effect.tapError(() => enforceIpRateLimit(request, 'patterns'))
+    );
+    yield* enforceRateLimit(request, client, 'patterns');
 
     // Get pattern ID from params
     const { id } = yield* Effect.promise(() => params);
@@ -35,7 +39,7 @@ export async function GET(
     const pattern = yield* patternsService.getPatternById(id);
 
     if (!pattern) {
-      return yield* Effect.fail(new Error(`Pattern not found: ${id}`));
+      return yield* Effect.fail(new PatternNotFoundError(id));
     }
 
     const traceId = tracing.getTraceId();
@@ -46,29 +50,5 @@ export async function GET(
     };
   });
 
-  try {
-    const result = await runWithRuntime(getPatternEffect);
-
-    return NextResponse.json(result, {
-      status: 200,
-      headers: {
-        'x-trace-id': result.traceId || '',
-      },
-    });
-  } catch (error) {
-    if (isAuthenticationError(error)) {
-      return NextResponse.json({ error: error.message }, { status: 401 });
-    }
-
-    if (error instanceof Error && error.message.includes('not found')) {
-      return NextResponse.json({ error: error.message }, { status: 404 });
-    }
-
-    return NextResponse.json(
-      {
-        error: String(error),
-      },
-      { status: 500 }
-    );
-  }
+  return handleRoute(request, getPatternEffect);
 }
@@ -1,18 +1,24 @@
 /**
  * Patterns Search Endpoint
  *
- * GET /api/patterns?q=...&category=...&difficulty=...&limit=...
- * Returns patterns matching search criteria
+ * GET /api/patterns?q=...&category=...&difficulty=...&limit=...&mode=...
+ * Returns patterns matching search criteria. `mode` selects lexical
+ * (default), semantic or hybrid ranking.
  */
 
-import { searchPatterns, toPatternSummary } from '@effect-patterns/toolkit';
+import {
+  SearchPatternsRequest,
+  toPatternSummary,
+} from '@effect-patterns/toolkit';
 import { Effect } from 'effect';
-import { type NextRequest, NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { validateApiKey } from '../../../src/auth/apiKey.js';
 import {
-  isAuthenticationError,
-  validateApiKey,
-} from '../../../src/auth/apiKey.js';
-import { PatternsService, runWithRuntime } from '../../../src/server/init.js';
+  enforceIpRateLimit,
+  enforceRateLimit,
+} from '../../../src/rateLimit/rateLimiter.js';
+import { decodeRequest, handleRoute } from '../../../src/server/handleRoute.js';
+import { PatternsService } from '../../../src/server/init.js';
 import { TracingService } from '../../../src/tracing/otlpLayer.js';
 
 export async function GET(request: NextRequest) {
@@ -20,32 +26,28 @@ export async function GET(request: NextRequest) {
     const tracing = yield* TracingService;
     const patterns = yield* PatternsService;
 
-    // Validate API key
-    yield* validateApiKey(request);
+    // Validate API key (a bad key still counts against the IP's limit),
+    // then rate limit by IP and key together
+    const client = yield* validateApiKey(request, 'patterns:read').pipe(
+      Effect.tapError(() => enforceIpRateLimit(request, 'patterns'))
+    );
+    yield* enforceRateLimit(request, client, 'patterns');
 
-    // Extract query parameters
+    // Decode query parameters, ignoring empty ones
     const { searchParams } = new URL(request.url);
-    const query = searchParams.get('q') || undefined;
-    const category = searchParams.get('category') || undefined;
-    const difficulty = searchParams.get('difficulty') || undefined;
-    const limit = searchParams.get('limit')
-      ? Number.parseInt(searchParams.get('limit')!, 10)
-      : undefined;
-
-    // Get all patterns
-    const allPatterns = yield* patterns.getAllPatterns();
+    const { q, ...filters } = yield* decodeRequest(SearchPatternsRequest)(
+      Object.fromEntries([...searchParams].filter(([, value]) => value !== ''))
+    );
 
-    // Search with filters (convert readonly to mutable for search function)
-    const results = searchPatterns({
-      patterns: [...allPatterns],
-      query,
-      category,
-      difficulty,
-      limit,
-    });
+    // Query the prebuilt search indexes with filters
+    const results = yield* patterns.searchPatterns({ query: q, ...filters });
 
-    // Convert to summaries
-    const summaries = results.map(toPatternSummary);
+    // Convert to summaries with relevance score and matched fields
+    const summaries = results.map(({ pattern, hit }) => ({
+      ...toPatternSummary(pattern),
+      score: hit.score,
+      highlights: hit.highlights,
+    }));
 
     const traceId = tracing.getTraceId();
 
@@ -56,25 +58,5 @@ export async function GET(request: NextRequest) {
     };
   });
 
-  try {
-    const result = await runWithRuntime(searchEffect);
-
-    return NextResponse.json(result, {
-      status: 200,
-      headers: {
-        'x-trace-id': result.traceId || '',
-      },
-    });
-  } catch (error) {
-    if (isAuthenticationError(error)) {
-      return NextResponse.json({ error: error.message }, { status: 401 });
-    }
-
-    return NextResponse.json(
-      {
-        error: String(error),
-      },
-      { status: 500 }
-    );
-  }
+  return handleRoute(request, searchEffect);
 }
@@ -6,12 +6,13 @@
  */
 
 import { Effect } from 'effect';
-import { type NextRequest, NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { validateApiKey } from '../../../src/auth/apiKey.js';
 import {
-  isAuthenticationError,
-  validateApiKey,
-} from '../../../src/auth/apiKey.js';
-import { runWithRuntime } from '../../../src/server/init.js';
+  enforceIpRateLimit,
+  enforceRateLimit,
+} from '../../../src/rateLimit/rateLimiter.js';
+import { handleRoute } from '../../../src/server/handleRoute.js';
 import { TracingService } from '../../../src/tracing/otlpLayer.js';
 
 const EFFECT_NODE_SDK_EXAMPLE = `
@@ -102,8 +103,12 @@ export async function GET(request: NextRequest) {
   const traceWiringEffect = Effect.gen(function* () {
     const tracing = yield* TracingService;
 
-    // Validate API key
-    yield* validateApiKey(request);
+    // Validate API key (a bad key still counts against the IP's limit),
+    // then rate limit by IP and key together
+    const client = yield* validateApiKey(request, 'patterns:read').pipe(
+      Effect.tapError(() => enforceIpRateLimit(request, 'trace-wiring'))
+    );
+    yield* enforceRateLimit(request, client, 'trace-wiring');
 
     const traceId = tracing.getTraceId();
 
@@ -116,25 +121,5 @@ export async function GET(request: NextRequest) {
     };
   });
 
-  try {
-    const result = await runWithRuntime(traceWiringEffect);
-
-    return NextResponse.json(result, {
-      status: 200,
-      headers: {
-        'x-trace-id': result.traceId || '',
-      },
-    });
-  } catch (error) {
-    if (isAuthenticationError(error)) {
-      return NextResponse.json({ error: error.message }, { status: 401 });
-    }
-
-    return NextResponse.json(
-      {
-        error: String(error),
-      },
-      { status: 500 }
-    );
-  }
+  return handleRoute(request, traceWiringEffect);
 }
@@ -8,6 +8,8 @@ const nextConfig = {
     // Skip ESLint during build
     ignoreDuringBuilds: true,
   },
+  // The snippet checker reads TypeScript's lib files from its package
+  serverExternalPackages: ["typescript"],
   experimental: {
     serverActions: {
       bodySizeLimit: "2mb",
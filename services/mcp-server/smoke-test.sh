@@ -201,7 +201,7 @@ run_test \
 #
 run_test \
     "Get pattern by ID requires authentication" \
-    "curl -s -w '\n%{http_code}' '$BASE_URL/api/patterns/retry-with-backoff'" \
+    "curl -s -w '\n%{http_code}' '$BASE_URL/api/patterns/handle-flaky-operations-with-retry-timeout'" \
     "401"
 
 #
@@ -209,7 +209,7 @@ run_test \
 #
 run_test \
     "Get pattern by ID returns pattern or 404" \
-    "curl -s -w '\n%{http_code}' -H 'x-api-key: $API_KEY' '$BASE_URL/api/patterns/retry-with-backoff'" \
+    "curl -s -w '\n%{http_code}' -H 'x-api-key: $API_KEY' '$BASE_URL/api/patterns/handle-flaky-operations-with-retry-timeout'" \
     "200|404"
 
 #
@@ -226,7 +226,7 @@ run_test \
 #
 run_test \
     "Generate endpoint requires authentication" \
-    "curl -s -w '\n%{http_code}' -X POST -H 'Content-Type: application/json' -d '{\"patternId\":\"retry-with-backoff\"}' '$BASE_URL/api/generate'" \
+    "curl -s -w '\n%{http_code}' -X POST -H 'Content-Type: application/json' -d '{\"patternId\":\"handle-flaky-operations-with-retry-timeout\"}' '$BASE_URL/api/generate'" \
     "401"
 
 #
@@ -234,7 +234,7 @@ run_test \
 #
 run_test \
     "Generate snippet from pattern" \
-    "curl -s -w '\n%{http_code}' -X POST -H 'x-api-key: $API_KEY' -H 'Content-Type: application/json' -d '{\"patternId\":\"retry-with-backoff\"}' '$BASE_URL/api/generate'" \
+    "curl -s -w '\n%{http_code}' -X POST -H 'x-api-key: $API_KEY' -H 'Content-Type: application/json' -d '{\"patternId\":\"handle-flaky-operations-with-retry-timeout\"}' '$BASE_URL/api/generate'" \
     "200|404"
 
 #
@@ -242,7 +242,7 @@ run_test \
 #
 run_test \
     "Generate snippet with custom name" \
-    "curl -s -w '\n%{http_code}' -X POST -H 'x-api-key: $API_KEY' -H 'Content-Type: application/json' -d '{\"patternId\":\"retry-with-backoff\",\"name\":\"myRetry\"}' '$BASE_URL/api/generate'" \
+    "curl -s -w '\n%{http_code}' -X POST -H 'x-api-key: $API_KEY' -H 'Content-Type: application/json' -d '{\"patternId\":\"handle-flaky-operations-with-retry-timeout\",\"name\":\"myRetry\"}' '$BASE_URL/api/generate'" \
     "200|404"
 
 #
@@ -250,7 +250,7 @@ run_test \
 #
 run_test \
     "Generate snippet with CJS module type" \
-    "curl -s -w '\n%{http_code}' -X POST -H 'x-api-key: $API_KEY' -H 'Content-Type: application/json' -d '{\"patternId\":\"retry-with-backoff\",\"moduleType\":\"cjs\"}' '$BASE_URL/api/generate'" \
+    "curl -s -w '\n%{http_code}' -X POST -H 'x-api-key: $API_KEY' -H 'Content-Type: application/json' -d '{\"patternId\":\"handle-flaky-operations-with-retry-timeout\",\"moduleType\":\"cjs\"}' '$BASE_URL/api/generate'" \
     "200|404"
 
 #
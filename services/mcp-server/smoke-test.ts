@@ -218,7 +218,9 @@ async function runSmokeTests() {
 
   // Test 10: Get Pattern by ID Requires Auth
   await runTest('Get pattern by ID requires authentication', async () => {
-    const response = await fetch(`${baseUrl}/api/patterns/retry-with-backoff`);
+    const response = await fetch(
+      `${baseUrl}/api/patterns/handle-flaky-operations-with-retry-timeout`
+    );
     assertEquals(response.status, 401);
   });
 
@@ -233,7 +235,7 @@ async function runSmokeTests() {
     assertEquals(response.status, 404);
 
     const data = await response.json();
-    assertNotNull(data.error);
+    assertNotNull(data.detail);
   });
 
   // Test 12: Generate Requires Auth
@@ -241,7 +243,9 @@ async function runSmokeTests() {
     const response = await fetch(`${baseUrl}/api/generate`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ patternId: 'retry-with-backoff' }),
+      body: JSON.stringify({
+        patternId: 'handle-flaky-operations-with-retry-timeout',
+      }),
     });
     assertEquals(response.status, 401);
   });
@@ -254,7 +258,9 @@ async function runSmokeTests() {
         'x-api-key': API_KEY,
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ patternId: 'retry-with-backoff' }),
+      body: JSON.stringify({
+        patternId: 'handle-flaky-operations-with-retry-timeout',
+      }),
     });
 
     // Accept either 200 (pattern exists) or 404 (pattern doesn't exist)
@@ -267,7 +273,10 @@ async function runSmokeTests() {
       const data = await response.json();
       assertNotNull(data.snippet);
       assertNotNull(data.traceId);
-      assertEquals(data.patternId, 'retry-with-backoff');
+      assertEquals(
+        data.patternId,
+        'handle-flaky-operations-with-retry-timeout'
+      );
     }
   });
 
@@ -280,7 +289,7 @@ async function runSmokeTests() {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        patternId: 'retry-with-backoff',
+        patternId: 'handle-flaky-operations-with-retry-timeout',
         name: 'myRetry',
       }),
     });
@@ -302,7 +311,7 @@ async function runSmokeTests() {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        patternId: 'retry-with-backoff',
+        patternId: 'handle-flaky-operations-with-retry-timeout',
         moduleType: 'cjs',
       }),
     });
@@ -328,7 +337,7 @@ async function runSmokeTests() {
     assertEquals(response.status, 400);
 
     const data = await response.json();
-    assertNotNull(data.error);
+    assertNotNull(data.detail);
   });
 
   // Test 17: Trace Wiring Requires Auth
@@ -0,0 +1,189 @@
+/**
+ * API Key Store Tests
+ *
+ * Tests for key creation, constant-time lookup, scopes, expiry,
+ * revocation, rotation and persistence.
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Effect } from 'effect';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  createApiKey,
+  emptyKeyStore,
+  findApiKey,
+  getKeyStatus,
+  hasScope,
+  loadKeyStore,
+  revokeApiKey,
+  rotateApiKey,
+  saveKeyStore,
+} from '../keyStore.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2025-01-01T00:00:00.000Z');
+
+describe('createApiKey', () => {
+  it('should store a hash, never the key', () => {
+    const { store, record, key } = createApiKey(emptyKeyStore(), {
+      name: 'ci',
+      scopes: ['patterns:read'],
+      now,
+    });
+
+    expect(key).toMatch(/^ep_/);
+    expect(JSON.stringify(store)).not.toContain(key);
+    expect(record.prefix).toBe(key.slice(0, record.prefix.length));
+    expect(record.createdAt).toBe(now.toISOString());
+  });
+});
+
+describe('findApiKey', () => {
+  it('should find the record for a presented key', () => {
+    const first = createApiKey(emptyKeyStore(), {
+      name: 'ci',
+      scopes: ['patterns:read'],
+    });
+    const second = createApiKey(first.store, {
+      name: 'chat-app',
+      scopes: ['generate'],
+    });
+
+    expect(findApiKey(second.store, second.key)?.name).toBe('chat-app');
+    expect(findApiKey(second.store, first.key)?.name).toBe('ci');
+    expect(findApiKey(second.store, 'ep_wrong')).toBeUndefined();
+  });
+});
+
+describe('hasScope', () => {
+  it('should require the exact scope', () => {
+    expect(hasScope({ scopes: ['patterns:read'] }, 'generate')).toBe(false);
+    expect(hasScope({ scopes: ['generate'] }, 'generate')).toBe(true);
+  });
+
+  it('should treat admin as every scope', () => {
+    expect(hasScope({ scopes: ['admin'] }, 'patterns:read')).toBe(true);
+  });
+});
+
+describe('getKeyStatus', () => {
+  it('should expire keys at expiresAt', () => {
+    const { record } = createApiKey(emptyKeyStore(), {
+      name: 'ci',
+      scopes: ['patterns:read'],
+      expiresAt: new Date(now.getTime() + DAY),
+      now,
+    });
+
+    expect(getKeyStatus(record, now)).toBe('active');
+    expect(getKeyStatus(record, new Date(now.getTime() + DAY))).toBe('expired');
+  });
+});
+
+describe('revokeApiKey', () => {
+  it('should revoke by ID or unique name', async () => {
+    const { store } = createApiKey(emptyKeyStore(), {
+      name: 'ci',
+      scopes: ['patterns:read'],
+    });
+
+    const revoked = await Effect.runPromise(revokeApiKey(store, 'ci', now));
+
+    expect(getKeyStatus(revoked.record, now)).toBe('revoked');
+  });
+
+  it('should fail for unknown keys', async () => {
+    const error = await Effect.runPromise(
+      revokeApiKey(emptyKeyStore(), 'missing').pipe(Effect.flip)
+    );
+
+    expect(error._tag).toBe('KeyStoreError');
+  });
+});
+
+describe('rotateApiKey', () => {
+  it('should keep both keys valid during the overlap window', async () => {
+    const created = createApiKey(emptyKeyStore(), {
+      name: 'ide',
+      scopes: ['patterns:read', 'generate'],
+      now,
+    });
+
+    const rotated = await Effect.runPromise(
+      rotateApiKey(created.store, created.record.id, 7 * DAY, now)
+    );
+    const old = findApiKey(rotated.store, created.key);
+    const next = findApiKey(rotated.store, rotated.key);
+
+    expect(next?.scopes).toEqual(['patterns:read', 'generate']);
+    expect(old?.rotatedTo).toBe(next?.id);
+    expect(old && getKeyStatus(old, new Date(now.getTime() + DAY))).toBe(
+      'active'
+    );
+    expect(old && getKeyStatus(old, new Date(now.getTime() + 7 * DAY))).toBe(
+      'expired'
+    );
+  });
+
+  it('should not extend the old key beyond its expiry', async () => {
+    const created = createApiKey(emptyKeyStore(), {
+      name: 'ide',
+      scopes: ['patterns:read'],
+      expiresAt: new Date(now.getTime() + DAY),
+      now,
+    });
+
+    const rotated = await Effect.runPromise(
+      rotateApiKey(created.store, created.record.id, 7 * DAY, now)
+    );
+
+    expect(rotated.previous.expiresAt).toBe(created.record.expiresAt);
+  });
+});
+
+describe('loadKeyStore / saveKeyStore', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'keystore-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should treat a missing file as an empty store', async () => {
+    const store = await Effect.runPromise(
+      loadKeyStore(path.join(testDir, 'api-keys.json'))
+    );
+
+    expect(store.keys).toEqual([]);
+  });
+
+  it('should round-trip a store', async () => {
+    const filePath = path.join(testDir, 'nested', 'api-keys.json');
+    const { store } = createApiKey(emptyKeyStore(), {
+      name: 'ci',
+      scopes: ['admin'],
+    });
+
+    await Effect.runPromise(saveKeyStore(filePath, store));
+    const loaded = await Effect.runPromise(loadKeyStore(filePath));
+
+    expect(loaded).toEqual(store);
+    expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+  });
+
+  it('should fail on an invalid store', async () => {
+    const filePath = path.join(testDir, 'api-keys.json');
+    fs.writeFileSync(filePath, '{ "version": 1, "keys": [{}] }');
+
+    const error = await Effect.runPromise(
+      loadKeyStore(filePath).pipe(Effect.flip)
+    );
+
+    expect(error._tag).toBe('KeyStoreError');
+  });
+});
@@ -1,24 +1,39 @@
 /**
  * API Key Authentication Middleware
  *
- * Validates PATTERN_API_KEY from x-api-key header or ?key query param.
- * Returns 401 Unauthorized for invalid/missing keys.
+ * Validates API keys from the x-api-key header or ?key query param
+ * against the per-client key store (API_KEYS_PATH) and the legacy
+ * single PATTERN_API_KEY. Each route declares the scope it requires.
+ * Returns 401 Unauthorized for invalid/missing keys and 403 Forbidden
+ * for keys without the required scope.
  */
 
+import * as fs from 'node:fs/promises';
 import { Effect } from 'effect';
 import type { NextRequest } from 'next/server';
+import { AuthenticationError, AuthorizationError } from '../server/errors.js';
 import { ConfigService } from '../server/init.js';
+import {
+  API_SCOPES,
+  type ApiKeyStoreFile,
+  type ApiScope,
+  emptyKeyStore,
+  findApiKey,
+  getKeyStatus,
+  hashApiKey,
+  hasScope,
+  loadKeyStore,
+  matchesApiKey,
+} from './keyStore.js';
 
 /**
- * Authentication error
+ * The authenticated caller
  */
-export class AuthenticationError extends Error {
-  readonly _tag = 'AuthenticationError';
-
-  constructor(message: string) {
-    super(message);
-    this.name = 'AuthenticationError';
-  }
+export interface ApiClient {
+  /** Key ID, or "legacy" for PATTERN_API_KEY and "anonymous" in open mode */
+  readonly id: string;
+  readonly name: string;
+  readonly scopes: readonly ApiScope[];
 }
 
 /**
@@ -41,25 +56,69 @@ function extractApiKey(request: NextRequest): string | null {
   return null;
 }
 
+/**
+ * Last decoded key store, reused until the file's mtime changes so keys
+ * created, rotated or revoked with `ep admin keys` apply without a
+ * restart
+ */
+let cachedStore:
+  | { path: string; mtimeMs: number; store: ApiKeyStoreFile }
+  | undefined;
+
+const readKeyStore = (filePath: string) =>
+  Effect.gen(function* () {
+    const mtimeMs = yield* Effect.tryPromise(() => fs.stat(filePath)).pipe(
+      Effect.map((stat) => stat.mtimeMs),
+      Effect.orElseSucceed(() => undefined)
+    );
+
+    if (mtimeMs === undefined) return emptyKeyStore();
+    if (cachedStore?.path === filePath && cachedStore.mtimeMs === mtimeMs) {
+      return cachedStore.store;
+    }
+
+    const store = yield* loadKeyStore(filePath);
+    cachedStore = { path: filePath, mtimeMs, store };
+    return store;
+  });
+
 /**
  * Validate API key Effect
  *
  * @param request - Next.js request object
- * @returns Effect that succeeds if auth is valid, fails otherwise
+ * @param scope - Scope the route requires
+ * @returns Effect yielding the authenticated client, failing if the key
+ *   is missing, invalid, expired, revoked or lacks the scope
  */
 export const validateApiKey = (
-  request: NextRequest
-): Effect.Effect<void, AuthenticationError, ConfigService> =>
+  request: NextRequest,
+  scope: ApiScope
+): Effect.Effect<
+  ApiClient,
+  AuthenticationError | AuthorizationError,
+  ConfigService
+> =>
   Effect.gen(function* () {
     const config = yield* ConfigService;
 
+    // Fail closed if the store exists but cannot be read
+    const store = yield* readKeyStore(config.apiKeysPath).pipe(
+      Effect.catchAll((error) =>
+        Effect.logError('Failed to load API key store').pipe(
+          Effect.annotateLogs({ reason: error.message }),
+          Effect.zipRight(
+            Effect.fail(new AuthenticationError('API key store unavailable'))
+          )
+        )
+      )
+    );
+    const legacyKey = config.apiKey.trim();
+
     // If no API key is configured, skip validation (dev mode)
-    if (!config.apiKey || config.apiKey.trim() === '') {
+    if (store.keys.length === 0 && legacyKey === '') {
       if (config.nodeEnv === 'development') {
-        console.warn(
-          '[Auth] No PATTERN_API_KEY configured - running in open mode'
-        );
-        return;
+        console.warn('[Auth] No API keys configured - running in open mode');
+        return { id: 'anonymous', name: 'anonymous', scopes: API_SCOPES };
       }
       return yield* Effect.fail(
         new AuthenticationError('API key not configured on server')
@@ -74,25 +133,33 @@ export const validateApiKey = (
     }
 
     // Validate key
-    if (providedKey !== config.apiKey) {
+    const record = findApiKey(store, providedKey);
+    let client: ApiClient;
+
+    if (record) {
+      const status = getKeyStatus(record, new Date());
+      if (status !== 'active') {
+        return yield* Effect.fail(new AuthenticationError(`API key ${status}`));
+      }
+      client = { id: record.id, name: record.name, scopes: record.scopes };
+    } else if (
+      legacyKey !== '' &&
+      matchesApiKey(providedKey, hashApiKey(legacyKey))
+    ) {
+      // PATTERN_API_KEY predates scopes and keeps full access
+      client = { id: 'legacy', name: 'PATTERN_API_KEY', scopes: API_SCOPES };
+    } else {
       return yield* Effect.fail(new AuthenticationError('Invalid API key'));
     }
 
-    // Success - auth passed
-    return;
-  });
+    // Check scope
+    if (!hasScope(client, scope)) {
+      return yield* Effect.fail(
+        new AuthorizationError(
+          `API key "${client.name}" lacks required scope: ${scope}`
+        )
+      );
+    }
 
-/**
- * Check if auth error and get appropriate HTTP status
- */
-export function isAuthenticationError(
-  error: unknown
-): error is AuthenticationError {
-  return (
-    error instanceof AuthenticationError ||
-    (typeof error === 'object' &&
-      error !== null &&
-      '_tag' in error &&
-      error._tag === 'AuthenticationError')
-  );
-}
+    return client;
+  });
@@ -0,0 +1,394 @@
+/**
+ * API Key Store
+ *
+ * File-backed store of per-client API keys. Only SHA-256 hashes of the
+ * keys are persisted; each key has a name, scopes, an optional expiry
+ * and can be revoked or rotated with an overlap window during which
+ * both the old and the new key are accepted.
+ *
+ * Shared by the MCP server (verification) and `ep admin keys`
+ * (management), so it depends only on `effect` and Node built-ins.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { Effect, Schema } from 'effect';
+
+/**
+ * Permission granted to an API key
+ *
+ * - `patterns:read`: search, get and explain patterns
+ * - `generate`: generate code snippets
+ * - `admin`: administrative endpoints; implies every other scope
+ */
+export const ApiScope = Schema.Literal('patterns:read', 'generate', 'admin');
+
+export type ApiScope = Schema.Schema.Type<typeof ApiScope>;
+
+/** All scopes, in display order */
+export const API_SCOPES: readonly ApiScope[] = ApiScope.literals;
+
+/**
+ * Stored API key (the key itself is never stored)
+ */
+export const ApiKeyRecord = Schema.Struct({
+  id: Schema.String,
+  name: Schema.String,
+  /** Hex SHA-256 of the full key */
+  hash: Schema.String,
+  /** First characters of the key, to recognise it in listings */
+  prefix: Schema.String,
+  scopes: Schema.Array(ApiScope),
+  createdAt: Schema.String,
+  expiresAt: Schema.optional(Schema.String),
+  revokedAt: Schema.optional(Schema.String),
+  /** ID of the key that replaced this one during rotation */
+  rotatedTo: Schema.optional(Schema.String),
+});
+
+export type ApiKeyRecord = Schema.Schema.Type<typeof ApiKeyRecord>;
+
+/**
+ * Key store file format (e.g. api-keys.json)
+ */
+export const ApiKeyStoreFile = Schema.Struct({
+  version: Schema.Literal(1),
+  keys: Schema.Array(ApiKeyRecord),
+});
+
+export type ApiKeyStoreFile = Schema.Schema.Type<typeof ApiKeyStoreFile>;
+
+/**
+ * Status of a key at a point in time
+ */
+export type ApiKeyStatus = 'active' | 'expired' | 'revoked';
+
+/**
+ * Key store error - the store could not be read, decoded or written,
+ * or a key could not be found
+ */
+export class KeyStoreError extends Error {
+  readonly _tag = 'KeyStoreError';
+
+  constructor(
+    message: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'KeyStoreError';
+  }
+}
+
+/** Prefix of every generated key, so leaked keys are easy to grep for */
+const KEY_PREFIX = 'ep_';
+/** Characters of the key kept in `prefix` */
+const DISPLAY_PREFIX_LENGTH = 10;
+
+/**
+ * An empty store
+ */
+export const emptyKeyStore = (): ApiKeyStoreFile => ({ version: 1, keys: [] });
+
+/**
+ * Hash a key for storage or comparison
+ *
+ * Keys are 256-bit random values, so a fast hash is sufficient; there
+ * is no low-entropy password to protect against brute force.
+ *
+ * @param key - Full API key
+ * @returns Hex SHA-256 digest
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key, 'utf8').digest('hex');
+}
+
+/**
+ * Generate a new random API key
+ */
+export function generateApiKey(): string {
+  return `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Check a presented key against a stored hash in constant time
+ *
+ * @param key - Key presented by the client
+ * @param hash - Hex SHA-256 from `hashApiKey`
+ */
+export function matchesApiKey(key: string, hash: string): boolean {
+  const presented = Buffer.from(hashApiKey(key), 'hex');
+  const stored = Buffer.from(hash, 'hex');
+  return (
+    presented.length === stored.length && timingSafeEqual(presented, stored)
+  );
+}
+
+/**
+ * Status of a key at `now`
+ */
+export function getKeyStatus(record: ApiKeyRecord, now: Date): ApiKeyStatus {
+  if (record.revokedAt && Date.parse(record.revokedAt) <= now.getTime()) {
+    return 'revoked';
+  }
+  if (record.expiresAt && Date.parse(record.expiresAt) <= now.getTime()) {
+    return 'expired';
+  }
+  return 'active';
+}
+
+/**
+ * Check whether a key grants a scope (`admin` grants every scope)
+ */
+export function hasScope(
+  record: Pick<ApiKeyRecord, 'scopes'>,
+  scope: ApiScope
+): boolean {
+  return record.scopes.includes(scope) || record.scopes.includes('admin');
+}
+
+/**
+ * Find the stored record for a presented key
+ *
+ * Every record is compared, whether or not an earlier one matched, so
+ * the time taken does not reveal which (or whether any) key matched.
+ * The caller decides what to do with expired or revoked records.
+ *
+ * @param store - Key store
+ * @param key - Key presented by the client
+ * @returns Matching record, or undefined
+ */
+export function findApiKey(
+  store: ApiKeyStoreFile,
+  key: string
+): ApiKeyRecord | undefined {
+  let match: ApiKeyRecord | undefined;
+
+  for (const record of store.keys) {
+    if (matchesApiKey(key, record.hash) && !match) {
+      match = record;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Parameters for creating a key
+ */
+export interface CreateApiKeyParams {
+  /** Human-readable client name (e.g. "ci", "chat-app") */
+  name: string;
+  scopes: readonly ApiScope[];
+  /** Expiry time (optional; keys without one never expire) */
+  expiresAt?: Date;
+  now?: Date;
+}
+
+/**
+ * Result of creating a key - the only time the key itself is available
+ */
+export interface CreatedApiKey {
+  readonly store: ApiKeyStoreFile;
+  readonly record: ApiKeyRecord;
+  readonly key: string;
+}
+
+/**
+ * Add a new key to the store
+ *
+ * @param store - Current store
+ * @param params - Name, scopes and expiry
+ * @returns New store, the stored record and the plaintext key
+ */
+export function createApiKey(
+  store: ApiKeyStoreFile,
+  params: CreateApiKeyParams
+): CreatedApiKey {
+  const key = generateApiKey();
+  const now = params.now ?? new Date();
+  const record: ApiKeyRecord = {
+    id: `key_${randomBytes(6).toString('hex')}`,
+    name: params.name,
+    hash: hashApiKey(key),
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    scopes: [...new Set(params.scopes)],
+    createdAt: now.toISOString(),
+    ...(params.expiresAt && { expiresAt: params.expiresAt.toISOString() }),
+  };
+
+  return { store: { ...store, keys: [...store.keys, record] }, record, key };
+}
+
+/**
+ * Look up a record by ID, or by name if the name is unique
+ */
+export function resolveApiKey(
+  store: ApiKeyStoreFile,
+  idOrName: string
+): Effect.Effect<ApiKeyRecord, KeyStoreError> {
+  const byId = store.keys.find((record) => record.id === idOrName);
+  if (byId) return Effect.succeed(byId);
+
+  const byName = store.keys.filter((record) => record.name === idOrName);
+  if (byName.length === 1 && byName[0]) return Effect.succeed(byName[0]);
+
+  return Effect.fail(
+    new KeyStoreError(
+      byName.length > 1
+        ? `Several keys are named "${idOrName}"; use the key ID`
+        : `API key not found: ${idOrName}`
+    )
+  );
+}
+
+/**
+ * Revoke a key immediately
+ *
+ * @param store - Current store
+ * @param idOrName - Key ID, or unique key name
+ * @returns New store and the revoked record
+ */
+export const revokeApiKey = (
+  store: ApiKeyStoreFile,
+  idOrName: string,
+  now: Date = new Date()
+) =>
+  Effect.map(resolveApiKey(store, idOrName), (target) => {
+    const record: ApiKeyRecord = {
+      ...target,
+      revokedAt: target.revokedAt ?? now.toISOString(),
+    };
+    return {
+      store: {
+        ...store,
+        keys: store.keys.map((k) => (k.id === target.id ? record : k)),
+      },
+      record,
+    };
+  });
+
+/**
+ * Replace a key with a new one carrying the same name, scopes and
+ * expiry; the old key stays valid for `overlapMs` so clients can switch
+ * over without downtime
+ *
+ * @param store - Current store
+ * @param idOrName - Key ID, or unique key name
+ * @param overlapMs - How long the old key keeps working
+ * @returns New store, the new key and both records
+ */
+export const rotateApiKey = (
+  store: ApiKeyStoreFile,
+  idOrName: string,
+  overlapMs: number,
+  now: Date = new Date()
+) =>
+  Effect.gen(function* () {
+    const target = yield* resolveApiKey(store, idOrName);
+    if (getKeyStatus(target, now) !== 'active') {
+      return yield* Effect.fail(
+        new KeyStoreError(`Cannot rotate inactive key: ${target.id}`)
+      );
+    }
+
+    const created = createApiKey(store, {
+      name: target.name,
+      scopes: target.scopes,
+      expiresAt: target.expiresAt ? new Date(target.expiresAt) : undefined,
+      now,
+    });
+
+    // Never extend the old key beyond its original expiry
+    const overlapEnd = now.getTime() + overlapMs;
+    const expiresAt = target.expiresAt
+      ? Math.min(Date.parse(target.expiresAt), overlapEnd)
+      : overlapEnd;
+    const previous: ApiKeyRecord = {
+      ...target,
+      expiresAt: new Date(expiresAt).toISOString(),
+      rotatedTo: created.record.id,
+    };
+
+    return {
+      store: {
+        ...created.store,
+        keys: created.store.keys.map((k) =>
+          k.id === target.id ? previous : k
+        ),
+      },
+      record: created.record,
+      previous,
+      key: created.key,
+    };
+  });
+
+/**
+ * Read a key store file; a missing file is an empty store
+ *
+ * @param filePath - Path to api-keys.json
+ */
+export const loadKeyStore = (
+  filePath: string
+): Effect.Effect<ApiKeyStoreFile, KeyStoreError> =>
+  Effect.tryPromise({
+    try: () => fs.readFile(filePath, 'utf-8'),
+    catch: (error) => error,
+  }).pipe(
+    Effect.flatMap((content) =>
+      Effect.try({
+        try: () => JSON.parse(content) as unknown,
+        catch: (error) =>
+          new KeyStoreError(`Invalid JSON in ${filePath}: ${error}`, error),
+      })
+    ),
+    Effect.flatMap((json) =>
+      Schema.decodeUnknown(ApiKeyStoreFile)(json).pipe(
+        Effect.mapError(
+          (error) =>
+            new KeyStoreError(`Invalid key store ${filePath}: ${error}`, error)
+        )
+      )
+    ),
+    Effect.catchAll((error) =>
+      error instanceof KeyStoreError
+        ? Effect.fail(error)
+        : isNotFound(error)
+          ? Effect.succeed(emptyKeyStore())
+          : Effect.fail(
+              new KeyStoreError(`Failed to read ${filePath}: ${error}`, error)
+            )
+    )
+  );
+
+/**
+ * Write a key store file atomically, readable by the owner only
+ *
+ * @param filePath - Path to api-keys.json
+ * @param store - Store to write
+ */
+export const saveKeyStore = (
+  filePath: string,
+  store: ApiKeyStoreFile
+): Effect.Effect<void, KeyStoreError> =>
+  Effect.tryPromise({
+    try: async () => {
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(tmpPath, `${JSON.stringify(store, null, 2)}\n`, {
+        mode: 0o600,
+      });
+      await fs.rename(tmpPath, filePath);
+    },
+    catch: (error) =>
+      new KeyStoreError(`Failed to write ${filePath}: ${error}`, error),
+  });
+
+function isNotFound(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'code' in error &&
+    error.code === 'ENOENT'
+  );
+}
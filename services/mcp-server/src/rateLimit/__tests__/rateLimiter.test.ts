@@ -0,0 +1,256 @@
+/**
+ * Rate Limiter Tests
+ *
+ * Tests for token bucket arithmetic, the in-memory store, per-key and
+ * per-IP limiting, configuration parsing and response headers.
+ */
+
+import { Effect, FiberRef, Layer } from 'effect';
+import { describe, expect, it } from 'vitest';
+import { RateLimitError, rateLimitHeaders } from '../../server/errors.js';
+import {
+  currentRateLimit,
+  DEFAULT_RATE_LIMITS,
+  enforceIpRateLimit,
+  enforceRateLimit,
+  getClientIp,
+  makeMemoryRateLimitStore,
+  makeRateLimiter,
+  parseRateLimitConfig,
+  type RateLimitConfig,
+  RateLimiter,
+  RateLimitStore,
+  RateLimitStoreError,
+  takeToken,
+} from '../rateLimiter.js';
+
+const policy = { limit: 2, windowMs: 1000 };
+const config: RateLimitConfig = {
+  enabled: true,
+  default: { limit: 100, windowMs: 60_000 },
+  routes: { generate: policy },
+};
+const client = { id: 'key_1', name: 'ci', scopes: ['generate' as const] };
+
+const makeRequest = (ip: string) => ({
+  headers: new Headers({ 'x-forwarded-for': `${ip}, 10.0.0.1` }),
+});
+
+const limiterLayer = (
+  store = makeMemoryRateLimitStore(),
+  rateLimits = config
+) =>
+  Layer.effect(RateLimiter, makeRateLimiter(rateLimits)).pipe(
+    Layer.provide(Layer.succeed(RateLimitStore, store))
+  );
+
+describe('takeToken', () => {
+  it('should allow a burst up to the limit, then refill over time', () => {
+    const first = takeToken(undefined, policy, 0);
+    const second = takeToken(first.bucket, policy, 0);
+    const third = takeToken(second.bucket, policy, 0);
+
+    expect(first.result.remaining).toBe(1);
+    expect(second.result.allowed).toBe(true);
+    expect(third.result.allowed).toBe(false);
+    expect(third.result.retryAfterMs).toBe(500);
+
+    const later = takeToken(third.bucket, policy, 500);
+    expect(later.result.allowed).toBe(true);
+  });
+
+  it('should not refill beyond the limit', () => {
+    const first = takeToken(undefined, policy, 0);
+    const muchLater = takeToken(first.bucket, policy, 60_000);
+
+    expect(muchLater.result.remaining).toBe(1);
+  });
+});
+
+describe('enforceRateLimit', () => {
+  const request = makeRequest('1.1.1.1');
+
+  it('should fail with RateLimitError once the key bucket is empty', async () => {
+    const check = (ip: string) =>
+      enforceRateLimit(makeRequest(ip), client, 'generate');
+
+    const program = Effect.gen(function* () {
+      yield* check('1.1.1.1');
+      yield* check('2.2.2.2');
+      return yield* Effect.flip(check('3.3.3.3'));
+    }).pipe(Effect.provide(limiterLayer()));
+
+    const error = await Effect.runPromise(program);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.result.allowed).toBe(false);
+  });
+
+  it('should not use the IP budget when the key bucket is empty', async () => {
+    const other = { ...client, id: 'key_2' };
+
+    const program = Effect.gen(function* () {
+      yield* enforceRateLimit(makeRequest('2.2.2.2'), client, 'generate');
+      yield* enforceRateLimit(makeRequest('2.2.2.2'), client, 'generate');
+      yield* Effect.flip(enforceRateLimit(request, client, 'generate'));
+      return yield* enforceRateLimit(request, other, 'generate');
+    }).pipe(Effect.provide(limiterLayer()));
+
+    const result = await Effect.runPromise(program);
+
+    expect(result?.remaining).toBe(policy.limit - 1);
+  });
+
+  it('should limit anonymous clients by IP only', async () => {
+    const anonymous = { ...client, id: 'anonymous' };
+
+    const program = Effect.gen(function* () {
+      yield* enforceRateLimit(request, anonymous, 'generate');
+      yield* enforceRateLimit(request, anonymous, 'generate');
+      return {
+        denied: yield* Effect.flip(
+          enforceRateLimit(request, anonymous, 'generate')
+        ),
+        keyed: yield* enforceRateLimit(
+          makeRequest('2.2.2.2'),
+          client,
+          'generate'
+        ),
+      };
+    }).pipe(Effect.provide(limiterLayer()));
+
+    const { denied, keyed } = await Effect.runPromise(program);
+
+    expect(denied).toBeInstanceOf(RateLimitError);
+    expect(keyed?.remaining).toBe(policy.limit - 1);
+  });
+
+  it('should allow requests when the store fails', async () => {
+    const failing = {
+      take: () => Effect.fail(new RateLimitStoreError('connection refused')),
+    };
+
+    const result = await Effect.runPromise(
+      enforceRateLimit(request, client, 'generate').pipe(
+        Effect.provide(limiterLayer(failing))
+      )
+    );
+
+    expect(result).toBeUndefined();
+  });
+
+  it('should record the tightest bucket for the response headers', async () => {
+    const program = Effect.gen(function* () {
+      yield* enforceRateLimit(makeRequest('2.2.2.2'), client, 'generate');
+      yield* FiberRef.set(currentRateLimit, undefined);
+
+      yield* enforceRateLimit(request, client, 'generate');
+      return yield* FiberRef.get(currentRateLimit);
+    }).pipe(Effect.provide(limiterLayer()));
+
+    const recorded = await Effect.runPromise(program);
+
+    expect(recorded?.remaining).toBe(0);
+  });
+});
+
+describe('enforceIpRateLimit', () => {
+  it('should limit each IP separately', async () => {
+    const check = (ip: string) =>
+      enforceIpRateLimit(makeRequest(ip), 'generate');
+
+    const program = Effect.gen(function* () {
+      yield* check('1.1.1.1');
+      yield* check('1.1.1.1');
+      const denied = yield* Effect.flip(check('1.1.1.1'));
+      const other = yield* check('2.2.2.2');
+      return { denied, other };
+    }).pipe(Effect.provide(limiterLayer()));
+
+    const { denied, other } = await Effect.runPromise(program);
+
+    expect(denied).toBeInstanceOf(RateLimitError);
+    expect(other?.allowed).toBe(true);
+  });
+
+  it('should use the default policy for routes without one', async () => {
+    const result = await Effect.runPromise(
+      enforceIpRateLimit(makeRequest('1.1.1.1'), 'patterns').pipe(
+        Effect.provide(limiterLayer())
+      )
+    );
+
+    expect(result?.limit).toBe(100);
+  });
+});
+
+describe('makeRateLimiter', () => {
+  it('should take no token unless every bucket has one', async () => {
+    const program = Effect.gen(function* () {
+      const limiter = yield* RateLimiter;
+      yield* limiter.check(['ip:1.1.1.1'], 'generate');
+      yield* limiter.check(['ip:1.1.1.1'], 'generate');
+
+      // The IP bucket is empty, so the key bucket must stay full
+      yield* Effect.flip(
+        limiter.check(['key:key_1', 'ip:1.1.1.1'], 'generate')
+      );
+      return yield* limiter.check(['key:key_1'], 'generate');
+    }).pipe(Effect.provide(limiterLayer()));
+
+    const result = await Effect.runPromise(program);
+
+    expect(result?.remaining).toBe(policy.limit - 1);
+  });
+});
+
+describe('getClientIp', () => {
+  it('should prefer the first x-forwarded-for address', () => {
+    expect(getClientIp(makeRequest('203.0.113.7'))).toBe('203.0.113.7');
+    expect(
+      getClientIp({ headers: new Headers({ 'x-real-ip': '203.0.113.8' }) })
+    ).toBe('203.0.113.8');
+    expect(getClientIp({ headers: new Headers() })).toBe('unknown');
+  });
+});
+
+describe('parseRateLimitConfig', () => {
+  it('should merge route overrides with the defaults', () => {
+    const parsed = Effect.runSync(
+      parseRateLimitConfig({
+        RATE_LIMITS: '{"generate":{"limit":5,"windowMs":1000}}',
+      })
+    );
+
+    expect(parsed.routes.generate).toEqual({ limit: 5, windowMs: 1000 });
+    expect(parsed.routes.admin).toEqual(DEFAULT_RATE_LIMITS.routes.admin);
+    expect(parsed.default).toEqual(DEFAULT_RATE_LIMITS.default);
+  });
+
+  it('should fall back to the defaults on invalid policies', () => {
+    const parsed = Effect.runSync(
+      parseRateLimitConfig({
+        RATE_LIMITS: '{"generate":{"limit":0}}',
+        RATE_LIMIT_ENABLED: 'false',
+      })
+    );
+
+    expect(parsed).toEqual({ ...DEFAULT_RATE_LIMITS, enabled: false });
+  });
+});
+
+describe('rateLimitHeaders', () => {
+  it('should include Retry-After only when rate limited', () => {
+    const denied = takeToken({ tokens: 0, updatedAt: 0 }, policy, 0).result;
+
+    expect(rateLimitHeaders(denied)).toEqual({
+      'Retry-After': '1',
+      'X-RateLimit-Limit': '2',
+      'X-RateLimit-Remaining': '0',
+      'X-RateLimit-Reset': '1',
+    });
+    expect(
+      rateLimitHeaders(takeToken(undefined, policy, 0).result)
+    ).not.toHaveProperty('Retry-After');
+  });
+});
@@ -0,0 +1,390 @@
+/**
+ * Rate Limiter - Token bucket per API key and per client IP
+ *
+ * Each route has a policy (`limit` requests per `windowMs`), applied
+ * separately to the caller's IP address and API key. Both buckets are
+ * checked together and a request is allowed only if each has a token
+ * left, so a request denied by one bucket does not drain the other;
+ * requests with a bad key are limited by IP alone. Bucket state lives in
+ * a RateLimitStore: in memory by default, or a shared backend (e.g.
+ * Redis) when several server instances must share limits.
+ * An empty bucket fails the request with RateLimitError (429 Too Many
+ * Requests with Retry-After and X-RateLimit-* headers); the state of
+ * the tightest bucket is also sent on successful responses.
+ */
+
+import { Context, Effect, FiberRef, Layer } from 'effect';
+import type { ApiClient } from '../auth/apiKey.js';
+import { RateLimitError } from '../server/errors.js';
+
+/**
+ * Routes with their own rate limit policy
+ */
+export type RateLimitRoute =
+  | 'patterns'
+  | 'explain'
+  | 'generate'
+  | 'trace-wiring'
+  | 'admin';
+
+/**
+ * Token bucket policy: `limit` requests per `windowMs`, with tokens
+ * refilled continuously so bursts of up to `limit` are allowed
+ */
+export interface RateLimitPolicy {
+  readonly limit: number;
+  readonly windowMs: number;
+}
+
+/**
+ * Rate limit configuration - `default` applies to routes without their
+ * own policy
+ */
+export interface RateLimitConfig {
+  readonly enabled: boolean;
+  readonly default: RateLimitPolicy;
+  readonly routes: Partial<Record<RateLimitRoute, RateLimitPolicy>>;
+}
+
+/**
+ * Outcome of taking a token from a bucket
+ */
+export interface RateLimitResult {
+  readonly allowed: boolean;
+  readonly limit: number;
+  /** Whole tokens left after this request */
+  readonly remaining: number;
+  /** Epoch ms at which the bucket is full again */
+  readonly resetAt: number;
+  /** Milliseconds until a token is available (0 if allowed) */
+  readonly retryAfterMs: number;
+}
+
+/**
+ * Stored bucket state
+ */
+export interface TokenBucket {
+  readonly tokens: number;
+  readonly updatedAt: number;
+}
+
+/**
+ * Rate limit store error - the backend could not be reached
+ */
+export class RateLimitStoreError extends Error {
+  readonly _tag = 'RateLimitStoreError';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateLimitStoreError';
+  }
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  enabled: true,
+  default: { limit: 120, windowMs: 60_000 },
+  routes: {
+    generate: { limit: 20, windowMs: 60_000 },
+    admin: { limit: 10, windowMs: 60_000 },
+  },
+};
+
+/**
+ * Parse rate limit configuration from environment variables
+ *
+ * - RATE_LIMIT_ENABLED=false disables rate limiting
+ * - RATE_LIMITS is JSON mapping `default` or a route to a policy, e.g.
+ *   {"generate":{"limit":5,"windowMs":60000}}
+ *
+ * Invalid RATE_LIMITS is logged and the defaults are used.
+ */
+export function parseRateLimitConfig(
+  env: Record<string, string | undefined>
+): Effect.Effect<RateLimitConfig> {
+  const enabled = env.RATE_LIMIT_ENABLED !== 'false';
+  if (!env.RATE_LIMITS?.trim()) {
+    return Effect.succeed({ ...DEFAULT_RATE_LIMITS, enabled });
+  }
+  const json = env.RATE_LIMITS;
+
+  return Effect.try({
+    try: (): RateLimitConfig => {
+      const overrides: Record<string, RateLimitPolicy> = JSON.parse(json);
+      for (const [route, policy] of Object.entries(overrides)) {
+        if (!isValidPolicy(policy)) {
+          throw new Error(`invalid policy for "${route}"`);
+        }
+      }
+
+      const { default: defaultPolicy, ...routes } = overrides;
+      return {
+        enabled,
+        default: defaultPolicy ?? DEFAULT_RATE_LIMITS.default,
+        routes: { ...DEFAULT_RATE_LIMITS.routes, ...routes },
+      };
+    },
+    catch: (error) => (error instanceof Error ? error.message : String(error)),
+  }).pipe(
+    Effect.catchAll((reason) =>
+      Effect.logWarning('Ignoring invalid RATE_LIMITS').pipe(
+        Effect.annotateLogs({ reason }),
+        Effect.as({ ...DEFAULT_RATE_LIMITS, enabled })
+      )
+    )
+  );
+}
+
+function isValidPolicy(policy: unknown): policy is RateLimitPolicy {
+  return (
+    typeof policy === 'object' &&
+    policy !== null &&
+    'limit' in policy &&
+    'windowMs' in policy &&
+    typeof policy.limit === 'number' &&
+    typeof policy.windowMs === 'number' &&
+    policy.limit > 0 &&
+    policy.windowMs > 0
+  );
+}
+
+/**
+ * Refill a bucket up to `now` and try to take one token
+ *
+ * Pure, so every store shares the same arithmetic; stores only need to
+ * apply it atomically to the stored bucket.
+ *
+ * @param bucket - Stored bucket, or undefined for a new (full) bucket
+ * @param policy - Policy for the route
+ * @param now - Current time in epoch ms
+ * @returns The updated bucket and the outcome
+ */
+export function takeToken(
+  bucket: TokenBucket | undefined,
+  policy: RateLimitPolicy,
+  now: number
+): { bucket: TokenBucket; result: RateLimitResult } {
+  const refillPerMs = policy.limit / policy.windowMs;
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+  const available = bucket
+    ? Math.min(policy.limit, bucket.tokens + elapsed * refillPerMs)
+    : policy.limit;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: policy.limit,
+      remaining: Math.floor(tokens),
+      resetAt: now + Math.ceil((policy.limit - tokens) / refillPerMs),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+    },
+  };
+}
+
+/**
+ * Rate limit store tag - holds token buckets by key
+ *
+ * `take` refills the buckets and takes a token from each only if every
+ * one of them has a token left, so a denied request uses up no quota;
+ * it must do so atomically (see `takeToken`). Results are in key order.
+ */
+export class RateLimitStore extends Context.Tag('RateLimitStore')<
+  RateLimitStore,
+  {
+    readonly take: (
+      keys: readonly string[],
+      policy: RateLimitPolicy,
+      now: number
+    ) => Effect.Effect<readonly RateLimitResult[], RateLimitStoreError>;
+  }
+>() {}
+
+/**
+ * In-memory store for a single server instance
+ *
+ * Buckets that have refilled completely are equivalent to missing
+ * ones, so they are pruned once the store holds more than `maxKeys`.
+ */
+export function makeMemoryRateLimitStore(
+  maxKeys = 10_000
+): Context.Tag.Service<RateLimitStore> {
+  const buckets = new Map<string, { bucket: TokenBucket; full: number }>();
+
+  const prune = (now: number) => {
+    for (const [key, entry] of buckets) {
+      if (entry.full <= now) buckets.delete(key);
+    }
+  };
+
+  return {
+    take: (keys, policy, now) =>
+      Effect.sync(() => {
+        if (buckets.size > maxKeys) prune(now);
+
+        const taken = keys.map((key) => ({
+          key,
+          ...takeToken(buckets.get(key)?.bucket, policy, now),
+        }));
+        if (taken.every(({ result }) => result.allowed)) {
+          for (const { key, bucket, result } of taken) {
+            buckets.set(key, { bucket, full: result.resetAt });
+          }
+        }
+        return taken.map(({ result }) => result);
+      }),
+  };
+}
+
+export const MemoryRateLimitStoreLive = Layer.sync(
+  RateLimitStore,
+  makeMemoryRateLimitStore
+);
+
+/**
+ * Rate limiter service tag - checks a request's buckets for a route
+ */
+export class RateLimiter extends Context.Tag('RateLimiter')<
+  RateLimiter,
+  {
+    readonly check: (
+      identities: readonly string[],
+      route: RateLimitRoute
+    ) => Effect.Effect<RateLimitResult | undefined, RateLimitError>;
+  }
+>() {}
+
+/**
+ * The bucket with the fewest tokens left
+ */
+const tightestResult = (
+  results: readonly (RateLimitResult | undefined)[]
+): RateLimitResult | undefined =>
+  results.reduce<RateLimitResult | undefined>(
+    (tightest, result) =>
+      result && (!tightest || result.remaining < tightest.remaining)
+        ? result
+        : tightest,
+    undefined
+  );
+
+/**
+ * Build the rate limiter for a configuration
+ *
+ * If the store fails, requests are allowed (and the failure logged) so
+ * a rate limit backend outage does not take the API down with it.
+ */
+export const makeRateLimiter = (config: RateLimitConfig) =>
+  Effect.gen(function* () {
+    const store = yield* RateLimitStore;
+
+    const check = (identities: readonly string[], route: RateLimitRoute) =>
+      Effect.gen(function* () {
+        if (!config.enabled) return undefined;
+
+        const policy = config.routes[route] ?? config.default;
+        const results = yield* store.take(
+          identities.map((identity) => `${route}:${identity}`),
+          policy,
+          Date.now()
+        );
+
+        const denied = results.find((result) => !result.allowed);
+        if (denied) {
+          return yield* Effect.fail(new RateLimitError(denied));
+        }
+
+        return tightestResult(results);
+      }).pipe(
+        Effect.catchTag('RateLimitStoreError', (error) =>
+          Effect.logError('Rate limit store unavailable').pipe(
+            Effect.annotateLogs({ route, reason: error.message }),
+            Effect.as(undefined)
+          )
+        )
+      );
+
+    return { check };
+  });
+
+/**
+ * Client IP from proxy headers, as set by Vercel and most reverse
+ * proxies
+ */
+export function getClientIp(request: { readonly headers: Headers }): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  const first = forwarded?.split(',')[0]?.trim();
+  if (first) return first;
+
+  return request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+/**
+ * Tightest bucket checked for the current request, sent by
+ * `handleRoute` as X-RateLimit-* headers
+ */
+export const currentRateLimit = FiberRef.unsafeMake<
+  RateLimitResult | undefined
+>(undefined);
+
+/**
+ * Check buckets and remember the tightest for the response headers
+ */
+const enforce = (
+  identities: readonly string[],
+  route: RateLimitRoute
+): Effect.Effect<RateLimitResult | undefined, RateLimitError, RateLimiter> =>
+  Effect.flatMap(RateLimiter, (limiter) =>
+    limiter.check(identities, route)
+  ).pipe(
+    Effect.tap((result) =>
+      FiberRef.update(currentRateLimit, (current) =>
+        tightestResult([current, result])
+      )
+    )
+  );
+
+/**
+ * Rate limit a request Effect by client IP
+ *
+ * Use when `validateApiKey` fails, so floods of requests with a missing
+ * or invalid key are throttled too.
+ *
+ * @param request - Next.js request object
+ * @param route - Route whose policy applies
+ * @returns Effect yielding the IP bucket's state (undefined when rate
+ *   limiting is disabled), failing with RateLimitError when empty
+ */
+export const enforceIpRateLimit = (
+  request: { readonly headers: Headers },
+  route: RateLimitRoute
+): Effect.Effect<RateLimitResult | undefined, RateLimitError, RateLimiter> =>
+  enforce([`ip:${getClientIp(request)}`], route);
+
+/**
+ * Rate limit a request Effect by client IP and API key together
+ *
+ * Call after `validateApiKey`. A token is taken from neither bucket
+ * unless both have one. Anonymous (open mode) clients are only limited
+ * by IP.
+ *
+ * @param request - Next.js request object
+ * @param client - Client returned by `validateApiKey`
+ * @param route - Route whose policy applies
+ * @returns Effect yielding the tightest bucket's state (undefined when
+ *   rate limiting is disabled), failing with RateLimitError when either
+ *   is empty
+ */
+export const enforceRateLimit = (
+  request: { readonly headers: Headers },
+  client: ApiClient,
+  route: RateLimitRoute
+): Effect.Effect<RateLimitResult | undefined, RateLimitError, RateLimiter> =>
+  enforce(
+    client.id === 'anonymous'
+      ? [`ip:${getClientIp(request)}`]
+      : [`ip:${getClientIp(request)}`, `key:${client.id}`],
+    route
+  );
@@ -0,0 +1,154 @@
+/**
+ * Route Error Tests
+ *
+ * Tests for mapping tagged errors, Schema decode failures and defects
+ * to RFC 7807 problem details.
+ */
+
+import { Schema as S } from '@effect/schema';
+import {
+  ExampleNotFoundError,
+  GenerateRequest,
+  SnippetCompileError,
+} from '@effect-patterns/toolkit';
+import { Effect } from 'effect';
+import { describe, expect, it } from 'vitest';
+import {
+  AuthenticationError,
+  isUnhandledError,
+  PatternNotFoundError,
+  RateLimitError,
+  RequestValidationError,
+  toProblem,
+} from '../errors.js';
+
+const context = { instance: '/api/generate', traceId: 'abc123' };
+
+describe('toProblem', () => {
+  it('should map tagged errors to typed problems', () => {
+    const { body, headers } = toProblem(
+      new PatternNotFoundError('missing-pattern'),
+      context
+    );
+
+    expect(body).toEqual({
+      type: '/problems/v1/pattern-not-found',
+      title: 'Pattern Not Found',
+      status: 404,
+      detail: 'Pattern not found: missing-pattern',
+      patternId: 'missing-pattern',
+      instance: '/api/generate',
+      traceId: 'abc123',
+    });
+    expect(headers['content-type']).toBe('application/problem+json');
+  });
+
+  it('should map missing examples to 404', () => {
+    const { body } = toProblem(
+      new ExampleNotFoundError({
+        patternId: 'retry-backoff',
+        message: 'Pattern retry-backoff has no example 3 (1 available)',
+      })
+    );
+
+    expect(body.status).toBe(404);
+    expect(body.type).toBe('/problems/v1/example-not-found');
+    expect(body.patternId).toBe('retry-backoff');
+  });
+
+  it('should map non-compiling snippets to 422 with diagnostics', () => {
+    const diagnostic = {
+      path: 'retry-backoff.ts',
+      line: 3,
+      column: 7,
+      code: 2304,
+      category: 'error' as const,
+      message: "Cannot find name 'apiCall'.",
+    };
+    const { body } = toProblem(
+      new SnippetCompileError({
+        patternId: 'retry-backoff',
+        message: 'Snippet for retry-backoff has 1 type error(s)',
+        typecheck: {
+          ok: false,
+          effectVersion: '3.17.0',
+          diagnostics: [diagnostic],
+        },
+      })
+    );
+
+    expect(body.status).toBe(422);
+    expect(body.type).toBe('/problems/v1/snippet-does-not-compile');
+    expect(body.patternId).toBe('retry-backoff');
+    expect(body.diagnostics).toEqual([diagnostic]);
+  });
+
+  it('should map authentication errors to 401', () => {
+    const { body } = toProblem(new AuthenticationError('Missing API key'));
+
+    expect(body.status).toBe(401);
+    expect(body.type).toBe('/problems/v1/unauthorized');
+  });
+
+  it('should include rate limit headers', () => {
+    const { body, headers } = toProblem(
+      new RateLimitError({
+        allowed: false,
+        limit: 20,
+        remaining: 0,
+        resetAt: 60_000,
+        retryAfterMs: 3000,
+      })
+    );
+
+    expect(body.status).toBe(429);
+    expect(headers['Retry-After']).toBe('3');
+    expect(headers['X-RateLimit-Limit']).toBe('20');
+  });
+
+  it('should report the invalid fields of a decode failure', async () => {
+    const error = await Effect.runPromise(
+      S.decodeUnknown(GenerateRequest)({ moduleType: 'amd' }).pipe(Effect.flip)
+    );
+
+    const { body } = toProblem(RequestValidationError.fromParseError(error));
+
+    expect(body.status).toBe(400);
+    expect(body.type).toBe('/problems/v1/invalid-request');
+    expect(body.errors).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ pointer: '#/patternId' }),
+      ])
+    );
+  });
+
+  it('should treat unmapped ParseErrors as invalid requests', async () => {
+    const error = await Effect.runPromise(
+      S.decodeUnknown(S.Struct({ limit: S.NumberFromString }))({
+        limit: 'ten',
+      }).pipe(Effect.flip)
+    );
+
+    const { body } = toProblem(error);
+
+    expect(body.status).toBe(400);
+    expect(body.errors).toEqual([
+      expect.objectContaining({ pointer: '#/limit' }),
+    ]);
+  });
+
+  it('should hide the details of unexpected errors', () => {
+    const { body } = toProblem(new Error('ENOENT: /srv/data/patterns.json'));
+
+    expect(body.status).toBe(500);
+    expect(body.detail).toBe('An unexpected error occurred');
+    expect(JSON.stringify(body)).not.toContain('patterns.json');
+  });
+});
+
+describe('isUnhandledError', () => {
+  it('should only flag errors reported as 500', () => {
+    expect(isUnhandledError(new Error('boom'))).toBe(true);
+    expect(isUnhandledError(new PatternNotFoundError('missing'))).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * OpenAPI Coverage Tests
+ *
+ * Fails when a route under app/api is added without being documented
+ * in the OpenAPI document (or a documented route is removed).
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { dirname, join, relative, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { API_OPERATIONS } from '@effect-patterns/toolkit';
+import { describe, expect, it } from 'vitest';
+
+const API_DIR = join(
+  dirname(fileURLToPath(import.meta.url)),
+  '../../../app/api'
+);
+
+/**
+ * Every "METHOD /path" exported by a route.ts under app/api, with
+ * Next.js [param] segments written as OpenAPI {param} templates
+ */
+function listRouteOperations(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return listRouteOperations(path);
+    }
+    if (entry.name !== 'route.ts') {
+      return [];
+    }
+
+    const template =
+      `/api/${relative(API_DIR, dir).split(sep).join('/')}`.replace(
+        /\[([^\]]+)\]/g,
+        '{$1}'
+      );
+    const source = readFileSync(path, 'utf-8');
+    return [
+      ...source.matchAll(/export async function (GET|POST|PUT|DELETE)/g),
+    ].map((match) => `${match[1]} ${template}`);
+  });
+}
+
+describe('OpenAPI document', () => {
+  it('should document every app/api route', () => {
+    const documented = API_OPERATIONS.filter((op) => !op.server).map(
+      (op) => `${op.method.toUpperCase()} ${op.path}`
+    );
+
+    expect(listRouteOperations(API_DIR).sort()).toEqual(documented.sort());
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Route Errors - Tagged errors and RFC 7807 problem details
+ *
+ * Every error a route can fail with is a tagged class here, and
+ * `toProblem` maps it to an `application/problem+json` body with a
+ * stable, versioned `type` URI. Clients should branch on `type` (or
+ * `status`), not on `detail`, which is human-readable and may change.
+ */
+
+import { ArrayFormatter, type ParseResult } from '@effect/schema';
+import type {
+  ExampleNotFoundError,
+  SnippetCompileError,
+} from '@effect-patterns/toolkit';
+import type { RateLimitResult } from '../rateLimit/rateLimiter.js';
+
+/**
+ * Base of every problem `type` URI; bumped if the meaning of a type or
+ * its extension members changes incompatibly
+ */
+export const PROBLEM_TYPE_BASE = '/problems/v1/';
+
+/**
+ * Authentication error - the API key is missing, invalid, expired or
+ * revoked
+ */
+export class AuthenticationError extends Error {
+  readonly _tag = 'AuthenticationError';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Authorization error - the key is valid but lacks the required scope
+ */
+export class AuthorizationError extends Error {
+  readonly _tag = 'AuthorizationError';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthorizationError';
+  }
+}
+
+/**
+ * Rate limit error - a bucket for this request is empty
+ */
+export class RateLimitError extends Error {
+  readonly _tag = 'RateLimitError';
+
+  constructor(readonly result: RateLimitResult) {
+    super(
+      `Rate limit exceeded, retry in ${Math.ceil(result.retryAfterMs / 1000)}s`
+    );
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Pattern not found error
+ */
+export class PatternNotFoundError extends Error {
+  readonly _tag = 'PatternNotFoundError';
+
+  constructor(readonly patternId: string) {
+    super(`Pattern not found: ${patternId}`);
+    this.name = 'PatternNotFoundError';
+  }
+}
+
+/**
+ * One invalid field of a request
+ */
+export interface ValidationIssue {
+  /** JSON Pointer to the field, e.g. "#/patternId" ("#" for the whole input) */
+  readonly pointer: string;
+  readonly detail: string;
+}
+
+/**
+ * Request validation error - the body, query or path parameters do not
+ * match the route's schema
+ */
+export class RequestValidationError extends Error {
+  readonly _tag = 'RequestValidationError';
+
+  constructor(
+    message: string,
+    readonly issues: readonly ValidationIssue[] = []
+  ) {
+    super(message);
+    this.name = 'RequestValidationError';
+  }
+
+  /**
+   * Build from a Schema decode failure, keeping each field's path
+   */
+  static fromParseError(error: ParseResult.ParseError): RequestValidationError {
+    const issues = ArrayFormatter.formatErrorSync(error).map((issue) => ({
+      pointer: toJsonPointer(issue.path),
+      detail: issue.message,
+    }));
+    return new RequestValidationError(
+      issues.length === 1
+        ? `Invalid request: ${issues[0]?.pointer} ${issues[0]?.detail}`
+        : `Invalid request: ${issues.length} invalid fields`,
+      issues
+    );
+  }
+}
+
+/**
+ * Errors with a dedicated problem type (`ExampleNotFoundError` and
+ * `SnippetCompileError` come from the toolkit's snippet generation)
+ */
+export type RouteError =
+  | AuthenticationError
+  | AuthorizationError
+  | RateLimitError
+  | PatternNotFoundError
+  | ExampleNotFoundError
+  | SnippetCompileError
+  | RequestValidationError;
+
+/**
+ * RFC 7807 problem details, with the trace ID and any error-specific
+ * extension members
+ */
+export interface ProblemDetails {
+  readonly type: string;
+  readonly title: string;
+  readonly status: number;
+  readonly detail: string;
+  /** Request path */
+  readonly instance?: string;
+  readonly traceId?: string;
+  readonly [extension: string]: unknown;
+}
+
+/**
+ * A problem ready to be sent
+ */
+export interface Problem {
+  readonly body: ProblemDetails;
+  readonly headers: Record<string, string>;
+}
+
+const problem = (
+  slug: string,
+  title: string,
+  status: number,
+  detail: string,
+  extensions: Record<string, unknown> = {}
+): ProblemDetails => ({
+  type: `${PROBLEM_TYPE_BASE}${slug}`,
+  title,
+  status,
+  detail,
+  ...extensions,
+});
+
+/**
+ * Map a route failure to problem details
+ *
+ * Errors without a dedicated type (and defects) become 500 Internal
+ * Server Error; their message is not returned, since it may reveal
+ * internals (`handleRoute` logs it instead).
+ *
+ * @param error - The failure (or defect) the route ended with
+ * @param context - Request path and trace ID to include
+ */
+export function toProblem(
+  error: unknown,
+  context: { instance?: string; traceId?: string } = {}
+): Problem {
+  let headers: Record<string, string> = {};
+  let details: ProblemDetails;
+
+  const routeError = asRouteError(error);
+
+  switch (routeError?._tag) {
+    case 'AuthenticationError':
+      details = problem(
+        'unauthorized',
+        'Unauthorized',
+        401,
+        routeError.message
+      );
+      break;
+    case 'AuthorizationError':
+      details = problem('forbidden', 'Forbidden', 403, routeError.message);
+      break;
+    case 'RateLimitError':
+      details = problem(
+        'rate-limited',
+        'Too Many Requests',
+        429,
+        routeError.message
+      );
+      headers = rateLimitHeaders(routeError.result);
+      break;
+    case 'PatternNotFoundError':
+      details = problem(
+        'pattern-not-found',
+        'Pattern Not Found',
+        404,
+        routeError.message,
+        { patternId: routeError.patternId }
+      );
+      break;
+    case 'ExampleNotFoundError':
+      details = problem(
+        'example-not-found',
+        'Example Not Found',
+        404,
+        routeError.message,
+        { patternId: routeError.patternId }
+      );
+      break;
+    case 'SnippetCompileError':
+      details = problem(
+        'snippet-does-not-compile',
+        'Snippet Does Not Compile',
+        422,
+        routeError.message,
+        {
+          patternId: routeError.patternId,
+          diagnostics: routeError.typecheck.diagnostics,
+        }
+      );
+      break;
+    case 'RequestValidationError':
+      details = problem(
+        'invalid-request',
+        'Invalid Request',
+        400,
+        routeError.message,
+        { errors: routeError.issues }
+      );
+      break;
+    default:
+      details = problem(
+        'internal-error',
+        'Internal Server Error',
+        500,
+        'An unexpected error occurred'
+      );
+  }
+
+  return {
+    body: { ...details, ...context },
+    headers: { 'content-type': 'application/problem+json', ...headers },
+  };
+}
+
+/**
+ * Response headers describing a bucket's state
+ */
+export function rateLimitHeaders(
+  result: RateLimitResult
+): Record<string, string> {
+  return {
+    ...(!result.allowed && {
+      'Retry-After': String(Math.ceil(result.retryAfterMs / 1000)),
+    }),
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt / 1000)),
+  };
+}
+
+/**
+ * Whether `toProblem` reports an error as 500 Internal Server Error
+ */
+export function isUnhandledError(error: unknown): boolean {
+  return asRouteError(error) === undefined;
+}
+
+const ROUTE_ERROR_TAGS = new Set<string>([
+  'AuthenticationError',
+  'AuthorizationError',
+  'RateLimitError',
+  'PatternNotFoundError',
+  'ExampleNotFoundError',
+  'SnippetCompileError',
+  'RequestValidationError',
+]);
+
+/**
+ * Narrow to a RouteError, converting Schema decode failures that were
+ * not mapped by the route
+ */
+function asRouteError(error: unknown): RouteError | undefined {
+  if (typeof error !== 'object' || error === null || !('_tag' in error)) {
+    return undefined;
+  }
+  if (error._tag === 'ParseError') {
+    return RequestValidationError.fromParseError(
+      error as ParseResult.ParseError
+    );
+  }
+  return typeof error._tag === 'string' && ROUTE_ERROR_TAGS.has(error._tag)
+    ? (error as RouteError)
+    : undefined;
+}
+
+/**
+ * Encode a Schema path as a JSON Pointer fragment (RFC 6901)
+ */
+function toJsonPointer(path: ReadonlyArray<PropertyKey>): string {
+  return `#${path
+    .map(
+      (segment) =>
+        `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`
+    )
+    .join('')}`;
+}
@@ -0,0 +1,115 @@
+/**
+ * Route Adapter - Runs a route Effect and builds the HTTP response
+ *
+ * Success bodies are sent as JSON; failures are mapped by `toProblem`
+ * to RFC 7807 problem details. Both carry the request's trace ID in the
+ * `x-trace-id` header, and the rate limit state in X-RateLimit-*
+ * headers once the route has been rate limited.
+ */
+
+import { Schema as S } from '@effect/schema';
+import { Cause, Effect, Exit, FiberRef, Option } from 'effect';
+import { NextResponse } from 'next/server';
+import { currentRateLimit } from '../rateLimit/rateLimiter.js';
+import { TracingService } from '../tracing/otlpLayer.js';
+import {
+  isUnhandledError,
+  RequestValidationError,
+  rateLimitHeaders,
+  toProblem,
+} from './errors.js';
+import { type AppServices, runWithRuntime } from './init.js';
+
+/**
+ * Response options
+ */
+export interface RouteOptions<A> {
+  /** Status for a successful result (default: 200) */
+  readonly status?: (result: A) => number;
+}
+
+/**
+ * Run a route Effect with the app runtime
+ *
+ * @param request - Incoming request (its path becomes the problem's
+ *   `instance`)
+ * @param effect - Route logic, yielding the response body
+ * @param options - Response options
+ * @returns JSON response, or problem+json if the Effect failed
+ */
+export async function handleRoute<A, E>(
+  request: Request,
+  effect: Effect.Effect<A, E, AppServices>,
+  options: RouteOptions<A> = {}
+): Promise<NextResponse> {
+  const { exit, traceId, rateLimit } = await runWithRuntime(
+    Effect.gen(function* () {
+      const tracing = yield* TracingService;
+      const exit = yield* Effect.exit(effect);
+
+      // The response hides what went wrong, so log the full cause
+      if (Exit.isFailure(exit) && isUnhandledError(Cause.squash(exit.cause))) {
+        yield* Effect.logError('Unhandled route error', exit.cause).pipe(
+          Effect.annotateLogs({
+            instance: new URL(request.url).pathname,
+            traceId: tracing.getTraceId(),
+          })
+        );
+      }
+
+      return {
+        exit,
+        traceId: tracing.getTraceId(),
+        rateLimit: yield* FiberRef.get(currentRateLimit),
+      };
+    })
+  );
+
+  const traceHeaders: Record<string, string> = {
+    'x-trace-id': traceId || '',
+    ...(rateLimit && rateLimitHeaders(rateLimit)),
+  };
+
+  if (Exit.isSuccess(exit)) {
+    return NextResponse.json(exit.value, {
+      status: options.status?.(exit.value) ?? 200,
+      headers: traceHeaders,
+    });
+  }
+
+  const failure = Cause.failureOption(exit.cause);
+  const { body, headers } = toProblem(
+    Option.isSome(failure) ? failure.value : Cause.squash(exit.cause),
+    { instance: new URL(request.url).pathname, traceId }
+  );
+
+  return NextResponse.json(body, {
+    status: body.status,
+    headers: { ...traceHeaders, ...headers },
+  });
+}
+
+/**
+ * Read a JSON request body
+ */
+export const readJsonBody = (
+  request: Request
+): Effect.Effect<unknown, RequestValidationError> =>
+  Effect.tryPromise({
+    try: () => request.json() as Promise<unknown>,
+    catch: () =>
+      new RequestValidationError('Invalid request: body must be valid JSON', [
+        { pointer: '#', detail: 'Expected a JSON body' },
+      ]),
+  });
+
+/**
+ * Decode request input (body, query or path parameters) with a Schema,
+ * failing with the invalid fields
+ */
+export const decodeRequest =
+  <A, I>(schema: S.Schema<A, I>) =>
+  (input: unknown): Effect.Effect<A, RequestValidationError> =>
+    S.decodeUnknown(schema)(input).pipe(
+      Effect.mapError(RequestValidationError.fromParseError)
+    );
@@ -2,7 +2,8 @@
  * Server Initialization - Effect Layer Composition
  *
  * Composes all Effect layers for the MCP server:
- * ConfigLayer -> TracingLayer -> PatternsLayer -> AppLayer
+ * ConfigLayer -> TracingLayer -> PatternsLayer -> RateLimiterLayer ->
+ * SnippetCheckerLive -> AppLayer
  *
  * This module sets up the runtime and provides a singleton
  * for running Effects in Next.js route handlers.
@@ -10,22 +11,70 @@
 
 import * as path from 'node:path';
 import {
-  loadPatternsFromJsonRunnable,
+  Embedder,
+  type EmbeddingError,
+  HashedEmbedderLive,
+  PATTERNS_INDEX_SCHEMA_VERSION,
   type Pattern,
-  type PatternsIndex,
+  type QuerySearchIndexParams,
+  querySearchIndex,
+  type SearchHit,
+  type SearchMode,
+  type SnippetChecker,
+  SnippetCheckerLive,
 } from '@effect-patterns/toolkit';
-import { Context, Effect, Layer, Ref } from 'effect';
+import { Context, Effect, Layer, ManagedRuntime, Ref, Stream } from 'effect';
+import {
+  MemoryRateLimitStoreLive,
+  makeRateLimiter,
+  parseRateLimitConfig,
+  type RateLimitConfig,
+  RateLimiter,
+  type RateLimitStore,
+} from '../rateLimit/rateLimiter.js';
 import { TracingLayerLive, TracingService } from '../tracing/otlpLayer.js';
+import {
+  buildPatternsSnapshot,
+  loadPatternsSnapshot,
+  type PatternsReloadError,
+  type PatternsSnapshot,
+  type PatternsStatus,
+  toPatternsStatus,
+  watchFiles,
+} from './patternsReloader.js';
+
+/**
+ * A ranked search result paired with its full pattern
+ */
+export interface PatternSearchResult {
+  readonly pattern: Pattern;
+  readonly hit: SearchHit;
+}
 
 /**
- * Patterns service tag - provides in-memory pattern cache
+ * Search parameters accepted by PatternsService
+ */
+export interface PatternSearchParams extends QuerySearchIndexParams {
+  /** Ranking mode (default: 'lexical') */
+  readonly mode?: SearchMode;
+}
+
+/**
+ * Patterns service tag - provides the in-memory pattern snapshot
+ * (patterns plus lexical and embedding search indexes), reloaded when
+ * patterns.json changes or on demand
  */
 export class PatternsService extends Context.Tag('PatternsService')<
   PatternsService,
   {
-    readonly patterns: Ref.Ref<readonly Pattern[]>;
+    readonly snapshot: Ref.Ref<PatternsSnapshot>;
     readonly getAllPatterns: () => Effect.Effect<readonly Pattern[]>;
     readonly getPatternById: (id: string) => Effect.Effect<Pattern | undefined>;
+    readonly searchPatterns: (
+      params: PatternSearchParams
+    ) => Effect.Effect<readonly PatternSearchResult[], EmbeddingError>;
+    readonly getStatus: () => Effect.Effect<PatternsStatus>;
+    readonly reload: () => Effect.Effect<PatternsStatus, PatternsReloadError>;
   }
 >() {}
 
@@ -36,92 +85,264 @@ export class ConfigService extends Context.Tag('ConfigService')<
   ConfigService,
   {
     readonly apiKey: string;
+    readonly apiKeysPath: string;
     readonly patternsPath: string;
+    readonly embeddingsPath: string;
+    readonly watchPatterns: boolean;
+    readonly rateLimits: RateLimitConfig;
     readonly nodeEnv: string;
   }
 >() {}
 
-
 /**
  * Config Layer - Provides environment configuration
  */
-export const ConfigLayer = Layer.succeed(ConfigService, {
-  apiKey: process.env.PATTERN_API_KEY || '',
-  patternsPath:
-    process.env.PATTERNS_PATH ||
-    path.join(process.cwd(), 'data', 'patterns.json'),
-  nodeEnv: process.env.NODE_ENV || 'development',
-});
+const patternsPath =
+  process.env.PATTERNS_PATH ||
+  path.join(process.cwd(), 'data', 'patterns.json');
+
+export const ConfigLayer = Layer.effect(
+  ConfigService,
+  Effect.map(parseRateLimitConfig(process.env), (rateLimits) => ({
+    apiKey: process.env.PATTERN_API_KEY || '',
+    apiKeysPath:
+      process.env.API_KEYS_PATH ||
+      path.join(process.cwd(), 'data', 'api-keys.json'),
+    patternsPath,
+    embeddingsPath:
+      process.env.EMBEDDINGS_PATH ||
+      path.join(path.dirname(patternsPath), 'embeddings.json'),
+    watchPatterns: process.env.PATTERNS_WATCH !== 'false',
+    rateLimits,
+    nodeEnv: process.env.NODE_ENV || 'development',
+  }))
+);
 
 /**
- * Patterns Layer - Loads patterns into memory at startup
+ * Patterns Layer - Loads patterns into memory at startup and keeps
+ * them up to date
  *
- * This layer depends on ConfigLayer to get the patterns file path.
+ * This layer depends on ConfigLayer to get the patterns file path and
+ * on an Embedder to compute (or reuse) per-pattern vectors. While the
+ * layer is alive, changes to patterns.json (or embeddings.json) are
+ * picked up automatically unless PATTERNS_WATCH=false. A reload only
+ * replaces the snapshot if the new file decodes; otherwise the last
+ * good snapshot keeps being served and the error is reported in
+ * `getStatus`.
  */
 export const PatternsLayer = Layer.scoped(
   PatternsService,
   Effect.gen(function* () {
     const config = yield* ConfigService;
+    const embedder = yield* Embedder;
+
+    const loadSnapshot = loadPatternsSnapshot(config).pipe(
+      Effect.provideService(Embedder, embedder)
+    );
 
-    console.log(`[Patterns] Loading patterns from: ${config.patternsPath}`);
-
-    // Load patterns at cold start
-    const patternsIndex = yield* loadPatternsFromJsonRunnable(
-      config.patternsPath
-    ).pipe(
-      Effect.catchAll((error) => {
-        console.error('[Patterns] Failed to load patterns:', error);
-        // Fallback to empty patterns array
-        return Effect.succeed({
-          version: '0.0.0',
-          patterns: [],
-          lastUpdated: new Date().toISOString(),
-        } as PatternsIndex);
-      })
+    yield* Effect.logInfo('Loading patterns').pipe(
+      Effect.annotateLogs({ path: config.patternsPath })
     );
 
-    console.log(`[Patterns] Loaded ${patternsIndex.patterns.length} patterns`);
+    // Load patterns at cold start, falling back to an empty snapshot so
+    // the server can still start (and recover on the next reload)
+    const initial = yield* loadSnapshot.pipe(
+      Effect.catchAll((error) =>
+        Effect.logError('Failed to load patterns').pipe(
+          Effect.annotateLogs({ reason: error.message }),
+          Effect.zipRight(
+            buildPatternsSnapshot({
+              schemaVersion: PATTERNS_INDEX_SCHEMA_VERSION,
+              version: '0.0.0',
+              patterns: [],
+            })
+          ),
+          Effect.provideService(Embedder, embedder),
+          Effect.orDie
+        )
+      )
+    );
+
+    yield* Effect.logInfo('Loaded patterns').pipe(
+      Effect.annotateLogs({ count: initial.patterns.length })
+    );
 
-    // Create Ref to hold patterns in memory
-    const patternsRef = yield* Ref.make(patternsIndex.patterns);
+    const snapshotRef = yield* Ref.make(initial);
+    const lastErrorRef =
+      yield* Ref.make<PatternsStatus['lastError']>(undefined);
+    // Watcher and admin reloads must not build snapshots concurrently
+    const reloadLock = yield* Effect.makeSemaphore(1);
 
     // Create service methods
-    const getAllPatterns = () => Ref.get(patternsRef);
+    const getAllPatterns = () =>
+      Effect.map(Ref.get(snapshotRef), (snapshot) => snapshot.patterns);
 
     const getPatternById = (id: string) =>
       Effect.gen(function* () {
-        const patterns = yield* Ref.get(patternsRef);
+        const { patterns } = yield* Ref.get(snapshotRef);
         return patterns.find((p) => p.id === id);
       });
 
+    // Semantic and hybrid modes need a query; without one every mode
+    // degrades to the lexical index, which lists filtered patterns.
+    // Reading one snapshot keeps hits and patterns consistent even if a
+    // reload happens mid-search.
+    const searchPatterns = ({
+      mode = 'lexical',
+      ...params
+    }: PatternSearchParams) =>
+      Effect.gen(function* () {
+        const snapshot = yield* Ref.get(snapshotRef);
+        const byId = new Map(snapshot.patterns.map((p) => [p.id, p]));
+        const query = params.query?.trim();
+
+        let hits: readonly SearchHit[];
+        if (mode === 'lexical' || !query) {
+          hits = querySearchIndex(snapshot.searchIndex, params);
+        } else {
+          hits =
+            mode === 'semantic'
+              ? yield* snapshot.embeddingIndex.semanticSearch({
+                  ...params,
+                  query,
+                })
+              : yield* snapshot.embeddingIndex.hybridSearch({
+                  ...params,
+                  query,
+                });
+        }
+
+        return hits.flatMap((hit) => {
+          const pattern = byId.get(hit.id);
+          return pattern ? [{ pattern, hit }] : [];
+        });
+      });
+
+    const getStatus = () =>
+      Effect.gen(function* () {
+        const snapshot = yield* Ref.get(snapshotRef);
+        const lastError = yield* Ref.get(lastErrorRef);
+        return lastError
+          ? { ...toPatternsStatus(snapshot), lastError }
+          : toPatternsStatus(snapshot);
+      });
+
+    const reload = () =>
+      reloadLock.withPermits(1)(
+        loadSnapshot.pipe(
+          Effect.tap((snapshot) =>
+            Effect.all([
+              Ref.set(snapshotRef, snapshot),
+              Ref.set(lastErrorRef, undefined),
+              Effect.logInfo('Reloaded patterns').pipe(
+                Effect.annotateLogs({
+                  count: snapshot.patterns.length,
+                  version: snapshot.version,
+                })
+              ),
+            ])
+          ),
+          Effect.tapError((error) =>
+            Effect.all([
+              Ref.set(lastErrorRef, {
+                message: error.message,
+                at: new Date().toISOString(),
+              }),
+              Effect.logError(
+                'Patterns reload failed, keeping previous snapshot'
+              ).pipe(Effect.annotateLogs({ reason: error.message })),
+            ])
+          ),
+          Effect.zipRight(getStatus())
+        )
+      );
+
+    if (config.watchPatterns) {
+      yield* watchFiles([config.patternsPath, config.embeddingsPath]).pipe(
+        Stream.runForEach(() => Effect.ignore(reload())),
+        Effect.catchAll((error) =>
+          Effect.logError('Patterns file watcher stopped').pipe(
+            Effect.annotateLogs({ reason: error.message })
+          )
+        ),
+        Effect.forkScoped
+      );
+    }
+
     return {
-      patterns: patternsRef,
+      snapshot: snapshotRef,
       getAllPatterns,
       getPatternById,
+      searchPatterns,
+      getStatus,
+      reload,
     };
   })
 );
 
+/**
+ * Rate Limiter Layer - Token buckets per API key and IP, configured
+ * from ConfigService
+ */
+export const RateLimiterLayer = Layer.effect(
+  RateLimiter,
+  Effect.flatMap(ConfigService, (config) => makeRateLimiter(config.rateLimits))
+);
+
 /**
  * App Layer - Full application layer composition
  *
- * Composes: Config -> Tracing -> Patterns
- * PatternsLayer depends on ConfigService, so we provide it.
+ * Composes: Config -> Tracing -> Patterns -> RateLimiter -> SnippetChecker
+ * PatternsLayer depends on ConfigService and an Embedder, so we provide
+ * them. Swap EmbedderLayer to plug in a real embedding model (together
+ * with the embedder in scripts/publish/build-index.ts, which writes
+ * embeddings.json), and RateLimitStoreLayer for a store shared between
+ * server instances.
  */
+export const EmbedderLayer: Layer.Layer<Embedder> = HashedEmbedderLive;
+
+export const RateLimitStoreLayer: Layer.Layer<RateLimitStore> =
+  MemoryRateLimitStoreLive;
+
 const BaseLayers = Layer.mergeAll(ConfigLayer, TracingLayerLive);
-const PatternsLayerWithDeps = PatternsLayer.pipe(Layer.provide(ConfigLayer));
-export const AppLayer = Layer.mergeAll(BaseLayers, PatternsLayerWithDeps);
+const PatternsLayerWithDeps = PatternsLayer.pipe(
+  Layer.provide(Layer.merge(ConfigLayer, EmbedderLayer))
+);
+const RateLimiterLayerWithDeps = RateLimiterLayer.pipe(
+  Layer.provide(Layer.merge(ConfigLayer, RateLimitStoreLayer))
+);
+export const AppLayer = Layer.mergeAll(
+  BaseLayers,
+  PatternsLayerWithDeps,
+  RateLimiterLayerWithDeps,
+  SnippetCheckerLive
+);
+
+/**
+ * App runtime - builds AppLayer once per server process
+ *
+ * Layers are shared across requests, so the patterns snapshot (and its
+ * file watcher) survives between requests and reloads are visible to
+ * every route.
+ */
+const appRuntime = ManagedRuntime.make(AppLayer);
+
+/**
+ * Services available to route Effects
+ */
+export type AppServices =
+  | PatternsService
+  | ConfigService
+  | TracingService
+  | RateLimiter
+  | SnippetChecker;
 
 /**
  * Helper to run an Effect with the app runtime
  *
- * Use this in Next.js route handlers to execute Effects.
- * This provides all layers to the effect before running it.
+ * Route handlers use `handleRoute`, which calls this and maps failures
+ * to problem+json responses.
  */
 export const runWithRuntime = <A, E>(
-  effect: Effect.Effect<A, E, PatternsService | ConfigService | TracingService>
-): Promise<A> =>
-  effect.pipe(
-    Effect.provide(AppLayer),
-    Effect.runPromise
-  );
+  effect: Effect.Effect<A, E, AppServices>
+): Promise<A> => appRuntime.runPromise(effect);
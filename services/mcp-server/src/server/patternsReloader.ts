@@ -0,0 +1,194 @@
+/**
+ * Patterns Reloader
+ *
+ * Loads patterns.json into an immutable snapshot (patterns plus their
+ * lexical and embedding search indexes) and watches the data files so
+ * PatternsService can swap in a new snapshot without a cold start.
+ */
+
+import * as path from 'node:path';
+import { FileSystem } from '@effect/platform/FileSystem';
+import { layer as NodeFileSystemLayer } from '@effect/platform-node/NodeFileSystem';
+import {
+  buildSearchIndex,
+  type Embedder,
+  type EmbeddingIndex,
+  loadEmbeddingsFromJsonRunnable,
+  loadPatternsFromJsonRunnable,
+  makeEmbeddingIndex,
+  type Pattern,
+  type PatternsIndex,
+  type SearchIndex,
+} from '@effect-patterns/toolkit';
+import { type Context, Effect, Option, Stream } from 'effect';
+
+/**
+ * Quiet period after the last file event before reloading, so editors
+ * and deploy scripts that write in several steps trigger one reload
+ */
+const WATCH_DEBOUNCE = '250 millis';
+
+/**
+ * A fully built, validated set of patterns and their search indexes
+ *
+ * Snapshots are never mutated; a reload builds a new one and swaps it
+ * in, so readers always see a consistent set.
+ */
+export interface PatternsSnapshot {
+  readonly version: string;
+  readonly lastUpdated: string | undefined;
+  /** When this snapshot was built (ISO 8601) */
+  readonly loadedAt: string;
+  readonly patterns: readonly Pattern[];
+  readonly searchIndex: SearchIndex;
+  readonly embeddingIndex: Context.Tag.Service<EmbeddingIndex>;
+}
+
+/**
+ * Public view of the loaded snapshot, reported by /api/health
+ */
+export interface PatternsStatus {
+  readonly version: string;
+  readonly lastUpdated: string | undefined;
+  readonly loadedAt: string;
+  readonly count: number;
+  /** Most recent failed reload, cleared by the next successful one */
+  readonly lastError?: {
+    readonly message: string;
+    readonly at: string;
+  };
+}
+
+/**
+ * Paths read when building a snapshot
+ */
+export interface PatternsSource {
+  readonly patternsPath: string;
+  readonly embeddingsPath: string;
+}
+
+/**
+ * Patterns reload error - the new data was not loaded and the previous
+ * snapshot is still being served
+ */
+export class PatternsReloadError extends Error {
+  readonly _tag = 'PatternsReloadError';
+
+  constructor(
+    message: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'PatternsReloadError';
+  }
+}
+
+/**
+ * Build a snapshot from an already decoded patterns index
+ *
+ * @param index - Validated patterns index
+ * @param embeddingsPath - Precomputed vectors to reuse if present
+ */
+export const buildPatternsSnapshot = (
+  index: PatternsIndex,
+  embeddingsPath?: string
+) =>
+  Effect.gen(function* () {
+    const searchIndex = buildSearchIndex(index.patterns);
+
+    const precomputed = embeddingsPath
+      ? yield* loadEmbeddingsFromJsonRunnable(embeddingsPath).pipe(
+          Effect.option
+        )
+      : Option.none();
+
+    const embeddingIndex = yield* makeEmbeddingIndex(index.patterns, {
+      lexicalIndex: searchIndex,
+      precomputed: Option.getOrUndefined(precomputed),
+    });
+
+    const snapshot: PatternsSnapshot = {
+      version: index.version ?? '0.0.0',
+      lastUpdated: index.lastUpdated,
+      loadedAt: new Date().toISOString(),
+      patterns: index.patterns,
+      searchIndex,
+      embeddingIndex,
+    };
+
+    return snapshot;
+  });
+
+/**
+ * Load, validate and index patterns.json
+ *
+ * Fails without side effects if the file is missing, is not valid JSON
+ * or does not decode as a `PatternsIndex`.
+ *
+ * @param source - Patterns and embeddings file paths
+ * @returns Effect yielding a new snapshot, requiring an `Embedder`
+ */
+export const loadPatternsSnapshot = (
+  source: PatternsSource
+): Effect.Effect<PatternsSnapshot, PatternsReloadError, Embedder> =>
+  loadPatternsFromJsonRunnable(source.patternsPath).pipe(
+    Effect.flatMap((index) =>
+      buildPatternsSnapshot(index, source.embeddingsPath)
+    ),
+    Effect.mapError(
+      (error) =>
+        new PatternsReloadError(
+          `Failed to load ${source.patternsPath}: ${error.message}`,
+          error
+        )
+    )
+  );
+
+/**
+ * Summarize a snapshot for status reporting
+ */
+export const toPatternsStatus = (
+  snapshot: PatternsSnapshot
+): PatternsStatus => ({
+  version: snapshot.version,
+  lastUpdated: snapshot.lastUpdated,
+  loadedAt: snapshot.loadedAt,
+  count: snapshot.patterns.length,
+});
+
+/**
+ * Stream of (debounced) change notifications for the given files
+ *
+ * Watches the containing directories rather than the files themselves,
+ * so files replaced by rename (atomic writes, deploys) keep being
+ * watched.
+ *
+ * @param filePaths - Files to watch
+ * @returns Stream emitting once per burst of changes
+ */
+export const watchFiles = (
+  filePaths: readonly string[]
+): Stream.Stream<void, PatternsReloadError> => {
+  const byDirectory = new Map<string, Set<string>>();
+  for (const filePath of filePaths) {
+    const directory = path.dirname(filePath);
+    const names = byDirectory.get(directory) ?? new Set<string>();
+    names.add(path.basename(filePath));
+    byDirectory.set(directory, names);
+  }
+
+  const streams = [...byDirectory].map(([directory, names]) =>
+    Stream.unwrap(Effect.map(FileSystem, (fs) => fs.watch(directory))).pipe(
+      Stream.filter((event) => names.has(path.basename(event.path)))
+    )
+  );
+
+  return Stream.mergeAll(streams, { concurrency: 'unbounded' }).pipe(
+    Stream.debounce(WATCH_DEBOUNCE),
+    Stream.as(undefined),
+    Stream.provideLayer(NodeFileSystemLayer),
+    Stream.mapError(
+      (error) => new PatternsReloadError(`File watch failed: ${error}`, error)
+    )
+  );
+};
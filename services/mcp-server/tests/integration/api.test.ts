@@ -46,6 +46,15 @@ describe('MCP Server API Integration Tests', () => {
       expect(data.timestamp).toBeDefined();
     });
 
+    it('should report the loaded patterns snapshot', async () => {
+      const response = await fetch(`${BASE_URL}/api/health`);
+      const data = await response.json();
+
+      expect(data.patterns.version).toBeDefined();
+      expect(data.patterns.loadedAt).toBeDefined();
+      expect(data.patterns.count).toBeGreaterThan(0);
+    });
+
     it('should include trace ID in response', async () => {
       const response = await fetch(`${BASE_URL}/api/health`);
       const data = await response.json();
@@ -198,7 +207,7 @@ describe('MCP Server API Integration Tests', () => {
 
     it('should return full pattern by ID', async () => {
       const response = await fetch(
-        `${BASE_URL}/api/patterns/retry-with-backoff`,
+        `${BASE_URL}/api/patterns/handle-flaky-operations-with-retry-timeout`,
         {
           headers: { 'x-api-key': API_KEY },
         }
@@ -208,7 +217,9 @@ describe('MCP Server API Integration Tests', () => {
         const data = await response.json();
 
         expect(data.pattern).toBeDefined();
-        expect(data.pattern.id).toBe('retry-with-backoff');
+        expect(data.pattern.id).toBe(
+          'handle-flaky-operations-with-retry-timeout'
+        );
         expect(data.pattern.examples).toBeDefined();
         expect(Array.isArray(data.pattern.examples)).toBe(true);
         expect(data.traceId).toBeDefined();
@@ -231,7 +242,7 @@ describe('MCP Server API Integration Tests', () => {
 
     it('should include trace ID', async () => {
       const response = await fetch(
-        `${BASE_URL}/api/patterns/retry-with-backoff`,
+        `${BASE_URL}/api/patterns/handle-flaky-operations-with-retry-timeout`,
         {
           headers: { 'x-api-key': API_KEY },
         }
@@ -252,7 +263,9 @@ describe('MCP Server API Integration Tests', () => {
       const response = await fetch(`${BASE_URL}/api/generate`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ patternId: 'retry-with-backoff' }),
+        body: JSON.stringify({
+          patternId: 'handle-flaky-operations-with-retry-timeout',
+        }),
       });
 
       expect(response.status).toBe(401);
@@ -266,14 +279,16 @@ describe('MCP Server API Integration Tests', () => {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          patternId: 'retry-with-backoff',
+          patternId: 'handle-flaky-operations-with-retry-timeout',
         }),
       });
 
       if (response.status === 200) {
         const data = await response.json();
 
-        expect(data.patternId).toBe('retry-with-backoff');
+        expect(data.patternId).toBe(
+          'handle-flaky-operations-with-retry-timeout'
+        );
         expect(data.title).toBeDefined();
         expect(data.snippet).toBeDefined();
         expect(typeof data.snippet).toBe('string');
@@ -294,7 +309,7 @@ describe('MCP Server API Integration Tests', () => {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          patternId: 'retry-with-backoff',
+          patternId: 'handle-flaky-operations-with-retry-timeout',
           name: 'myRetryHandler',
         }),
       });
@@ -313,7 +328,7 @@ describe('MCP Server API Integration Tests', () => {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          patternId: 'retry-with-backoff',
+          patternId: 'handle-flaky-operations-with-retry-timeout',
           moduleType: 'cjs',
         }),
       });
@@ -353,6 +368,12 @@ describe('MCP Server API Integration Tests', () => {
       });
 
       expect(response.status).toBe(400);
+
+      const data = await response.json();
+      expect(data.type).toBe('/problems/v1/invalid-request');
+      expect(data.errors).toContainEqual(
+        expect.objectContaining({ pointer: '#/patternId' })
+      );
     });
 
     it('should include trace ID', async () => {
@@ -363,7 +384,7 @@ describe('MCP Server API Integration Tests', () => {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          patternId: 'retry-with-backoff',
+          patternId: 'handle-flaky-operations-with-retry-timeout',
         }),
       });
 
@@ -436,6 +457,31 @@ describe('MCP Server API Integration Tests', () => {
     });
   });
 
+  describe('POST /api/admin/reload', () => {
+    it('should require authentication', async () => {
+      const response = await fetch(`${BASE_URL}/api/admin/reload`, {
+        method: 'POST',
+      });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should reload patterns and return the new snapshot', async () => {
+      const response = await fetch(`${BASE_URL}/api/admin/reload`, {
+        method: 'POST',
+        headers: { 'x-api-key': API_KEY },
+      });
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.ok).toBe(true);
+      expect(data.patterns.count).toBeGreaterThan(0);
+
+      const health = await (await fetch(`${BASE_URL}/api/health`)).json();
+      expect(health.patterns.loadedAt).toBe(data.patterns.loadedAt);
+    });
+  });
+
   describe('Authentication', () => {
     it('should reject requests with invalid API key', async () => {
       const response = await fetch(`${BASE_URL}/api/patterns`, {
@@ -520,16 +566,30 @@ describe('MCP Server API Integration Tests', () => {
       // For now, just verify error response structure
     });
 
-    it('should include error message in response', async () => {
+    it('should return RFC 7807 problem details', async () => {
       const response = await fetch(`${BASE_URL}/api/patterns/nonexistent`, {
         headers: { 'x-api-key': API_KEY },
       });
 
-      if (response.status === 404) {
-        const data = await response.json();
-        expect(data.error).toBeDefined();
-        expect(typeof data.error).toBe('string');
-      }
+      expect(response.status).toBe(404);
+      expect(response.headers.get('content-type')).toContain(
+        'application/problem+json'
+      );
+
+      const data = await response.json();
+      expect(data.type).toBe('/problems/v1/pattern-not-found');
+      expect(data.status).toBe(404);
+      expect(typeof data.detail).toBe('string');
+      expect(data.instance).toBe('/api/patterns/nonexistent');
+    });
+
+    it('should return problem details for authentication errors', async () => {
+      const response = await fetch(`${BASE_URL}/api/patterns`);
+
+      expect(response.status).toBe(401);
+
+      const data = await response.json();
+      expect(data.type).toBe('/problems/v1/unauthorized');
     });
   });
 });
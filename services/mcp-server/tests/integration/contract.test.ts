@@ -0,0 +1,136 @@
+/**
+ * OpenAPI Contract Tests
+ *
+ * Sends representative requests to every documented MCP server route
+ * and fails when a response's status or body drifts from the OpenAPI
+ * document served at /api/openapi.json.
+ */
+
+import { checkResponseContract } from '@effect-patterns/toolkit';
+import { describe, expect, it } from 'vitest';
+
+const BASE_URL = process.env.TEST_BASE_URL || 'http://localhost:3000';
+const API_KEY = process.env.PATTERN_API_KEY || 'test-api-key';
+
+const authHeaders = {
+  'x-api-key': API_KEY,
+  'content-type': 'application/json',
+};
+
+const cases: Array<{
+  readonly name: string;
+  readonly method: 'GET' | 'POST';
+  readonly path: string;
+  readonly headers?: Record<string, string>;
+  readonly body?: unknown;
+}> = [
+  { name: 'health', method: 'GET', path: '/api/health' },
+  { name: 'openapi document', method: 'GET', path: '/api/openapi.json' },
+  {
+    name: 'search',
+    method: 'GET',
+    path: '/api/patterns?q=retry&limit=2',
+    headers: authHeaders,
+  },
+  {
+    name: 'invalid search',
+    method: 'GET',
+    path: '/api/patterns?limit=ten',
+    headers: authHeaders,
+  },
+  { name: 'unauthenticated search', method: 'GET', path: '/api/patterns' },
+  {
+    name: 'pattern',
+    method: 'GET',
+    path: '/api/patterns/handle-flaky-operations-with-retry-timeout',
+    headers: authHeaders,
+  },
+  {
+    name: 'missing pattern',
+    method: 'GET',
+    path: '/api/patterns/nonexistent-pattern',
+    headers: authHeaders,
+  },
+  {
+    name: 'explain',
+    method: 'POST',
+    path: '/api/explain',
+    headers: authHeaders,
+    body: { patternId: 'handle-flaky-operations-with-retry-timeout' },
+  },
+  {
+    name: 'generate',
+    method: 'POST',
+    path: '/api/generate',
+    headers: authHeaders,
+    body: { patternId: 'handle-flaky-operations-with-retry-timeout' },
+  },
+  {
+    name: 'generate with companion test',
+    method: 'POST',
+    path: '/api/generate',
+    headers: authHeaders,
+    body: {
+      patternId: 'handle-flaky-operations-with-retry-timeout',
+      includeTest: true,
+    },
+  },
+  {
+    name: 'generate requiring compiles',
+    method: 'POST',
+    path: '/api/generate',
+    headers: authHeaders,
+    body: {
+      patternId: 'handle-flaky-operations-with-retry-timeout',
+      requireCompiles: true,
+    },
+  },
+  {
+    name: 'missing example',
+    method: 'POST',
+    path: '/api/generate',
+    headers: authHeaders,
+    body: {
+      patternId: 'handle-flaky-operations-with-retry-timeout',
+      exampleIndex: 99,
+    },
+  },
+  {
+    name: 'invalid generate',
+    method: 'POST',
+    path: '/api/generate',
+    headers: authHeaders,
+    body: { moduleType: 'amd' },
+  },
+  {
+    name: 'trace wiring',
+    method: 'GET',
+    path: '/api/trace-wiring',
+    headers: authHeaders,
+  },
+  { name: 'unauthenticated reload', method: 'POST', path: '/api/admin/reload' },
+];
+
+describe('OpenAPI contract', () => {
+  for (const testCase of cases) {
+    it(`${testCase.method} ${testCase.path} (${testCase.name})`, async () => {
+      const response = await fetch(`${BASE_URL}${testCase.path}`, {
+        method: testCase.method,
+        headers: testCase.headers,
+        body:
+          testCase.body === undefined
+            ? undefined
+            : JSON.stringify(testCase.body),
+      });
+
+      const violation = checkResponseContract({
+        method: testCase.method,
+        path: new URL(testCase.path, BASE_URL).pathname,
+        status: response.status,
+        body: await response.json(),
+      });
+
+      expect(violation).toBeUndefined();
+    });
+  }
+});